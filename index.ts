@@ -1,11 +1,38 @@
 import { pubSubService } from './src/utils/pubsub'
+import { routeCache } from './src/utils/routeCache'
 import { WorkerPool } from './src/workers/workerPool'
 import express from 'express'
 import findRideRouter from './src/routes/findRide'
 import { rideWebSocketHandler, type WsData } from './src/routes/findRide'
+import { driverWebSocketHandler, type DriverWsData } from './src/routes/driverChannel'
+import { driverDispatch } from './src/utils/driverDispatch'
+import { tripReconciler } from './src/utils/tripReconciler'
+import { matchExpiry } from './src/utils/matchExpiry'
+import { soloOffers } from './src/utils/soloOffers'
+import { fleetCapacity } from './src/utils/fleet'
+import { scheduledRides } from './src/utils/scheduledRides'
+import { boarding } from './src/utils/boarding'
+import { cabLocations } from './src/utils/cabLocation'
+import { cabSelection } from './src/utils/cabSelection'
 import signupRouter from './src/routes/signup'
 import startRideRouter from './src/routes/startRide'
 import cancelRideRouter from './src/routes/cancelRide'
+import authRouter from './src/routes/auth'
+import airportsRouter from './src/routes/airports'
+import preferencesRouter from './src/routes/preferences'
+import partyRouter from './src/routes/party'
+import scheduledRidesRouter from './src/routes/scheduledRides'
+import reliabilityRouter from './src/routes/reliability'
+import cabLocationRouter from './src/routes/cabLocation'
+import driverRouter from './src/routes/driver'
+import adminRouter from './src/routes/admin'
+import geoRouter from './src/routes/geo'
+import { airportRegistry } from './src/utils/airports'
+import { fareEngine } from './src/pricing/fareEngine'
+import { fareQuotes } from './src/pricing/quotes'
+import { redisService } from './src/utils/redisClient'
+import { verifyToken, extractBearerToken, AuthError } from './src/utils/auth'
+import type { ServerWebSocket } from 'bun'
 
 const app = express()
 app.use(express.json())
@@ -19,10 +46,44 @@ async function main() {
     //    (used for WebSocket subscription management)
     await pubSubService.connect()
 
+    //    Route cache (REGISTER_RIDE route generation runs on the main thread)
+    await routeCache.connect()
+
+    //    Airports / terminals (pickup points, pools) and pricing rules
+    await airportRegistry.load()
+    await fareEngine.load()
+    await fleetCapacity.load()
+
+    //    Pool reads on the main thread (surge demand, quote wait estimates)
+    await redisService.connect()
+    await fareQuotes.connect()
+    await soloOffers.connect()
+    await fleetCapacity.connect()
+
+    //    Live cab positions (driver GPS pings arrive on the main thread)
+    await cabLocations.connect()
+    await cabSelection.connect()
+
+    //    Driver dispatch (trip offers + timeouts live on the main thread)
+    await driverDispatch.init()
+
     // 2. Initialize the worker pool
     //    Each worker gets its own Redis connection in its thread
     await rideMatchingPool.init()
 
+    // 3. Repair Redis ↔ Postgres trip divergence now and periodically,
+    //    and re-deliver undelivered match events
+    await tripReconciler.start()
+
+    // 4. Expire riders (and trips) that waited too long in the pools
+    matchExpiry.start()
+
+    // 5. Release pre-booked pickups into the pools as their flights land
+    scheduledRides.start()
+
+    // 6. Remove riders who miss their cab's boarding deadline
+    boarding.start()
+
     console.log(`\n🚀 Server started with ${rideMatchingPool.size} worker threads for ride matching`)
     console.log(`   CPU-intensive ride matching is offloaded to worker threads`)
     console.log(`   Main thread handles HTTP, WebSocket, and PubSub only\n`)
@@ -30,16 +91,28 @@ async function main() {
 main()
 
 // ── HTTP Server (Express) on port 3000 ──
+app.use('/auth', authRouter)
 app.use('/find-ride', findRideRouter)
 app.use('/signup', signupRouter)
 app.use('/ride', startRideRouter)
 app.use('/cancel-ride', cancelRideRouter)
+app.use('/airports', airportsRouter)
+app.use('/preferences', preferencesRouter)
+app.use('/party', partyRouter)
+app.use('/scheduled-rides', scheduledRidesRouter)
+app.use('/reliability', reliabilityRouter)
+app.use('/cab-location', cabLocationRouter)
+app.use('/driver', driverRouter)
+app.use('/admin', adminRouter)
+app.use('/geo', geoRouter)
 
 app.get('/', async (req, res) => {
     res.json({
         status: 'ok',
         workers: rideMatchingPool.size,
-        pendingTasks: rideMatchingPool.pendingCount
+        pendingTasks: rideMatchingPool.pendingCount,
+        routeCache: await routeCache.getStats(),
+        fleet: await fleetCapacity.snapshot()
     })
 })
 
@@ -48,33 +121,71 @@ app.listen(3000, () => {
 })
 
 // ── WebSocket Server (Bun native) on port 3001 ──
-const wsServer = Bun.serve({
+type SocketData = (WsData & { role: 'user' }) | (DriverWsData & { role: 'driver' })
+
+const wsServer = Bun.serve<SocketData>({
     port: 3001,
     fetch(req, server) {
         const url = new URL(req.url)
 
         if (url.pathname === '/ws') {
-            const userId = url.searchParams.get('userId')
+            // Browsers cannot set headers on a WebSocket handshake, so the
+            // access token may come from ?token= as well as Authorization
+            const token = url.searchParams.get('token') ?? extractBearerToken(req.headers.get('authorization'))
 
-            if (!userId) {
+            if (!token) {
                 return new Response(
-                    JSON.stringify({ error: 'Missing userId query parameter' }),
-                    { status: 400, headers: { 'Content-Type': 'application/json' } }
+                    JSON.stringify({ error: 'Missing access token (?token= or Authorization: Bearer)' }),
+                    { status: 401, headers: { 'Content-Type': 'application/json' } }
                 )
             }
 
-            const upgraded = server.upgrade(req, {
-                data: { userId } as WsData
-            })
+            // Riders and drivers share the endpoint; the token role picks the channel
+            let data: SocketData
+            try {
+                const claims = verifyToken(token, 'access')
+                if (claims.role === 'admin') {
+                    return new Response(
+                        JSON.stringify({ error: 'Admin tokens have no WebSocket channel — use the /admin endpoints' }),
+                        { status: 403, headers: { 'Content-Type': 'application/json' } }
+                    )
+                }
+                data = claims.role === 'driver'
+                    ? { role: 'driver', driverId: claims.sub }
+                    : { role: 'user', userId: claims.sub }
+            } catch (err) {
+                return new Response(
+                    JSON.stringify({ error: err instanceof AuthError ? err.message : 'Invalid token' }),
+                    { status: 401, headers: { 'Content-Type': 'application/json' } }
+                )
+            }
+
+            const upgraded = server.upgrade(req, { data })
 
             if (upgraded) return undefined
 
             return new Response('WebSocket upgrade failed', { status: 500 })
         }
 
-        return new Response('WebSocket server — connect to /ws?userId=<id>', { status: 200 })
+        return new Response('WebSocket server — connect to /ws?token=<access_token>', { status: 200 })
+    },
+    websocket: {
+        open(ws: ServerWebSocket<SocketData>) {
+            return ws.data.role === 'driver'
+                ? driverWebSocketHandler.open(ws as ServerWebSocket<DriverWsData & { role: 'driver' }>)
+                : rideWebSocketHandler.open(ws as ServerWebSocket<WsData & { role: 'user' }>)
+        },
+        message(ws: ServerWebSocket<SocketData>, message: string | Buffer) {
+            return ws.data.role === 'driver'
+                ? driverWebSocketHandler.message(ws as ServerWebSocket<DriverWsData & { role: 'driver' }>, message)
+                : rideWebSocketHandler.message(ws as ServerWebSocket<WsData & { role: 'user' }>, message)
+        },
+        close(ws: ServerWebSocket<SocketData>, code: number, reason: string) {
+            return ws.data.role === 'driver'
+                ? driverWebSocketHandler.close(ws as ServerWebSocket<DriverWsData & { role: 'driver' }>, code, reason)
+                : rideWebSocketHandler.close(ws as ServerWebSocket<WsData & { role: 'user' }>, code, reason)
+        },
     },
-    websocket: rideWebSocketHandler,
 })
 
 console.log(`WebSocket server running on ws://localhost:${wsServer.port}/ws`)
@@ -82,8 +193,18 @@ console.log(`WebSocket server running on ws://localhost:${wsServer.port}/ws`)
 // ── Graceful Shutdown ──
 const shutdown = async () => {
     console.log('\nShutting down gracefully...')
+    tripReconciler.stop()
+    matchExpiry.stop()
+    scheduledRides.stop()
+    boarding.stop()
     await rideMatchingPool.terminate()
     await pubSubService.disconnect()
+    await routeCache.disconnect()
+    await fareQuotes.disconnect()
+    await soloOffers.disconnect()
+    await fleetCapacity.disconnect()
+    await cabLocations.disconnect()
+    await cabSelection.disconnect()
     wsServer.stop()
     process.exit(0)
 }
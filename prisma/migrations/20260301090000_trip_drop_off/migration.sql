@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "RideRequests" ADD COLUMN     "destination_h3" TEXT,
+ADD COLUMN     "drop_order" INTEGER,
+ADD COLUMN     "dropped_off_at" TIMESTAMP(3),
+ADD COLUMN     "picked_up_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Trips" ADD COLUMN     "completed_at" TIMESTAMP(3),
+ADD COLUMN     "started_at" TIMESTAMP(3);
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "RideRequests" ADD COLUMN     "airport_code" TEXT,
+ADD COLUMN     "terminal_code" TEXT;
+
+-- AlterTable
+ALTER TABLE "Trips" ADD COLUMN     "airport_code" TEXT;
+
+-- CreateTable
+CREATE TABLE "Airports" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "pickup_lat" DOUBLE PRECISION NOT NULL,
+    "pickup_lng" DOUBLE PRECISION NOT NULL,
+    "cost_per_km" INTEGER NOT NULL DEFAULT 10,
+    "match_discount" DOUBLE PRECISION NOT NULL DEFAULT 0.7,
+    "max_pool_passengers" INTEGER NOT NULL DEFAULT 3,
+    "max_pool_luggage" INTEGER NOT NULL DEFAULT 4,
+
+    CONSTRAINT "Airports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Terminals" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "pickup_lat" DOUBLE PRECISION NOT NULL,
+    "pickup_lng" DOUBLE PRECISION NOT NULL,
+    "pool_group" TEXT NOT NULL,
+    "airport_id" TEXT NOT NULL,
+
+    CONSTRAINT "Terminals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Airports_code_key" ON "Airports"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Terminals_airport_id_code_key" ON "Terminals"("airport_id", "code");
+
+-- AddForeignKey
+ALTER TABLE "Terminals" ADD CONSTRAINT "Terminals_airport_id_fkey" FOREIGN KEY ("airport_id") REFERENCES "Airports"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Airports" DROP COLUMN "cost_per_km",
+DROP COLUMN "match_discount",
+ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- AlterTable
+ALTER TABLE "RideRequests" ADD COLUMN     "fare_breakdown" JSONB,
+ADD COLUMN     "pricing_version" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PricingRules" (
+    "id" TEXT NOT NULL,
+    "airport_code" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "effective_from" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "base_fare" INTEGER NOT NULL DEFAULT 50,
+    "per_km" DOUBLE PRECISION NOT NULL DEFAULT 10,
+    "per_minute" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "min_fare" INTEGER NOT NULL DEFAULT 100,
+    "free_luggage_items" INTEGER NOT NULL DEFAULT 2,
+    "luggage_fee_per_item" INTEGER NOT NULL DEFAULT 25,
+    "night_start_hour" INTEGER NOT NULL DEFAULT 23,
+    "night_end_hour" INTEGER NOT NULL DEFAULT 5,
+    "night_multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1.25,
+    "surge_demand_ratio" DOUBLE PRECISION NOT NULL DEFAULT 1.5,
+    "surge_step" DOUBLE PRECISION NOT NULL DEFAULT 0.25,
+    "surge_max_multiplier" DOUBLE PRECISION NOT NULL DEFAULT 2,
+    "share_discount_per_co_rider" DOUBLE PRECISION NOT NULL DEFAULT 0.3,
+    "share_discount_max" DOUBLE PRECISION NOT NULL DEFAULT 0.45,
+    "detour_discount_per_km" DOUBLE PRECISION NOT NULL DEFAULT 0.02,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PricingRules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PricingRules_airport_code_version_key" ON "PricingRules"("airport_code", "version");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "TripOutbox" (
+    "id" TEXT NOT NULL,
+    "trip_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processed_at" TIMESTAMP(3),
+
+    CONSTRAINT "TripOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TripOutbox_processed_at_created_at_idx" ON "TripOutbox"("processed_at", "created_at");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Users" ADD COLUMN     "pref_women_only" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pref_max_co_riders" INTEGER,
+ADD COLUMN     "pref_no_join_after_start" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pref_quiet_ride" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pref_min_co_rider_age" INTEGER,
+ADD COLUMN     "pref_max_co_rider_age" INTEGER;
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "CabTypes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "max_passengers" INTEGER NOT NULL,
+    "max_luggage" INTEGER NOT NULL,
+
+    CONSTRAINT "CabTypes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CabTypes_code_key" ON "CabTypes"("code");
\ No newline at end of file
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "RideRequests" ADD COLUMN     "party_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "Parties" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "fare_split" TEXT NOT NULL DEFAULT 'EQUAL',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leader_id" TEXT NOT NULL,
+
+    CONSTRAINT "Parties_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PartyMembers" (
+    "id" TEXT NOT NULL,
+    "no_of_passengers" INTEGER NOT NULL DEFAULT 1,
+    "luggage" INTEGER NOT NULL DEFAULT 0,
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "party_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "PartyMembers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Parties_code_key" ON "Parties"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartyMembers_party_id_user_id_key" ON "PartyMembers"("party_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "RideRequests" ADD CONSTRAINT "RideRequests_party_id_fkey" FOREIGN KEY ("party_id") REFERENCES "Parties"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Parties" ADD CONSTRAINT "Parties_leader_id_fkey" FOREIGN KEY ("leader_id") REFERENCES "Users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PartyMembers" ADD CONSTRAINT "PartyMembers_party_id_fkey" FOREIGN KEY ("party_id") REFERENCES "Parties"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PartyMembers" ADD CONSTRAINT "PartyMembers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "Users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
\ No newline at end of file
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "ScheduledRides" (
+    "id" TEXT NOT NULL,
+    "flight_number" TEXT NOT NULL,
+    "scheduled_arrival" TIMESTAMP(3) NOT NULL,
+    "estimated_arrival" TIMESTAMP(3) NOT NULL,
+    "flight_status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "airport_code" TEXT NOT NULL,
+    "terminal_code" TEXT NOT NULL,
+    "no_of_passengers" INTEGER NOT NULL,
+    "luggage" INTEGER NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "route_prefix" TEXT NOT NULL,
+    "fare_breakdown" JSONB NOT NULL,
+    "prematch_group" TEXT,
+    "released_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "ScheduledRides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledRides_status_estimated_arrival_idx" ON "ScheduledRides"("status", "estimated_arrival");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledRides" ADD CONSTRAINT "ScheduledRides_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "Users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
\ No newline at end of file
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "RideRequests" ADD COLUMN     "checked_in_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Trips" ADD COLUMN     "boarding_deadline" TIMESTAMP(3),
+ADD COLUMN     "pickup_bay" TEXT;
+
+-- CreateTable
+CREATE TABLE "PickupBays" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "terminal_id" TEXT NOT NULL,
+
+    CONSTRAINT "PickupBays_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PickupBays_terminal_id_code_key" ON "PickupBays"("terminal_id", "code");
+
+-- AddForeignKey
+ALTER TABLE "PickupBays" ADD CONSTRAINT "PickupBays_terminal_id_fkey" FOREIGN KEY ("terminal_id") REFERENCES "Terminals"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
\ No newline at end of file
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "Penalties" (
+    "id" TEXT NOT NULL,
+    "policy" TEXT NOT NULL,
+    "fee" INTEGER NOT NULL,
+    "trip_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "Penalties_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Penalties_user_id_created_at_idx" ON "Penalties"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "Penalties" ADD CONSTRAINT "Penalties_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "Users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Airports" ADD COLUMN     "dispatch_policy" TEXT NOT NULL DEFAULT 'PROXIMITY';
+
+-- AlterTable
+ALTER TABLE "Cabs" ADD COLUMN     "idle_since" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
\ No newline at end of file
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "Cabs" ALTER COLUMN "status" SET DEFAULT 'OFFLINE';
+
+-- Free cabs have no open shift yet: their drivers go online again
+UPDATE "Cabs" SET "status" = 'OFFLINE' WHERE "status" = 'AVAILABLE';
+
+-- CreateTable
+CREATE TABLE "Shifts" (
+    "id" TEXT NOT NULL,
+    "driver_id" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ended_at" TIMESTAMP(3),
+    "cab_id" TEXT NOT NULL,
+
+    CONSTRAINT "Shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CabStatusChanges" (
+    "id" TEXT NOT NULL,
+    "from_status" TEXT NOT NULL,
+    "to_status" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "trip_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cab_id" TEXT NOT NULL,
+
+    CONSTRAINT "CabStatusChanges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shifts_cab_id_started_at_idx" ON "Shifts"("cab_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "CabStatusChanges_cab_id_created_at_idx" ON "CabStatusChanges"("cab_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "Shifts" ADD CONSTRAINT "Shifts_cab_id_fkey" FOREIGN KEY ("cab_id") REFERENCES "Cabs"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CabStatusChanges" ADD CONSTRAINT "CabStatusChanges_cab_id_fkey" FOREIGN KEY ("cab_id") REFERENCES "Cabs"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
\ No newline at end of file
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Admins" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Admins_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AdminActions" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "target_id" TEXT NOT NULL,
+    "reason" TEXT,
+    "details" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "admin_id" TEXT NOT NULL,
+
+    CONSTRAINT "AdminActions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Admins_email_key" ON "Admins"("email");
+
+-- CreateIndex
+CREATE INDEX "AdminActions_created_at_idx" ON "AdminActions"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "AdminActions" ADD CONSTRAINT "AdminActions_admin_id_fkey" FOREIGN KEY ("admin_id") REFERENCES "Admins"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
\ No newline at end of file
@@ -1,66 +1,106 @@
 import { prisma } from '../lib/prisma'
+import { hashPassword } from '../src/utils/auth'
 
 /**
- * Seed the database with initial users, drivers, and cabs.
+ * Seed the database with airports, pricing rules, users, drivers, admins, and cabs.
  *
  * Idempotent — uses upsert so it can be run multiple times safely.
  * All data is realistic for a Delhi airport cab-pooling scenario.
+ *
+ * Passwords below are the plaintext login credentials; they are hashed
+ * before being stored (re-running the seed re-hashes legacy rows).
  */
 async function main() {
     console.log(' Seeding database...\n')
 
     // ── Users (fixed IDs for easy testing) ──
     const users = [
-        { id: 'user-001', name: 'Aarav Sharma', email: 'aarav.sharma@gmail.com', password: 'hashed_password_1', gender: 'Male', age: 28 },
-        { id: 'user-002', name: 'Priya Patel', email: 'priya.patel@gmail.com', password: 'hashed_password_2', gender: 'Female', age: 25 },
-        { id: 'user-003', name: 'Rohan Gupta', email: 'rohan.gupta@gmail.com', password: 'hashed_password_3', gender: 'Male', age: 32 },
-        { id: 'user-004', name: 'Ananya Singh', email: 'ananya.singh@gmail.com', password: 'hashed_password_4', gender: 'Female', age: 22 },
-        { id: 'user-005', name: 'Vikram Reddy', email: 'vikram.reddy@gmail.com', password: 'hashed_password_5', gender: 'Male', age: 35 },
-        { id: 'user-006', name: 'Sneha Iyer', email: 'sneha.iyer@gmail.com', password: 'hashed_password_6', gender: 'Female', age: 29 },
-        { id: 'user-007', name: 'Arjun Mehta', email: 'arjun.mehta@gmail.com', password: 'hashed_password_7', gender: 'Male', age: 26 },
-        { id: 'user-008', name: 'Kavya Nair', email: 'kavya.nair@gmail.com', password: 'hashed_password_8', gender: 'Female', age: 24 },
-        { id: 'user-009', name: 'Rahul Verma', email: 'rahul.verma@gmail.com', password: 'hashed_password_9', gender: 'Male', age: 30 },
-        { id: 'user-010', name: 'Diya Choudhury', email: 'diya.choudhury@gmail.com', password: 'hashed_password_10', gender: 'Female', age: 27 },
+        { id: 'user-001', name: 'Aarav Sharma', email: 'aarav.sharma@gmail.com', password: 'rider_password_1', gender: 'Male', age: 28 },
+        { id: 'user-002', name: 'Priya Patel', email: 'priya.patel@gmail.com', password: 'rider_password_2', gender: 'Female', age: 25 },
+        { id: 'user-003', name: 'Rohan Gupta', email: 'rohan.gupta@gmail.com', password: 'rider_password_3', gender: 'Male', age: 32 },
+        { id: 'user-004', name: 'Ananya Singh', email: 'ananya.singh@gmail.com', password: 'rider_password_4', gender: 'Female', age: 22 },
+        { id: 'user-005', name: 'Vikram Reddy', email: 'vikram.reddy@gmail.com', password: 'rider_password_5', gender: 'Male', age: 35 },
+        { id: 'user-006', name: 'Sneha Iyer', email: 'sneha.iyer@gmail.com', password: 'rider_password_6', gender: 'Female', age: 29 },
+        { id: 'user-007', name: 'Arjun Mehta', email: 'arjun.mehta@gmail.com', password: 'rider_password_7', gender: 'Male', age: 26 },
+        { id: 'user-008', name: 'Kavya Nair', email: 'kavya.nair@gmail.com', password: 'rider_password_8', gender: 'Female', age: 24 },
+        { id: 'user-009', name: 'Rahul Verma', email: 'rahul.verma@gmail.com', password: 'rider_password_9', gender: 'Male', age: 30 },
+        { id: 'user-010', name: 'Diya Choudhury', email: 'diya.choudhury@gmail.com', password: 'rider_password_10', gender: 'Female', age: 27 },
     ]
 
     console.log('👤 Seeding users...')
     for (const user of users) {
+        const password = await hashPassword(user.password)
         const result = await prisma.users.upsert({
             where: { email: user.email },
-            update: {},
-            create: user,
+            update: { password },
+            create: { ...user, password },
         })
         console.log(`   ✓ ${result.name} (${result.id})`)
     }
 
     // ── Drivers (fixed IDs) ──
     const drivers = [
-        { id: 'driver-001', name: 'Rajesh Kumar', email: 'rajesh.driver@gmail.com', password: 'hashed_driver_1', gender: 'Male', age: 40 },
-        { id: 'driver-002', name: 'Suresh Yadav', email: 'suresh.driver@gmail.com', password: 'hashed_driver_2', gender: 'Male', age: 38 },
-        { id: 'driver-003', name: 'Manoj Tiwari', email: 'manoj.driver@gmail.com', password: 'hashed_driver_3', gender: 'Male', age: 45 },
-        { id: 'driver-004', name: 'Amit Chauhan', email: 'amit.driver@gmail.com', password: 'hashed_driver_4', gender: 'Male', age: 35 },
-        { id: 'driver-005', name: 'Deepak Pandey', email: 'deepak.driver@gmail.com', password: 'hashed_driver_5', gender: 'Male', age: 42 },
+        { id: 'driver-001', name: 'Rajesh Kumar', email: 'rajesh.driver@gmail.com', password: 'driver_password_1', gender: 'Male', age: 40 },
+        { id: 'driver-002', name: 'Suresh Yadav', email: 'suresh.driver@gmail.com', password: 'driver_password_2', gender: 'Male', age: 38 },
+        { id: 'driver-003', name: 'Manoj Tiwari', email: 'manoj.driver@gmail.com', password: 'driver_password_3', gender: 'Male', age: 45 },
+        { id: 'driver-004', name: 'Amit Chauhan', email: 'amit.driver@gmail.com', password: 'driver_password_4', gender: 'Male', age: 35 },
+        { id: 'driver-005', name: 'Deepak Pandey', email: 'deepak.driver@gmail.com', password: 'driver_password_5', gender: 'Male', age: 42 },
     ]
 
     console.log('\n🚗 Seeding drivers...')
     const createdDrivers = []
     for (const driver of drivers) {
+        const password = await hashPassword(driver.password)
         const result = await prisma.drivers.upsert({
             where: { email: driver.email },
-            update: {},
-            create: driver,
+            update: { password },
+            create: { ...driver, password },
         })
         createdDrivers.push(result)
         console.log(`   ✓ ${result.name} (${result.id})`)
     }
 
-    // ── Cabs (fixed IDs, one per driver) ──
+    // ── Admins (operations staff, see src/routes/admin.ts) ──
+    const admins = [
+        { id: 'admin-001', name: 'Ops Desk', email: 'ops.admin@gmail.com', password: 'admin_password_1' },
+    ]
+
+    console.log('\n🛠️  Seeding admins...')
+    for (const admin of admins) {
+        const password = await hashPassword(admin.password)
+        const result = await prisma.admins.upsert({
+            where: { email: admin.email },
+            update: { password },
+            create: { ...admin, password },
+        })
+        console.log(`   ✓ ${result.name} (${result.id})`)
+    }
+
+    // ── Cab types (pooling capacity per vehicle type) ──
+    const cabTypes = [
+        { code: 'HATCHBACK', name: 'Hatchback', max_passengers: 2, max_luggage: 2 },
+        { code: 'SEDAN', name: 'Sedan', max_passengers: 3, max_luggage: 3 },
+        { code: 'SUV', name: 'SUV', max_passengers: 5, max_luggage: 5 },
+        { code: 'MINI_VAN', name: 'Mini Van', max_passengers: 6, max_luggage: 8 },
+    ]
+
+    console.log('\n Seeding cab types...')
+    for (const cabType of cabTypes) {
+        await prisma.cabTypes.upsert({
+            where: { code: cabType.code },
+            update: cabType,
+            create: cabType,
+        })
+        console.log(`   ✓ ${cabType.name} — ${cabType.max_passengers} passengers / ${cabType.max_luggage} luggage`)
+    }
+
+    // ── Cabs (fixed IDs, one per driver; OFFLINE until the driver goes online — POST /driver/online) ──
     const cabs = [
-        { id: 'cab-001', cab_number: 'DL-01-AB-1234', cab_type: 'Sedan', no_of_seats: 3, luggage_capacity: 3, status: 'AVAILABLE' },
-        { id: 'cab-002', cab_number: 'DL-02-CD-5678', cab_type: 'SUV', no_of_seats: 4, luggage_capacity: 5, status: 'AVAILABLE' },
-        { id: 'cab-003', cab_number: 'DL-03-EF-9012', cab_type: 'Sedan', no_of_seats: 3, luggage_capacity: 3, status: 'AVAILABLE' },
-        { id: 'cab-004', cab_number: 'DL-04-GH-3456', cab_type: 'Mini Van', no_of_seats: 6, luggage_capacity: 8, status: 'AVAILABLE' },
-        { id: 'cab-005', cab_number: 'DL-05-IJ-7890', cab_type: 'Hatchback', no_of_seats: 2, luggage_capacity: 2, status: 'AVAILABLE' },
+        { id: 'cab-001', cab_number: 'DL-01-AB-1234', cab_type: 'Sedan', no_of_seats: 3, luggage_capacity: 3, status: 'OFFLINE' },
+        { id: 'cab-002', cab_number: 'DL-02-CD-5678', cab_type: 'SUV', no_of_seats: 4, luggage_capacity: 5, status: 'OFFLINE' },
+        { id: 'cab-003', cab_number: 'DL-03-EF-9012', cab_type: 'Sedan', no_of_seats: 3, luggage_capacity: 3, status: 'OFFLINE' },
+        { id: 'cab-004', cab_number: 'DL-04-GH-3456', cab_type: 'Mini Van', no_of_seats: 6, luggage_capacity: 8, status: 'OFFLINE' },
+        { id: 'cab-005', cab_number: 'DL-05-IJ-7890', cab_type: 'Hatchback', no_of_seats: 2, luggage_capacity: 2, status: 'OFFLINE' },
     ]
 
     console.log('\n Seeding cabs...')
@@ -79,6 +119,117 @@ async function main() {
         console.log(`   ✓ ${result.cab_type} ${result.cab_number} → Driver: ${driver.name}`)
     }
 
+    // ── Airports, terminals & pickup bays ──
+    // Terminals with the same pool_group share a matching pool. At DEL,
+    // T2 and T3 share a forecourt so their riders are pooled together;
+    // T1 is on the other side of the airfield and is pooled on its own.
+    // Each assigned cab is given the least busy bay of its terminal.
+    // DEL offers trips to the nearest free cab; BOM runs a FIFO taxi queue.
+    const airports = [
+        {
+            code: 'DEL', name: 'Indira Gandhi International Airport', pickup_lat: 28.5562, pickup_lng: 77.1000,
+            timezone: 'Asia/Kolkata', max_pool_passengers: 3, max_pool_luggage: 4, dispatch_policy: 'PROXIMITY',
+            terminals: [
+                {
+                    code: 'T1', name: 'Terminal 1 (Domestic)', pickup_lat: 28.5665, pickup_lng: 77.1197, pool_group: 'T1',
+                    bays: [
+                        { code: 'B1', name: 'Arrivals kerb, Bay 1', lat: 28.5667, lng: 77.1193 },
+                        { code: 'B2', name: 'Arrivals kerb, Bay 2', lat: 28.5668, lng: 77.1201 },
+                    ],
+                },
+                {
+                    code: 'T2', name: 'Terminal 2', pickup_lat: 28.5538, pickup_lng: 77.0870, pool_group: 'T2-T3',
+                    bays: [
+                        { code: 'P1', name: 'Pool cab pickup, Pillar 1', lat: 28.5540, lng: 77.0866 },
+                    ],
+                },
+                {
+                    code: 'T3', name: 'Terminal 3', pickup_lat: 28.5562, pickup_lng: 77.1000, pool_group: 'T2-T3',
+                    bays: [
+                        { code: 'P4', name: 'Pool cab pickup, Pillar 4', lat: 28.5559, lng: 77.0994 },
+                        { code: 'P6', name: 'Pool cab pickup, Pillar 6', lat: 28.5560, lng: 77.1001 },
+                        { code: 'P8', name: 'Pool cab pickup, Pillar 8', lat: 28.5561, lng: 77.1008 },
+                    ],
+                },
+            ],
+        },
+        {
+            code: 'BOM', name: 'Chhatrapati Shivaji Maharaj International Airport', pickup_lat: 19.0896, pickup_lng: 72.8656,
+            timezone: 'Asia/Kolkata', max_pool_passengers: 3, max_pool_luggage: 4, dispatch_policy: 'TAXI_QUEUE',
+            terminals: [
+                {
+                    code: 'T1', name: 'Terminal 1 (Domestic)', pickup_lat: 19.0968, pickup_lng: 72.8517, pool_group: 'T1',
+                    bays: [
+                        { code: 'B1', name: 'Arrivals kerb, Bay 1', lat: 19.0970, lng: 72.8514 },
+                    ],
+                },
+                {
+                    code: 'T2', name: 'Terminal 2', pickup_lat: 19.0988, pickup_lng: 72.8746, pool_group: 'T2',
+                    bays: [
+                        { code: 'L1', name: 'Level 1 pickup, Lane 1', lat: 19.0986, lng: 72.8741 },
+                        { code: 'L2', name: 'Level 1 pickup, Lane 2', lat: 19.0987, lng: 72.8750 },
+                    ],
+                },
+            ],
+        },
+    ]
+
+    console.log('\n✈️  Seeding airports...')
+    for (const { terminals, ...airport } of airports) {
+        const result = await prisma.airports.upsert({
+            where: { code: airport.code },
+            update: airport,
+            create: airport,
+        })
+        for (const { bays, ...terminal } of terminals) {
+            const savedTerminal = await prisma.terminals.upsert({
+                where: { airport_id_code: { airport_id: result.id, code: terminal.code } },
+                update: terminal,
+                create: { ...terminal, airport_id: result.id },
+            })
+            for (const bay of bays) {
+                await prisma.pickupBays.upsert({
+                    where: { terminal_id_code: { terminal_id: savedTerminal.id, code: bay.code } },
+                    update: bay,
+                    create: { ...bay, terminal_id: savedTerminal.id },
+                })
+            }
+        }
+        console.log(`   ✓ ${result.code} — ${terminals.map((t) => `${t.code} (${t.bays.length} bays)`).join(', ')}`)
+    }
+
+    // ── Pricing rules (version 1 per airport) ──
+    // Published versions are immutable — existing rows are left untouched;
+    // change pricing by adding a new version.
+    const pricingRules = [
+        {
+            airport_code: 'DEL', version: 1,
+            base_fare: 50, per_km: 10, per_minute: 1, min_fare: 100,
+            free_luggage_items: 2, luggage_fee_per_item: 25,
+            night_start_hour: 23, night_end_hour: 5, night_multiplier: 1.25,
+            surge_demand_ratio: 1.5, surge_step: 0.25, surge_max_multiplier: 2,
+            share_discount_per_co_rider: 0.3, share_discount_max: 0.45, detour_discount_per_km: 0.02,
+        },
+        {
+            airport_code: 'BOM', version: 1,
+            base_fare: 60, per_km: 12, per_minute: 1.5, min_fare: 120,
+            free_luggage_items: 2, luggage_fee_per_item: 30,
+            night_start_hour: 0, night_end_hour: 5, night_multiplier: 1.25,
+            surge_demand_ratio: 1.5, surge_step: 0.25, surge_max_multiplier: 2.5,
+            share_discount_per_co_rider: 0.25, share_discount_max: 0.4, detour_discount_per_km: 0.02,
+        },
+    ]
+
+    console.log('\n💰 Seeding pricing rules...')
+    for (const rules of pricingRules) {
+        const result = await prisma.pricingRules.upsert({
+            where: { airport_code_version: { airport_code: rules.airport_code, version: rules.version } },
+            update: {},
+            create: rules,
+        })
+        console.log(`   ✓ ${result.airport_code} v${result.version}`)
+    }
+
     console.log('\nSeeding complete!\n')
 }
 
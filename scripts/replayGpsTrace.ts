@@ -0,0 +1,89 @@
+/**
+ * Replays a recorded GPS trace as a driver's LOCATION_UPDATE pings.
+ *
+ * Connects to the WebSocket with a driver access token and sends every fix
+ * of the trace at its recorded offset, sped up by --speed. Each fix is
+ * stamped with the time it is sent, so the trace can be replayed any number
+ * of times. Riders of the driver's current trip receive CAB_LOCATION /
+ * ETA_UPDATE, and `POST /cab-location` returns the last fix sent.
+ *
+ * Needs the app running. Trace format (see fixtures/gps/):
+ *
+ *   { "points": [ { "offset_seconds": 0, "latitude": 28.5562, "longitude": 77.1, "heading": 107, "speed_kmph": 20 } ] }
+ *
+ *   bun run replay:gps -- --token=<driver_access_token> --speed=10
+ */
+
+interface TracePoint {
+    offset_seconds: number
+    latitude: number
+    longitude: number
+    heading?: number
+    speed_kmph?: number
+}
+
+const args = Object.fromEntries(process.argv.slice(2).map((arg) => {
+    const [key, value] = arg.replace(/^--/, '').split('=')
+    return [key, value ?? 'true']
+}))
+
+const TOKEN = args.token
+const TRACE = args.trace || 'fixtures/gps/del-t3-to-connaught-place.json'
+const SPEED = Number(args.speed) || 10
+const WS_URL = args.url || 'ws://localhost:3001/ws'
+
+if (!TOKEN) {
+    console.error('Usage: bun run replay:gps -- --token=<driver_access_token> [--trace=<file>] [--speed=10] [--url=ws://localhost:3001/ws]')
+    process.exit(1)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function main() {
+    const { points } = await Bun.file(TRACE).json() as { points: TracePoint[] }
+    console.log(`Replaying ${points.length} fixes from ${TRACE} at ${SPEED}x`)
+
+    const ws = new WebSocket(`${WS_URL}?token=${encodeURIComponent(TOKEN!)}`)
+
+    // ── Wait for the driver channel to accept the connection ──
+    await new Promise<void>((resolve, reject) => {
+        ws.addEventListener('message', function onMessage(event) {
+            const message = JSON.parse(String(event.data))
+            if (message.type === 'CONNECTED') {
+                ws.removeEventListener('message', onMessage)
+                console.log(`Connected as cab ${message.cab_id}`)
+                resolve()
+            } else if (message.type === 'ERROR') {
+                reject(new Error(message.message))
+            }
+        })
+        ws.addEventListener('close', (event) => reject(new Error(`Socket closed (${event.code})`)))
+    })
+
+    ws.addEventListener('message', (event) => {
+        const message = JSON.parse(String(event.data))
+        if (message.type === 'ERROR') console.error('Server error:', message)
+    })
+
+    // ── Send each fix at its (sped up) offset ──
+    const startedAt = Date.now()
+    for (const [i, point] of points.entries()) {
+        await sleep(Math.max(0, startedAt + point.offset_seconds * 1000 / SPEED - Date.now()))
+        ws.send(JSON.stringify({
+            type: 'LOCATION_UPDATE',
+            latitude: point.latitude,
+            longitude: point.longitude,
+            heading: point.heading,
+            speed_kmph: point.speed_kmph
+        }))
+        console.log(`[${i + 1}/${points.length}] +${point.offset_seconds}s ${point.latitude},${point.longitude}`)
+    }
+
+    ws.close()
+    console.log('Replay finished')
+}
+
+main().catch((err) => {
+    console.error('Replay failed:', err)
+    process.exit(1)
+})
@@ -0,0 +1,260 @@
+import { createClient, type RedisClientType } from 'redis'
+import { prisma } from '../lib/prisma'
+import { WorkerPool } from '../src/workers/workerPool'
+import { generateH3IndexesForRoute } from '../src/rideMatching/demo'
+import { routeCache } from '../src/utils/routeCache'
+import { airportRegistry } from '../src/utils/airports'
+import { fareEngine } from '../src/pricing/fareEngine'
+import { FLEET_CAPACITY_KEY, capacitiesFor, parseFleetSnapshot, smallestFit, type CabCapacity } from '../src/utils/fleet'
+
+/**
+ * Concurrency stress test for ride matching.
+ *
+ * Fires hundreds of simultaneous MATCH_RIDE tasks — all to the same
+ * destination, so every rider is a candidate for every other — through the
+ * real worker pool, then checks the Redis matching state:
+ *
+ *   - no rider is in two trips
+ *   - no rider is both in a trip and still waiting in the pool
+ *   - no trip exceeds the airport's passenger / luggage limits
+ *   - every trip's totals add up to its riders
+ *   - every rider is accounted for (in exactly one trip, or waiting)
+ *
+ * and that Postgres agrees: every Redis trip has a Trips row with the same
+ * id and riders, and no rider has more than one WAITING ride request.
+ *
+ * Needs Redis and Postgres (`docker compose up postgres redis`, migrated and
+ * seeded). Stress riders are created as `stress-user-NNNN` and removed
+ * afterwards unless --keep is passed. Exits 1 on any violation.
+ *
+ *   bun run stress:matching -- --riders=300 --workers=4
+ */
+
+const args = Object.fromEntries(process.argv.slice(2).map((arg) => {
+    const [key, value] = arg.replace(/^--/, '').split('=')
+    return [key, value ?? 'true']
+}))
+
+const RIDERS = Number(args.riders) || 200
+const WORKERS = Number(args.workers) || 4
+const KEEP = args.keep === 'true'
+const DESTINATION = { latitude: 28.6139, longitude: 77.2090 } // Connaught Place
+
+const USER_PREFIX = 'stress-user-'
+const userId = (i: number) => `${USER_PREFIX}${String(i).padStart(4, '0')}`
+
+const redis: RedisClientType = createClient({ url: process.env.REDIS_URL || 'redis://localhost:6379' })
+
+interface TripSnapshot {
+    key: string
+    no_of_passengers: number
+    luggage: number
+    users: Record<string, { no_of_passengers: number, luggage: number }>[]
+}
+
+async function setup(userIds: string[]): Promise<void> {
+    await prisma.users.createMany({
+        data: userIds.map((id) => ({
+            id,
+            name: `Stress Rider ${id.slice(USER_PREFIX.length)}`,
+            email: `${id}@stress.test`,
+            password: 'not-a-login',
+            gender: 'Other',
+            age: 30
+        })),
+        skipDuplicates: true
+    })
+}
+
+async function tripsInRedis(): Promise<TripSnapshot[]> {
+    const trips: TripSnapshot[] = []
+    for await (const keys of redis.scanIterator({ MATCH: 'TRIP*', COUNT: 500 })) {
+        for (const key of keys) {
+            const raw = await redis.get(key)
+            if (typeof raw === 'string') trips.push({ key, ...JSON.parse(raw) })
+        }
+    }
+    return trips
+}
+
+async function poolMembers(): Promise<string[]> {
+    const members: string[] = []
+    for (const poolKey of airportRegistry.allPoolKeys()) {
+        members.push(...await redis.zRange(poolKey, 0, -1))
+    }
+    return members
+}
+
+async function verify(userIds: string[], capacities: CabCapacity[]): Promise<string[]> {
+    const violations: string[] = []
+    const stressUsers = new Set(userIds)
+
+    const trips = (await tripsInRedis())
+        .filter((trip) => trip.users.some((entry) => stressUsers.has(Object.keys(entry)[0]!)))
+    const members = await poolMembers()
+    const waitingInPool = new Set(members.map((member) => member.split('::')[1]!).filter((id) => stressUsers.has(id)))
+
+    const tripsByUser = new Map<string, string[]>()
+    for (const trip of trips) {
+        let passengers = 0
+        let luggage = 0
+        for (const entry of trip.users) {
+            const [id, meta] = Object.entries(entry)[0]!
+            tripsByUser.set(id, [...(tripsByUser.get(id) ?? []), trip.key])
+            passengers += meta.no_of_passengers
+            luggage += meta.luggage
+        }
+
+        if (!smallestFit(capacities, trip.no_of_passengers, trip.luggage)) {
+            violations.push(`${trip.key} over capacity: ${trip.no_of_passengers} passengers / ${trip.luggage} luggage`)
+        }
+        if (passengers !== trip.no_of_passengers || luggage !== trip.luggage) {
+            violations.push(`${trip.key} totals (${trip.no_of_passengers}/${trip.luggage}) do not match its riders (${passengers}/${luggage})`)
+        }
+    }
+
+    for (const id of userIds) {
+        const inTrips = tripsByUser.get(id) ?? []
+        const waiting = waitingInPool.has(id) || await redis.exists(id) === 1
+
+        if (inTrips.length > 1) violations.push(`${id} is in ${inTrips.length} trips: ${inTrips.join(', ')}`)
+        if (inTrips.length > 0 && waiting) violations.push(`${id} is in ${inTrips[0]} and still waiting in the pool`)
+        if (inTrips.length === 0 && !waiting) violations.push(`${id} is in no trip and not in the pool`)
+    }
+
+    // Postgres must hold the same trips under the same ids
+    for (const trip of trips) {
+        const dbTrip = await prisma.trips.findUnique({
+            where: { id: trip.key.slice('TRIP'.length) },
+            include: { rideRequests: { select: { user_id: true } } }
+        })
+        if (!dbTrip) {
+            violations.push(`${trip.key} has no Trips row`)
+            continue
+        }
+        const redisRiders = trip.users.map((entry) => Object.keys(entry)[0]!).sort().join(',')
+        const dbRiders = dbTrip.rideRequests.map((rr) => rr.user_id).sort().join(',')
+        if (redisRiders !== dbRiders) violations.push(`${trip.key} riders differ — Redis [${redisRiders}], Postgres [${dbRiders}]`)
+    }
+
+    const waitingRequests = await prisma.rideRequests.groupBy({
+        by: ['user_id'],
+        where: { user_id: { startsWith: USER_PREFIX }, status: 'WAITING' },
+        _count: { _all: true }
+    })
+    for (const row of waitingRequests) {
+        if (row._count._all > 1) violations.push(`${row.user_id} has ${row._count._all} WAITING ride requests`)
+    }
+
+    console.log(`\n${trips.length} trip(s) in Redis, ${tripsByUser.size} rider(s) in trips, ${waitingInPool.size} still waiting`)
+    return violations
+}
+
+async function cleanup(userIds: string[]): Promise<void> {
+    const stressUsers = new Set(userIds)
+    const tripKeys = new Set((await tripsInRedis())
+        .filter((trip) => trip.users.some((entry) => stressUsers.has(Object.keys(entry)[0]!)))
+        .map((trip) => trip.key))
+
+    // Pool entries of stress riders and of their trips, then the metadata keys
+    for (const poolKey of airportRegistry.allPoolKeys()) {
+        const stale = (await redis.zRange(poolKey, 0, -1)).filter((member) => {
+            const id = member.split('::')[1]!
+            return stressUsers.has(id) || tripKeys.has(id)
+        })
+        if (stale.length > 0) await redis.zRem(poolKey, stale)
+    }
+    await redis.del([...userIds, ...tripKeys])
+
+    const tripIds = (await prisma.rideRequests.findMany({
+        where: { user_id: { startsWith: USER_PREFIX } },
+        select: { trip_id: true }
+    })).map((rr) => rr.trip_id)
+    await prisma.tripOutbox.deleteMany({ where: { trip_id: { in: tripIds } } })
+    await prisma.rideRequests.deleteMany({ where: { trip_id: { in: tripIds } } })
+    await prisma.trips.deleteMany({ where: { id: { in: tripIds } } })
+    await prisma.users.deleteMany({ where: { id: { startsWith: USER_PREFIX } } })
+}
+
+async function main() {
+    await redis.connect()
+    await routeCache.connect()
+    await airportRegistry.load()
+    await fareEngine.load()
+
+    const { airport, terminal, poolKey } = airportRegistry.resolve(args.airport, args.terminal)
+    const userIds = Array.from({ length: RIDERS }, (_, i) => userId(i + 1))
+
+    // Start from a clean slate (previous --keep runs)
+    await cleanup(userIds)
+    await setup(userIds)
+
+    const route = await generateH3IndexesForRoute(DESTINATION, { origin: terminal.pickup })
+    const fare = fareEngine.soloFare({
+        airport_code: airport.code,
+        distance_km: route.totalDistanceKm,
+        duration_seconds: route.durationSeconds,
+        luggage: 1
+    })
+
+    // What matching plans against: the free fleet, or the airport's pool limits
+    const capacities = capacitiesFor(parseFleetSnapshot(await redis.get(FLEET_CAPACITY_KEY)), airport)
+
+    const pool = new WorkerPool(new URL('../src/workers/rideMatchingWorker.ts', import.meta.url).href, WORKERS)
+    await pool.init()
+
+    console.log(`Firing ${RIDERS} MATCH_RIDE tasks at ${poolKey} across ${pool.size} workers...`)
+    const started = Date.now()
+
+    // Mixed party sizes so capacity limits are hit from both sides
+    const results = await Promise.allSettled(userIds.map((id, i) => pool.execute<{ match_type: string, matched_elsewhere?: boolean }>({
+        type: 'MATCH_RIDE',
+        payload: {
+            userId: id,
+            routeIndexes: route.pathH3Indexes,
+            userMetaData: {
+                no_of_passengers: (i % 3) === 0 ? 2 : 1,
+                destination_h3: route.destinationH3,
+                luggage: i % 3,
+                status: 'WAITING',
+                issued_price: fare.total,
+                fare,
+                airport_code: airport.code,
+                terminal_code: terminal.code,
+                pool_key: poolKey
+            }
+        }
+    })))
+
+    const outcomes = new Map<string, number>()
+    for (const result of results) {
+        const outcome = result.status === 'rejected'
+            ? 'ERROR'
+            : result.value.matched_elsewhere ? 'MATCHED_ELSEWHERE' : result.value.match_type
+        outcomes.set(outcome, (outcomes.get(outcome) ?? 0) + 1)
+    }
+    console.log(`Done in ${Date.now() - started} ms:`, Object.fromEntries(outcomes))
+
+    const violations = await verify(userIds, capacities)
+    if ((outcomes.get('ERROR') ?? 0) > 0) violations.push(`${outcomes.get('ERROR')} task(s) failed`)
+
+    if (!KEEP) await cleanup(userIds)
+
+    await pool.terminate()
+    await routeCache.disconnect()
+    await redis.quit()
+    await prisma.$disconnect()
+
+    if (violations.length > 0) {
+        console.error(`\n✗ ${violations.length} violation(s):`)
+        violations.slice(0, 50).forEach((violation) => console.error(`   - ${violation}`))
+        process.exit(1)
+    }
+    console.log('\n✓ No rider in two trips, no trip over capacity, every rider accounted for, Postgres in sync')
+}
+
+main().catch(async (err) => {
+    console.error('Stress test failed to run:', err)
+    await prisma.$disconnect()
+    process.exit(1)
+})
@@ -0,0 +1,43 @@
+import type { Request, Response, NextFunction } from 'express';
+import { verifyToken, extractBearerToken, AuthError, type AuthClaims, type AuthRole } from '../utils/auth';
+
+declare global {
+    namespace Express {
+        interface Request {
+            auth?: AuthClaims;
+        }
+    }
+}
+
+/**
+ * Express middleware that requires a valid Bearer access token.
+ *
+ * On success the verified claims are attached to `req.auth`, and handlers
+ * must derive the acting user / driver id from `req.auth.sub` — never from
+ * the request body. Pass one or more roles to restrict the route.
+ */
+export function requireAuth(...roles: AuthRole[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const token = extractBearerToken(req.headers.authorization);
+
+        if (!token) {
+            res.status(401).json({ error: 'Missing Bearer token' });
+            return;
+        }
+
+        try {
+            const claims = verifyToken(token, 'access');
+
+            if (roles.length > 0 && !roles.includes(claims.role)) {
+                res.status(403).json({ error: `This endpoint requires role: ${roles.join(' or ')}` });
+                return;
+            }
+
+            req.auth = claims;
+            next();
+        } catch (err) {
+            const message = err instanceof AuthError ? err.message : 'Invalid token';
+            res.status(401).json({ error: message });
+        }
+    };
+}
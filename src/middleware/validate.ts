@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { Schema, ValidationIssue } from '../validation/schema';
+
+export interface ValidationErrorResponse {
+    error: string;
+    issues: ValidationIssue[];
+}
+
+/**
+ * Build the structured error body shared by HTTP (400) responses and
+ * WebSocket ERROR messages.
+ */
+export function validationError(issues: ValidationIssue[], error: string = 'Invalid request body'): ValidationErrorResponse {
+    return { error, issues };
+}
+
+/**
+ * Express middleware that validates `req.body` against a schema.
+ *
+ * On success `req.body` is replaced with the parsed value (unknown keys
+ * dropped). On failure responds 400 with `{ error, issues: [{ path, message }] }`,
+ * where paths look like `body.verifications[0].otp`.
+ */
+export function validateBody<T>(schema: Schema<T>) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const result = schema.safeParse(req.body ?? {}, 'body');
+
+        if (!result.success) {
+            res.status(400).json(validationError(result.issues));
+            return;
+        }
+
+        req.body = result.data;
+        next();
+    };
+}
@@ -0,0 +1,360 @@
+import { prisma } from '../../lib/prisma';
+import { pubSubService } from '../utils/pubsub';
+import { airportRegistry } from '../utils/airports';
+import { planDropOff, tripOrigin } from '../rideMatching/dropSequence';
+import { splitFare, type FareSplit } from '../utils/parties';
+import type { LatLng } from '../rideMatching/routingProvider';
+
+/**
+ * fareEngine.ts
+ *
+ * Prices rides from versioned, per-airport rules (PricingRules table):
+ *
+ *   ride fare  = max(min_fare, (base + per_km·km + per_minute·min) × surge × night)
+ *   solo fare  = ride fare + luggage fee (items above free_luggage_items)
+ *   shared     = ride fare × (1 − sharing discount) + luggage fee
+ *
+ * The sharing discount grows with the number of co-riders and with the
+ * rider's actual detour on the planned drop-off route, capped at
+ * share_discount_max. Surge and night multipliers are fixed when the rider
+ * registers (their solo breakdown is stored), so re-pricing a trip after
+ * someone joins or leaves only changes the sharing part.
+ *
+ * Every fare carries the rules version it was computed with; the full
+ * breakdown is stored on RideRequests.fare_breakdown.
+ *
+ * Loaded once per thread with `fareEngine.load()` (main thread + workers).
+ */
+
+export type FareRules = {
+    version: number;
+    airport_code: string;
+    effective_from: Date;
+    base_fare: number;
+    per_km: number;
+    per_minute: number;
+    min_fare: number;
+    free_luggage_items: number;
+    luggage_fee_per_item: number;
+    night_start_hour: number;
+    night_end_hour: number;
+    night_multiplier: number;
+    surge_demand_ratio: number;
+    surge_step: number;
+    surge_max_multiplier: number;
+    share_discount_per_co_rider: number;
+    share_discount_max: number;
+    detour_discount_per_km: number;
+};
+
+export type FareBreakdown = {
+    pricing_version: number;
+    airport_code: string;
+    priced_at: string;
+    distance_km: number;
+    duration_minutes: number;
+    luggage: number;
+    base_fare: number;
+    distance_fare: number;
+    time_fare: number;
+    surge_multiplier: number;
+    night_multiplier: number;
+    minimum_fare_applied: boolean;
+    /** After surge / night / minimum — the part the sharing discount applies to */
+    ride_fare: number;
+    luggage_fee: number;
+    solo_fare: number;
+    co_riders: number;
+    detour_meters: number;
+    /** Fraction taken off ride_fare (0 when riding solo) */
+    sharing_discount: number;
+    total: number;
+};
+
+export interface SoloFareInput {
+    airport_code: string;
+    distance_km: number;
+    duration_seconds: number;
+    luggage: number;
+    at?: Date;
+    surge_multiplier?: number;
+}
+
+export interface SharedRider {
+    user_id: string;
+    destination_h3: string | null;
+    /** Solo breakdown from registration; `null` for riders priced before the fare engine */
+    fare: FareBreakdown | null;
+    issued_price: number;
+}
+
+export interface PricedRider {
+    user_id: string;
+    fare: number;
+    breakdown: FareBreakdown | null;
+}
+
+export interface FareChange extends PricedRider {
+    previous_fare: number;
+}
+
+// Used when an airport has no published rules
+const DEFAULT_RULES: Omit<FareRules, 'airport_code'> = {
+    version: 0,
+    effective_from: new Date(0),
+    base_fare: 50,
+    per_km: 10,
+    per_minute: 1,
+    min_fare: 100,
+    free_luggage_items: 2,
+    luggage_fee_per_item: 25,
+    night_start_hour: 23,
+    night_end_hour: 5,
+    night_multiplier: 1.25,
+    surge_demand_ratio: 1.5,
+    surge_step: 0.25,
+    surge_max_multiplier: 2,
+    share_discount_per_co_rider: 0.3,
+    share_discount_max: 0.45,
+    detour_discount_per_km: 0.02
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export class FareEngine {
+    private static instance: FareEngine;
+
+    // airport_code → published rule versions, newest first
+    private rules: Map<string, FareRules[]> = new Map();
+
+    private constructor() { }
+
+    static getInstance(): FareEngine {
+        if (!FareEngine.instance) {
+            FareEngine.instance = new FareEngine();
+        }
+        return FareEngine.instance;
+    }
+
+    /**
+     * (Re)load every published rules version from the database.
+     */
+    async load(): Promise<void> {
+        const rows = await prisma.pricingRules.findMany({ orderBy: { version: 'desc' } });
+
+        const rules = new Map<string, FareRules[]>();
+        for (const { id, created_at, ...row } of rows) {
+            const versions = rules.get(row.airport_code) ?? [];
+            versions.push(row);
+            rules.set(row.airport_code, versions);
+        }
+        this.rules = rules;
+
+        const missing = airportRegistry.list().filter((airport) => !rules.has(airport.code));
+        if (missing.length > 0) {
+            console.warn(`No pricing rules for ${missing.map((a) => a.code).join(', ')} — using built-in defaults (version 0)`);
+        }
+        console.log(`Loaded ${rows.length} pricing rule version(s)`);
+    }
+
+    /** Rules in effect at `at` for an airport (newest effective version). */
+    rulesFor(airportCode: string, at: Date = new Date()): FareRules {
+        const current = (this.rules.get(airportCode) ?? []).find((rules) => rules.effective_from <= at);
+        return current ?? { ...DEFAULT_RULES, airport_code: airportCode };
+    }
+
+    /** A specific published version (falls back to the current rules). */
+    rulesVersion(airportCode: string, version: number): FareRules {
+        return (this.rules.get(airportCode) ?? []).find((rules) => rules.version === version)
+            ?? this.rulesFor(airportCode);
+    }
+
+    /**
+     * Surge from pool demand vs. supply: once waiting riders per AVAILABLE
+     * cab exceed `surge_demand_ratio`, every extra rider-per-cab adds
+     * `surge_step`, up to `surge_max_multiplier`.
+     */
+    surgeMultiplier(rules: FareRules, waitingRiders: number, availableCabs: number): number {
+        const ratio = waitingRiders / Math.max(availableCabs, 1);
+        if (ratio <= rules.surge_demand_ratio) return 1;
+        return round2(Math.min(rules.surge_max_multiplier, 1 + (ratio - rules.surge_demand_ratio) * rules.surge_step));
+    }
+
+    /** Night window in the airport's local time; may wrap midnight (23 → 5). */
+    isNight(rules: FareRules, at: Date, timezone: string): boolean {
+        const hour = Number(new Intl.DateTimeFormat('en-GB', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone }).format(at));
+        const { night_start_hour: start, night_end_hour: end } = rules;
+        if (start === end) return false;
+        return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+    }
+
+    /**
+     * Price a solo ride.
+     */
+    soloFare(input: SoloFareInput): FareBreakdown {
+        const at = input.at ?? new Date();
+        const rules = this.rulesFor(input.airport_code, at);
+        const airport = airportRegistry.getAirport(input.airport_code);
+
+        const distanceKm = Math.max(0, input.distance_km || 0);
+        const durationMinutes = Math.max(0, (input.duration_seconds || 0) / 60);
+        const surge = input.surge_multiplier ?? 1;
+        const night = this.isNight(rules, at, airport.timezone) ? rules.night_multiplier : 1;
+
+        const distanceFare = rules.per_km * distanceKm;
+        const timeFare = rules.per_minute * durationMinutes;
+        const metered = Math.ceil((rules.base_fare + distanceFare + timeFare) * surge * night);
+        const rideFare = Math.max(rules.min_fare, metered);
+        const luggageFee = Math.max(0, input.luggage - rules.free_luggage_items) * rules.luggage_fee_per_item;
+
+        return {
+            pricing_version: rules.version,
+            airport_code: input.airport_code,
+            priced_at: at.toISOString(),
+            distance_km: round2(distanceKm),
+            duration_minutes: round2(durationMinutes),
+            luggage: input.luggage,
+            base_fare: rules.base_fare,
+            distance_fare: Math.round(distanceFare),
+            time_fare: Math.round(timeFare),
+            surge_multiplier: surge,
+            night_multiplier: night,
+            minimum_fare_applied: metered < rules.min_fare,
+            ride_fare: rideFare,
+            luggage_fee: luggageFee,
+            solo_fare: rideFare + luggageFee,
+            co_riders: 0,
+            detour_meters: 0,
+            sharing_discount: 0,
+            total: rideFare + luggageFee
+        };
+    }
+
+    /**
+     * Apply the sharing discount to a rider's solo breakdown, using the
+     * rules version the solo fare was computed with.
+     */
+    sharedFare(solo: FareBreakdown, coRiders: number, detourMeters: number): FareBreakdown {
+        if (coRiders <= 0) {
+            return { ...solo, co_riders: 0, detour_meters: 0, sharing_discount: 0, total: solo.solo_fare };
+        }
+
+        const rules = this.rulesVersion(solo.airport_code, solo.pricing_version);
+        const discount = round2(Math.min(
+            rules.share_discount_max,
+            rules.share_discount_per_co_rider * coRiders + rules.detour_discount_per_km * (detourMeters / 1000)
+        ));
+
+        return {
+            ...solo,
+            co_riders: coRiders,
+            detour_meters: Math.round(detourMeters),
+            sharing_discount: discount,
+            total: Math.ceil(solo.ride_fare * (1 - discount)) + solo.luggage_fee
+        };
+    }
+
+    /**
+     * Price every rider of a shared trip. Detours come from the planned
+     * drop-off route; riders without a solo breakdown keep their price.
+     */
+    async priceSharedRiders(riders: SharedRider[], origin: LatLng): Promise<PricedRider[]> {
+        const coRiders = riders.length - 1;
+
+        let detours = new Map<string, number>();
+        if (coRiders > 0) {
+            try {
+                const plan = await planDropOff(riders, { origin });
+                detours = new Map(plan.stops.map((stop) => [stop.user_id, stop.detour_meters]));
+            } catch (error) {
+                console.error('[Fare] Drop-off planning failed, pricing without detour:', error);
+            }
+        }
+
+        return riders.map((rider) => {
+            if (!rider.fare) {
+                return { user_id: rider.user_id, fare: rider.issued_price, breakdown: null };
+            }
+            const breakdown = this.sharedFare(rider.fare, coRiders, detours.get(rider.user_id) ?? 0);
+            return { user_id: rider.user_id, fare: breakdown.total, breakdown };
+        });
+    }
+
+    /**
+     * Re-price a WAITING trip after its riders changed (join / leave),
+     * persist the new fares and send FARE_UPDATED to every rider whose fare
+     * moved (except `skipNotify`, who learn their fare another way).
+     *
+     * A party is priced as one rider — its members' rows carry the party's
+     * breakdown — and the new fare is split between them (see parties.ts).
+     */
+    async repriceTrip(tripId: string, skipNotify: string[] = []): Promise<FareChange[]> {
+        const trip = await prisma.trips.findUnique({
+            where: { id: tripId },
+            include: { rideRequests: { orderBy: { joined_at: 'asc' }, include: { party: true } } }
+        });
+        if (!trip || trip.status !== 'WAITING') return [];
+
+        const units = new Map<string, typeof trip.rideRequests>();
+        for (const rr of trip.rideRequests) {
+            const unitId = rr.party?.leader_id ?? rr.user_id;
+            units.set(unitId, [...(units.get(unitId) ?? []), rr]);
+        }
+
+        const priced = await this.priceSharedRiders([...units].map(([unitId, rideRequests]) => ({
+            user_id: unitId,
+            destination_h3: rideRequests[0]!.destination_h3,
+            fare: rideRequests[0]!.fare_breakdown as FareBreakdown | null,
+            issued_price: rideRequests.reduce((sum, rr) => sum + rr.issued_price, 0)
+        })), tripOrigin(trip));
+
+        const changes: FareChange[] = priced.flatMap((unit) => {
+            const rideRequests = units.get(unit.user_id)!;
+            const party = rideRequests[0]!.party;
+            const shares = party
+                ? splitFare(unit.fare, {
+                    leader_id: party.leader_id,
+                    fare_split: party.fare_split as FareSplit,
+                    members: rideRequests.map((rr) => ({ user_id: rr.user_id, no_of_passengers: rr.no_of_passengers, luggage: rr.luggage_capacity }))
+                })
+                : new Map([[unit.user_id, unit.fare]]);
+
+            return unit.breakdown
+                ? rideRequests
+                    .filter((rr) => shares.get(rr.user_id) !== rr.issued_price)
+                    .map((rr) => ({ user_id: rr.user_id, fare: shares.get(rr.user_id)!, breakdown: unit.breakdown, previous_fare: rr.issued_price }))
+                : [];
+        });
+
+        if (changes.length > 0) {
+            await prisma.$transaction(changes.map((change) =>
+                prisma.rideRequests.updateMany({
+                    where: { trip_id: tripId, user_id: change.user_id },
+                    data: { issued_price: change.fare, fare_breakdown: change.breakdown! }
+                })
+            ));
+        }
+
+        await this.notifyFareChanges(tripId, changes.filter((change) => !skipNotify.includes(change.user_id)), trip.rideRequests.length);
+        return changes;
+    }
+
+    /**
+     * Send FARE_UPDATED to each rider whose fare changed.
+     */
+    async notifyFareChanges(tripId: string, changes: FareChange[], riders: number): Promise<void> {
+        const notifications = changes.map((change) =>
+            pubSubService.publish(change.user_id, {
+                type: 'FARE_UPDATED',
+                trip_id: tripId,
+                previous_fare: change.previous_fare,
+                fare: change.fare,
+                fare_breakdown: change.breakdown,
+                riders
+            }).catch((err) => console.error(`[Fare] FARE_UPDATED notification failed for user ${change.user_id}:`, err))
+        );
+        await Promise.allSettled(notifications);
+    }
+}
+
+export const fareEngine = FareEngine.getInstance();
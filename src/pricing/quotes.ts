@@ -0,0 +1,111 @@
+import { createClient, type RedisClientType } from 'redis';
+import { randomUUID } from 'crypto';
+import type { FareBreakdown } from './fareEngine';
+
+/**
+ * quotes.ts
+ *
+ * Short-lived fare quotes from `POST /find-ride/quote`. A quote locks the
+ * solo fare breakdown (rules version, surge, night) for QUOTE_TTL_SECONDS;
+ * REGISTER_RIDE may reference it by `quote_id` to enter the pool at that
+ * price instead of the price at registration time.
+ *
+ * Quotes live in Redis with a TTL (`quote:<id>`) and are single-use: they
+ * are deleted when redeemed, so one quote cannot lock two registrations.
+ * A registration that fails after redeeming puts its quote back until the
+ * quote's own expiry.
+ */
+
+const QUOTE_TTL_SECONDS = Number(process.env.QUOTE_TTL_SECONDS) || 300;
+
+export interface FareQuote {
+    quote_id: string;
+    user_id: string;
+    airport_code: string;
+    terminal_code: string;
+    latitude: number;
+    longitude: number;
+    no_of_passengers: number;
+    luggage: number;
+    fare: FareBreakdown;
+    expires_at: string;
+}
+
+export type NewFareQuote = Omit<FareQuote, 'quote_id' | 'expires_at'>;
+
+export class FareQuoteService {
+    private static instance: FareQuoteService;
+
+    private client: RedisClientType;
+    private isConnected: boolean = false;
+
+    private readonly KEY_PREFIX = 'quote:';
+
+    private constructor() {
+        this.client = createClient({ url: process.env.REDIS_URL || 'redis://localhost:6379' });
+        this.client.on('error', (err) => console.error('Redis Fare Quote Error:', err));
+    }
+
+    static getInstance(): FareQuoteService {
+        if (!FareQuoteService.instance) {
+            FareQuoteService.instance = new FareQuoteService();
+        }
+        return FareQuoteService.instance;
+    }
+
+    async connect(): Promise<void> {
+        if (this.isConnected) return;
+
+        await this.client.connect();
+        this.isConnected = true;
+        console.log('Redis fare quotes connected');
+    }
+
+    async disconnect(): Promise<void> {
+        if (!this.isConnected) return;
+
+        await this.client.quit();
+        this.isConnected = false;
+        console.log('Redis fare quotes disconnected');
+    }
+
+    /**
+     * Store a quote; it expires QUOTE_TTL_SECONDS from now.
+     */
+    async create(quote: NewFareQuote): Promise<FareQuote> {
+        const stored: FareQuote = {
+            ...quote,
+            quote_id: randomUUID(),
+            expires_at: new Date(Date.now() + QUOTE_TTL_SECONDS * 1000).toISOString()
+        };
+        await this.client.set(this.KEY_PREFIX + stored.quote_id, JSON.stringify(stored), { EX: QUOTE_TTL_SECONDS });
+        return stored;
+    }
+
+    /** A live quote, or `null` if it never existed or has expired. */
+    async get(quoteId: string): Promise<FareQuote | null> {
+        const raw = await this.client.get(this.KEY_PREFIX + quoteId);
+        return typeof raw === 'string' ? JSON.parse(raw) as FareQuote : null;
+    }
+
+    /**
+     * Redeem a quote: returns it and deletes it atomically.
+     * `null` if it never existed, has expired or was already used.
+     */
+    async redeem(quoteId: string): Promise<FareQuote | null> {
+        const raw = await this.client.getDel(this.KEY_PREFIX + quoteId);
+        return typeof raw === 'string' ? JSON.parse(raw) as FareQuote : null;
+    }
+
+    /**
+     * Put back a redeemed quote for the rest of its TTL. No-op once it has
+     * expired.
+     */
+    async restore(quote: FareQuote): Promise<void> {
+        const expiresAt = Date.parse(quote.expires_at);
+        if (expiresAt <= Date.now()) return;
+        await this.client.set(this.KEY_PREFIX + quote.quote_id, JSON.stringify(quote), { PXAT: expiresAt, NX: true });
+    }
+}
+
+export const fareQuotes = FareQuoteService.getInstance();
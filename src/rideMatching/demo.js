@@ -1,94 +1,13 @@
 import { latLngToCell, gridPathCells } from 'h3-js';
+import { routeCache } from '../utils/routeCache';
 
 /**
  * Configuration
+ *
+ * Pickup location is per airport (see utils/airports.ts); fares come from
+ * the fare engine (see pricing/fareEngine.ts).
  */
-const AIRPORT_LOCATION = {
-  lat: 28.5562, // Example: Delhi Airport
-  lng: 77.1000
-};
-
 const H3_RESOLUTION = 8; // ~0.7km hexagon width (good for urban areas)
-const COST_PER_KM = 10; // Rs. 10 per km
-
-/**
- * Fetch route from Google Routes API
- */
-async function fetchRouteFromGoogle(origin, destination) {
-  const url = 'https://routes.googleapis.com/directions/v2:computeRoutes';
-
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': process.env.GOOGLE_ROUTES_API_KEY,
-        'X-Goog-FieldMask': 'routes.legs.steps.startLocation,routes.legs.steps.endLocation,routes.distanceMeters'
-      },
-      body: JSON.stringify({
-        origin: {
-          location: {
-            latLng: {
-              latitude: origin.lat,
-              longitude: origin.lng
-            }
-          }
-        },
-        destination: {
-          location: {
-            latLng: {
-              latitude: destination.latitude,
-              longitude: destination.longitude
-            }
-          }
-        },
-        travelMode: 'DRIVE'
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Google Routes API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    if (!data.routes || data.routes.length === 0) {
-      throw new Error('No route found');
-    }
-
-    // Extract all points from the route
-    const routePoints = [];
-
-    data.routes[0].legs.forEach(leg => {
-      leg.steps.forEach(step => {
-        // Add start location
-        if (step.startLocation && step.startLocation.latLng) {
-          routePoints.push({
-            lat: step.startLocation.latLng.latitude,
-            lng: step.startLocation.latLng.longitude
-          });
-        }
-
-        // Add end location
-        if (step.endLocation && step.endLocation.latLng) {
-          routePoints.push({
-            lat: step.endLocation.latLng.latitude,
-            lng: step.endLocation.latLng.longitude
-          });
-        }
-      });
-    });
-
-    // Extract total distance in meters from the route
-    const distanceMeters = data.routes[0].distanceMeters || 0;
-
-    return { routePoints, distanceMeters };
-
-  } catch (error) {
-    console.error('Google Routes API error:', error);
-    throw error;
-  }
-}
 
 /**
  * Fill gaps between route points using H3's gridPathCells
@@ -118,21 +37,29 @@ function fillRouteGaps(h3Indexes) {
 }
 
 /**
- * Generate H3 indexes for destination and entire route
+ * Generate H3 indexes for destination and entire route.
+ * `options.origin` is the pickup point ({ lat, lng }) — required.
  */
-async function generateH3IndexesForRoute(destination, options = {}) {
+async function generateH3IndexesForRoute(destination, options) {
   const {
-    origin = AIRPORT_LOCATION,
+    origin,
     resolution = H3_RESOLUTION,
     fillGaps = true
   } = options;
 
+  if (!origin) {
+    throw new Error('generateH3IndexesForRoute: options.origin is required');
+  }
+
   try {
     // Step 1: Get the H3 index for the destination
     const destinationH3 = latLngToCell(destination.latitude, destination.longitude, resolution);
 
-    // Step 2: Fetch the route from Google Routes API
-    const routeData = await fetchRouteFromGoogle(origin, destination);
+    // Step 2: Fetch the route (cached by origin/destination H3 cell)
+    const routeData = await routeCache.computeRoute(origin, {
+      lat: destination.latitude,
+      lng: destination.longitude
+    });
 
     // Step 3: Convert all route points to H3 indexes
     const routeH3Indexes = routeData.routePoints.map(point =>
@@ -159,7 +86,8 @@ async function generateH3IndexesForRoute(destination, options = {}) {
       destinationH3,
       pathH3Indexes: uniqueH3Indexes,
       totalHexagons: uniqueH3Indexes.length,
-      totalDistanceKm
+      totalDistanceKm,
+      durationSeconds: routeData.durationSeconds
     };
 
   } catch (error) {
@@ -168,17 +96,5 @@ async function generateH3IndexesForRoute(destination, options = {}) {
   }
 }
 
-/**
- * Calculate the issued price based on total distance in km.
- * Uses a fixed rate of Rs. 10 per km, rounded up to the nearest integer.
- * Returns a minimum price of COST_PER_KM (Rs. 10) to avoid zero-cost rides.
- */
-function calculateIssuedPrice(totalDistanceKm) {
-  if (!totalDistanceKm || totalDistanceKm <= 0) {
-    return COST_PER_KM; // Minimum price for edge cases (e.g., API failure returning 0)
-  }
-  return Math.ceil(totalDistanceKm * COST_PER_KM);
-}
-
 // Export for use in your application
-export { generateH3IndexesForRoute, calculateIssuedPrice };
\ No newline at end of file
+export { generateH3IndexesForRoute };
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test';
+import { latLngToCell } from 'h3-js';
+import { dropOrderOf, planDropOff, type DropStop } from './dropSequence';
+import type { RoutingProvider } from './routingProvider';
+
+// Stops on one road east and west of the pickup, ~5 km per step; a leg is
+// as long as the longitude between its ends (1 m per 1e-5°) at 10 m/s
+const origin = { lat: 28.6, lng: 77.2 };
+const at = (steps: number) => latLngToCell(origin.lat, origin.lng + steps * 0.05, 8);
+
+const roadProvider: RoutingProvider = {
+    name: 'test',
+    async computeRoute(from, to) {
+        const distanceMeters = Math.round(Math.abs(to.lng - from.lng) * 1e5);
+        return { routePoints: [from, to], distanceMeters, durationSeconds: distanceMeters / 10 };
+    }
+};
+
+const rider = (user_id: string, steps: number | null, drop_order: number | null = null): DropStop =>
+    ({ user_id, destination_h3: steps === null ? null : at(steps), drop_order });
+
+const plan = (riders: DropStop[], respectFixedOrder: boolean = true) =>
+    planDropOff(riders, { origin, provider: roadProvider, respectFixedOrder });
+
+describe('planDropOff', () => {
+    test('finds the shortest order up to four stops', async () => {
+        // Nearest first would go +1, -2, +4; doubling back at once is shorter
+        const result = await plan([rider('a', 1), rider('b', -2), rider('c', 4)]);
+        expect(result.algorithm).toBe('EXHAUSTIVE');
+        expect(dropOrderOf(result)).toEqual(['b', 'a', 'c']);
+    });
+
+    test('goes to the nearest stop next beyond four stops', async () => {
+        // Shortest would be -2 first, as above
+        const result = await plan([rider('a', 1), rider('b', -2), rider('c', 5), rider('d', 6), rider('e', 7)]);
+        expect(result.algorithm).toBe('NEAREST_NEIGHBOUR');
+        expect(dropOrderOf(result)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    test('reports ETAs and detours against a solo ride', async () => {
+        // +1 then back past the pickup to -2
+        const [a, b] = (await plan([rider('a', 1), rider('b', -2)])).stops;
+        expect(a!.user_id).toBe('a');
+        expect(a!.detour_meters).toBe(0);
+        expect(b!.distance_from_origin_meters).toBeGreaterThan(b!.direct_distance_meters);
+        expect(b!.detour_meters).toBe(b!.distance_from_origin_meters - b!.direct_distance_meters);
+        expect(b!.eta_seconds).toBe(b!.distance_from_origin_meters / 10);
+    });
+
+    test('drops riders going to the same cell at one stop, in join order', async () => {
+        const result = await plan([rider('a', 2), rider('b', 1), rider('c', 2)]);
+        expect(dropOrderOf(result)).toEqual(['b', 'a', 'c']);
+        expect(result.stops[1]!.eta_seconds).toBe(result.stops[2]!.eta_seconds);
+        expect(result.stops.map((stop) => stop.drop_order)).toEqual([1, 2, 3]);
+    });
+
+    test('keeps the stored drop order of a started trip', async () => {
+        const riders = [rider('a', 1, 1), rider('b', 4, 2), rider('c', -2, 3)];
+        const fixed = await plan(riders);
+        expect(fixed.algorithm).toBe('FIXED');
+        expect(dropOrderOf(fixed)).toEqual(['a', 'b', 'c']);
+
+        const replanned = await plan(riders, false);
+        expect(replanned.algorithm).toBe('EXHAUSTIVE');
+        expect(dropOrderOf(replanned)).toEqual(['c', 'a', 'b']);
+    });
+
+    test('lists riders without a destination last', async () => {
+        const result = await plan([rider('a', null), rider('b', 1)]);
+        expect(result.stops.map((stop) => stop.user_id)).toEqual(['b']);
+        expect(result.unplanned_user_ids).toEqual(['a']);
+        expect(dropOrderOf(result)).toEqual(['b', 'a']);
+    });
+
+    test('falls back to the offline estimate when routing fails', async () => {
+        const failing: RoutingProvider = { name: 'down', async computeRoute() { throw new Error('unavailable'); } };
+        const result = await planDropOff([rider('a', 1)], { origin, provider: failing });
+        expect(result.stops[0]!.direct_distance_meters).toBeGreaterThan(0);
+    });
+});
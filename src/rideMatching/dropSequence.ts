@@ -0,0 +1,218 @@
+/**
+ * dropSequence.ts
+ *
+ * Plans the drop-off order for the riders of a pooled trip. Every trip
+ * starts at its pickup terminal; the planner picks the order of destinations that
+ * minimises total road distance and reports, per rider:
+ *
+ *   - eta_seconds        time from departure until the rider is dropped
+ *   - detour_meters      extra distance vs. a solo ride airport → destination
+ *   - detour_seconds     extra in-vehicle time vs. a solo ride
+ *
+ * Up to MAX_EXHAUSTIVE_STOPS distinct stops every permutation is evaluated
+ * (4 stops = 24 orders); beyond that a nearest-neighbour order is used.
+ * Once a trip has started, its stored `drop_order` is kept ("FIXED") and
+ * only the ETAs / detours are computed.
+ *
+ * Leg distances come from the route cache (destination cells are H3 cell
+ * centres, so repeat legs are cache hits). A leg the provider cannot route
+ * falls back to the offline estimate so a plan is always produced.
+ * Riders without a stored destination cannot be planned; they are listed in
+ * `unplanned_user_ids` and dropped last.
+ */
+
+import { cellToLatLng } from 'h3-js';
+import { OfflineRoutingProvider, type LatLng, type RouteResult, type RoutingProvider } from './routingProvider';
+import { routeCache } from '../utils/routeCache';
+import { airportRegistry } from '../utils/airports';
+
+const MAX_EXHAUSTIVE_STOPS = 4;
+
+export interface DropStop {
+    user_id: string;
+    destination_h3: string | null;
+    drop_order?: number | null;
+    terminal_code?: string | null;
+}
+
+export interface PlannedStop {
+    user_id: string;
+    destination_h3: string;
+    drop_order: number;
+    distance_from_origin_meters: number;
+    eta_seconds: number;
+    direct_distance_meters: number;
+    direct_duration_seconds: number;
+    detour_meters: number;
+    detour_seconds: number;
+}
+
+export interface DropPlan {
+    algorithm: 'EXHAUSTIVE' | 'NEAREST_NEIGHBOUR' | 'FIXED';
+    total_distance_meters: number;
+    total_duration_seconds: number;
+    stops: PlannedStop[];
+    unplanned_user_ids: string[];
+}
+
+export interface PlanOptions {
+    /** Pickup point — defaults to the default airport's pickup zone. */
+    origin?: LatLng;
+    provider?: RoutingProvider;
+    /** Keep the riders' stored drop_order when every rider has one. */
+    respectFixedOrder?: boolean;
+}
+
+type Leg = Pick<RouteResult, 'distanceMeters' | 'durationSeconds'>;
+
+const offlineFallback = new OfflineRoutingProvider();
+
+function permutations<T>(items: T[]): T[][] {
+    if (items.length <= 1) return [items];
+    return items.flatMap((item, i) =>
+        permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest])
+    );
+}
+
+/**
+ * Compute the drop-off plan for a trip's riders.
+ */
+export async function planDropOff<T extends DropStop>(riders: T[], options: PlanOptions = {}): Promise<DropPlan> {
+    const { origin = airportRegistry.defaultAirport().pickup, provider = routeCache, respectFixedOrder = true } = options;
+
+    const planned = riders.filter((rider) => rider.destination_h3);
+    const unplanned = riders.filter((rider) => !rider.destination_h3);
+
+    // Riders sharing a destination cell are one stop
+    const cells = [...new Set(planned.map((rider) => rider.destination_h3!))];
+    const points: LatLng[] = [origin, ...cells.map((cell) => {
+        const [lat, lng] = cellToLatLng(cell);
+        return { lat, lng };
+    })];
+
+    // ── Distance matrix (node 0 = origin, node i = cells[i - 1]) ──
+    const legs = new Map<string, Leg>();
+    const fetchLeg = async (from: number, to: number): Promise<void> => {
+        let leg: Leg;
+        try {
+            leg = await provider.computeRoute(points[from]!, points[to]!);
+        } catch (error) {
+            console.error(`[Drop Plan] Routing failed for leg ${from}→${to}, using offline estimate:`, error);
+            leg = await offlineFallback.computeRoute(points[from]!, points[to]!);
+        }
+        legs.set(`${from}:${to}`, leg);
+    };
+
+    const nodes = cells.map((_, i) => i + 1);
+    await Promise.all([
+        ...nodes.map((to) => fetchLeg(0, to)),
+        ...nodes.flatMap((from) => nodes.filter((to) => to !== from).map((to) => fetchLeg(from, to)))
+    ]);
+
+    const leg = (from: number, to: number): Leg => legs.get(`${from}:${to}`)!;
+    const routeDistance = (order: number[]): number =>
+        order.reduce((sum, node, i) => sum + leg(i === 0 ? 0 : order[i - 1]!, node).distanceMeters, 0);
+
+    // ── Choose the visiting order ──
+    let algorithm: DropPlan['algorithm'];
+    let order: number[];
+
+    const fixed = respectFixedOrder && planned.length > 0 && planned.every((rider) => rider.drop_order != null);
+
+    if (fixed) {
+        algorithm = 'FIXED';
+        const byDropOrder = [...planned].sort((a, b) => a.drop_order! - b.drop_order!);
+        order = [...new Set(byDropOrder.map((rider) => cells.indexOf(rider.destination_h3!) + 1))];
+    } else if (nodes.length <= MAX_EXHAUSTIVE_STOPS) {
+        algorithm = 'EXHAUSTIVE';
+        order = permutations(nodes).reduce((best, candidate) =>
+            routeDistance(candidate) < routeDistance(best) ? candidate : best
+        );
+    } else {
+        algorithm = 'NEAREST_NEIGHBOUR';
+        order = [];
+        const remaining = new Set(nodes);
+        let current = 0;
+        while (remaining.size > 0) {
+            const next = [...remaining].reduce((best, node) =>
+                leg(current, node).distanceMeters < leg(current, best).distanceMeters ? node : best
+            );
+            order.push(next);
+            remaining.delete(next);
+            current = next;
+        }
+    }
+
+    // ── Walk the route, accumulating distance / time per stop ──
+    const arrival = new Map<number, Leg>();
+    let distance = 0;
+    let duration = 0;
+    order.forEach((node, i) => {
+        const step = leg(i === 0 ? 0 : order[i - 1]!, node);
+        distance += step.distanceMeters;
+        duration += step.durationSeconds;
+        arrival.set(node, { distanceMeters: distance, durationSeconds: duration });
+    });
+
+    // Riders at the same stop keep their relative (join / drop_order) order
+    const stopsInOrder = order.flatMap((node) =>
+        planned.filter((rider) => rider.destination_h3 === cells[node - 1])
+    );
+
+    const stops: PlannedStop[] = stopsInOrder.map((rider, i) => {
+        const node = cells.indexOf(rider.destination_h3!) + 1;
+        const reached = arrival.get(node)!;
+        const direct = leg(0, node);
+        return {
+            user_id: rider.user_id,
+            destination_h3: rider.destination_h3!,
+            drop_order: i + 1,
+            distance_from_origin_meters: reached.distanceMeters,
+            eta_seconds: reached.durationSeconds,
+            direct_distance_meters: direct.distanceMeters,
+            direct_duration_seconds: direct.durationSeconds,
+            detour_meters: Math.max(0, reached.distanceMeters - direct.distanceMeters),
+            detour_seconds: Math.max(0, reached.durationSeconds - direct.durationSeconds)
+        };
+    });
+
+    return {
+        algorithm,
+        total_distance_meters: distance,
+        total_duration_seconds: duration,
+        stops,
+        unplanned_user_ids: unplanned.map((rider) => rider.user_id)
+    };
+}
+
+/**
+ * Pickup point of a trip. Riders from combinable terminals share a cab, so
+ * the cab leaves from the terminal of the first rider who joined.
+ */
+export function tripOrigin(trip: { airport_code?: string | null; rideRequests: DropStop[] }): LatLng {
+    return airportRegistry.pickupFor(trip.airport_code, trip.rideRequests[0]?.terminal_code);
+}
+
+/**
+ * Full drop order for a trip: planned stops first, riders without a
+ * destination last (join order).
+ */
+export function dropOrderOf(plan: DropPlan): string[] {
+    return [...plan.stops.map((stop) => stop.user_id), ...plan.unplanned_user_ids];
+}
+
+/**
+ * Returns `trip` with a `drop_plan` field for API / WebSocket payloads.
+ * Finished trips get `null`; planning failures are logged and also yield `null`.
+ */
+export async function withDropPlan<T extends { status: string; airport_code?: string | null; rideRequests: DropStop[] }>(trip: T): Promise<T & { drop_plan: DropPlan | null }> {
+    if (trip.status === 'COMPLETED' || trip.status === 'CANCELLED') {
+        return { ...trip, drop_plan: null };
+    }
+    try {
+        return { ...trip, drop_plan: await planDropOff(trip.rideRequests, { origin: tripOrigin(trip) }) };
+    } catch (error) {
+        console.error('[Drop Plan] Failed to plan drop-off:', error);
+        return { ...trip, drop_plan: null };
+    }
+}
@@ -1,91 +1,14 @@
 import { latLngToCell, gridPathCells } from 'h3-js';
+import { type LatLng } from './routingProvider';
+import { routeCache } from '../utils/routeCache';
 
 /**
  * Configuration
+ *
+ * Pickup location is per airport / terminal (see utils/airports.ts).
  */
-const AIRPORT_LOCATION = {
-  lat: 28.5562, // Example: Delhi Airport
-  lng: 77.1000
-};
-
 const H3_RESOLUTION = 8; // ~0.7km hexagon width (good for urban areas)
 
-/**
- * Fetch route from Google Routes API
- */
-async function fetchRouteFromGoogle(origin, destination, apiKey) {
-  const url = 'https://routes.googleapis.com/directions/v2:computeRoutes';
-  
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': apiKey,
-        'X-Goog-FieldMask': 'routes.legs.steps.startLocation,routes.legs.steps.endLocation'
-      },
-      body: JSON.stringify({
-        origin: {
-          location: {
-            latLng: {
-              latitude: origin.lat,
-              longitude: origin.lng
-            }
-          }
-        },
-        destination: {
-          location: {
-            latLng: {
-              latitude: destination.lat,
-              longitude: destination.lng
-            }
-          }
-        },
-        travelMode: 'DRIVE'
-      })
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Google Routes API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    if (!data.routes || data.routes.length === 0) {
-      throw new Error('No route found');
-    }
-    
-    // Extract all points from the route
-    const routePoints = [];
-    
-    data.routes[0].legs.forEach(leg => {
-      leg.steps.forEach(step => {
-        // Add start location
-        if (step.startLocation && step.startLocation.latLng) {
-          routePoints.push({
-            lat: step.startLocation.latLng.latitude,
-            lng: step.startLocation.latLng.longitude
-          });
-        }
-        
-        // Add end location
-        if (step.endLocation && step.endLocation.latLng) {
-          routePoints.push({
-            lat: step.endLocation.latLng.latitude,
-            lng: step.endLocation.latLng.longitude
-          });
-        }
-      });
-    });
-    
-    return { routePoints };
-    
-  } catch (error) {
-    console.error('Google Routes API error:', error);
-    throw error;
-  }
-}
-
 /**
  * Fill gaps between route points using H3's gridPathCells
  */
@@ -116,9 +39,12 @@ function fillRouteGaps(h3Indexes) {
 /**
  * Generate H3 indexes for destination and entire route
  */
-async function generateH3IndexesForRoute(destination, googleApiKey, options = {}) {
+async function generateH3IndexesForRoute(
+  destination: LatLng,
+  options: { origin: LatLng; resolution?: number; fillGaps?: boolean }
+) {
   const {
-    origin = AIRPORT_LOCATION,
+    origin,
     resolution = H3_RESOLUTION,
     fillGaps = true
   } = options;
@@ -127,8 +53,8 @@ async function generateH3IndexesForRoute(destination, googleApiKey, options = {}
     // Step 1: Get the H3 index for the destination
     const destinationH3 = latLngToCell(destination.lat, destination.lng, resolution);
     
-    // Step 2: Fetch the route from Google Routes API
-    const routeData = await fetchRouteFromGoogle(origin, destination, googleApiKey);
+    // Step 2: Fetch the route (cached by origin/destination H3 cell)
+    const routeData = await routeCache.computeRoute(origin, destination);
     
     // Step 3: Convert all route points to H3 indexes
     const routeH3Indexes = routeData.routePoints.map(point => 
@@ -164,14 +90,14 @@ async function generateH3IndexesForRoute(destination, googleApiKey, options = {}
  * Example usage
  */
 async function example() {
-  const GOOGLE_API_KEY = 'YOUR_GOOGLE_API_KEY'; // Replace with your actual API key
-  
   const userDestination = {
     lat: 28.6139, // Example: Connaught Place, Delhi
     lng: 77.2090
   };
   
-  const result = await generateH3IndexesForRoute(userDestination, GOOGLE_API_KEY);
+  const result = await generateH3IndexesForRoute(userDestination, {
+    origin: { lat: 28.5562, lng: 77.1000 } // Example: Delhi Airport T3
+  });
   
   console.log('Destination H3:', result.destinationH3);
   console.log('Total hexagons along route:', result.totalHexagons);
@@ -0,0 +1,148 @@
+/**
+ * preferences.ts
+ *
+ * Rider preferences that limit who a rider is pooled with. They are saved
+ * on the user (`PUT /preferences`) and can be overridden per REGISTER_RIDE.
+ * The effective set travels in the rider's pool metadata together with
+ * their gender and age:
+ *
+ *   women_only           pooled only with women (female riders only)
+ *   max_co_riders        at most this many other passengers in the cab
+ *   no_join_after_start  nobody joins once a driver has accepted the trip
+ *   quiet_ride           pooled only with riders who also asked for quiet
+ *   min_co_rider_age /   every co-rider's age within these bounds
+ *   max_co_rider_age
+ *
+ * Rules are checked both ways: a merge is allowed only if every rider on
+ * the merged trip accepts every other one. An unknown gender or age never
+ * satisfies a rule that needs it. Members of one party (see parties.ts)
+ * share its leader's preferences and are exempt from them among themselves.
+ */
+
+export interface RidePreferences {
+    women_only: boolean;
+    max_co_riders: number | null;
+    no_join_after_start: boolean;
+    quiet_ride: boolean;
+    min_co_rider_age: number | null;
+    max_co_rider_age: number | null;
+}
+
+export const DEFAULT_PREFERENCES: RidePreferences = {
+    women_only: false,
+    max_co_riders: null,
+    no_join_after_start: false,
+    quiet_ride: false,
+    min_co_rider_age: null,
+    max_co_rider_age: null
+};
+
+/** One rider (with their party) as seen by the preference check. */
+export interface RiderProfile {
+    user_id: string;
+    no_of_passengers: number;
+    gender?: string;
+    age?: number;
+    preferences?: RidePreferences;
+    party_id?: string;  // riders of one party never restrict each other
+}
+
+/** Preference columns as stored on Users. */
+export interface StoredPreferences {
+    pref_women_only: boolean;
+    pref_max_co_riders: number | null;
+    pref_no_join_after_start: boolean;
+    pref_quiet_ride: boolean;
+    pref_min_co_rider_age: number | null;
+    pref_max_co_rider_age: number | null;
+}
+
+export function isWoman(gender: string | undefined): boolean {
+    return !!gender && /^(f|female|woman)$/i.test(gender.trim());
+}
+
+export function fromStored(user: StoredPreferences): RidePreferences {
+    return {
+        women_only: user.pref_women_only,
+        max_co_riders: user.pref_max_co_riders,
+        no_join_after_start: user.pref_no_join_after_start,
+        quiet_ride: user.pref_quiet_ride,
+        min_co_rider_age: user.pref_min_co_rider_age,
+        max_co_rider_age: user.pref_max_co_rider_age
+    };
+}
+
+export function toStored(preferences: RidePreferences): StoredPreferences {
+    return {
+        pref_women_only: preferences.women_only,
+        pref_max_co_riders: preferences.max_co_riders,
+        pref_no_join_after_start: preferences.no_join_after_start,
+        pref_quiet_ride: preferences.quiet_ride,
+        pref_min_co_rider_age: preferences.min_co_rider_age,
+        pref_max_co_rider_age: preferences.max_co_rider_age
+    };
+}
+
+/** Preferences set on a request, over the given base (omitted fields keep the base value). */
+export function mergePreferences(base: RidePreferences, override: Partial<RidePreferences> | undefined): RidePreferences {
+    const merged = { ...base };
+    for (const [field, value] of Object.entries(override ?? {})) {
+        if (value !== undefined) (merged as Record<string, unknown>)[field] = value;
+    }
+    return merged;
+}
+
+/**
+ * Why a rider could not have these preferences, or `null` if they can.
+ * Only women may ask for a women-only pool; age bounds must be ordered.
+ */
+export function invalidPreferences(preferences: RidePreferences, gender: string | undefined): string | null {
+    if (preferences.women_only && !isWoman(gender)) {
+        return 'women_only is available to female riders only';
+    }
+    if (preferences.min_co_rider_age !== null && preferences.max_co_rider_age !== null
+        && preferences.min_co_rider_age > preferences.max_co_rider_age) {
+        return 'min_co_rider_age must not exceed max_co_rider_age';
+    }
+    return null;
+}
+
+/**
+ * Why these riders cannot share a cab, or `null` if every one of them
+ * accepts all the others.
+ */
+export function preferenceConflict(riders: RiderProfile[]): string | null {
+    for (const rider of riders) {
+        const preferences = rider.preferences ?? DEFAULT_PREFERENCES;
+        const others = riders.filter((other) => other.user_id !== rider.user_id
+            && (!rider.party_id || other.party_id !== rider.party_id));
+
+        if (preferences.women_only) {
+            const other = others.find((other) => !isWoman(other.gender));
+            if (other) return `${rider.user_id} wants a women-only pool; ${other.user_id} is not a woman`;
+        }
+
+        if (preferences.max_co_riders !== null) {
+            const coRiders = others.reduce((sum, other) => sum + other.no_of_passengers, 0);
+            if (coRiders > preferences.max_co_riders) {
+                return `${rider.user_id} allows at most ${preferences.max_co_riders} co-rider(s); the trip would have ${coRiders}`;
+            }
+        }
+
+        if (preferences.quiet_ride) {
+            const other = others.find((other) => !other.preferences?.quiet_ride);
+            if (other) return `${rider.user_id} asked for a quiet ride; ${other.user_id} did not`;
+        }
+
+        const { min_co_rider_age: minAge, max_co_rider_age: maxAge } = preferences;
+        if (minAge !== null || maxAge !== null) {
+            const other = others.find((other) => other.age === undefined
+                || (minAge !== null && other.age < minAge)
+                || (maxAge !== null && other.age > maxAge));
+            if (other) {
+                return `${rider.user_id} wants co-riders aged ${minAge ?? 0}–${maxAge ?? '∞'}; ${other.user_id} is ${other.age ?? 'of unknown age'}`;
+            }
+        }
+    }
+    return null;
+}
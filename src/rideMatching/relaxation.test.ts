@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { cellToChildren, cellToParent, gridDisk, latLngToCell } from 'h3-js';
+import { MAX_DETOUR_METERS, findSplitPoint, relaxationFor, relaxationRound } from './relaxation';
+
+const NOW = Date.parse('2026-04-05T10:00:00.000Z');
+const waited = (seconds: number) => new Date(NOW - seconds * 1000).toISOString();
+
+describe('relaxationRound', () => {
+    test('is 0 without a registration time', () => {
+        expect(relaxationRound(undefined, NOW)).toBe(0);
+    });
+
+    test('counts completed steps only', () => {
+        expect(relaxationRound(waited(0), NOW)).toBe(0);
+        expect(relaxationRound(waited(59), NOW)).toBe(0);
+        expect(relaxationRound(waited(60), NOW)).toBe(1);
+        expect(relaxationRound(waited(179), NOW)).toBe(2);
+    });
+
+    test('keeps counting past the last level', () => {
+        expect(relaxationRound(waited(600), NOW)).toBe(10);
+    });
+
+    test('is 0 for a registration time ahead of now', () => {
+        expect(relaxationRound(waited(-120), NOW)).toBe(0);
+    });
+});
+
+describe('relaxationFor', () => {
+    test('matches strictly at registration', () => {
+        expect(relaxationFor(waited(0), NOW)).toEqual({ level: 0, detour_meters: MAX_DETOUR_METERS, neighbours: 5, coarse_steps: 0 });
+    });
+
+    test('loosens one level per step', () => {
+        expect(relaxationFor(waited(60), NOW)).toEqual({ level: 1, detour_meters: 3750, neighbours: 10, coarse_steps: 0 });
+        expect(relaxationFor(waited(120), NOW)).toEqual({ level: 2, detour_meters: 4500, neighbours: 20, coarse_steps: 1 });
+        expect(relaxationFor(waited(180), NOW)).toEqual({ level: 3, detour_meters: 5250, neighbours: 40, coarse_steps: 1 });
+    });
+
+    test('stops at the last level', () => {
+        const last = { level: 4, detour_meters: 6000, neighbours: 80, coarse_steps: 2 };
+        expect(relaxationFor(waited(240), NOW)).toEqual(last);
+        expect(relaxationFor(waited(3600), NOW)).toEqual(last);
+    });
+});
+
+describe('findSplitPoint', () => {
+    // A resolution 7 cell near DEL, its children at the route resolution (8),
+    // and children of two neighbouring parents the routes branch off into
+    const parent = cellToParent(latLngToCell(28.5562, 77.1, 8), 7);
+    const [a, b, c] = cellToChildren(parent, 8) as [string, string, string];
+    const [, left, right] = gridDisk(parent, 1).map((cell) => cellToChildren(cell, 8)[0]!) as [string, string, string];
+
+    test('returns the last cell the routes share', () => {
+        expect(findSplitPoint([a, b, left], [a, b, right], 0)).toBe(b);
+    });
+
+    test('returns the end of the shorter route when one contains the other', () => {
+        expect(findSplitPoint([a, b], [a, b, right], 0)).toBe(b);
+    });
+
+    test('returns null for routes that diverge at once', () => {
+        expect(findSplitPoint([a, left], [b, right], 0)).toBeNull();
+        expect(findSplitPoint([], [a], 0)).toBeNull();
+    });
+
+    test('compares parent cells with coarse steps', () => {
+        expect(findSplitPoint([a, c, left], [b, right], 1)).toBe(parent);
+    });
+
+    test('still parts routes whose parents differ', () => {
+        expect(findSplitPoint([left], [right], 1)).toBeNull();
+    });
+});
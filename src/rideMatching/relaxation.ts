@@ -0,0 +1,86 @@
+/**
+ * relaxation.ts
+ *
+ * Progressive match relaxation: the longer a rider has waited, the looser
+ * they are matched — one level per RELAX_STEP_SECONDS of wait, up to
+ * RELAX_MAX_LEVEL:
+ *
+ *   level  detour limit  lex neighbours  split point compared at
+ *   0      3000 m        5 each way      route resolution (8, ~0.7 km)
+ *   1      3750 m        10              8
+ *   2      4500 m        20              7 (parent cells, ~2 km)
+ *   3      5250 m        40              7
+ *   4      6000 m        80              6 (~5 km)
+ *
+ * Level 0 is the matching done at registration. Waiting riders are
+ * re-matched once per step (see matchExpiry.ts), and a newcomer is matched
+ * with a waiting rider within the larger of their two detour limits — so
+ * a rider who registered into an empty pool can still find, or be found
+ * by, riders who arrive later.
+ */
+
+import { cellToParent, getResolution } from 'h3-js';
+
+// A rider whose drop-off branches off the shared route is only matched if
+// the extra leg (split point → their destination) is shorter than this
+export const MAX_DETOUR_METERS = 3000;
+
+const RELAX_STEP_SECONDS = Number(process.env.RELAX_STEP_SECONDS) || 60;
+const RELAX_MAX_LEVEL = 4;
+const DETOUR_STEP_METERS = 750;
+const BASE_NEIGHBOURS = 5;
+
+export interface MatchRelaxation {
+    level: number;
+    detour_meters: number;
+    /** Lexicographic neighbours fetched on each side of the rider's route */
+    neighbours: number;
+    /** Resolutions coarser than the route's at which split points are found */
+    coarse_steps: number;
+}
+
+/** Completed relaxation steps since registration (unbounded — one re-match per step). */
+export function relaxationRound(registeredAt: string | undefined, now: number = Date.now()): number {
+    if (!registeredAt) return 0;
+    return Math.max(0, Math.floor((now - new Date(registeredAt).getTime()) / (RELAX_STEP_SECONDS * 1000)));
+}
+
+export function relaxationFor(registeredAt: string | undefined, now: number = Date.now()): MatchRelaxation {
+    const level = Math.min(relaxationRound(registeredAt, now), RELAX_MAX_LEVEL);
+    return {
+        level,
+        detour_meters: MAX_DETOUR_METERS + level * DETOUR_STEP_METERS,
+        neighbours: BASE_NEIGHBOURS * 2 ** level,
+        coarse_steps: Math.floor(level / 2)
+    };
+}
+
+/**
+ * Where two routes out of the airport part ways: the last cell of their
+ * common prefix, or `null` if they diverge at once. With `coarseSteps` the
+ * routes are compared as parent cells that many resolutions up, so roads a
+ * block or two apart count as shared.
+ */
+export function findSplitPoint(routeA: string[], routeB: string[], coarseSteps: number): string | null {
+    const a = coarsen(routeA, coarseSteps);
+    const b = coarsen(routeB, coarseSteps);
+
+    let split: string | null = null;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) break;
+        split = a[i]!;
+    }
+    return split;
+}
+
+// Parent cells of a route, consecutive duplicates collapsed
+function coarsen(route: string[], steps: number): string[] {
+    if (steps === 0 || route.length === 0) return route;
+    const resolution = Math.max(0, getResolution(route[0]!) - steps);
+    const cells: string[] = [];
+    for (const cell of route) {
+        const parent = cellToParent(cell, resolution);
+        if (cells[cells.length - 1] !== parent) cells.push(parent);
+    }
+    return cells;
+}
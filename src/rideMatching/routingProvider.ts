@@ -0,0 +1,206 @@
+/**
+ * routingProvider.ts
+ *
+ * Pluggable road-routing backends used by H3 route generation, detour
+ * calculation and pricing. The active provider is selected via the
+ * ROUTING_PROVIDER env variable:
+ *
+ *   google  — Google Routes API (requires GOOGLE_ROUTES_API_KEY)
+ *   osrm    — self-hosted OSRM HTTP endpoint (OSRM_URL)
+ *   offline — deterministic haversine × road-factor, no network at all
+ *
+ * If ROUTING_PROVIDER is not set, Google is used when an API key is present
+ * and the offline provider otherwise (CI / local development).
+ */
+
+export interface LatLng {
+    lat: number;
+    lng: number;
+}
+
+export interface RouteResult {
+    routePoints: LatLng[];      // Polyline of the route, origin → destination
+    distanceMeters: number;
+    durationSeconds: number;
+}
+
+export interface RoutingProvider {
+    readonly name: string;
+    computeRoute(origin: LatLng, destination: LatLng): Promise<RouteResult>;
+}
+
+interface GoogleRoutesResponse {
+    routes?: Array<{
+        distanceMeters?: number;
+        duration?: string; // e.g. "1234s"
+        legs?: Array<{
+            steps?: Array<{
+                startLocation?: { latLng?: { latitude: number; longitude: number } };
+                endLocation?: { latLng?: { latitude: number; longitude: number } };
+            }>;
+        }>;
+    }>;
+}
+
+interface OsrmRouteResponse {
+    code: string;
+    routes?: Array<{
+        distance: number;
+        duration: number;
+        geometry: { coordinates: [number, number][] }; // [lng, lat]
+    }>;
+}
+
+// ── Google Routes API ──
+export class GoogleRoutesProvider implements RoutingProvider {
+    readonly name = 'google';
+    private readonly url = 'https://routes.googleapis.com/directions/v2:computeRoutes';
+
+    constructor(private readonly apiKey: string | undefined = process.env.GOOGLE_ROUTES_API_KEY) { }
+
+    async computeRoute(origin: LatLng, destination: LatLng): Promise<RouteResult> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Goog-Api-Key': this.apiKey ?? '',
+                'X-Goog-FieldMask': 'routes.legs.steps.startLocation,routes.legs.steps.endLocation,routes.distanceMeters,routes.duration'
+            },
+            body: JSON.stringify({
+                origin: { location: { latLng: { latitude: origin.lat, longitude: origin.lng } } },
+                destination: { location: { latLng: { latitude: destination.lat, longitude: destination.lng } } },
+                travelMode: 'DRIVE'
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`Google Routes API error: ${response.status}`);
+        }
+
+        const data = await response.json() as GoogleRoutesResponse;
+        const route = data.routes?.[0];
+        if (!route) {
+            throw new Error('No route found');
+        }
+
+        // Extract all step start/end points from the route
+        const routePoints: LatLng[] = [];
+        for (const leg of route.legs ?? []) {
+            for (const step of leg.steps ?? []) {
+                if (step.startLocation?.latLng) {
+                    routePoints.push({ lat: step.startLocation.latLng.latitude, lng: step.startLocation.latLng.longitude });
+                }
+                if (step.endLocation?.latLng) {
+                    routePoints.push({ lat: step.endLocation.latLng.latitude, lng: step.endLocation.latLng.longitude });
+                }
+            }
+        }
+
+        return {
+            routePoints,
+            distanceMeters: route.distanceMeters ?? 0,
+            durationSeconds: parseInt(route.duration ?? '0', 10) || 0
+        };
+    }
+}
+
+// ── Self-hosted OSRM ──
+export class OsrmRoutingProvider implements RoutingProvider {
+    readonly name = 'osrm';
+
+    constructor(private readonly baseUrl: string = process.env.OSRM_URL || 'http://localhost:5000') { }
+
+    async computeRoute(origin: LatLng, destination: LatLng): Promise<RouteResult> {
+        // OSRM expects "lng,lat;lng,lat"
+        const coordinates = `${origin.lng},${origin.lat};${destination.lng},${destination.lat}`;
+        const url = `${this.baseUrl}/route/v1/driving/${coordinates}?overview=full&geometries=geojson`;
+
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`OSRM error: ${response.status}`);
+        }
+
+        const data = await response.json() as OsrmRouteResponse;
+        const route = data.routes?.[0];
+        if (data.code !== 'Ok' || !route) {
+            throw new Error(`No route found (OSRM code: ${data.code})`);
+        }
+
+        return {
+            routePoints: route.geometry.coordinates.map(([lng, lat]) => ({ lat, lng })),
+            distanceMeters: Math.round(route.distance),
+            durationSeconds: Math.round(route.duration)
+        };
+    }
+}
+
+// ── Offline (deterministic) ──
+const EARTH_RADIUS_METERS = 6_371_000;
+
+/**
+ * Great-circle distance between two points in meters.
+ */
+export function haversineMeters(a: LatLng, b: LatLng): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Straight-line stand-in for a road router. Distance is the haversine distance
+ * scaled by a road factor (real roads are never straight), duration assumes a
+ * constant average speed, and the polyline is the straight segment sampled
+ * every `stepMeters` so that H3 gap filling has points to work with.
+ *
+ * Same input always yields the same output — safe for CI and tests.
+ */
+export class OfflineRoutingProvider implements RoutingProvider {
+    readonly name = 'offline';
+
+    constructor(
+        private readonly roadFactor: number = Number(process.env.OFFLINE_ROAD_FACTOR) || 1.3,
+        private readonly avgSpeedKmph: number = Number(process.env.OFFLINE_AVG_SPEED_KMPH) || 30,
+        private readonly stepMeters: number = 250
+    ) { }
+
+    async computeRoute(origin: LatLng, destination: LatLng): Promise<RouteResult> {
+        const straightMeters = haversineMeters(origin, destination);
+        const distanceMeters = Math.round(straightMeters * this.roadFactor);
+        const durationSeconds = Math.round(distanceMeters / (this.avgSpeedKmph * 1000 / 3600));
+
+        const steps = Math.max(1, Math.ceil(straightMeters / this.stepMeters));
+        const routePoints: LatLng[] = [];
+        for (let i = 0; i <= steps; i++) {
+            const t = i / steps;
+            routePoints.push({
+                lat: origin.lat + (destination.lat - origin.lat) * t,
+                lng: origin.lng + (destination.lng - origin.lng) * t
+            });
+        }
+
+        return { routePoints, distanceMeters, durationSeconds };
+    }
+}
+
+/**
+ * Build the routing provider selected by ROUTING_PROVIDER.
+ */
+export function createRoutingProvider(name: string | undefined = process.env.ROUTING_PROVIDER): RoutingProvider {
+    const selected = (name || (process.env.GOOGLE_ROUTES_API_KEY ? 'google' : 'offline')).toLowerCase();
+
+    switch (selected) {
+        case 'google':
+            return new GoogleRoutesProvider();
+        case 'osrm':
+            return new OsrmRoutingProvider();
+        case 'offline':
+            return new OfflineRoutingProvider();
+        default:
+            throw new Error(`Unknown ROUTING_PROVIDER: ${selected} (expected google | osrm | offline)`);
+    }
+}
+
+export const routingProvider = createRoutingProvider();
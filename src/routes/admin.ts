@@ -0,0 +1,157 @@
+import { Router } from 'express';
+import { adminOps, AdminError } from '../utils/adminOps';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { TripsByStatusRequest, RemoveRiderRequest, DissolveTripRequest, AssignCabRequest } from '../validation/requests';
+
+const router = Router();
+
+// ──────────────────────────────────────────────────────────────
+// GET /pool                                      (admin token)
+//
+// Every member of every matching pool (`h3:airport_pool:*`),
+// decoded: rider or TRIP, route as H3 cells, seconds waited, match
+// deadline and the stored metadata (null once expired).
+// ──────────────────────────────────────────────────────────────
+router.get('/pool', requireAuth('admin'), async (req, res) => {
+    try {
+        const members = await adminOps.pool();
+        res.json({
+            riders: members.filter((member) => member.kind === 'RIDER').length,
+            trips: members.filter((member) => member.kind === 'TRIP').length,
+            members
+        });
+    } catch (error) {
+        console.error('Error listing the matching pool:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// GET /redis-trips                               (admin token)
+//
+// Every `TRIP<id>` key in Redis with its riders, and whether the
+// trip is still in a pool (open to new riders).
+// ──────────────────────────────────────────────────────────────
+router.get('/redis-trips', requireAuth('admin'), async (req, res) => {
+    try {
+        res.json({ trips: await adminOps.redisTrips() });
+    } catch (error) {
+        console.error('Error listing Redis trips:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /trips                                    (admin token)
+// Body: { status: 'WAITING' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED', limit?: number }
+//
+// Database trips in a status, newest first, with cab and riders.
+// ──────────────────────────────────────────────────────────────
+router.post('/trips', requireAuth('admin'), validateBody(TripsByStatusRequest), async (req, res) => {
+    try {
+        const { status, limit } = req.body as TripsByStatusRequest;
+        res.json({ status, trips: await adminOps.trips(status, limit) });
+    } catch (error) {
+        console.error('Error listing trips:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// GET /cabs                                      (admin token)
+//
+// Every cab: status, whether the driver is connected, pending offer,
+// current trip, open shift, last position and taxi queue place.
+// ──────────────────────────────────────────────────────────────
+router.get('/cabs', requireAuth('admin'), async (req, res) => {
+    try {
+        res.json({ cabs: await adminOps.cabs() });
+    } catch (error) {
+        console.error('Error listing cabs:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// GET /actions                                   (admin token)
+//
+// The admin action log, newest first.
+// ──────────────────────────────────────────────────────────────
+router.get('/actions', requireAuth('admin'), async (req, res) => {
+    try {
+        res.json({ actions: await adminOps.actions() });
+    } catch (error) {
+        console.error('Error listing admin actions:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /remove-rider                             (admin token)
+// Body: { user_id: string, reason?: string }
+//
+// Takes the rider (and their party) off the trip they are waiting
+// on — with the usual cancellation scenarios, but free of charge —
+// or out of the pool while unmatched. They get REMOVED_BY_ADMIN.
+// ──────────────────────────────────────────────────────────────
+router.post('/remove-rider', requireAuth('admin'), validateBody(RemoveRiderRequest), async (req, res) => {
+    try {
+        const { user_id, reason } = req.body;
+        res.json(await adminOps.removeRider(req.auth!.sub, user_id, reason));
+    } catch (error) {
+        if (error instanceof AdminError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error removing rider:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /dissolve-trip                            (admin token)
+// Body: { trip_id: string, reason?: string }
+//
+// Cancels a trip that has not started for every rider on it: no
+// fees, cab released, riders get REMOVED_BY_ADMIN and the driver
+// RIDER_REMOVED.
+// ──────────────────────────────────────────────────────────────
+router.post('/dissolve-trip', requireAuth('admin'), validateBody(DissolveTripRequest), async (req, res) => {
+    try {
+        const { trip_id, reason } = req.body;
+        res.json(await adminOps.dissolve(req.auth!.sub, trip_id, reason));
+    } catch (error) {
+        if (error instanceof AdminError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error dissolving trip:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /assign-cab                               (admin token)
+// Body: { trip_id: string, cab_id: string, reason?: string }
+//
+// Puts an AVAILABLE cab on a WAITING trip without a cab, skipping
+// the offer (AVAILABLE → ASSIGNED). Riders get CAB_ASSIGNED and
+// the driver TRIP_ASSIGNED, as if the driver had accepted.
+// ──────────────────────────────────────────────────────────────
+router.post('/assign-cab', requireAuth('admin'), validateBody(AssignCabRequest), async (req, res) => {
+    try {
+        const { trip_id, cab_id, reason } = req.body;
+        const result = await adminOps.assignCab(req.auth!.sub, trip_id, cab_id, reason);
+        res.json({ trip_id, cab_id, boarding: result.boarding, trip: result.trip });
+    } catch (error) {
+        if (error instanceof AdminError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error assigning cab:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { airportRegistry } from '../utils/airports';
+
+const router = Router();
+
+// ──────────────────────────────────────────────────────────────
+// GET /                                              (public)
+//
+// Lists the configured airports with their terminals, pricing and
+// pooling limits. Terminals with the same `pool_group` share a
+// matching pool; `pool_key` is the Redis sorted set they use.
+// ──────────────────────────────────────────────────────────────
+router.get('/', (req, res) => {
+    try {
+        const airports = airportRegistry.list().map((airport) => ({
+            ...airport,
+            default: airport.code === airportRegistry.defaultAirport().code,
+            terminals: airport.terminals.map((terminal) => ({
+                ...terminal,
+                pool_key: airportRegistry.poolKey(airport.code, terminal.pool_group)
+            }))
+        }));
+
+        res.json({ airports });
+    } catch (error) {
+        console.error('Error listing airports:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
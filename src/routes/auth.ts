@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { prisma } from '../../lib/prisma';
+import { verifyPassword, verifyToken, issueTokenPair, AuthError, type AuthRole } from '../utils/auth';
+import { validateBody } from '../middleware/validate';
+import { LoginRequest, RefreshTokenRequest } from '../validation/requests';
+
+const router = Router();
+
+// ── The account table behind each role ──
+const accountSelect = { id: true, name: true, password: true };
+
+function findAccount(role: AuthRole, where: { email: string } | { id: string }) {
+    switch (role) {
+        case 'driver': return prisma.drivers.findUnique({ where, select: accountSelect });
+        case 'admin': return prisma.admins.findUnique({ where, select: accountSelect });
+        default: return prisma.users.findUnique({ where, select: accountSelect });
+    }
+}
+
+// ──────────────────────────────────────────────────────────────
+// POST /login
+// Body: { email: string, password: string, role: 'user' | 'driver' | 'admin' }
+//
+// Verifies the password against the Users (riders), Drivers or
+// Admins table and issues a signed access / refresh token pair.
+// ──────────────────────────────────────────────────────────────
+router.post('/login', validateBody(LoginRequest), async (req, res) => {
+    try {
+        const { email, password, role = 'user' } = req.body as LoginRequest;
+
+        // ── Look up the account for the requested role ──
+        const account = await findAccount(role, { email });
+
+        // Same response for unknown email and wrong password — don't leak which one
+        if (!account || !(await verifyPassword(password, account.password))) {
+            res.status(401).json({ error: 'Invalid email or password' });
+            return;
+        }
+
+        res.status(200).json({
+            message: 'Login successful',
+            id: account.id,
+            name: account.name,
+            role,
+            ...issueTokenPair(account.id, role)
+        });
+    } catch (error) {
+        console.error('Error logging in:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /refresh
+// Body: { refresh_token: string }
+//
+// Exchanges a valid refresh token for a new token pair.
+// ──────────────────────────────────────────────────────────────
+router.post('/refresh', validateBody(RefreshTokenRequest), async (req, res) => {
+    try {
+        const { refresh_token } = req.body;
+
+        const claims = verifyToken(refresh_token, 'refresh');
+
+        // Make sure the account still exists before re-issuing
+        const exists = await findAccount(claims.role, { id: claims.sub });
+
+        if (!exists) {
+            res.status(401).json({ error: 'Account no longer exists' });
+            return;
+        }
+
+        res.status(200).json({
+            message: 'Token refreshed',
+            ...issueTokenPair(claims.sub, claims.role)
+        });
+    } catch (error) {
+        if (error instanceof AuthError) {
+            res.status(401).json({ error: error.message });
+            return;
+        }
+        console.error('Error refreshing token:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
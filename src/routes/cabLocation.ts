@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { prisma } from '../../lib/prisma';
+import { cabLocations } from '../utils/cabLocation';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { CabLocationRequest } from '../validation/requests';
+
+const router = Router();
+
+// ──────────────────────────────────────────────────────────────
+// POST /                                 (rider or driver token)
+// Body: { trip_id: string }
+//
+// Last known position of the trip's cab, as reported by the driver's
+// LOCATION_UPDATE pings. `stale` once no ping has arrived for
+// CAB_LOCATION_STALE_SECONDS. Live updates arrive over the WebSocket
+// (CAB_LOCATION, ETA_UPDATE).
+// ──────────────────────────────────────────────────────────────
+router.post('/', requireAuth('user', 'driver'), validateBody(CabLocationRequest), async (req, res) => {
+    try {
+        const { trip_id } = req.body;
+        const { sub, role } = req.auth!;
+
+        const trip = await prisma.trips.findUnique({
+            where: { id: trip_id },
+            include: {
+                cab: { select: { id: true, cab_number: true, driver_id: true } },
+                rideRequests: { select: { user_id: true } }
+            }
+        });
+
+        // ── Only the trip's riders and its driver may see the cab ──
+        const allowed = role === 'driver'
+            ? trip?.cab?.driver_id === sub
+            : trip?.rideRequests.some((rr) => rr.user_id === sub);
+        if (!trip || !allowed) {
+            res.status(404).json({ error: 'Trip not found' });
+            return;
+        }
+        if (!trip.cab) {
+            res.status(404).json({ error: 'No cab assigned to this trip yet' });
+            return;
+        }
+
+        const position = await cabLocations.lastKnown(trip.cab.id);
+        if (!position) {
+            res.status(404).json({ error: 'The cab has not reported its position yet' });
+            return;
+        }
+
+        res.json({
+            trip_id,
+            cab_id: trip.cab.id,
+            cab_number: trip.cab.cab_number,
+            location: position.location,
+            h3_cell: position.h3_cell,
+            heading: position.heading,
+            speed_kmph: position.speed_kmph,
+            recorded_at: position.recorded_at,
+            stale: cabLocations.isStale(position)
+        });
+    } catch (error) {
+        console.error('Error fetching cab location:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
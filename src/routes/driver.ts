@@ -0,0 +1,147 @@
+import { Router } from 'express';
+import { cabStatus, CabStatusError, type DriverStatus } from '../utils/cabStatus';
+import { driverDispatch } from '../utils/driverDispatch';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { EnRouteRequest } from '../validation/requests';
+
+const router = Router();
+
+function toResponse(current: DriverStatus) {
+    return {
+        cab_id: current.cab_id,
+        status: current.status,
+        shift: current.shift && {
+            id: current.shift.id,
+            started_at: current.shift.started_at,
+            ended_at: current.shift.ended_at
+        }
+    };
+}
+
+// ──────────────────────────────────────────────────────────────
+// GET /status                                   (driver token)
+//
+// The cab's status and open shift, plus its recent shifts and
+// status changes (audit trail), newest first.
+// ──────────────────────────────────────────────────────────────
+router.get('/status', requireAuth('driver'), async (req, res) => {
+    try {
+        const current = await cabStatus.current(req.auth!.sub);
+        const [shifts, history] = await Promise.all([
+            cabStatus.shifts(current.cab_id),
+            cabStatus.history(current.cab_id)
+        ]);
+        res.json({
+            ...toResponse(current),
+            shifts: shifts.map((shift) => ({ id: shift.id, started_at: shift.started_at, ended_at: shift.ended_at })),
+            history: history.map((change) => ({
+                from_status: change.from_status,
+                to_status: change.to_status,
+                reason: change.reason,
+                trip_id: change.trip_id,
+                created_at: change.created_at
+            }))
+        });
+    } catch (error) {
+        if (error instanceof CabStatusError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error fetching driver status:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /online                                  (driver token)
+//
+// OFFLINE → AVAILABLE, starting a shift; also ends a break.
+// Offers arrive over the driver WebSocket while AVAILABLE.
+// Already online: no-op.
+// ──────────────────────────────────────────────────────────────
+router.post('/online', requireAuth('driver'), async (req, res) => {
+    try {
+        const current = await cabStatus.goOnline(req.auth!.sub);
+        driverDispatch.availabilityChanged(current.cab_id, true).catch((err) =>
+            console.error(`[Driver] Dispatch update failed for cab ${current.cab_id}:`, err)
+        );
+        res.json(toResponse(current));
+    } catch (error) {
+        if (error instanceof CabStatusError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error going online:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /offline                                 (driver token)
+//
+// AVAILABLE / BREAK → OFFLINE, ending the shift. 409 while the cab
+// has a pending offer or a trip.
+// ──────────────────────────────────────────────────────────────
+router.post('/offline', requireAuth('driver'), async (req, res) => {
+    try {
+        const current = await cabStatus.goOffline(req.auth!.sub);
+        driverDispatch.availabilityChanged(current.cab_id, false).catch((err) =>
+            console.error(`[Driver] Dispatch update failed for cab ${current.cab_id}:`, err)
+        );
+        res.json(toResponse(current));
+    } catch (error) {
+        if (error instanceof CabStatusError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error going offline:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /break                                   (driver token)
+//
+// AVAILABLE → BREAK: stays on shift without receiving offers.
+// End the break with POST /online.
+// ──────────────────────────────────────────────────────────────
+router.post('/break', requireAuth('driver'), async (req, res) => {
+    try {
+        const current = await cabStatus.takeBreak(req.auth!.sub);
+        driverDispatch.availabilityChanged(current.cab_id, false).catch((err) =>
+            console.error(`[Driver] Dispatch update failed for cab ${current.cab_id}:`, err)
+        );
+        res.json(toResponse(current));
+    } catch (error) {
+        if (error instanceof CabStatusError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error starting a break:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /en-route                                (driver token)
+// Body: { trip_id: string }
+//
+// ASSIGNED → EN_ROUTE: the driver is heading to the trip's pickup
+// bay. The ride is then started as usual (POST /ride/start).
+// ──────────────────────────────────────────────────────────────
+router.post('/en-route', requireAuth('driver'), validateBody(EnRouteRequest), async (req, res) => {
+    try {
+        const current = await cabStatus.enRoute(req.auth!.sub, req.body.trip_id);
+        res.json(toResponse(current));
+    } catch (error) {
+        if (error instanceof CabStatusError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error marking en route:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+import { prisma } from '../../lib/prisma';
+import { pubSubService } from '../utils/pubsub';
+import { driverDispatch } from '../utils/driverDispatch';
+import { cabLocations } from '../utils/cabLocation';
+import { cabSelection } from '../utils/cabSelection';
+import { validationError } from '../middleware/validate';
+import { DriverClientMessage } from '../validation/requests';
+import type { ServerWebSocket } from 'bun';
+
+export interface DriverWsData {
+    driverId: string;
+    cabId?: string;
+}
+
+// ──────────────────────────────────────────────────────────────
+// Driver WebSocket channel (same /ws endpoint, driver token)
+//
+// Server → driver: CONNECTED, TRIP_OFFER, TRIP_OFFER_EXPIRED,
+//                  TRIP_OFFER_WITHDRAWN, TRIP_ASSIGNED, TRIP_DECLINED
+// Driver → server: ACCEPT_TRIP, DECLINE_TRIP, LOCATION_UPDATE, PING
+// ──────────────────────────────────────────────────────────────
+export const driverWebSocketHandler = {
+    async open(ws: ServerWebSocket<DriverWsData>) {
+        const { driverId } = ws.data;
+
+        // ── Only drivers with a registered cab can receive offers ──
+        const cab = await prisma.cabs.findUnique({ where: { driver_id: driverId } });
+        if (!cab) {
+            ws.send(JSON.stringify({
+                type: 'ERROR',
+                message: 'No cab registered for this driver. Register one via POST /signup/cab first.'
+            }));
+            ws.close(1008, 'No cab registered');
+            return;
+        }
+        ws.data.cabId = cab.id;
+
+        // Offers are published from the dispatch service via PubSub
+        await pubSubService.subscribeDriver(driverId, (message: string) => {
+            if (ws.readyState === 1) { // WebSocket.OPEN
+                ws.send(message);
+            }
+        });
+
+        // Offers only reach a driver who has gone online (POST /driver/online)
+        const offline = cab.status === 'OFFLINE' || cab.status === 'BREAK';
+        ws.send(JSON.stringify({
+            type: 'CONNECTED',
+            status: cab.status,
+            cab_id: cab.id,
+            message: offline
+                ? `Connected while ${cab.status}. Go online (POST /driver/online) to receive trip offers.`
+                : `Connected. Trip offers must be answered within ${driverDispatch.offerTimeoutSeconds}s.`
+        }));
+
+        await driverDispatch.driverOnline(driverId, cab.id);
+        console.log(`Driver WebSocket opened: ${driverId} (cab ${cab.id})`);
+    },
+
+    async message(ws: ServerWebSocket<DriverWsData>, message: string | Buffer) {
+        try {
+            const parsed = DriverClientMessage.safeParse(JSON.parse(message.toString()));
+
+            if (!parsed.success) {
+                ws.send(JSON.stringify({
+                    type: 'ERROR',
+                    message: 'Invalid message',
+                    ...validationError(parsed.issues, 'Invalid message')
+                }));
+                return;
+            }
+
+            const data = parsed.data;
+            const { driverId } = ws.data;
+
+            if (data.type === 'PING') {
+                ws.send(JSON.stringify({ type: 'PONG', timestamp: Date.now() }));
+                return;
+            }
+
+            // ── GPS ping → stored, streamed to the trip's riders, taxi queue updated (no reply) ──
+            if (data.type === 'LOCATION_UPDATE') {
+                const position = await cabLocations.record(ws.data.cabId!, driverId, data);
+                if (position) await cabSelection.track(position);
+                return;
+            }
+
+            // ── Accept the pending offer → cab assigned, riders notified ──
+            if (data.type === 'ACCEPT_TRIP') {
+                const result = await driverDispatch.acceptOffer(driverId, data.trip_id);
+
+                if (result.error) {
+                    ws.send(JSON.stringify({ type: 'ERROR', message: result.error, trip_id: data.trip_id }));
+                    return;
+                }
+
+                ws.send(JSON.stringify({ type: 'TRIP_ASSIGNED', trip_id: data.trip_id, boarding: result.boarding, trip: result.trip }));
+                return;
+            }
+
+            // ── Decline → offer moves on to the next cab ──
+            if (data.type === 'DECLINE_TRIP') {
+                const declined = await driverDispatch.declineOffer(driverId, data.trip_id, data.reason);
+
+                ws.send(JSON.stringify(declined
+                    ? { type: 'TRIP_DECLINED', trip_id: data.trip_id }
+                    : { type: 'ERROR', message: 'No pending offer for this trip', trip_id: data.trip_id }
+                ));
+                return;
+            }
+        } catch (err) {
+            console.error(`[Driver WS] Error handling message from ${ws.data.driverId}:`, err);
+            ws.send(JSON.stringify({ type: 'ERROR', message: 'Failed to process message. Please try again.' }));
+        }
+    },
+
+    async close(ws: ServerWebSocket<DriverWsData>, code: number, reason: string) {
+        const { driverId, cabId } = ws.data;
+        if (!cabId) return; // Rejected in open()
+
+        // A pending offer is treated as declined so the trip moves on
+        await driverDispatch.driverOffline(driverId)
+            .catch(err => console.error(`[Driver WS Close] Failed to release offer for ${driverId}:`, err));
+
+        await pubSubService.unsubscribeDriver(driverId);
+        console.log(`Driver WebSocket closed: ${driverId} (code: ${code})`);
+    },
+};
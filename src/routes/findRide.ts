@@ -1,21 +1,34 @@
 import { Router } from 'express';
-import { generateH3IndexesForRoute, calculateIssuedPrice } from '../rideMatching/demo';
+import { generateH3IndexesForRoute } from '../rideMatching/demo';
 import { pubSubService } from '../utils/pubsub';
+import { driverDispatch } from '../utils/driverDispatch';
+import { withDropPlan } from '../rideMatching/dropSequence';
+import { airportRegistry, AirportError, type ResolvedPickup } from '../utils/airports';
+import { fareEngine } from '../pricing/fareEngine';
+import { fareQuotes, type FareQuote } from '../pricing/quotes';
+import { soloOffers } from '../utils/soloOffers';
+import { matchExpiry, waitTerms } from '../utils/matchExpiry';
+import { redisService } from '../utils/redisClient';
+import { fleetCapacity, capacitiesFor } from '../utils/fleet';
+import { MAX_DETOUR_METERS } from '../rideMatching/relaxation';
+import { fromStored, invalidPreferences, mergePreferences } from '../rideMatching/preferences';
+import { parties, partyCompanions, PartyError, type PartyMetaData } from '../utils/parties';
+import { boarding, BoardingError } from '../utils/boarding';
+import { reliability } from '../utils/reliability';
+import { scheduledRides } from '../utils/scheduledRides';
 import { prisma } from '../../lib/prisma';
 import { rideMatchingPool } from '../../index';
+import { requireAuth } from '../middleware/auth';
+import { validateBody, validationError } from '../middleware/validate';
+import { ClientMessage, FareQuoteRequest, type RegisterRideMessage } from '../validation/requests';
 import type { ServerWebSocket } from 'bun';
 
 const router = Router();
 
-// ── Get all trips for a user ──
-router.post('/trips', async (req, res) => {
+// ── Get all trips for the authenticated user ──
+router.post('/trips', requireAuth('user'), async (req, res) => {
     try {
-        const { user_id } = req.body;
-
-        if (!user_id) {
-            res.status(400).json({ error: 'user_id is required' });
-            return;
-        }
+        const user_id = req.auth!.sub;
 
         const trips = await prisma.rideRequests.findMany({
             where: { user_id },
@@ -39,31 +52,161 @@ router.post('/trips', async (req, res) => {
             }
         });
 
-        res.json({ trips });
+        // ── Attach the drop-off plan (order, ETAs, detours) to each trip ──
+        const tripsWithPlan = await Promise.all(trips.map(async (rr) => ({
+            ...rr,
+            trip: await withDropPlan(rr.trip)
+        })));
+
+        res.json({ trips: tripsWithPlan });
     } catch (error) {
         console.error('Error fetching trips:', error);
         res.status(500).json({ error: 'Internal Server Error' });
     }
 });
 
-export interface WsData {
-    userId: string;
+// ── Surge: riders waiting at the airport vs. cabs free to take them ──
+async function currentSurge(airportCode: string): Promise<number> {
+    const [waitingRiders, availableCabs] = await Promise.all([
+        redisService.countWaitingRiders(airportRegistry.poolKeysFor(airportCode)),
+        prisma.cabs.count({ where: { status: 'AVAILABLE' } })
+    ]);
+    return fareEngine.surgeMultiplier(fareEngine.rulesFor(airportCode), waitingRiders, availableCabs);
 }
 
-interface RegisterRidePayload {
-    type: 'REGISTER_RIDE';
-    no_of_passengers: number;
-    luggage: number;
-    latitude: number;
-    longitude: number;
+// ── Wait estimate: riders heading the same way out of the airport ──
+// Routes sharing their first QUOTE_ROUTE_PREFIX_CELLS H3 cells count as
+// "on route"; each one shortens the expected wait for a match.
+const QUOTE_ROUTE_PREFIX_CELLS = 10;
+const BASE_MATCH_WAIT_SECONDS = 600;
+
+function estimateWaitSeconds(ridersOnRoute: number): number {
+    return Math.round(BASE_MATCH_WAIT_SECONDS / (1 + ridersOnRoute));
+}
+
+// ──────────────────────────────────────────────────────────────
+// POST /quote                                          (user)
+// Body: { no_of_passengers, luggage, latitude, longitude,
+//         airport_code?, terminal_code? }
+//
+// Prices the ride before entering the matching pool: the solo fare,
+// the range the fare can drop to once shared, and an estimated wait
+// from how many pool entries share the start of this route. The
+// returned quote_id locks the solo fare until expires_at when sent
+// with REGISTER_RIDE.
+// ──────────────────────────────────────────────────────────────
+router.post('/quote', requireAuth('user'), validateBody(FareQuoteRequest), async (req, res) => {
+    try {
+        const user_id = req.auth!.sub;
+        const body = req.body as FareQuoteRequest;
+
+        let pickup: ResolvedPickup;
+        try {
+            pickup = airportRegistry.resolve(body.airport_code, body.terminal_code);
+        } catch (err) {
+            if (!(err instanceof AirportError)) throw err;
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        const { airport, terminal, poolKey } = pickup;
+
+        const route = await generateH3IndexesForRoute({
+            latitude: body.latitude,
+            longitude: body.longitude
+        }, { origin: terminal.pickup });
+
+        const fare = fareEngine.soloFare({
+            airport_code: airport.code,
+            distance_km: route.totalDistanceKm,
+            duration_seconds: route.durationSeconds,
+            luggage: body.luggage,
+            surge_multiplier: await currentSurge(airport.code)
+        });
+
+        // Best case: the largest free cab full, every co-rider at the maximum
+        // detour; worst case: one co-rider and no detour. No range if the
+        // party already fills the largest cab.
+        const largestCab = Math.max(...capacitiesFor(await fleetCapacity.snapshot(), airport).map((capacity) => capacity.passengers));
+        const maxCoRiders = largestCab - body.no_of_passengers;
+        const shared_fare_range = maxCoRiders > 0
+            ? {
+                min: fareEngine.sharedFare(fare, maxCoRiders, MAX_DETOUR_METERS).total,
+                max: fareEngine.sharedFare(fare, 1, 0).total
+            }
+            : null;
+
+        const [ridersWaiting, ridersOnRoute] = await Promise.all([
+            redisService.countWaitingRiders([poolKey]),
+            redisService.countRidersOnRoute(poolKey, route.pathH3Indexes, QUOTE_ROUTE_PREFIX_CELLS)
+        ]);
+
+        const quote = await fareQuotes.create({
+            user_id,
+            airport_code: airport.code,
+            terminal_code: terminal.code,
+            latitude: body.latitude,
+            longitude: body.longitude,
+            no_of_passengers: body.no_of_passengers,
+            luggage: body.luggage,
+            fare
+        });
+
+        res.json({
+            quote_id: quote.quote_id,
+            expires_at: quote.expires_at,
+            airport_code: airport.code,
+            terminal_code: terminal.code,
+            distance_km: fare.distance_km,
+            duration_minutes: fare.duration_minutes,
+            solo_fare: fare.total,
+            fare_breakdown: fare,
+            shared_fare_range,
+            estimated_wait_seconds: estimateWaitSeconds(ridersOnRoute),
+            pool: {
+                riders_waiting: ridersWaiting,
+                riders_on_route: ridersOnRoute
+            }
+        });
+    } catch (error) {
+        console.error('Error creating fare quote:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ── Redeem a quote for REGISTER_RIDE: returns it, or an error message ──
+async function redeemQuote(quoteId: string, userId: string, payload: RegisterRideMessage, pickup: ResolvedPickup): Promise<FareQuote | string> {
+    const quote = await fareQuotes.get(quoteId);
+    if (!quote || quote.user_id !== userId) {
+        return 'Quote expired or not found';
+    }
+
+    const matches = quote.airport_code === pickup.airport.code
+        && quote.terminal_code === pickup.terminal.code
+        && quote.latitude === payload.latitude
+        && quote.longitude === payload.longitude
+        && quote.no_of_passengers === payload.no_of_passengers
+        && quote.luggage === payload.luggage;
+    if (!matches) {
+        return 'Ride details do not match the quote';
+    }
+
+    // Single use — lost a race with another REGISTER_RIDE on the same quote
+    if (!await fareQuotes.redeem(quoteId)) {
+        return 'Quote expired or not found';
+    }
+    return quote;
+}
+
+export interface WsData {
+    userId: string;
 }
 
 export const rideWebSocketHandler = {
     async open(ws: ServerWebSocket<WsData>) {
         const { userId } = ws.data;
         if (!userId) {
-            ws.send(JSON.stringify({ error: 'Missing userId query parameter' }));
-            ws.close(1008, 'Missing userId');
+            ws.send(JSON.stringify({ error: 'Not authenticated — connect with ?token=<access_token>' }));
+            ws.close(1008, 'Not authenticated');
             return;
         }
 
@@ -107,7 +250,18 @@ export const rideWebSocketHandler = {
 
     async message(ws: ServerWebSocket<WsData>, message: string | Buffer) {
         try {
-            const data = JSON.parse(message.toString());
+            const parsed = ClientMessage.safeParse(JSON.parse(message.toString()));
+
+            if (!parsed.success) {
+                ws.send(JSON.stringify({
+                    type: 'ERROR',
+                    message: 'Invalid message',
+                    ...validationError(parsed.issues, 'Invalid message')
+                }));
+                return;
+            }
+
+            const data = parsed.data;
 
             if (data.type === 'PING') {
                 ws.send(JSON.stringify({ type: 'PONG', timestamp: Date.now() }));
@@ -117,31 +271,108 @@ export const rideWebSocketHandler = {
             // ── Handle REGISTER_RIDE — re-insert user into Redis pool ──
             if (data.type === 'REGISTER_RIDE') {
                 const { userId } = ws.data;
-                const payload = data as RegisterRidePayload;
+                const payload = data;
 
-                // Validate required fields
-                if (!payload.no_of_passengers || payload.luggage == null || !payload.latitude || !payload.longitude) {
-                    ws.send(JSON.stringify({
-                        type: 'ERROR',
-                        message: 'REGISTER_RIDE requires: no_of_passengers, luggage, latitude, longitude'
-                    }));
+                // ── Resolve the pickup airport / terminal → pool ──
+                let pickup: ResolvedPickup;
+                try {
+                    pickup = airportRegistry.resolve(payload.airport_code, payload.terminal_code);
+                } catch (err) {
+                    if (!(err instanceof AirportError)) throw err;
+                    ws.send(JSON.stringify({ type: 'ERROR', message: err.message }));
+                    return;
+                }
+                const { airport, terminal, poolKey } = pickup;
+
+                // ── Saved preferences, with this ride's overrides (see preferences.ts) ──
+                const rider = await prisma.users.findUnique({ where: { id: userId } });
+                if (!rider) {
+                    ws.send(JSON.stringify({ type: 'ERROR', message: 'User not found' }));
+                    return;
+                }
+                const preferences = mergePreferences(fromStored(rider), payload.preferences);
+                const invalidPreference = invalidPreferences(preferences, rider.gender);
+                if (invalidPreference) {
+                    ws.send(JSON.stringify({ type: 'ERROR', message: invalidPreference }));
                     return;
                 }
 
+                // ── A party rides as one unit: everyone's passengers / luggage (see parties.ts) ──
+                let party: PartyMetaData | undefined;
+                try {
+                    party = await parties.forRegistration(userId, payload.party_id, {
+                        user_id: userId,
+                        no_of_passengers: payload.no_of_passengers,
+                        luggage: payload.luggage,
+                        gender: rider.gender,
+                        age: rider.age
+                    });
+                } catch (err) {
+                    if (!(err instanceof PartyError)) throw err;
+                    ws.send(JSON.stringify({ type: 'ERROR', message: err.message }));
+                    return;
+                }
+                const passengers = party?.members.reduce((sum, member) => sum + member.no_of_passengers, 0) ?? payload.no_of_passengers;
+                const luggage = party?.members.reduce((sum, member) => sum + member.luggage, 0) ?? payload.luggage;
+
+                // ── Price locked by a quote (for a party: quoted for its totals), if one was sent ──
+                // Put back if the registration fails, so the rider can retry at that price
+                let quote: FareQuote | undefined;
+                if (payload.quote_id) {
+                    const redeemed = await redeemQuote(payload.quote_id, userId, { ...payload, no_of_passengers: passengers, luggage }, pickup);
+                    if (typeof redeemed === 'string') {
+                        ws.send(JSON.stringify({ type: 'ERROR', message: redeemed }));
+                        return;
+                    }
+                    quote = redeemed;
+                }
+
                 try {
                     // Generate H3 indexes for the route (lightweight, stays on main thread)
                     const result = await generateH3IndexesForRoute({
                         latitude: payload.latitude,
                         longitude: payload.longitude
+                    }, { origin: terminal.pickup });
+
+                    // Solo fare (quoted or current) — re-priced with the sharing discount once matched
+                    const fare = quote?.fare ?? fareEngine.soloFare({
+                        airport_code: airport.code,
+                        distance_km: result.totalDistanceKm,
+                        duration_seconds: result.durationSeconds,
+                        luggage,
+                        surge_multiplier: await currentSurge(airport.code)
                     });
 
                     const userMetaData = {
-                        no_of_passengers: payload.no_of_passengers,
+                        no_of_passengers: passengers,
                         destination_h3: result.destinationH3,
-                        luggage: payload.luggage,
+                        luggage,
                         status: 'WAITING' as const,
-                        issued_price: calculateIssuedPrice(result.totalDistanceKm)
+                        issued_price: fare.total,
+                        fare,
+                        airport_code: airport.code,
+                        terminal_code: terminal.code,
+                        pool_key: poolKey,
+                        // Deadline for a match, and the fallback after it (see matchExpiry.ts)
+                        ...waitTerms(payload.max_wait_seconds, payload.on_timeout),
+                        // Who this rider may be pooled with, checked both ways
+                        gender: rider.gender,
+                        age: rider.age,
+                        preferences,
+                        party,
+                        // Chronic cancellers are matched last (see reliability.ts)
+                        reliability: (await reliability.score(userId)).score
                     };
+                    if (party) {
+                        try {
+                            await parties.lock(party);
+                        } catch (err) {
+                            if (!(err instanceof PartyError)) throw err;
+                            if (quote) await fareQuotes.restore(quote).catch(() => { });
+                            ws.send(JSON.stringify({ type: 'ERROR', message: err.message }));
+                            return;
+                        }
+                    }
 
                     // ── Offload to worker thread ──
                     // The heavy ride matching (Redis storage + H3 comparisons +
@@ -153,6 +384,7 @@ export const rideWebSocketHandler = {
                         split_point_h3?: string;
                         trip_id?: string;
                         trip?: any;
+                        matched_elsewhere?: boolean;
                     }>({
                         type: 'MATCH_RIDE',
                         payload: {
@@ -168,16 +400,44 @@ export const rideWebSocketHandler = {
                             type: 'RIDE_MATCHED',
                             ...matches
                         }));
+
+                        // Trips form without a cab — offer it to an online driver
+                        // (no-op if the trip already has one or an offer is out)
+                        if (matches.trip?.id) {
+                            driverDispatch.dispatchTrip(matches.trip.id)
+                                .catch(err => console.error(`[WS] Failed to dispatch trip ${matches.trip.id}:`, err));
+                        }
+                    } else if (matches.matched_elsewhere) {
+                        // Another rider's worker claimed this rider while we were
+                        // matching — RIDE_MATCHED arrives via PubSub instead
+                        console.log(`[WS] ${userId} was matched by a concurrent registration`);
                     } else {
                         // No match yet — user stays in the Redis pool,
                         // waiting for a future HTTP request or WS user to match with them
-                        ws.send(JSON.stringify({
+                        const registered = {
                             type: 'REGISTERED',
+                            airport_code: airport.code,
+                            terminal_code: terminal.code,
+                            fare,
+                            quote_id: payload.quote_id,
+                            expires_at: userMetaData.expires_at,
+                            on_timeout: userMetaData.on_timeout,
+                            preferences,
+                            party_id: party?.party_id,
                             message: 'You are now in the matching pool. Waiting for a ride match...'
-                        }));
+                        };
+                        ws.send(JSON.stringify(registered));
+
+                        // The rest of the party learns it from its leader's registration
+                        for (const companion of partyCompanions(userId, userMetaData)) {
+                            pubSubService.publish(companion, { ...registered, message: 'Your party leader registered the ride. Waiting for a ride match...' })
+                                .catch(err => console.error(`[WS] REGISTERED notification failed for ${companion}:`, err));
+                        }
                     }
                 } catch (err) {
                     console.error(`[WS] Error processing REGISTER_RIDE for ${userId}:`, err);
+                    if (party) await parties.reopen(party.party_id).catch(() => { });
+                    if (quote) await fareQuotes.restore(quote).catch(() => { });
                     ws.send(JSON.stringify({
                         type: 'ERROR',
                         message: 'Failed to register ride. Please try again.'
@@ -185,6 +445,69 @@ export const rideWebSocketHandler = {
                 }
                 return;
             }
+
+            // ── Handle ACCEPT_SOLO_OFFER — book a cab of their own after a match timeout ──
+            if (data.type === 'ACCEPT_SOLO_OFFER') {
+                const { userId } = ws.data;
+
+                if (!await soloOffers.get(data.offer_id, userId)) {
+                    ws.send(JSON.stringify({ type: 'ERROR', message: 'Solo offer expired or not found' }));
+                    return;
+                }
+                // Re-registered and matched since the offer was made
+                if (await matchExpiry.hasWaitingTrip(userId)) {
+                    await soloOffers.take(data.offer_id);
+                    ws.send(JSON.stringify({ type: 'ERROR', message: 'Already part of a waiting trip — solo offer withdrawn' }));
+                    return;
+                }
+                // Single use — lost a race with another ACCEPT / DECLINE on the same offer
+                const offer = await soloOffers.take(data.offer_id);
+                if (!offer) {
+                    ws.send(JSON.stringify({ type: 'ERROR', message: 'Solo offer expired or not found' }));
+                    return;
+                }
+
+                // RIDE_MATCHED follows via PubSub once the trip is persisted
+                const tripId = await matchExpiry.bookSolo(offer);
+                ws.send(JSON.stringify({
+                    type: 'SOLO_OFFER_ACCEPTED',
+                    offer_id: offer.offer_id,
+                    trip_id: tripId,
+                    fare: offer.fare
+                }));
+                return;
+            }
+
+            // ── Handle DECLINE_SOLO_OFFER — the rider may REGISTER_RIDE again ──
+            if (data.type === 'DECLINE_SOLO_OFFER') {
+                const { userId } = ws.data;
+
+                const offer = await soloOffers.get(data.offer_id, userId) && await soloOffers.take(data.offer_id);
+                if (!offer) {
+                    ws.send(JSON.stringify({ type: 'ERROR', message: 'Solo offer expired or not found' }));
+                    return;
+                }
+                ws.send(JSON.stringify({
+                    type: 'SOLO_OFFER_DECLINED',
+                    offer_id: offer.offer_id,
+                    message: 'Offer declined. Send REGISTER_RIDE to wait for a co-rider again.'
+                }));
+                return;
+            }
+
+            // ── Handle CHECK_IN — the rider is at the pickup bay ──
+            if (data.type === 'CHECK_IN') {
+                const { userId } = ws.data;
+
+                try {
+                    const result = await boarding.checkIn(userId, data.trip_id);
+                    ws.send(JSON.stringify({ type: 'CHECKED_IN', ...result }));
+                } catch (err) {
+                    if (!(err instanceof BoardingError)) throw err;
+                    ws.send(JSON.stringify({ type: 'ERROR', message: err.message, trip_id: data.trip_id }));
+                }
+                return;
+            }
         } catch {
             // Ignore malformed messages
         }
@@ -193,6 +516,19 @@ export const rideWebSocketHandler = {
     async close(ws: ServerWebSocket<WsData>, code: number, reason: string) {
         const { userId } = ws.data;
         if (userId) {
+            await pubSubService.unsubscribe(userId);
+
+            // A released pre-booked pickup waits in the pool without a socket
+            // (see scheduledRides.ts) — cancel it with POST /scheduled-rides/cancel
+            const released = await scheduledRides.hasReleased(userId).catch((err) => {
+                console.error(`[WS Close] Scheduled ride lookup failed for ${userId}:`, err);
+                return false;
+            });
+            if (released) {
+                console.log(`WebSocket closed for user: ${userId} (code: ${code}) — scheduled pickup kept in the pool`);
+                return;
+            }
+
             // ── Offload cleanup to worker thread ──
             // This ensures no one can match with a disconnected user
             rideMatchingPool.execute({
@@ -200,7 +536,6 @@ export const rideWebSocketHandler = {
                 payload: { userId }
             }).catch(err => console.error(`[WS Close] Failed to remove user ${userId}:`, err));
 
-            await pubSubService.unsubscribe(userId);
             console.log(`WebSocket closed for user: ${userId} (code: ${code}) — removed from Redis pool`);
         }
     },
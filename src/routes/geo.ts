@@ -0,0 +1,103 @@
+import { Router } from 'express';
+import { prisma } from '../../lib/prisma';
+import { geoExport, GeoExportError } from '../utils/geoExport';
+import { AirportError, airportRegistry } from '../utils/airports';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { PoolHeatmapRequest, RiderRouteRequest, TripGeometryRequest } from '../validation/requests';
+
+const router = Router();
+
+// Every export is a GeoJSON FeatureCollection
+const GEOJSON = 'application/geo+json';
+
+// ──────────────────────────────────────────────────────────────
+// POST /rider-route                       (rider or admin token)
+// Body: { user_id?: string }                        (admins only)
+//
+// The rider's route as H3 hexagons plus its cell path, pickup and
+// destination cell — from the pool while they wait, else recomputed
+// for their latest ride.
+// ──────────────────────────────────────────────────────────────
+router.post('/rider-route', requireAuth('user', 'admin'), validateBody(RiderRouteRequest), async (req, res) => {
+    try {
+        const { sub, role } = req.auth!;
+        const userId = role === 'admin' ? req.body.user_id : sub;
+        if (!userId) {
+            res.status(400).json({ error: 'user_id is required with an admin token' });
+            return;
+        }
+
+        res.type(GEOJSON).json(await geoExport.riderRoute(userId));
+    } catch (error) {
+        if (error instanceof GeoExportError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error exporting rider route:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /trip                     (rider, driver or admin token)
+// Body: { trip_id: string }
+//
+// The trip's combined route, every rider's route and split point,
+// and the driving path pickup → drop-offs in drop order.
+// ──────────────────────────────────────────────────────────────
+router.post('/trip', requireAuth('user', 'driver', 'admin'), validateBody(TripGeometryRequest), async (req, res) => {
+    try {
+        const { trip_id } = req.body;
+        const { sub, role } = req.auth!;
+
+        // ── Riders and the driver see their own trips; admins any ──
+        if (role !== 'admin') {
+            const trip = await prisma.trips.findUnique({
+                where: { id: trip_id },
+                select: { cab: { select: { driver_id: true } }, rideRequests: { select: { user_id: true } } }
+            });
+            const allowed = role === 'driver'
+                ? trip?.cab?.driver_id === sub
+                : trip?.rideRequests.some((rr) => rr.user_id === sub);
+            if (!allowed) {
+                res.status(404).json({ error: 'Trip not found' });
+                return;
+            }
+        }
+
+        res.type(GEOJSON).json(await geoExport.trip(trip_id));
+    } catch (error) {
+        if (error instanceof GeoExportError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error exporting trip geometry:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /pool-heatmap                              (admin token)
+// Body: { airport_code: string, resolution?: number }
+//
+// The airport's matching pools by H3 cell: waiting riders and trips
+// routed through each cell, their passengers, and destinations.
+// ──────────────────────────────────────────────────────────────
+router.post('/pool-heatmap', requireAuth('admin'), validateBody(PoolHeatmapRequest), async (req, res) => {
+    try {
+        const { airport_code, resolution } = req.body as PoolHeatmapRequest;
+        const { airport } = airportRegistry.resolve(airport_code);
+
+        res.type(GEOJSON).json(await geoExport.poolHeatmap(airport.code, resolution));
+    } catch (error) {
+        if (error instanceof AirportError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        console.error('Error exporting pool heatmap:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import { pubSubService } from '../utils/pubsub';
+import { parties, PartyError } from '../utils/parties';
+import { rideMatchingPool } from '../../index';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { CreatePartyRequest, JoinPartyRequest } from '../validation/requests';
+
+const router = Router();
+
+type Party = NonNullable<Awaited<ReturnType<typeof parties.current>>>;
+
+function toResponse(party: Party) {
+    return {
+        id: party.id,
+        code: party.code,
+        status: party.status,
+        fare_split: party.fare_split,
+        leader_id: party.leader_id,
+        members: party.members.map((member) => ({
+            user_id: member.user_id,
+            name: member.user.name,
+            no_of_passengers: member.no_of_passengers,
+            luggage: member.luggage,
+            joined_at: member.joined_at
+        }))
+    };
+}
+
+// Tell the other members the party changed
+function notifyMembers(party: Party, exceptUserId: string, event: string): void {
+    for (const member of party.members.filter((member) => member.user_id !== exceptUserId)) {
+        pubSubService.publish(member.user_id, {
+            type: 'PARTY_UPDATED',
+            party_id: party.id,
+            event,
+            user_id: exceptUserId
+        }).catch((err) => console.error(`[Party] PARTY_UPDATED notification failed for ${member.user_id}:`, err));
+    }
+}
+
+// ──────────────────────────────────────────────────────────────
+// GET /                                          (rider token)
+//
+// The rider's current party (OPEN or RIDING), or `party: null`.
+// ──────────────────────────────────────────────────────────────
+router.get('/', requireAuth('user'), async (req, res) => {
+    try {
+        const party = await parties.current(req.auth!.sub);
+        res.json({ party: party && toResponse(party) });
+    } catch (error) {
+        console.error('Error fetching party:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /                                         (rider token)
+// Body: CreatePartyRequest
+//
+// Creates a party led by the rider and returns its join code.
+// The leader then registers the ride for everyone with
+// REGISTER_RIDE `party_id`.
+// ──────────────────────────────────────────────────────────────
+router.post('/', requireAuth('user'), validateBody(CreatePartyRequest), async (req, res) => {
+    try {
+        const leaderId = req.auth!.sub;
+        await parties.create(leaderId, req.body as CreatePartyRequest);
+
+        const party = await parties.current(leaderId);
+        res.status(201).json({ party: toResponse(party!) });
+    } catch (error) {
+        if (error instanceof PartyError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error creating party:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /join                                     (rider token)
+// Body: JoinPartyRequest
+//
+// Joins an OPEN party by its code. A rider is in one party at a
+// time and cannot join while on a trip.
+// ──────────────────────────────────────────────────────────────
+router.post('/join', requireAuth('user'), validateBody(JoinPartyRequest), async (req, res) => {
+    try {
+        const userId = req.auth!.sub;
+        const { code, ...share } = req.body as JoinPartyRequest;
+
+        const party = await parties.join(userId, code, share);
+        notifyMembers(party!, userId, 'MEMBER_JOINED');
+        res.json({ party: toResponse(party!) });
+    } catch (error) {
+        if (error instanceof PartyError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error joining party:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /leave                                    (rider token)
+//
+// Members leave an OPEN party. The leader leaving disbands it
+// (and takes it out of the matching pool) unless it is already on
+// a trip — cancel the ride first.
+// ──────────────────────────────────────────────────────────────
+router.post('/leave', requireAuth('user'), async (req, res) => {
+    try {
+        const userId = req.auth!.sub;
+        const party = await parties.leave(userId);
+        const disbanded = party.leader_id === userId;
+
+        if (disbanded) {
+            rideMatchingPool.execute({ type: 'REMOVE_USER', payload: { userId } }).catch((err) =>
+                console.error(`[Party] Redis cleanup failed for party ${party.id}:`, err)
+            );
+        }
+        notifyMembers(party, userId, disbanded ? 'DISBANDED' : 'MEMBER_LEFT');
+
+        res.json({ message: disbanded ? 'Party disbanded' : 'Left the party', party_id: party.id });
+    } catch (error) {
+        if (error instanceof PartyError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error leaving party:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { prisma } from '../../lib/prisma';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { RidePreferencesRequest } from '../validation/requests';
+import {
+    DEFAULT_PREFERENCES,
+    fromStored,
+    invalidPreferences,
+    mergePreferences,
+    toStored
+} from '../rideMatching/preferences';
+
+const router = Router();
+
+// ──────────────────────────────────────────────────────────────
+// GET /                                          (rider token)
+//
+// The rider's saved matching preferences. They apply to every
+// REGISTER_RIDE unless overridden in its `preferences` field.
+// ──────────────────────────────────────────────────────────────
+router.get('/', requireAuth('user'), async (req, res) => {
+    try {
+        const user = await prisma.users.findUnique({ where: { id: req.auth!.sub } });
+        if (!user) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+
+        res.json({ preferences: fromStored(user) });
+    } catch (error) {
+        console.error('Error fetching preferences:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// PUT /                                          (rider token)
+// Body: RidePreferencesRequest
+//
+// Replaces the saved preferences — omitted fields go back to their
+// defaults (off / no limit). Riders already in the pool keep the
+// preferences they registered with.
+// ──────────────────────────────────────────────────────────────
+router.put('/', requireAuth('user'), validateBody(RidePreferencesRequest), async (req, res) => {
+    try {
+        const user = await prisma.users.findUnique({ where: { id: req.auth!.sub }, select: { id: true, gender: true } });
+        if (!user) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+
+        const preferences = mergePreferences(DEFAULT_PREFERENCES, req.body as RidePreferencesRequest);
+        const invalid = invalidPreferences(preferences, user.gender);
+        if (invalid) {
+            res.status(400).json({ error: invalid });
+            return;
+        }
+
+        const updated = await prisma.users.update({ where: { id: user.id }, data: toStored(preferences) });
+        res.json({ preferences: fromStored(updated) });
+    } catch (error) {
+        console.error('Error saving preferences:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { reliability } from '../utils/reliability';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+// ──────────────────────────────────────────────────────────────
+// GET /                                          (rider token)
+//
+// The rider's reliability score and penalty history, newest first.
+// The score weighs cancellations and no-shows of the last
+// RELIABILITY_WINDOW_DAYS against the rides completed; riders below
+// RELIABILITY_DEPRIORITISE_BELOW are matched after everyone else
+// (see src/utils/reliability.ts).
+// ──────────────────────────────────────────────────────────────
+router.get('/', requireAuth('user'), async (req, res) => {
+    try {
+        const userId = req.auth!.sub;
+        const [score, penalties] = await Promise.all([
+            reliability.score(userId),
+            reliability.history(userId)
+        ]);
+        res.json({
+            ...score,
+            penalties: penalties.map((penalty) => ({
+                id: penalty.id,
+                policy: penalty.policy,
+                fee: penalty.fee,
+                trip_id: penalty.trip_id,
+                created_at: penalty.created_at
+            }))
+        });
+    } catch (error) {
+        console.error('Error fetching reliability:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
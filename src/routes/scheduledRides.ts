@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import type { ScheduledRides } from '../../generated/prisma/client';
+import { scheduledRides, ScheduleError, releaseAt } from '../utils/scheduledRides';
+import { AirportError } from '../utils/airports';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { ScheduleRideRequest, CancelScheduledRideRequest } from '../validation/requests';
+
+const router = Router();
+
+function toResponse(ride: ScheduledRides) {
+    return {
+        id: ride.id,
+        flight_number: ride.flight_number,
+        scheduled_arrival: ride.scheduled_arrival,
+        estimated_arrival: ride.estimated_arrival,
+        flight_status: ride.flight_status,
+        status: ride.status,
+        release_at: releaseAt(ride.estimated_arrival),
+        airport_code: ride.airport_code,
+        terminal_code: ride.terminal_code,
+        no_of_passengers: ride.no_of_passengers,
+        luggage: ride.luggage,
+        latitude: ride.latitude,
+        longitude: ride.longitude,
+        fare: ride.fare_breakdown,
+        prematch_group: ride.prematch_group,
+        created_at: ride.created_at
+    };
+}
+
+// ──────────────────────────────────────────────────────────────
+// GET /                                          (rider token)
+//
+// The rider's scheduled (not yet released) and released pickups,
+// soonest arrival first.
+// ──────────────────────────────────────────────────────────────
+router.get('/', requireAuth('user'), async (req, res) => {
+    try {
+        const rides = await scheduledRides.list(req.auth!.sub);
+        res.json({ scheduled_rides: rides.map(toResponse) });
+    } catch (error) {
+        console.error('Error listing scheduled rides:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /                                         (rider token)
+// Body: ScheduleRideRequest
+//
+// Pre-books a pickup for a flight arrival with its solo fare locked.
+// SCHEDULED_RELEASE_MINUTES before the (delay-adjusted) arrival the
+// booking enters the matching pool; progress arrives over the
+// WebSocket (FLIGHT_UPDATED, SCHEDULED_RIDE_PREMATCHED,
+// SCHEDULED_RIDE_RELEASED).
+// ──────────────────────────────────────────────────────────────
+router.post('/', requireAuth('user'), validateBody(ScheduleRideRequest), async (req, res) => {
+    try {
+        const ride = await scheduledRides.book(req.auth!.sub, req.body as ScheduleRideRequest);
+        res.status(201).json({ scheduled_ride: toResponse(ride) });
+    } catch (error) {
+        if (error instanceof ScheduleError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        if (error instanceof AirportError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        console.error('Error scheduling ride:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /cancel                                   (rider token)
+// Body: { booking_id: string }
+//
+// Cancels a scheduled pickup. A released one leaves the matching
+// pool; once it has been matched, cancel the trip instead.
+// ──────────────────────────────────────────────────────────────
+router.post('/cancel', requireAuth('user'), validateBody(CancelScheduledRideRequest), async (req, res) => {
+    try {
+        const ride = await scheduledRides.cancel(req.auth!.sub, req.body.booking_id);
+        res.json({ message: 'Scheduled ride cancelled', scheduled_ride: toResponse(ride) });
+    } catch (error) {
+        if (error instanceof ScheduleError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error('Error cancelling scheduled ride:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+export default router;
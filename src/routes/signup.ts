@@ -1,10 +1,15 @@
 import { Router } from 'express';
 import { prisma } from '../../lib/prisma';
+import { hashPassword } from '../utils/auth';
+import { fleetCapacity } from '../utils/fleet';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { UserSignupRequest, DriverSignupRequest, CabSignupRequest } from '../validation/requests';
 
 const router = Router();
 
 // ── User Sign Up ──
-router.post('/user', async (req, res) => {
+router.post('/user', validateBody(UserSignupRequest), async (req, res) => {
     try {
         const { name, email, password, gender, age } = req.body;
 
@@ -12,10 +17,11 @@ router.post('/user', async (req, res) => {
             data: {
                 name,
                 email,
-                password,
+                password: await hashPassword(password),
                 gender,
                 age,
             },
+            omit: { password: true },
         });
 
         res.status(201).json({ message: 'User created successfully', user });
@@ -26,7 +32,7 @@ router.post('/user', async (req, res) => {
 });
 
 // ── Driver Sign Up ──
-router.post('/driver', async (req, res) => {
+router.post('/driver', validateBody(DriverSignupRequest), async (req, res) => {
     try {
         const { name, email, password, gender, age } = req.body;
 
@@ -34,10 +40,11 @@ router.post('/driver', async (req, res) => {
             data: {
                 name,
                 email,
-                password,
+                password: await hashPassword(password),
                 gender,
                 age,
             },
+            omit: { password: true },
         });
 
         res.status(201).json({ message: 'Driver created successfully', driver });
@@ -47,10 +54,18 @@ router.post('/driver', async (req, res) => {
     }
 });
 
-// ── Add Cab (linked to a driver) ──
-router.post('/cab', async (req, res) => {
+// ── Add Cab (linked to the authenticated driver) ──
+router.post('/cab', requireAuth('driver'), validateBody(CabSignupRequest), async (req, res) => {
     try {
-        const { cab_number, cab_type, no_of_seats, luggage_capacity, driver_id } = req.body;
+        const { cab_number, cab_type, no_of_seats, luggage_capacity } = req.body;
+        const driver_id = req.auth!.sub;
+
+        // Pooling capacity is configured per cab type (see utils/fleet.ts)
+        if (!fleetCapacity.getCabType(cab_type)) {
+            const known = fleetCapacity.listCabTypes().map((type) => type.name).join(', ');
+            res.status(400).json({ error: `Unknown cab type ${cab_type} (known: ${known})` });
+            return;
+        }
 
         const cab = await prisma.cabs.create({
             data: {
@@ -1,5 +1,14 @@
 import { Router } from 'express';
 import { prisma } from '../../lib/prisma';
+import { pubSubService } from '../utils/pubsub';
+import { driverDispatch } from '../utils/driverDispatch';
+import { parties } from '../utils/parties';
+import { cabStatus, CabStatusError } from '../utils/cabStatus';
+import { rideMatchingPool } from '../../index';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { planDropOff, dropOrderOf, tripOrigin } from '../rideMatching/dropSequence';
+import { GenerateOtpRequest, StartRideRequest, DropOffRequest, CompleteRideRequest } from '../validation/requests';
 
 const router = Router();
 
@@ -15,30 +24,26 @@ function generateOtp(): number {
 }
 
 // ──────────────────────────────────────────────────────────────
-// POST /generate-otp
+// POST /generate-otp                   (rider or driver token)
 // Body: { trip_id: string }
 //
 // Generates a unique OTP for every user associated with the
 // given trip (via RideRequests) and stores it — along with an
-// expiry timestamp — on each Users row.
+// expiry timestamp — on each Users row. Only a rider in the
+// trip or the driver of its assigned cab may call this.
 // ──────────────────────────────────────────────────────────────
-router.post('/generate-otp', async (req, res) => {
+router.post('/generate-otp', requireAuth('user', 'driver'), validateBody(GenerateOtpRequest), async (req, res) => {
     try {
         const { trip_id } = req.body;
 
-        // ── Validate input ──
-        if (!trip_id || typeof trip_id !== 'string') {
-            res.status(400).json({ error: 'trip_id is required and must be a string' });
-            return;
-        }
-
         // ── Fetch trip along with its ride requests & users ──
         const trip = await prisma.trips.findUnique({
             where: { id: trip_id },
             include: {
                 rideRequests: {
                     include: { user: true }
-                }
+                },
+                cab: true
             }
         });
 
@@ -47,6 +52,17 @@ router.post('/generate-otp', async (req, res) => {
             return;
         }
 
+        // ── Guard: Caller must be a rider in this trip or its driver ──
+        const { sub, role } = req.auth!;
+        const isMember = role === 'driver'
+            ? trip.cab?.driver_id === sub
+            : trip.rideRequests.some((rr) => rr.user_id === sub);
+
+        if (!isMember) {
+            res.status(403).json({ error: 'You are not part of this trip' });
+            return;
+        }
+
         // ── Guard: Trip must still be in a "WAITING" (or similar pre-active) state ──
         if (trip.status === 'ACTIVE') {
             res.status(409).json({ error: 'Trip is already active' });
@@ -108,52 +124,25 @@ router.post('/generate-otp', async (req, res) => {
 });
 
 // ──────────────────────────────────────────────────────────────
-// POST /start
+// POST /start                                   (driver token)
 // Body: {
 //   trip_id: string,
 //   verifications: [{ user_id: string, otp: number }, ...]
 // }
 //
-// Verifies each user's OTP against the database. If ALL OTPs
-// are valid and not expired:
+// Verifies each user's OTP against the database. Only the driver
+// of the trip's assigned cab may start it. If ALL OTPs are valid
+// and not expired:
 //   a) Clears ride_otp & otp_expiry on every user
-//   b) Sets the Trip status to "ACTIVE"
-//   c) Sets every RideRequest in the trip to "ACTIVE"
+//   b) Sets the Trip status to "ACTIVE" and stamps started_at
+//   c) Sets every RideRequest in the trip to "ACTIVE", stamps
+//      picked_up_at and fixes its drop_order (distance-optimal
+//      order from the drop planner)
+//   d) Moves the cab to "ON_TRIP" (from ASSIGNED or EN_ROUTE)
 // ──────────────────────────────────────────────────────────────
-interface OtpVerification {
-    user_id: string;
-    otp: number;
-}
-
-router.post('/start', async (req, res) => {
+router.post('/start', requireAuth('driver'), validateBody(StartRideRequest), async (req, res) => {
     try {
-        const { trip_id, verifications } = req.body as {
-            trip_id?: string;
-            verifications?: OtpVerification[];
-        };
-
-        // ── Validate input ──
-        if (!trip_id || typeof trip_id !== 'string') {
-            res.status(400).json({ error: 'trip_id is required and must be a string' });
-            return;
-        }
-
-        if (!Array.isArray(verifications) || verifications.length === 0) {
-            res.status(400).json({ error: 'verifications must be a non-empty array of { user_id, otp }' });
-            return;
-        }
-
-        // Validate individual entries
-        for (const v of verifications) {
-            if (!v.user_id || typeof v.user_id !== 'string') {
-                res.status(400).json({ error: `Each verification must include a valid user_id (string)` });
-                return;
-            }
-            if (v.otp == null || typeof v.otp !== 'number') {
-                res.status(400).json({ error: `Each verification must include a valid otp (number) — user_id: ${v.user_id}` });
-                return;
-            }
-        }
+        const { trip_id, verifications } = req.body as StartRideRequest;
 
         // ── Check for duplicate user_ids in the payload ──
         const userIdSet = new Set(verifications.map((v) => v.user_id));
@@ -167,6 +156,7 @@ router.post('/start', async (req, res) => {
             where: { id: trip_id },
             include: {
                 rideRequests: true,
+                cab: true,
             },
         });
 
@@ -175,6 +165,11 @@ router.post('/start', async (req, res) => {
             return;
         }
 
+        if (!trip.cab || trip.cab.driver_id !== req.auth!.sub) {
+            res.status(403).json({ error: 'Only the driver assigned to this trip can start it' });
+            return;
+        }
+
         if (trip.status === 'ACTIVE') {
             res.status(409).json({ error: 'Trip is already active' });
             return;
@@ -185,6 +180,16 @@ router.post('/start', async (req, res) => {
             return;
         }
 
+        // ── The cab must be assigned (or on its way) — ASSIGNED / EN_ROUTE → ON_TRIP ──
+        let cabOnTrip: ReturnType<typeof cabStatus.writes>;
+        try {
+            cabOnTrip = cabStatus.writes(trip.cab.id, trip.cab.status, 'ON_TRIP', { reason: 'RIDE_STARTED', trip_id });
+        } catch (err) {
+            if (!(err instanceof CabStatusError)) throw err;
+            res.status(err.status).json({ error: err.message });
+            return;
+        }
+
         // ── Ensure all users in the trip are accounted for ──
         const tripUserIds = new Set(trip.rideRequests.map((rr) => rr.user_id));
 
@@ -253,6 +258,12 @@ router.post('/start', async (req, res) => {
         const rideRequestIds = trip.rideRequests.map((rr) => rr.id);
         const userIds = verifications.map((v) => v.user_id);
 
+        // Drop order is fixed at pickup from the distance-optimal plan
+        const dropPlan = await planDropOff(trip.rideRequests, { origin: tripOrigin(trip), respectFixedOrder: false });
+        const dropOrder = dropOrderOf(dropPlan);
+        const dropSequence = dropOrder.map((userId) => trip.rideRequests.find((rr) => rr.user_id === userId)!);
+        const startedAt = new Date();
+
         await prisma.$transaction([
             // a) Clear OTP fields for all users in this trip
             prisma.users.updateMany({
@@ -266,22 +277,37 @@ router.post('/start', async (req, res) => {
             // b) Set Trip status to ACTIVE
             prisma.trips.update({
                 where: { id: trip_id },
-                data: { status: 'ACTIVE' },
+                data: { status: 'ACTIVE', started_at: startedAt },
             }),
 
-            // c) Set all related RideRequests to ACTIVE
-            prisma.rideRequests.updateMany({
-                where: { id: { in: rideRequestIds } },
-                data: { status: 'ACTIVE' },
-            }),
+            // c) Set all related RideRequests to ACTIVE with their drop order
+            ...dropSequence.map((rr, index) =>
+                prisma.rideRequests.update({
+                    where: { id: rr.id },
+                    data: { status: 'ACTIVE', picked_up_at: startedAt, drop_order: index + 1 },
+                })
+            ),
+
+            // d) Cab is now on the road
+            ...cabOnTrip,
         ]);
 
+        // The trip is on the road — take it out of Redis so nobody joins it
+        rideMatchingPool.execute({
+            type: 'REMOVE_TRIP',
+            payload: { tripId: trip_id }
+        }).catch(err =>
+            console.error(`[Start] Redis cleanup failed for trip ${trip_id}:`, err)
+        );
+
         res.status(200).json({
             message: 'Ride started successfully',
             trip_id,
             status: 'ACTIVE',
             activated_users: userIds,
             activated_ride_requests: rideRequestIds,
+            drop_sequence: dropSequence.map((rr, index) => ({ user_id: rr.user_id, drop_order: index + 1 })),
+            drop_plan: dropPlan,
         });
     } catch (error) {
         console.error('Error starting ride:', error);
@@ -290,22 +316,242 @@ router.post('/start', async (req, res) => {
 });
 
 // ──────────────────────────────────────────────────────────────
-// POST /get-otp
-// Body: { user_id: string }
+// POST /drop-off                                (driver token)
+// Body: { trip_id: string, user_id: string }
 //
-// Returns the current OTP for the given user, if one has been
-// generated and has not yet expired.
+// Marks one rider of an ACTIVE trip as dropped off. Riders must be
+// dropped in the drop_order fixed at /start. The rider's
+// RideRequest becomes "COMPLETED" with dropped_off_at stamped.
+// Dropping the last rider completes the trip (see /complete).
+//
+// Notifies the rider (DROPPED_OFF) and the riders still on board
+// (RIDER_DROPPED_OFF) via PubSub.
 // ──────────────────────────────────────────────────────────────
-router.post('/get-otp', async (req, res) => {
+router.post('/drop-off', requireAuth('driver'), validateBody(DropOffRequest), async (req, res) => {
     try {
-        const { user_id } = req.body;
+        const { trip_id, user_id } = req.body;
+
+        const trip = await prisma.trips.findUnique({
+            where: { id: trip_id },
+            include: { rideRequests: true, cab: true },
+        });
+
+        if (!trip) {
+            res.status(404).json({ error: 'Trip not found' });
+            return;
+        }
+
+        if (!trip.cab || trip.cab.driver_id !== req.auth!.sub) {
+            res.status(403).json({ error: 'Only the driver assigned to this trip can drop off riders' });
+            return;
+        }
+
+        if (trip.status !== 'ACTIVE') {
+            res.status(409).json({ error: `Trip is not active (status: ${trip.status})` });
+            return;
+        }
 
-        // ── Validate input ──
-        if (!user_id || typeof user_id !== 'string') {
-            res.status(400).json({ error: 'user_id is required and must be a string' });
+        const rideRequest = trip.rideRequests.find((rr) => rr.user_id === user_id);
+        if (!rideRequest) {
+            res.status(404).json({ error: 'User is not part of this trip' });
             return;
         }
 
+        if (rideRequest.status !== 'ACTIVE') {
+            res.status(409).json({ error: 'Rider has already been dropped off' });
+            return;
+        }
+
+        // ── Enforce the drop sequence ──
+        const onBoard = trip.rideRequests
+            .filter((rr) => rr.status === 'ACTIVE')
+            .sort((a, b) => (a.drop_order ?? Infinity) - (b.drop_order ?? Infinity));
+        const nextStop = onBoard[0]!;
+
+        if (nextStop.user_id !== user_id) {
+            res.status(409).json({
+                error: 'Riders must be dropped off in route order',
+                next_user_id: nextStop.user_id,
+                next_drop_order: nextStop.drop_order,
+            });
+            return;
+        }
+
+        const droppedOffAt = new Date();
+        const stillOnBoard = onBoard.slice(1);
+        const isLastStop = stillOnBoard.length === 0;
+
+        await prisma.$transaction([
+            prisma.rideRequests.update({
+                where: { id: rideRequest.id },
+                data: { status: 'COMPLETED', dropped_off_at: droppedOffAt },
+            }),
+            // Last rider out — the trip is done and the cab is free
+            ...(isLastStop ? completeTripWrites(trip.id, trip.cab, droppedOffAt) : []),
+        ]);
+
+        // ── Notifications (non-blocking for the response) ──
+        pubSubService.publish(user_id, {
+            type: 'DROPPED_OFF',
+            trip_id,
+            dropped_off_at: droppedOffAt.toISOString(),
+            issued_price: rideRequest.issued_price,
+        }).catch(err =>
+            console.error(`[Drop-off] PubSub notification failed for user ${user_id}:`, err)
+        );
+
+        for (const rr of stillOnBoard) {
+            pubSubService.publish(rr.user_id, {
+                type: 'RIDER_DROPPED_OFF',
+                trip_id,
+                user_id,
+                remaining_riders: stillOnBoard.length,
+            }).catch(err =>
+                console.error(`[Drop-off] PubSub notification failed for user ${rr.user_id}:`, err)
+            );
+        }
+
+        cleanUpRiders(trip_id, [user_id]);
+        if (isLastStop) {
+            await announceTripCompleted(trip_id, trip.rideRequests.map((rr) => rr.user_id), droppedOffAt);
+        }
+
+        res.status(200).json({
+            message: isLastStop ? 'Last rider dropped off — trip completed' : 'Rider dropped off',
+            trip_id,
+            user_id,
+            dropped_off_at: droppedOffAt.toISOString(),
+            remaining_riders: stillOnBoard.length,
+            next_user_id: stillOnBoard[0]?.user_id ?? null,
+            trip_status: isLastStop ? 'COMPLETED' : 'ACTIVE',
+        });
+    } catch (error) {
+        console.error('Error dropping off rider:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ──────────────────────────────────────────────────────────────
+// POST /complete                                (driver token)
+// Body: { trip_id: string }
+//
+// Completes an ACTIVE trip. Riders still on board are dropped off
+// at the final stop (dropped_off_at = now). Then:
+//   a) Trip → "COMPLETED", completed_at stamped
+//   b) Cab  → "AVAILABLE" (and parked trips are re-offered)
+//   c) Every rider is notified with TRIP_COMPLETED
+// ──────────────────────────────────────────────────────────────
+router.post('/complete', requireAuth('driver'), validateBody(CompleteRideRequest), async (req, res) => {
+    try {
+        const { trip_id } = req.body;
+
+        const trip = await prisma.trips.findUnique({
+            where: { id: trip_id },
+            include: { rideRequests: true, cab: true },
+        });
+
+        if (!trip) {
+            res.status(404).json({ error: 'Trip not found' });
+            return;
+        }
+
+        if (!trip.cab || trip.cab.driver_id !== req.auth!.sub) {
+            res.status(403).json({ error: 'Only the driver assigned to this trip can complete it' });
+            return;
+        }
+
+        if (trip.status !== 'ACTIVE') {
+            res.status(409).json({ error: `Trip is not active (status: ${trip.status})` });
+            return;
+        }
+
+        const completedAt = new Date();
+        const onBoard = trip.rideRequests.filter((rr) => rr.status === 'ACTIVE');
+
+        await prisma.$transaction([
+            prisma.rideRequests.updateMany({
+                where: { id: { in: onBoard.map((rr) => rr.id) } },
+                data: { status: 'COMPLETED', dropped_off_at: completedAt },
+            }),
+            ...completeTripWrites(trip.id, trip.cab, completedAt),
+        ]);
+
+        cleanUpRiders(trip.id, onBoard.map((rr) => rr.user_id));
+        await announceTripCompleted(trip_id, trip.rideRequests.map((rr) => rr.user_id), completedAt);
+
+        res.status(200).json({
+            message: 'Trip completed successfully',
+            trip_id,
+            status: 'COMPLETED',
+            completed_at: completedAt.toISOString(),
+            dropped_off_users: onBoard.map((rr) => rr.user_id),
+        });
+    } catch (error) {
+        console.error('Error completing trip:', error);
+        res.status(500).json({ error: 'Internal Server Error' });
+    }
+});
+
+// ── Completion helpers ──
+
+/** Trip → COMPLETED and cab ON_TRIP → AVAILABLE, for use inside a $transaction. */
+function completeTripWrites(tripId: string, cab: { id: string, status: string }, completedAt: Date) {
+    return [
+        prisma.trips.update({
+            where: { id: tripId },
+            data: { status: 'COMPLETED', completed_at: completedAt },
+        }),
+        ...cabStatus.writes(cab.id, cab.status, 'AVAILABLE', { reason: 'TRIP_COMPLETED', trip_id: tripId }),
+    ];
+}
+
+/** Remove dropped riders from the Redis pool / trip metadata via worker threads. */
+function cleanUpRiders(tripId: string, userIds: string[]): void {
+    for (const userId of userIds) {
+        rideMatchingPool.execute({
+            type: 'REMOVE_USER_FROM_TRIP',
+            payload: { userId, tripId }
+        }).catch(err =>
+            console.error(`[Complete] Redis cleanup failed for user ${userId}:`, err)
+        );
+    }
+}
+
+/**
+ * Notify every rider that the trip is over, close the parties that rode
+ * it and offer the freed cab to parked trips.
+ */
+async function announceTripCompleted(tripId: string, riderIds: string[], completedAt: Date): Promise<void> {
+    const notificationPromises = riderIds.map((userId) =>
+        pubSubService.publish(userId, {
+            type: 'TRIP_COMPLETED',
+            trip_id: tripId,
+            completed_at: completedAt.toISOString(),
+        }).catch(err =>
+            console.error(`[Complete] PubSub notification failed for user ${userId}:`, err)
+        )
+    );
+    await Promise.allSettled(notificationPromises);
+
+    await parties.closeForTrip(tripId).catch(err =>
+        console.error(`[Complete] Failed to close parties of trip ${tripId}:`, err)
+    );
+
+    driverDispatch.retryUnassigned().catch(err =>
+        console.error(`[Complete] Failed to re-dispatch parked trips:`, err)
+    );
+}
+
+// ──────────────────────────────────────────────────────────────
+// POST /get-otp                                 (rider token)
+//
+// Returns the current OTP for the authenticated user, if one has
+// been generated and has not yet expired.
+// ──────────────────────────────────────────────────────────────
+router.post('/get-otp', requireAuth('user'), async (req, res) => {
+    try {
+        const user_id = req.auth!.sub;
+
         // ── Fetch user ──
         const user = await prisma.users.findUnique({
             where: { id: user_id },
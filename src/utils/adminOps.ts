@@ -0,0 +1,371 @@
+import { prisma } from '../../lib/prisma';
+import type { AdminActions, Prisma } from '../../generated/prisma/client';
+import { redisService } from './redisClient';
+import { pubSubService } from './pubsub';
+import { driverDispatch, type AcceptResult } from './driverDispatch';
+import { cabLocations, type CabPosition } from './cabLocation';
+import { cabSelection } from './cabSelection';
+import { fleetCapacity } from './fleet';
+import { airportRegistry } from './airports';
+import { parties, partyRecipients } from './parties';
+import { removeFromTrip, dissolveTrip, CancellationError, type RemovalScenario } from './tripCancellation';
+import {
+    TRIP_KEY_PREFIX,
+    routeIndexesOfMember,
+    type PassengerMetaData,
+    type PoolEntry,
+    type TripMetaData
+} from './redisCaching';
+
+/**
+ * adminOps.ts
+ *
+ * What operations staff look at and do when matching misbehaves (see
+ * src/routes/admin.ts, role `admin`):
+ *
+ *   Reads    — the matching pools with every member decoded (route as H3
+ *              cells, time waited, metadata), the TRIP<id> keys with their
+ *              riders, database trips by status, and every cab with its
+ *              status, connection, last position and current trip.
+ *   Actions  — force-remove a rider (from their trip, free of charge, or
+ *              from the pool while still unmatched), dissolve a trip that
+ *              has not started, assign a cab to a trip by hand.
+ *
+ * Every action is written to AdminActions with the acting admin, its
+ * target, the reason given and what it did.
+ */
+
+const LIST_LIMIT = 100;
+
+export type AdminAction = 'REMOVE_RIDER' | 'DISSOLVE_TRIP' | 'ASSIGN_CAB';
+
+export type TripStatus = 'WAITING' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+
+export class AdminError extends Error {
+    constructor(message: string, readonly status: number = 400) {
+        super(message);
+        this.name = 'AdminError';
+    }
+}
+
+export interface PoolMember {
+    pool_key: string;
+    airport_code: string;
+    pool_group: string;
+    kind: 'RIDER' | 'TRIP';
+    id: string;                       // user id (a party's leader) or trip id
+    route_cells: string[];            // H3 cells of the route, pickup first
+    waiting_seconds: number | null;   // since registration — a trip's earliest rider's
+    expires_at: string | null;
+    metadata: PassengerMetaData | TripMetaData | null;  // null once expired
+}
+
+export interface RedisTripRider {
+    user_id: string;
+    no_of_passengers: number;
+    luggage: number;
+    issued_price: number;
+    party_id: string | null;
+}
+
+export interface RedisTrip {
+    key: string;
+    trip_id: string;
+    status: TripMetaData['status'];
+    airport_code: string;
+    pool_key: string;
+    in_pool: boolean;                 // still open to new riders
+    no_of_passengers: number;
+    luggage: number;
+    issued_price: number;
+    updated_at: string;
+    riders: RedisTripRider[];
+}
+
+export interface CabOverview {
+    cab_id: string;
+    cab_number: string;
+    cab_type: string;
+    driver: { id: string, name: string };
+    status: string;
+    idle_since: Date;
+    connected: boolean;               // driver WebSocket open
+    offered_trip_id: string | null;
+    trip_id: string | null;           // WAITING / ACTIVE trip on the cab
+    shift_started_at: Date | null;
+    position: (CabPosition & { stale: boolean }) | null;
+    taxi_queue: { airport_code: string, position: number } | null;
+}
+
+export interface RiderRemoval {
+    user_id: string;
+    removed_from: 'TRIP' | 'POOL';
+    trip_id: string | null;
+    scenario: RemovalScenario | null;
+    removed_user_ids: string[];
+}
+
+export class AdminOpsService {
+    private static instance: AdminOpsService;
+
+    private constructor() { }
+
+    static getInstance(): AdminOpsService {
+        if (!AdminOpsService.instance) {
+            AdminOpsService.instance = new AdminOpsService();
+        }
+        return AdminOpsService.instance;
+    }
+
+    // ── Reads ──
+
+    /** Every member of every matching pool, decoded. */
+    async pool(): Promise<PoolMember[]> {
+        const entries = await redisService.listPoolEntries();
+        return entries.map((entry) => this.decode(entry));
+    }
+
+    /** Every TRIP<id> key with its riders, and whether it is still in a pool. */
+    async redisTrips(): Promise<RedisTrip[]> {
+        const [trips, entries] = await Promise.all([redisService.listTrips(), redisService.listPoolEntries()]);
+        const pooled = new Set(entries.map((entry) => entry.key));
+
+        return trips.map(({ key, meta }) => ({
+            key,
+            trip_id: meta.trip_id,
+            status: meta.status,
+            airport_code: meta.airport_code,
+            pool_key: meta.pool_key,
+            in_pool: pooled.has(key),
+            no_of_passengers: meta.no_of_passengers,
+            luggage: meta.luggage,
+            issued_price: meta.issued_price,
+            updated_at: meta.updated_at,
+            riders: meta.users.map((entry) => {
+                const [userId, rider] = Object.entries(entry)[0]!;
+                return {
+                    user_id: userId,
+                    no_of_passengers: rider.no_of_passengers,
+                    luggage: rider.luggage,
+                    issued_price: rider.issued_price,
+                    party_id: rider.party?.party_id ?? null
+                };
+            })
+        }));
+    }
+
+    /** Database trips in `status`, newest first, with their cab and riders. */
+    trips(status: TripStatus, limit: number = LIST_LIMIT) {
+        return prisma.trips.findMany({
+            where: { status },
+            orderBy: { created_at: 'desc' },
+            take: limit,
+            include: {
+                cab: { select: { id: true, cab_number: true, status: true, driver_id: true } },
+                rideRequests: {
+                    orderBy: { joined_at: 'asc' },
+                    select: {
+                        user_id: true,
+                        status: true,
+                        no_of_passengers: true,
+                        luggage_capacity: true,
+                        issued_price: true,
+                        party_id: true,
+                        terminal_code: true,
+                        checked_in_at: true
+                    }
+                }
+            }
+        });
+    }
+
+    /** Every cab with its status, driver connection, position and current trip. */
+    async cabs(): Promise<CabOverview[]> {
+        const [cabs, trips, shifts] = await Promise.all([
+            prisma.cabs.findMany({ orderBy: { cab_number: 'asc' }, include: { driver: { select: { id: true, name: true } } } }),
+            prisma.trips.findMany({ where: { status: { in: ['WAITING', 'ACTIVE'] }, cab_id: { not: null } }, select: { id: true, cab_id: true } }),
+            prisma.shifts.findMany({ where: { ended_at: null }, select: { cab_id: true, started_at: true } })
+        ]);
+
+        const queued = new Map<string, { airport_code: string, position: number }>();
+        for (const airport of airportRegistry.list().filter((a) => a.dispatch_policy === 'TAXI_QUEUE')) {
+            (await cabSelection.queue(airport.code)).forEach((entry, i) =>
+                queued.set(entry.cab_id, { airport_code: airport.code, position: i + 1 })
+            );
+        }
+
+        return Promise.all(cabs.map(async (cab): Promise<CabOverview> => {
+            const position = await cabLocations.lastKnown(cab.id);
+            const presence = driverDispatch.presence(cab.id);
+            return {
+                cab_id: cab.id,
+                cab_number: cab.cab_number,
+                cab_type: cab.cab_type,
+                driver: cab.driver,
+                status: cab.status,
+                idle_since: cab.idle_since,
+                connected: presence.connected,
+                offered_trip_id: presence.offered_trip_id,
+                trip_id: trips.find((trip) => trip.cab_id === cab.id)?.id ?? null,
+                shift_started_at: shifts.find((shift) => shift.cab_id === cab.id)?.started_at ?? null,
+                position: position && { ...position, stale: cabLocations.isStale(position) },
+                taxi_queue: queued.get(cab.id) ?? null
+            };
+        }));
+    }
+
+    /** The admin action log, newest first. */
+    actions(limit: number = LIST_LIMIT): Promise<(AdminActions & { admin: { id: string, name: string, email: string } })[]> {
+        return prisma.adminActions.findMany({
+            orderBy: { created_at: 'desc' },
+            take: limit,
+            include: { admin: { select: { id: true, name: true, email: true } } }
+        });
+    }
+
+    // ── Actions ──
+
+    /**
+     * Take a rider (with their party) off the trip they are waiting on —
+     * free of charge — or, while still unmatched, out of the pool.
+     */
+    async removeRider(adminId: string, userId: string, reason?: string): Promise<RiderRemoval> {
+        const rideRequest = await prisma.rideRequests.findFirst({
+            where: { user_id: userId, status: 'WAITING', trip: { status: 'WAITING' } },
+            select: { trip_id: true }
+        });
+
+        const removal = rideRequest
+            ? await this.removeFromTrip(rideRequest.trip_id, userId)
+            : await this.removeFromPool(userId);
+
+        await this.record(adminId, 'REMOVE_RIDER', userId, reason, { ...removal });
+        return removal;
+    }
+
+    /** Cancel a trip that has not started for every rider on it. */
+    async dissolve(adminId: string, tripId: string, reason?: string): Promise<{ trip_id: string, removed_user_ids: string[] }> {
+        let removedUserIds: string[];
+        try {
+            removedUserIds = await dissolveTrip(tripId);
+        } catch (error) {
+            if (error instanceof CancellationError) throw new AdminError(error.message, error.status);
+            throw error;
+        }
+
+        const result = { trip_id: tripId, removed_user_ids: removedUserIds };
+        await this.record(adminId, 'DISSOLVE_TRIP', tripId, reason, result);
+        return result;
+    }
+
+    /**
+     * Put an AVAILABLE cab on a WAITING trip that has none, skipping the
+     * offer. A cab currently being offered this very trip may be assigned
+     * too — its offer is withdrawn first.
+     */
+    async assignCab(adminId: string, tripId: string, cabId: string, reason?: string): Promise<AcceptResult> {
+        const [trip, cab] = await Promise.all([
+            prisma.trips.findUnique({ where: { id: tripId }, select: { status: true, cab_id: true, no_of_passengers: true, total_luggage: true } }),
+            prisma.cabs.findUnique({ where: { id: cabId }, select: { status: true, cab_type: true, no_of_seats: true, luggage_capacity: true } })
+        ]);
+
+        if (!trip) throw new AdminError('Trip not found', 404);
+        if (!cab) throw new AdminError('Cab not found', 404);
+        if (trip.status !== 'WAITING') throw new AdminError(`Trip is ${trip.status.toLowerCase()}`, 409);
+        if (trip.cab_id) throw new AdminError('Trip already has a cab', 409);
+        const capacity = fleetCapacity.capacityOf(cab);
+        if (capacity.passengers < trip.no_of_passengers || capacity.luggage < trip.total_luggage) {
+            throw new AdminError('Cab is too small for this trip', 409);
+        }
+        if (cab.status !== 'AVAILABLE' && driverDispatch.presence(cabId).offered_trip_id !== tripId) {
+            throw new AdminError(`Cab is ${cab.status} — only an AVAILABLE cab can be assigned`, 409);
+        }
+
+        const result = await driverDispatch.assignManually(tripId, cabId);
+        if (result.error) throw new AdminError(result.error, 409);
+
+        await this.record(adminId, 'ASSIGN_CAB', tripId, reason, {
+            trip_id: tripId,
+            cab_id: cabId,
+            pickup_bay: result.boarding?.pickup_bay?.code ?? null
+        });
+        return result;
+    }
+
+    // ── Internals ──
+
+    private decode(entry: PoolEntry): PoolMember {
+        const [, , airportCode = '', ...poolGroup] = entry.pool_key.split(':');
+        const isTrip = entry.key.startsWith(TRIP_KEY_PREFIX);
+        const metadata = entry.raw ? JSON.parse(entry.raw) as PassengerMetaData | TripMetaData : null;
+
+        // A trip has waited as long as its earliest rider
+        const riders: PassengerMetaData[] = !metadata ? []
+            : isTrip ? (metadata as TripMetaData).users.map((user) => Object.values(user)[0]!)
+                : [metadata as PassengerMetaData];
+        const registered = riders.flatMap((rider) => rider.registered_at ? [Date.parse(rider.registered_at)] : []);
+        const deadlines = riders.flatMap((rider) => rider.expires_at ? [rider.expires_at] : []).sort();
+
+        return {
+            pool_key: entry.pool_key,
+            airport_code: airportCode,
+            pool_group: poolGroup.join(':'),
+            kind: isTrip ? 'TRIP' : 'RIDER',
+            id: isTrip ? entry.key.slice(TRIP_KEY_PREFIX.length) : entry.key,
+            route_cells: routeIndexesOfMember(entry.member),
+            waiting_seconds: registered.length > 0 ? Math.round((Date.now() - Math.min(...registered)) / 1000) : null,
+            expires_at: deadlines[0] ?? null,
+            metadata
+        };
+    }
+
+    private async removeFromTrip(tripId: string, userId: string): Promise<RiderRemoval> {
+        try {
+            const outcome = await removeFromTrip(tripId, userId, 'ADMIN');
+            return {
+                user_id: userId,
+                removed_from: 'TRIP',
+                trip_id: tripId,
+                scenario: outcome.scenario,
+                removed_user_ids: outcome.removed_user_ids
+            };
+        } catch (error) {
+            if (error instanceof CancellationError) throw new AdminError(error.message, error.status);
+            throw error;
+        }
+    }
+
+    // An unmatched rider — held under their party leader's id for a party
+    private async removeFromPool(userId: string): Promise<RiderRemoval> {
+        const entry = (await redisService.listPoolEntries())
+            .filter((candidate) => candidate.raw && !candidate.key.startsWith(TRIP_KEY_PREFIX))
+            .find((candidate) => partyRecipients(candidate.key, JSON.parse(candidate.raw!)).includes(userId));
+        if (!entry) throw new AdminError('Rider is not on a trip or in the matching pool', 404);
+
+        const rider: PassengerMetaData = JSON.parse(entry.raw!);
+        if (!await redisService.expireRider(entry, null)) {
+            throw new AdminError('Rider was matched or left meanwhile — try again', 409);
+        }
+
+        if (rider.party) await parties.reopen(rider.party.party_id);
+        const recipients = partyRecipients(entry.key, rider);
+        await Promise.allSettled(recipients.map((recipient) =>
+            pubSubService.publish(recipient, {
+                type: 'REMOVED_BY_ADMIN',
+                message: 'You were removed from the matching pool by support. You can register again.',
+                trip_id: null
+            })
+        ));
+
+        return { user_id: userId, removed_from: 'POOL', trip_id: null, scenario: null, removed_user_ids: recipients };
+    }
+
+    private async record(adminId: string, action: AdminAction, targetId: string, reason: string | undefined, details: Prisma.InputJsonObject): Promise<void> {
+        await prisma.adminActions.create({
+            data: { admin_id: adminId, action, target_id: targetId, reason: reason ?? null, details }
+        });
+        console.log(`[Admin] ${adminId} ${action} ${targetId}${reason ? ` — ${reason}` : ''}`);
+    }
+}
+
+export const adminOps = AdminOpsService.getInstance();
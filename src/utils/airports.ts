@@ -0,0 +1,200 @@
+import { prisma } from '../../lib/prisma';
+import type { LatLng } from '../rideMatching/routingProvider';
+
+/**
+ * airports.ts
+ *
+ * In-memory view of the Airports / Terminals tables, loaded once per thread
+ * (main thread and every matching worker) with `airportRegistry.load()`.
+ *
+ * Each airport carries its own pooling limits (pricing lives in the fare
+ * engine's per-airport rules, see pricing/fareEngine.ts). Riders are pooled
+ * per airport *and* terminal pool group: terminals sharing a `pool_group`
+ * (e.g. DEL T2 + T3) share one Redis pool and can be matched together,
+ * everything else is kept apart.
+ *
+ * If the Airports table is empty a single built-in airport is used so a
+ * fresh database still works (DEFAULT_AIRPORT_CODE picks the default when
+ * several are configured).
+ */
+
+export interface PickupBayConfig {
+    code: string;
+    name: string;
+    location: LatLng;
+}
+
+export interface TerminalConfig {
+    code: string;
+    name: string;
+    pickup: LatLng;
+    pool_group: string;
+    bays: PickupBayConfig[];
+}
+
+// How free cabs are chosen for the airport's trips (see cabSelection.ts)
+export type DispatchPolicy = 'PROXIMITY' | 'TAXI_QUEUE';
+
+export interface AirportConfig {
+    code: string;
+    name: string;
+    pickup: LatLng;
+    timezone: string;
+    max_pool_passengers: number;
+    max_pool_luggage: number;
+    dispatch_policy: DispatchPolicy;
+    terminals: TerminalConfig[];
+}
+
+export interface ResolvedPickup {
+    airport: AirportConfig;
+    terminal: TerminalConfig;
+    poolKey: string;
+}
+
+export class AirportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AirportError';
+    }
+}
+
+const DEFAULT_AIRPORT_CODE = process.env.DEFAULT_AIRPORT_CODE || 'DEL';
+const POOL_KEY_PREFIX = 'h3:airport_pool';
+
+// Used only when no airport is configured in the database
+const FALLBACK_AIRPORT: AirportConfig = {
+    code: 'DEL',
+    name: 'Indira Gandhi International Airport',
+    pickup: { lat: 28.5562, lng: 77.1000 },
+    timezone: 'Asia/Kolkata',
+    max_pool_passengers: 3,
+    max_pool_luggage: 4,
+    dispatch_policy: 'PROXIMITY',
+    terminals: [
+        { code: 'T3', name: 'Terminal 3', pickup: { lat: 28.5562, lng: 77.1000 }, pool_group: 'T3', bays: [] }
+    ]
+};
+
+export class AirportRegistry {
+    private static instance: AirportRegistry;
+
+    private airports: Map<string, AirportConfig> = new Map([[FALLBACK_AIRPORT.code, FALLBACK_AIRPORT]]);
+
+    private constructor() { }
+
+    static getInstance(): AirportRegistry {
+        if (!AirportRegistry.instance) {
+            AirportRegistry.instance = new AirportRegistry();
+        }
+        return AirportRegistry.instance;
+    }
+
+    /**
+     * (Re)load airports and terminals from the database.
+     */
+    async load(): Promise<void> {
+        const rows = await prisma.airports.findMany({
+            include: { terminals: { orderBy: { code: 'asc' }, include: { bays: { orderBy: { code: 'asc' } } } } },
+            orderBy: { code: 'asc' }
+        });
+
+        const configured = rows
+            .filter((row) => row.terminals.length > 0)
+            .map((row): AirportConfig => ({
+                code: row.code,
+                name: row.name,
+                pickup: { lat: row.pickup_lat, lng: row.pickup_lng },
+                timezone: row.timezone,
+                max_pool_passengers: row.max_pool_passengers,
+                max_pool_luggage: row.max_pool_luggage,
+                dispatch_policy: row.dispatch_policy === 'TAXI_QUEUE' ? 'TAXI_QUEUE' : 'PROXIMITY',
+                terminals: row.terminals.map((t) => ({
+                    code: t.code,
+                    name: t.name,
+                    pickup: { lat: t.pickup_lat, lng: t.pickup_lng },
+                    pool_group: t.pool_group,
+                    bays: t.bays.map((bay) => ({
+                        code: bay.code,
+                        name: bay.name,
+                        location: { lat: bay.lat, lng: bay.lng }
+                    }))
+                }))
+            }));
+
+        if (configured.length === 0) {
+            console.warn(`No airports configured — falling back to built-in ${FALLBACK_AIRPORT.code}. Run the seed to configure airports.`);
+            this.airports = new Map([[FALLBACK_AIRPORT.code, FALLBACK_AIRPORT]]);
+            return;
+        }
+
+        this.airports = new Map(configured.map((airport) => [airport.code, airport]));
+        console.log(`Loaded ${configured.length} airport(s): ${configured.map((a) => a.code).join(', ')}`);
+    }
+
+    list(): AirportConfig[] {
+        return [...this.airports.values()];
+    }
+
+    defaultAirport(): AirportConfig {
+        return this.airports.get(DEFAULT_AIRPORT_CODE) ?? this.list()[0]!;
+    }
+
+    getAirport(code: string | null | undefined): AirportConfig {
+        return (code && this.airports.get(code.toUpperCase())) || this.defaultAirport();
+    }
+
+    /**
+     * Resolve the pickup airport / terminal of a ride request. Both codes are
+     * optional: the default airport and its first terminal are used.
+     * Throws AirportError for codes that are not configured.
+     */
+    resolve(airportCode?: string, terminalCode?: string): ResolvedPickup {
+        const airport = airportCode ? this.airports.get(airportCode.toUpperCase()) : this.defaultAirport();
+        if (!airport) {
+            throw new AirportError(`Unknown airport: ${airportCode}`);
+        }
+
+        const terminal = terminalCode
+            ? airport.terminals.find((t) => t.code.toUpperCase() === terminalCode.toUpperCase())
+            : airport.terminals[0];
+        if (!terminal) {
+            throw new AirportError(`Unknown terminal ${terminalCode} at ${airport.code}`);
+        }
+
+        return { airport, terminal, poolKey: this.poolKey(airport.code, terminal.pool_group) };
+    }
+
+    /**
+     * Pickup point for a stored ride (falls back to the airport's pickup zone).
+     */
+    pickupFor(airportCode: string | null | undefined, terminalCode: string | null | undefined): LatLng {
+        const airport = this.getAirport(airportCode);
+        const terminal = airport.terminals.find((t) => t.code === terminalCode);
+        return terminal?.pickup ?? airport.pickup;
+    }
+
+    /**
+     * Terminal a stored ride is picked up from (null if no longer configured).
+     */
+    terminalFor(airportCode: string | null | undefined, terminalCode: string | null | undefined): TerminalConfig | null {
+        return this.getAirport(airportCode).terminals.find((t) => t.code === terminalCode) ?? null;
+    }
+
+    poolKey(airportCode: string, poolGroup: string): string {
+        return `${POOL_KEY_PREFIX}:${airportCode}:${poolGroup}`;
+    }
+
+    /** Redis pool keys of one airport (one per terminal pool group). */
+    poolKeysFor(airportCode: string): string[] {
+        const airport = this.getAirport(airportCode);
+        return [...new Set(airport.terminals.map((t) => this.poolKey(airport.code, t.pool_group)))];
+    }
+
+    /** Every Redis pool key for the configured airports (for cleanup scans). */
+    allPoolKeys(): string[] {
+        return this.list().flatMap((airport) => this.poolKeysFor(airport.code));
+    }
+}
+
+export const airportRegistry = AirportRegistry.getInstance();
@@ -0,0 +1,138 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+
+/**
+ * Authentication helpers — password hashing (Bun.password) and
+ * HS256-signed JWT access / refresh tokens.
+ *
+ * Tokens carry the account id in `sub` and the account kind in `role`,
+ * so riders, drivers and admins share one token format but can be told
+ * apart by route guards and the WebSocket upgrade.
+ */
+
+export type AuthRole = 'user' | 'driver' | 'admin';
+export type TokenType = 'access' | 'refresh';
+
+export interface AuthClaims {
+    sub: string;        // Users.id, Drivers.id or Admins.id
+    role: AuthRole;
+    type: TokenType;
+    jti: string;
+    iat: number;        // seconds since epoch
+    exp: number;        // seconds since epoch
+}
+
+export interface TokenPair {
+    access_token: string;
+    refresh_token: string;
+    token_type: 'Bearer';
+    expires_in: number;  // access token lifetime in seconds
+}
+
+export class AuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+// ── Configuration ──
+// Without JWT_SECRET anyone could sign tokens with the well-known fallback,
+// so it is only used when AUTH_DEV_MODE is explicitly on
+const AUTH_DEV_MODE = process.env.AUTH_DEV_MODE === 'true';
+const JWT_SECRET = process.env.JWT_SECRET || (AUTH_DEV_MODE ? 'dev-only-insecure-jwt-secret' : '');
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;          // 15 minutes
+const REFRESH_TOKEN_TTL_SECONDS = Number(process.env.REFRESH_TOKEN_TTL_SECONDS) || 7 * 24 * 60 * 60; // 7 days
+
+if (!JWT_SECRET) {
+    throw new Error('[Auth] JWT_SECRET is not set — set it, or AUTH_DEV_MODE=true to sign with an insecure development secret');
+}
+if (!process.env.JWT_SECRET) {
+    console.warn('[Auth] AUTH_DEV_MODE: JWT_SECRET is not set — using an insecure development secret');
+}
+
+// ── Passwords ──
+export function hashPassword(password: string): Promise<string> {
+    return Bun.password.hash(password);
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+    try {
+        return await Bun.password.verify(password, hash);
+    } catch {
+        // Stored value is not a recognised hash (e.g. legacy plaintext row)
+        return false;
+    }
+}
+
+// ── JWT (HS256) ──
+function base64UrlEncode(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string): string {
+    return createHmac('sha256', JWT_SECRET).update(data).digest('base64url');
+}
+
+function signToken(sub: string, role: AuthRole, type: TokenType, ttlSeconds: number): string {
+    const now = Math.floor(Date.now() / 1000);
+    const claims: AuthClaims = { sub, role, type, jti: randomUUID(), iat: now, exp: now + ttlSeconds };
+
+    const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64UrlEncode(JSON.stringify(claims));
+    return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+/**
+ * Verify a token's signature, expiry and type. Throws AuthError on failure.
+ */
+export function verifyToken(token: string, expectedType: TokenType = 'access'): AuthClaims {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new AuthError('Malformed token');
+    }
+
+    const [header, payload, signature] = parts as [string, string, string];
+    const expected = Buffer.from(sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new AuthError('Invalid token signature');
+    }
+
+    let claims: AuthClaims;
+    try {
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        throw new AuthError('Malformed token');
+    }
+
+    if (claims.type !== expectedType) {
+        throw new AuthError(`Expected ${expectedType} token, got ${claims.type} token`);
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+        throw new AuthError('Token has expired');
+    }
+
+    return claims;
+}
+
+/**
+ * Issue a fresh access + refresh token pair for an account.
+ */
+export function issueTokenPair(sub: string, role: AuthRole): TokenPair {
+    return {
+        access_token: signToken(sub, role, 'access', ACCESS_TOKEN_TTL_SECONDS),
+        refresh_token: signToken(sub, role, 'refresh', REFRESH_TOKEN_TTL_SECONDS),
+        token_type: 'Bearer',
+        expires_in: ACCESS_TOKEN_TTL_SECONDS
+    };
+}
+
+/**
+ * Extract a bearer token from an Authorization header value.
+ */
+export function extractBearerToken(header: string | null | undefined): string | null {
+    if (!header) return null;
+    const [scheme, token] = header.split(' ');
+    return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+}
@@ -0,0 +1,250 @@
+import { prisma } from '../../lib/prisma';
+import { pubSubService } from './pubsub';
+import { airportRegistry, type PickupBayConfig } from './airports';
+import { removeFromTrip, CancellationError } from './tripCancellation';
+import { BOARDING_WINDOW_SECONDS, boardingPointFor, riderDeadline, type BoardingPoint, type StoredBoarding } from './boardingPoint';
+
+export type { BoardingPoint } from './boardingPoint';
+
+/**
+ * boarding.ts
+ *
+ * Where and by when the riders of a trip meet their cab.
+ *
+ *   1. The driver accepts the trip (see driverDispatch.ts) → the trip gets
+ *      the least busy pickup bay of its terminal (the terminal of the first
+ *      rider who joined) and a boarding deadline BOARDING_WINDOW_SECONDS
+ *      away. Both travel with CAB_ASSIGNED / TRIP_ASSIGNED. A terminal
+ *      without bays uses its pickup point. A rider who joins later gets
+ *      CAB_ASSIGNED with a deadline of their own (see boardingPoint.ts).
+ *   2. Each rider sends CHECK_IN over the WebSocket when they are at the
+ *      bay; the driver and the co-riders get RIDER_CHECKED_IN.
+ *   3. Every BOARDING_SWEEP_INTERVAL_SECONDS, trips past their deadline
+ *      lose the riders past theirs who have not checked in — NO_SHOW, removed as if
+ *      they had cancelled (see tripCancellation.ts), so the remaining
+ *      riders are re-priced. A party counts as present once any member
+ *      has checked in. If nobody turns up the trip is cancelled and the
+ *      cab released.
+ */
+
+const BOARDING_SWEEP_INTERVAL_SECONDS = Number(process.env.BOARDING_SWEEP_INTERVAL_SECONDS) || 15;
+
+export class BoardingError extends Error {
+    constructor(message: string, readonly status: number = 400) {
+        super(message);
+        this.name = 'BoardingError';
+    }
+}
+
+export interface CheckInResult {
+    trip_id: string;
+    boarding: BoardingPoint;
+    checked_in: number;
+    riders: number;
+}
+
+export interface BoardingReport {
+    no_shows: number;
+    trips_cancelled: number;
+}
+
+
+export class BoardingService {
+    private static instance: BoardingService;
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running: boolean = false;
+
+    private constructor() { }
+
+    static getInstance(): BoardingService {
+        if (!BoardingService.instance) {
+            BoardingService.instance = new BoardingService();
+        }
+        return BoardingService.instance;
+    }
+
+    start(): void {
+        this.timer = setInterval(() => this.runOnce(), BOARDING_SWEEP_INTERVAL_SECONDS * 1000);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // ── Bay assignment ──
+
+    /**
+     * A cab was assigned: give the trip a pickup bay and a boarding deadline.
+     */
+    async assign(tripId: string): Promise<BoardingPoint | null> {
+        const trip = await prisma.trips.findUnique({
+            where: { id: tripId },
+            include: { rideRequests: { orderBy: { joined_at: 'asc' }, select: { terminal_code: true } } }
+        });
+        if (!trip) return null;
+
+        const terminalCode = trip.rideRequests[0]?.terminal_code;
+        const bays = airportRegistry.terminalFor(trip.airport_code, terminalCode)?.bays ?? [];
+
+        // Least busy bay: fewest cabs currently waiting at it
+        let bay: PickupBayConfig | null = null;
+        if (bays.length > 0) {
+            const waiting = await prisma.trips.groupBy({
+                by: ['pickup_bay'],
+                where: {
+                    id: { not: tripId },
+                    status: 'WAITING',
+                    airport_code: trip.airport_code,
+                    pickup_bay: { in: bays.map((b) => b.code) },
+                    rideRequests: { some: { terminal_code: terminalCode } }
+                },
+                _count: { _all: true }
+            });
+            const load = new Map(waiting.map((row) => [row.pickup_bay, row._count._all]));
+            bay = bays.reduce((best, candidate) =>
+                (load.get(candidate.code) ?? 0) < (load.get(best.code) ?? 0) ? candidate : best
+            );
+        }
+
+        const updated = await prisma.trips.update({
+            where: { id: tripId },
+            data: {
+                pickup_bay: bay?.code ?? null,
+                boarding_deadline: new Date(Date.now() + BOARDING_WINDOW_SECONDS * 1000)
+            },
+            include: { rideRequests: { orderBy: { joined_at: 'asc' }, select: { terminal_code: true } } }
+        });
+        return this.pointFor(updated);
+    }
+
+    /**
+     * The stored boarding point of a trip, or null before a cab is assigned.
+     * With `joinedAt`, the deadline is that rider's own.
+     */
+    pointFor(trip: StoredBoarding, joinedAt: Date | null = null): BoardingPoint | null {
+        return boardingPointFor(trip, joinedAt);
+    }
+
+    // ── Check-in ──
+
+    /**
+     * The rider is at the bay. Repeating a check-in is a no-op. Throws
+     * BoardingError when the rider has no trip waiting for them to board.
+     */
+    async checkIn(userId: string, tripId: string): Promise<CheckInResult> {
+        const trip = await prisma.trips.findUnique({
+            where: { id: tripId },
+            include: {
+                cab: { select: { driver_id: true } },
+                rideRequests: {
+                    orderBy: { joined_at: 'asc' },
+                    include: { user: { select: { name: true } } }
+                }
+            }
+        });
+        const rideRequest = trip?.rideRequests.find((rr) => rr.user_id === userId);
+        if (!trip || !rideRequest) throw new BoardingError('Trip not found', 404);
+        if (trip.status !== 'WAITING') throw new BoardingError(`Trip is ${trip.status.toLowerCase()} — nothing to board`, 409);
+
+        const boarding = this.pointFor(trip, rideRequest.joined_at);
+        if (!trip.cab || !boarding) {
+            throw new BoardingError('No cab assigned yet — check in once you receive CAB_ASSIGNED', 409);
+        }
+
+        // Conditional, so a repeated CHECK_IN does not notify twice
+        const checkedIn = await prisma.rideRequests.updateMany({
+            where: { id: rideRequest.id, checked_in_at: null },
+            data: { checked_in_at: new Date() }
+        });
+
+        const result: CheckInResult = {
+            trip_id: tripId,
+            boarding,
+            checked_in: trip.rideRequests.filter((rr) => rr.checked_in_at || rr.id === rideRequest.id).length,
+            riders: trip.rideRequests.length
+        };
+        if (checkedIn.count === 0) return result;
+
+        const notice = {
+            type: 'RIDER_CHECKED_IN',
+            trip_id: tripId,
+            user_id: userId,
+            name: rideRequest.user.name,
+            checked_in: result.checked_in,
+            riders: result.riders,
+            boarding_deadline: boarding.boarding_deadline
+        };
+        pubSubService.publishToDriver(trip.cab.driver_id, notice)
+            .catch((err) => console.error(`[Boarding] RIDER_CHECKED_IN notification failed for driver ${trip.cab!.driver_id}:`, err));
+        for (const rr of trip.rideRequests.filter((rr) => rr.user_id !== userId)) {
+            pubSubService.publish(rr.user_id, notice)
+                .catch((err) => console.error(`[Boarding] RIDER_CHECKED_IN notification failed for ${rr.user_id}:`, err));
+        }
+
+        return result;
+    }
+
+    // ── No-shows ──
+
+    private async runOnce(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        try {
+            const report = await this.sweep();
+            if (Object.values(report).some((count) => count > 0)) {
+                console.log('[Boarding] Swept:', report);
+            }
+        } catch (error) {
+            console.error('[Boarding] Sweep failed:', error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    async sweep(): Promise<BoardingReport> {
+        const report: BoardingReport = { no_shows: 0, trips_cancelled: 0 };
+
+        const overdue = await prisma.trips.findMany({
+            where: {
+                status: 'WAITING',
+                cab_id: { not: null },
+                boarding_deadline: { lt: new Date() },
+                rideRequests: { some: { checked_in_at: null } }
+            },
+            include: { rideRequests: { select: { user_id: true, party_id: true, checked_in_at: true, joined_at: true } } }
+        });
+
+        const now = Date.now();
+        for (const trip of overdue) {
+            // Units (riders / parties) nobody of which has checked in, past
+            // their own deadline (later for riders who joined after the cab)
+            const units = new Map<string, { userId: string, present: boolean, deadline: number }>();
+            for (const rr of trip.rideRequests) {
+                const unit = units.get(rr.party_id ?? rr.user_id);
+                units.set(rr.party_id ?? rr.user_id, {
+                    userId: unit?.userId ?? rr.user_id,
+                    present: Boolean(unit?.present || rr.checked_in_at),
+                    deadline: Math.max(unit?.deadline ?? 0, riderDeadline(trip.boarding_deadline!, rr.joined_at).getTime())
+                });
+            }
+
+            for (const { userId } of [...units.values()].filter((unit) => !unit.present && unit.deadline <= now)) {
+                try {
+                    const outcome = await removeFromTrip(trip.id, userId, 'NO_SHOW');
+                    report.no_shows++;
+                    if (outcome.scenario !== 'RIDER_REMOVED') report.trips_cancelled++;
+                } catch (err) {
+                    // Started or cancelled meanwhile — nothing left to board
+                    if (!(err instanceof CancellationError)) throw err;
+                    break;
+                }
+            }
+        }
+
+        return report;
+    }
+}
+
+export const boarding = BoardingService.getInstance();
@@ -0,0 +1,17 @@
+import { describe, expect, test } from 'bun:test';
+import { BOARDING_WINDOW_SECONDS, riderDeadline } from './boardingPoint';
+
+const ASSIGNED = Date.parse('2026-04-05T10:00:00.000Z');
+const TRIP_DEADLINE = new Date(ASSIGNED + BOARDING_WINDOW_SECONDS * 1000);
+
+describe('riderDeadline', () => {
+    test('riders on the trip before the cab keep the trip deadline', () => {
+        expect(riderDeadline(TRIP_DEADLINE, new Date(ASSIGNED - 60_000))).toEqual(TRIP_DEADLINE);
+        expect(riderDeadline(TRIP_DEADLINE, null)).toEqual(TRIP_DEADLINE);
+    });
+
+    test('a rider who joined after the cab gets a full window from joining', () => {
+        const joinedAt = new Date(ASSIGNED + 120_000);
+        expect(riderDeadline(TRIP_DEADLINE, joinedAt)).toEqual(new Date(joinedAt.getTime() + BOARDING_WINDOW_SECONDS * 1000));
+    });
+});
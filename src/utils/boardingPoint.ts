@@ -0,0 +1,53 @@
+import { airportRegistry, type PickupBayConfig } from './airports';
+import type { LatLng } from '../rideMatching/routingProvider';
+
+/**
+ * boardingPoint.ts
+ *
+ * Where and by when a rider meets their cab, from the trip's stored bay and
+ * deadline (see boarding.ts, which assigns them). Kept apart from the
+ * boarding service so the trip outbox can tell late joiners on a worker.
+ *
+ * A rider who joins a trip after its cab was assigned (the trip stays in
+ * the pool unless a rider asked for no_join_after_start) gets a deadline
+ * of their own: BOARDING_WINDOW_SECONDS from joining, if that is later
+ * than the trip's.
+ */
+
+export const BOARDING_WINDOW_SECONDS = Number(process.env.BOARDING_WINDOW_SECONDS) || 600;
+
+export interface BoardingPoint {
+    pickup_bay: PickupBayConfig | null;
+    meeting_point: LatLng;
+    boarding_deadline: string;
+}
+
+export interface StoredBoarding {
+    airport_code: string | null;
+    pickup_bay: string | null;
+    boarding_deadline: Date | null;
+    rideRequests: { terminal_code: string | null }[];
+}
+
+/** The rider's own boarding deadline on a trip whose deadline is `tripDeadline`. */
+export function riderDeadline(tripDeadline: Date, joinedAt: Date | null): Date {
+    const ownWindow = joinedAt ? joinedAt.getTime() + BOARDING_WINDOW_SECONDS * 1000 : 0;
+    return new Date(Math.max(tripDeadline.getTime(), ownWindow));
+}
+
+/**
+ * The trip's boarding point, or null before a cab is assigned. With
+ * `joinedAt`, the deadline is that rider's own.
+ */
+export function boardingPointFor(trip: StoredBoarding, joinedAt: Date | null = null): BoardingPoint | null {
+    if (!trip.boarding_deadline) return null;
+
+    const terminalCode = trip.rideRequests[0]?.terminal_code;
+    const bay = airportRegistry.terminalFor(trip.airport_code, terminalCode)?.bays
+        .find((b) => b.code === trip.pickup_bay) ?? null;
+    return {
+        pickup_bay: bay,
+        meeting_point: bay?.location ?? airportRegistry.pickupFor(trip.airport_code, terminalCode),
+        boarding_deadline: riderDeadline(trip.boarding_deadline, joinedAt).toISOString()
+    };
+}
@@ -0,0 +1,213 @@
+import { createClient, type RedisClientType } from 'redis';
+import { latLngToCell } from 'h3-js';
+import { prisma } from '../../lib/prisma';
+import { pubSubService } from './pubsub';
+import { etasFor, isNewerPing, pingTime, streamDue, type CabEta } from './cabStreaming';
+import { boarding } from './boarding';
+import { airportRegistry } from './airports';
+import type { LatLng } from '../rideMatching/routingProvider';
+
+/**
+ * cabLocation.ts
+ *
+ * Live cab positions. Drivers stream GPS pings over their WebSocket
+ * (LOCATION_UPDATE); each ping is stored in Redis three ways:
+ *
+ *   cab:location:<cab id>  — the last known position (JSON)
+ *   cab:geo                — geo set of every cab's last position
+ *   cab:cell:<h3 cell>     — cabs whose last position is in the cell, at
+ *                            CAB_H3_RESOLUTION
+ *
+ * Pings older than the stored one (out of order over a flaky network) are
+ * dropped. The riders of the cab's current trip get CAB_LOCATION and
+ * ETA_UPDATE, throttled as cabStreaming.ts decides. Both throttles are Redis
+ * keys, so they hold across app instances.
+ */
+
+export const CAB_H3_RESOLUTION = Number(process.env.CAB_H3_RESOLUTION) || 9;
+const CAB_LOCATION_STALE_SECONDS = Number(process.env.CAB_LOCATION_STALE_SECONDS) || 120;
+
+export const CAB_GEO_KEY = 'cab:geo';
+export const cabCellKey = (cell: string): string => `cab:cell:${cell}`;
+
+export interface LocationPing {
+    latitude: number;
+    longitude: number;
+    heading?: number;
+    speed_kmph?: number;
+    recorded_at?: string;
+}
+
+export interface CabPosition {
+    cab_id: string;
+    driver_id: string;
+    location: LatLng;
+    h3_cell: string;
+    heading: number | null;
+    speed_kmph: number | null;
+    recorded_at: string;
+}
+
+interface TrackedTrip {
+    id: string;
+    status: string;
+    airport_code: string | null;
+    pickup_bay: string | null;
+    boarding_deadline: Date | null;
+    rideRequests: {
+        user_id: string;
+        terminal_code: string | null;
+        destination_h3: string | null;
+        drop_order: number | null;
+    }[];
+}
+
+export class CabLocationService {
+    private static instance: CabLocationService;
+
+    private client: RedisClientType;
+    private isConnected: boolean = false;
+
+    private readonly KEY_PREFIX = 'cab:location:';
+
+    private constructor() {
+        this.client = createClient({ url: process.env.REDIS_URL || 'redis://localhost:6379' });
+        this.client.on('error', (err) => console.error('Redis Cab Location Error:', err));
+    }
+
+    static getInstance(): CabLocationService {
+        if (!CabLocationService.instance) {
+            CabLocationService.instance = new CabLocationService();
+        }
+        return CabLocationService.instance;
+    }
+
+    async connect(): Promise<void> {
+        if (this.isConnected) return;
+
+        await this.client.connect();
+        this.isConnected = true;
+        console.log('Redis cab locations connected');
+    }
+
+    async disconnect(): Promise<void> {
+        if (!this.isConnected) return;
+
+        await this.client.quit();
+        this.isConnected = false;
+        console.log('Redis cab locations disconnected');
+    }
+
+    /**
+     * Store a driver's GPS ping and stream it to the riders of the cab's
+     * trip. Returns null when the ping is older than the stored position.
+     */
+    async record(cabId: string, driverId: string, ping: LocationPing): Promise<CabPosition | null> {
+        const previous = await this.lastKnown(cabId);
+        const recordedAt = pingTime(ping.recorded_at);
+        if (!isNewerPing(previous?.recorded_at ?? null, recordedAt)) return null;
+
+        const position: CabPosition = {
+            cab_id: cabId,
+            driver_id: driverId,
+            location: { lat: ping.latitude, lng: ping.longitude },
+            h3_cell: latLngToCell(ping.latitude, ping.longitude, CAB_H3_RESOLUTION),
+            heading: ping.heading ?? null,
+            speed_kmph: ping.speed_kmph ?? null,
+            recorded_at: recordedAt.toISOString()
+        };
+
+        const tx = this.client.multi()
+            .set(this.KEY_PREFIX + cabId, JSON.stringify(position))
+            .geoAdd(CAB_GEO_KEY, { longitude: ping.longitude, latitude: ping.latitude, member: cabId })
+            .sAdd(cabCellKey(position.h3_cell), cabId);
+        if (previous && previous.h3_cell !== position.h3_cell) {
+            tx.sRem(cabCellKey(previous.h3_cell), cabId);
+        }
+        await tx.exec();
+
+        this.broadcast(position).catch((err) =>
+            console.error(`[CabLocation] Broadcast failed for cab ${cabId}:`, err)
+        );
+        return position;
+    }
+
+    /** The cab's last reported position, or null if it never reported one. */
+    async lastKnown(cabId: string): Promise<CabPosition | null> {
+        const raw = await this.client.get(this.KEY_PREFIX + cabId);
+        return typeof raw === 'string' ? JSON.parse(raw) as CabPosition : null;
+    }
+
+    /** Last positions of these cabs — stale ones left out. */
+    async positions(cabIds: string[]): Promise<Map<string, CabPosition>> {
+        if (cabIds.length === 0) return new Map();
+        const raws = await this.client.mGet(cabIds.map((cabId) => this.KEY_PREFIX + cabId));
+        const positions = raws
+            .filter((raw): raw is string => typeof raw === 'string')
+            .map((raw) => JSON.parse(raw) as CabPosition)
+            .filter((position) => !this.isStale(position));
+        return new Map(positions.map((position) => [position.cab_id, position]));
+    }
+
+    /** Cabs whose last position is in any of these cells (at CAB_H3_RESOLUTION). */
+    async cabsIn(cells: string[]): Promise<string[]> {
+        if (cells.length === 0) return [];
+        return this.client.sUnion(cells.map(cabCellKey));
+    }
+
+    /** No ping for CAB_LOCATION_STALE_SECONDS — the driver's app is likely offline. */
+    isStale(position: CabPosition): boolean {
+        return Date.now() - new Date(position.recorded_at).getTime() > CAB_LOCATION_STALE_SECONDS * 1000;
+    }
+
+    // ── Streaming to riders ──
+
+    private async broadcast(position: CabPosition): Promise<void> {
+        const due = await streamDue(position.cab_id, (key, seconds) => this.claim(key, seconds));
+        if (!due.location) return;
+
+        const trip = await prisma.trips.findFirst({
+            where: { cab_id: position.cab_id, status: { in: ['WAITING', 'ACTIVE'] } },
+            include: {
+                rideRequests: {
+                    where: { dropped_off_at: null },
+                    orderBy: { joined_at: 'asc' },
+                    select: { user_id: true, terminal_code: true, destination_h3: true, drop_order: true }
+                }
+            }
+        });
+        if (!trip || trip.rideRequests.length === 0) return;
+
+        const location = {
+            type: 'CAB_LOCATION',
+            trip_id: trip.id,
+            cab_id: position.cab_id,
+            location: position.location,
+            heading: position.heading,
+            speed_kmph: position.speed_kmph,
+            recorded_at: position.recorded_at
+        };
+        const etas = due.eta
+            ? await etasFor(trip, position.location, this.pickupOf(trip))
+            : new Map<string, CabEta>();
+
+        await Promise.allSettled(trip.rideRequests.map(async (rr) => {
+            await pubSubService.publish(rr.user_id, location);
+            const eta = etas.get(rr.user_id);
+            if (eta) await pubSubService.publish(rr.user_id, { type: 'ETA_UPDATE', trip_id: trip.id, ...eta });
+        }));
+    }
+
+    // Where the riders board: the trip's bay, else its terminal's pickup point
+    private pickupOf(trip: TrackedTrip): LatLng {
+        return boarding.pointFor(trip)?.meeting_point
+            ?? airportRegistry.pickupFor(trip.airport_code, trip.rideRequests[0]?.terminal_code);
+    }
+
+    // First caller within `seconds` wins
+    private async claim(key: string, seconds: number): Promise<boolean> {
+        return await this.client.set(key, '1', { EX: seconds, NX: true }) === 'OK';
+    }
+}
+
+export const cabLocations = CabLocationService.getInstance();
@@ -0,0 +1,208 @@
+import { createClient, type RedisClientType } from 'redis';
+import { gridDisk, latLngToCell } from 'h3-js';
+import { prisma } from '../../lib/prisma';
+import type { Cabs } from '../../generated/prisma/client';
+import { cabLocations, CAB_H3_RESOLUTION, type CabPosition } from './cabLocation';
+import { airportRegistry, type DispatchPolicy } from './airports';
+import { haversineMeters, type LatLng } from '../rideMatching/routingProvider';
+
+/**
+ * cabSelection.ts
+ *
+ * The order in which free cabs are offered a trip (see driverDispatch.ts),
+ * by the dispatch policy of the trip's airport (`Airports.dispatch_policy`):
+ *
+ *   PROXIMITY   — cabs are looked up by H3 cell (see cabLocation.ts) in
+ *                 rings of growing radius (gridDisk) around the trip's
+ *                 pickup, until DISPATCH_MIN_CANDIDATES are found or
+ *                 DISPATCH_MAX_RING rings have been searched. Candidates
+ *                 are scored in km: distance to the pickup, minus
+ *                 DISPATCH_IDLE_WEIGHT per minute idle (up to an hour),
+ *                 plus DISPATCH_FIT_WEIGHT per seat / luggage slot left
+ *                 empty — lowest first. Cabs without a fresh position
+ *                 follow, scored on idle time and fit alone.
+ *   TAXI_QUEUE  — free cabs within TAXI_QUEUE_RADIUS_METERS of the
+ *                 airport's pickup zone queue in the order they arrived;
+ *                 the first queued cab that fits gets the offer. Cabs
+ *                 outside the queue follow in PROXIMITY order, so a trip
+ *                 is never stranded by an empty queue.
+ *
+ * Each queue is a Redis sorted set (`dispatch:taxi_queue:<airport>`,
+ * scored by arrival time) kept up to date from the drivers' GPS pings: a
+ * free cab joins when it enters the radius and leaves when it drives out,
+ * goes offline or accepts a trip.
+ */
+
+const DISPATCH_MAX_RING = Number(process.env.DISPATCH_MAX_RING) || 12;
+const DISPATCH_MIN_CANDIDATES = Number(process.env.DISPATCH_MIN_CANDIDATES) || 3;
+const DISPATCH_IDLE_WEIGHT = Number(process.env.DISPATCH_IDLE_WEIGHT) || 0.05;
+const DISPATCH_FIT_WEIGHT = Number(process.env.DISPATCH_FIT_WEIGHT) || 0.5;
+const TAXI_QUEUE_RADIUS_METERS = Number(process.env.TAXI_QUEUE_RADIUS_METERS) || 2000;
+
+const MAX_IDLE_MINUTES = 60;
+
+export interface DispatchTrip {
+    airport_code: string | null;
+    pickup: LatLng;
+    no_of_passengers: number;
+    total_luggage: number;
+}
+
+export interface RankedCab {
+    cab: Cabs;
+    distance_meters: number | null;   // null without a fresh position
+    idle_seconds: number;
+    queue_position: number | null;    // 1-based, TAXI_QUEUE only
+    score: number;
+}
+
+export interface TaxiQueueEntry {
+    cab_id: string;
+    joined_at: string;
+}
+
+export class CabSelectionService {
+    private static instance: CabSelectionService;
+
+    private client: RedisClientType;
+    private isConnected: boolean = false;
+
+    private readonly QUEUE_KEY_PREFIX = 'dispatch:taxi_queue:';
+
+    private constructor() {
+        this.client = createClient({ url: process.env.REDIS_URL || 'redis://localhost:6379' });
+        this.client.on('error', (err) => console.error('Redis Cab Selection Error:', err));
+    }
+
+    static getInstance(): CabSelectionService {
+        if (!CabSelectionService.instance) {
+            CabSelectionService.instance = new CabSelectionService();
+        }
+        return CabSelectionService.instance;
+    }
+
+    async connect(): Promise<void> {
+        if (this.isConnected) return;
+
+        await this.client.connect();
+        this.isConnected = true;
+        console.log('Redis cab selection connected');
+    }
+
+    async disconnect(): Promise<void> {
+        if (!this.isConnected) return;
+
+        await this.client.quit();
+        this.isConnected = false;
+        console.log('Redis cab selection disconnected');
+    }
+
+    // ── Ranking ──
+
+    /**
+     * Order the free cabs that fit a trip (already filtered on seats and
+     * luggage) by the airport's dispatch policy, best first.
+     */
+    async rank(trip: DispatchTrip, candidates: Cabs[]): Promise<{ policy: DispatchPolicy, cabs: RankedCab[] }> {
+        const airport = airportRegistry.getAirport(trip.airport_code);
+        if (airport.dispatch_policy !== 'TAXI_QUEUE') {
+            return { policy: 'PROXIMITY', cabs: await this.byProximity(trip, candidates) };
+        }
+
+        const queue = await this.queue(airport.code);
+        const byId = new Map(candidates.map((cab) => [cab.id, cab]));
+        const queued = queue
+            .map((entry, i) => ({ cab: byId.get(entry.cab_id), position: i + 1 }))
+            .filter((entry): entry is { cab: Cabs, position: number } => entry.cab !== undefined)
+            .map(({ cab, position }): RankedCab => ({
+                cab,
+                distance_meters: null,
+                idle_seconds: this.idleSeconds(cab),
+                queue_position: position,
+                score: position
+            }));
+
+        const rest = candidates.filter((cab) => !queued.some((entry) => entry.cab.id === cab.id));
+        return { policy: 'TAXI_QUEUE', cabs: [...queued, ...await this.byProximity(trip, rest)] };
+    }
+
+    private async byProximity(trip: DispatchTrip, candidates: Cabs[]): Promise<RankedCab[]> {
+        if (candidates.length === 0) return [];
+        const eligible = new Set(candidates.map((cab) => cab.id));
+
+        // ── Expanding rings around the pickup until enough cabs are found ──
+        const origin = latLngToCell(trip.pickup.lat, trip.pickup.lng, CAB_H3_RESOLUTION);
+        const searched = new Set<string>();
+        const nearby = new Set<string>();
+        for (let k = 0; k <= DISPATCH_MAX_RING && nearby.size < DISPATCH_MIN_CANDIDATES; k++) {
+            const ring = gridDisk(origin, k).filter((cell) => !searched.has(cell));
+            ring.forEach((cell) => searched.add(cell));
+            for (const cabId of await cabLocations.cabsIn(ring)) {
+                if (eligible.has(cabId)) nearby.add(cabId);
+            }
+        }
+        const positions = await cabLocations.positions([...nearby]);
+
+        const ranked = candidates.map((cab): RankedCab => {
+            const position: CabPosition | undefined = positions.get(cab.id);
+            const distance = position ? haversineMeters(position.location, trip.pickup) : null;
+            const idle = this.idleSeconds(cab);
+            const spare = (cab.no_of_seats - trip.no_of_passengers) + (cab.luggage_capacity - trip.total_luggage);
+            return {
+                cab,
+                distance_meters: distance === null ? null : Math.round(distance),
+                idle_seconds: idle,
+                queue_position: null,
+                score: (distance ?? 0) / 1000
+                    - DISPATCH_IDLE_WEIGHT * Math.min(idle / 60, MAX_IDLE_MINUTES)
+                    + DISPATCH_FIT_WEIGHT * spare
+            };
+        });
+
+        // Located cabs first, each group lowest score first
+        return ranked.sort((a, b) =>
+            Number(a.distance_meters === null) - Number(b.distance_meters === null) || a.score - b.score
+        );
+    }
+
+    private idleSeconds(cab: Cabs): number {
+        return Math.max(0, Math.round((Date.now() - cab.idle_since.getTime()) / 1000));
+    }
+
+    // ── Taxi queues ──
+
+    /** The airport's taxi queue, first in line first. */
+    async queue(airportCode: string): Promise<TaxiQueueEntry[]> {
+        const entries = await this.client.zRangeWithScores(this.QUEUE_KEY_PREFIX + airportCode, 0, -1);
+        return entries.map((entry) => ({ cab_id: entry.value, joined_at: new Date(entry.score).toISOString() }));
+    }
+
+    /**
+     * A cab reported its position: join the queue of a TAXI_QUEUE airport
+     * it is waiting at (if free and not already queued), leave any it has
+     * driven away from.
+     */
+    async track(position: CabPosition): Promise<void> {
+        for (const airport of airportRegistry.list().filter((a) => a.dispatch_policy === 'TAXI_QUEUE')) {
+            const key = this.QUEUE_KEY_PREFIX + airport.code;
+            if (haversineMeters(position.location, airport.pickup) > TAXI_QUEUE_RADIUS_METERS) {
+                await this.client.zRem(key, position.cab_id);
+                continue;
+            }
+            if (await this.client.zScore(key, position.cab_id) !== null) continue;
+
+            const cab = await prisma.cabs.findUnique({ where: { id: position.cab_id }, select: { status: true } });
+            if (cab?.status !== 'AVAILABLE') continue;
+            await this.client.zAdd(key, { score: Date.parse(position.recorded_at), value: position.cab_id }, { NX: true });
+        }
+    }
+
+    /** The cab took a trip or went offline — out of every queue. */
+    async leave(cabId: string): Promise<void> {
+        await Promise.all(airportRegistry.list()
+            .filter((airport) => airport.dispatch_policy === 'TAXI_QUEUE')
+            .map((airport) => this.client.zRem(this.QUEUE_KEY_PREFIX + airport.code, cabId)));
+    }
+}
+
+export const cabSelection = CabSelectionService.getInstance();
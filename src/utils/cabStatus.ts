@@ -0,0 +1,264 @@
+import { prisma } from '../../lib/prisma';
+import type { CabStatusChanges, Prisma, Shifts } from '../../generated/prisma/client';
+
+/**
+ * cabStatus.ts
+ *
+ * The cab status state machine, driver shifts and the status audit trail.
+ *
+ *   OFFLINE    → AVAILABLE                    driver goes online
+ *   AVAILABLE  → OFFERED | BREAK | OFFLINE    trip offered / break / driver goes offline
+ *              → ASSIGNED                     assigned by an admin (see adminOps.ts)
+ *   OFFERED    → ASSIGNED | AVAILABLE         accepted / declined, expired or withdrawn
+ *   ASSIGNED   → EN_ROUTE | ON_TRIP | AVAILABLE
+ *                                             heading to the bay / ride started / trip cancelled
+ *   EN_ROUTE   → ON_TRIP | AVAILABLE          ride started / trip cancelled
+ *   ON_TRIP    → AVAILABLE                    trip completed
+ *   BREAK      → AVAILABLE | OFFLINE          back online / driver goes offline
+ *
+ * Every change goes through this module: it is checked against
+ * CAB_TRANSITIONS and recorded in CabStatusChanges in the same
+ * transaction, with its reason and trip. Going online from OFFLINE opens
+ * a Shifts row, going offline closes it; a break keeps the shift open.
+ * Becoming AVAILABLE restarts the cab's idle time (see cabSelection.ts),
+ * except after a declined offer — the cab never stopped waiting.
+ *
+ * Trip offers go to drivers who are AVAILABLE *and* connected to the
+ * driver WebSocket (see driverDispatch.ts).
+ */
+
+export type CabStatus = 'OFFLINE' | 'AVAILABLE' | 'OFFERED' | 'ASSIGNED' | 'EN_ROUTE' | 'ON_TRIP' | 'BREAK';
+
+export type CabStatusReason =
+    | 'DRIVER_ONLINE' | 'DRIVER_OFFLINE' | 'BREAK_STARTED'
+    | 'TRIP_OFFERED' | 'ADMIN_ASSIGNED' | 'OFFER_ACCEPTED' | 'OFFER_DECLINED' | 'OFFER_EXPIRED' | 'OFFER_DISCONNECTED'
+    | 'OFFER_WITHDRAWN' | 'OFFER_STALE' | 'DISPATCH_RESTART'
+    | 'EN_ROUTE' | 'RIDE_STARTED' | 'TRIP_COMPLETED' | 'TRIP_CANCELLED';
+
+export const CAB_TRANSITIONS: Record<CabStatus, readonly CabStatus[]> = {
+    OFFLINE: ['AVAILABLE'],
+    AVAILABLE: ['OFFERED', 'ASSIGNED', 'BREAK', 'OFFLINE'],
+    OFFERED: ['ASSIGNED', 'AVAILABLE'],
+    ASSIGNED: ['EN_ROUTE', 'ON_TRIP', 'AVAILABLE'],
+    EN_ROUTE: ['ON_TRIP', 'AVAILABLE'],
+    ON_TRIP: ['AVAILABLE'],
+    BREAK: ['AVAILABLE', 'OFFLINE']
+};
+
+const HISTORY_LIMIT = 50;
+
+export class CabStatusError extends Error {
+    constructor(message: string, readonly status: number = 409) {
+        super(message);
+        this.name = 'CabStatusError';
+    }
+}
+
+export interface StatusChange {
+    reason: CabStatusReason;
+    trip_id?: string | null;
+}
+
+export interface DriverStatus {
+    cab_id: string;
+    status: CabStatus;
+    shift: Shifts | null;
+}
+
+export function canTransition(from: string, to: CabStatus): boolean {
+    return (CAB_TRANSITIONS[from as CabStatus] ?? []).includes(to);
+}
+
+function assertTransition(from: string, to: CabStatus): void {
+    if (!canTransition(from, to)) {
+        throw new CabStatusError(`Cab cannot go from ${from} to ${to}`);
+    }
+}
+
+export class CabStatusService {
+    private static instance: CabStatusService;
+
+    private constructor() { }
+
+    static getInstance(): CabStatusService {
+        if (!CabStatusService.instance) {
+            CabStatusService.instance = new CabStatusService();
+        }
+        return CabStatusService.instance;
+    }
+
+    // ── Transitions ──
+
+    /**
+     * Move the cab to `to` if it is currently in one of `from` — the
+     * conditional update is what lets dispatch claim a cab without two trips
+     * getting it. Returns false (and changes nothing) otherwise.
+     */
+    async transition(cabId: string, from: CabStatus | CabStatus[], to: CabStatus, change: StatusChange): Promise<boolean> {
+        const fromStatuses = Array.isArray(from) ? from : [from];
+        fromStatuses.forEach((status) => assertTransition(status, to));
+
+        return prisma.$transaction(async (tx) => {
+            const cab = await tx.cabs.findUnique({ where: { id: cabId }, select: { status: true } });
+            if (!cab || !fromStatuses.includes(cab.status as CabStatus)) return false;
+
+            const moved = await tx.cabs.updateMany({
+                where: { id: cabId, status: cab.status },
+                data: this.statusData(cab.status, to)
+            });
+            if (moved.count === 0) return false;
+
+            await tx.cabStatusChanges.create({ data: this.auditRow(cabId, cab.status, to, change) });
+            return true;
+        });
+    }
+
+    /**
+     * The same change inside the caller's interactive transaction, for a
+     * cab the caller knows to be in `from`. Throws CabStatusError if the
+     * transition is not allowed.
+     */
+    async apply(tx: Prisma.TransactionClient, cabId: string, from: string, to: CabStatus, change: StatusChange): Promise<void> {
+        assertTransition(from, to);
+        await tx.cabs.update({ where: { id: cabId }, data: this.statusData(from, to) });
+        await tx.cabStatusChanges.create({ data: this.auditRow(cabId, from, to, change) });
+    }
+
+    /**
+     * The same change as operations for an array `$transaction` (trip start,
+     * completion, cancellation). Throws CabStatusError if the transition is
+     * not allowed.
+     */
+    writes(cabId: string, from: string, to: CabStatus, change: StatusChange) {
+        assertTransition(from, to);
+        return [
+            prisma.cabs.update({ where: { id: cabId }, data: this.statusData(from, to) }),
+            prisma.cabStatusChanges.create({ data: this.auditRow(cabId, from, to, change) })
+        ];
+    }
+
+    // ── Driver availability ──
+
+    /**
+     * OFFLINE → AVAILABLE (opening a shift), or back from a BREAK. A no-op
+     * for a driver who is already online.
+     */
+    async goOnline(driverId: string): Promise<DriverStatus> {
+        const cab = await this.cabOf(driverId);
+        if (cab.status === 'BREAK') {
+            await this.transition(cab.id, 'BREAK', 'AVAILABLE', { reason: 'DRIVER_ONLINE' });
+        } else if (cab.status === 'OFFLINE'
+            && await this.transition(cab.id, 'OFFLINE', 'AVAILABLE', { reason: 'DRIVER_ONLINE' })) {
+            await prisma.shifts.create({ data: { cab_id: cab.id, driver_id: driverId } });
+        }
+        return this.current(driverId);
+    }
+
+    /**
+     * AVAILABLE / BREAK → OFFLINE, closing the shift. Refused while the cab
+     * has an offer or a trip.
+     */
+    async goOffline(driverId: string): Promise<DriverStatus> {
+        const cab = await this.cabOf(driverId);
+        if (cab.status === 'OFFLINE') return this.current(driverId);
+
+        const moved = await this.transition(cab.id, ['AVAILABLE', 'BREAK'], 'OFFLINE', { reason: 'DRIVER_OFFLINE' });
+        if (!moved) throw this.busyError('go offline', await this.current(driverId));
+
+        await prisma.shifts.updateMany({
+            where: { cab_id: cab.id, ended_at: null },
+            data: { ended_at: new Date() }
+        });
+        return this.current(driverId);
+    }
+
+    /** AVAILABLE → BREAK: stays on shift, gets no offers. */
+    async takeBreak(driverId: string): Promise<DriverStatus> {
+        const cab = await this.cabOf(driverId);
+        if (cab.status === 'BREAK') return this.current(driverId);
+        if (cab.status === 'OFFLINE') throw new CabStatusError('Go online before taking a break');
+
+        const moved = await this.transition(cab.id, 'AVAILABLE', 'BREAK', { reason: 'BREAK_STARTED' });
+        if (!moved) throw this.busyError('take a break', await this.current(driverId));
+        return this.current(driverId);
+    }
+
+    /** ASSIGNED → EN_ROUTE: the driver is on the way to the trip's pickup bay. */
+    async enRoute(driverId: string, tripId: string): Promise<DriverStatus> {
+        const cab = await this.cabOf(driverId);
+        const trip = await prisma.trips.findUnique({ where: { id: tripId }, select: { cab_id: true, status: true } });
+        if (!trip || trip.cab_id !== cab.id) throw new CabStatusError('Trip not found', 404);
+        if (trip.status !== 'WAITING') throw new CabStatusError(`Trip is ${trip.status.toLowerCase()}`);
+
+        if (cab.status !== 'EN_ROUTE') {
+            const moved = await this.transition(cab.id, 'ASSIGNED', 'EN_ROUTE', { reason: 'EN_ROUTE', trip_id: tripId });
+            if (!moved) throw new CabStatusError(`Cab cannot go from ${cab.status} to EN_ROUTE`);
+        }
+        return this.current(driverId);
+    }
+
+    // ── Reads ──
+
+    async current(driverId: string): Promise<DriverStatus> {
+        const cab = await this.cabOf(driverId);
+        const shift = await prisma.shifts.findFirst({
+            where: { cab_id: cab.id, ended_at: null },
+            orderBy: { started_at: 'desc' }
+        });
+        return { cab_id: cab.id, status: cab.status as CabStatus, shift };
+    }
+
+    /** The cab's status changes, newest first. */
+    history(cabId: string, limit: number = HISTORY_LIMIT): Promise<CabStatusChanges[]> {
+        return prisma.cabStatusChanges.findMany({
+            where: { cab_id: cabId },
+            orderBy: { created_at: 'desc' },
+            take: limit
+        });
+    }
+
+    /** When the cab was put on the trip (offer accepted or assigned by an admin), from the audit trail. */
+    async assignedAt(cabId: string, tripId: string): Promise<Date | null> {
+        const change = await prisma.cabStatusChanges.findFirst({
+            where: { cab_id: cabId, trip_id: tripId, to_status: 'ASSIGNED' },
+            orderBy: { created_at: 'desc' },
+            select: { created_at: true }
+        });
+        return change?.created_at ?? null;
+    }
+
+    /** The cab's shifts, newest first. */
+    shifts(cabId: string, limit: number = HISTORY_LIMIT): Promise<Shifts[]> {
+        return prisma.shifts.findMany({
+            where: { cab_id: cabId },
+            orderBy: { started_at: 'desc' },
+            take: limit
+        });
+    }
+
+    // ── Internals ──
+
+    private async cabOf(driverId: string): Promise<{ id: string, status: string }> {
+        const cab = await prisma.cabs.findUnique({ where: { driver_id: driverId }, select: { id: true, status: true } });
+        if (!cab) throw new CabStatusError('No cab registered for this driver. Register one via POST /signup/cab first.', 404);
+        return cab;
+    }
+
+    private busyError(action: string, current: DriverStatus): CabStatusError {
+        return new CabStatusError(current.status === 'OFFERED'
+            ? `Answer the pending trip offer before you ${action}`
+            : `Cab is ${current.status} — finish the trip before you ${action}`);
+    }
+
+    private statusData(from: string, to: CabStatus) {
+        return to === 'AVAILABLE' && from !== 'OFFERED'
+            ? { status: to, idle_since: new Date() }
+            : { status: to };
+    }
+
+    private auditRow(cabId: string, from: string, to: CabStatus, change: StatusChange) {
+        return { cab_id: cabId, from_status: from, to_status: to, reason: change.reason, trip_id: change.trip_id ?? null };
+    }
+}
+
+export const cabStatus = CabStatusService.getInstance();
@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { latLngToCell } from 'h3-js';
+import {
+    CAB_ETA_INTERVAL_SECONDS,
+    CAB_LOCATION_THROTTLE_SECONDS,
+    etasFor,
+    isNewerPing,
+    pingTime,
+    streamDue,
+    type ClaimWindow,
+    type EtaTrip
+} from './cabStreaming';
+import type { LatLng, RoutingProvider } from '../rideMatching/routingProvider';
+
+const START = Date.parse('2026-04-05T10:00:00.000Z');
+
+// SET NX EX, in memory
+function memoryClaim(): ClaimWindow {
+    const held = new Map<string, number>();
+    return async (key, seconds) => {
+        if ((held.get(key) ?? 0) > Date.now()) return false;
+        held.set(key, Date.now() + seconds * 1000);
+        return true;
+    };
+}
+
+// 1 km and 100 s per leg, whatever the points — records the legs asked for
+function legProvider(): RoutingProvider & { legs: [LatLng, LatLng][] } {
+    const legs: [LatLng, LatLng][] = [];
+    return {
+        name: 'test',
+        legs,
+        async computeRoute(origin, destination) {
+            legs.push([origin, destination]);
+            return { routePoints: [origin, destination], distanceMeters: 1000, durationSeconds: 100 };
+        }
+    };
+}
+
+const cab = { lat: 28.5562, lng: 77.1000 };
+const pickup = { lat: 28.5550, lng: 77.0880 };
+const cellAt = (lat: number, lng: number) => latLngToCell(lat, lng, 9);
+const NEAR = cellAt(28.6000, 77.2000);
+const FAR = cellAt(28.6500, 77.2500);
+
+describe('isNewerPing', () => {
+    test('keeps the first ping', () => {
+        expect(isNewerPing(null, new Date(START))).toBe(true);
+    });
+
+    test('drops a ping recorded at or before the stored one', () => {
+        const stored = new Date(START).toISOString();
+        expect(isNewerPing(stored, new Date(START - 1000))).toBe(false);
+        expect(isNewerPing(stored, new Date(START))).toBe(false);
+        expect(isNewerPing(stored, new Date(START + 1000))).toBe(true);
+    });
+});
+
+describe('pingTime', () => {
+    test('uses the device time of the fix', () => {
+        expect(pingTime(new Date(START - 5000).toISOString(), START)).toEqual(new Date(START - 5000));
+    });
+
+    test('defaults to when the ping was received', () => {
+        expect(pingTime(undefined, START)).toEqual(new Date(START));
+    });
+
+    test('clamps a fix from the future to now', () => {
+        expect(pingTime(new Date(START + 3600_000).toISOString(), START)).toEqual(new Date(START));
+    });
+
+    test('lets correct pings through after one from the future', () => {
+        const stored = pingTime(new Date(START + 3600_000).toISOString(), START).toISOString();
+        expect(isNewerPing(stored, pingTime(new Date(START + 5000).toISOString(), START + 5000))).toBe(true);
+    });
+});
+
+describe('streamDue', () => {
+    beforeEach(() => setSystemTime(new Date(START)));
+    afterEach(() => setSystemTime());
+
+    const at = (seconds: number) => setSystemTime(new Date(START + seconds * 1000));
+
+    test('streams the location and ETA on the first ping', async () => {
+        expect(await streamDue('cab-1', memoryClaim())).toEqual({ location: true, eta: true });
+    });
+
+    test('throttles the location, and the ETA with it', async () => {
+        const claim = memoryClaim();
+        await streamDue('cab-1', claim);
+
+        at(CAB_LOCATION_THROTTLE_SECONDS - 1);
+        expect(await streamDue('cab-1', claim)).toEqual({ location: false, eta: false });
+
+        at(CAB_LOCATION_THROTTLE_SECONDS);
+        expect(await streamDue('cab-1', claim)).toEqual({ location: true, eta: false });
+
+        at(CAB_ETA_INTERVAL_SECONDS);
+        expect(await streamDue('cab-1', claim)).toEqual({ location: true, eta: true });
+    });
+
+    test('a throttled ping does not use up the ETA window', async () => {
+        const claim = memoryClaim();
+        await streamDue('cab-1', claim);
+
+        // Location window taken just before the ETA one reopens
+        at(CAB_ETA_INTERVAL_SECONDS - 1);
+        expect(await streamDue('cab-1', claim)).toEqual({ location: true, eta: false });
+
+        // Throttled — the ETA window, open again, is left alone
+        at(CAB_ETA_INTERVAL_SECONDS);
+        expect((await streamDue('cab-1', claim)).location).toBe(false);
+
+        at(CAB_ETA_INTERVAL_SECONDS - 1 + CAB_LOCATION_THROTTLE_SECONDS);
+        expect(await streamDue('cab-1', claim)).toEqual({ location: true, eta: true });
+    });
+
+    test('throttles each cab on its own', async () => {
+        const claim = memoryClaim();
+        await streamDue('cab-1', claim);
+        expect(await streamDue('cab-2', claim)).toEqual({ location: true, eta: true });
+    });
+});
+
+describe('etasFor', () => {
+    const NOW = START;
+
+    test('before the ride, every rider gets the ETA to the pickup', async () => {
+        const provider = legProvider();
+        const trip: EtaTrip = {
+            status: 'WAITING',
+            rideRequests: [
+                { user_id: 'a', destination_h3: NEAR, drop_order: null },
+                { user_id: 'b', destination_h3: FAR, drop_order: null }
+            ]
+        };
+
+        const etas = await etasFor(trip, cab, pickup, provider, NOW);
+
+        expect(provider.legs).toEqual([[cab, pickup]]);
+        for (const userId of ['a', 'b']) {
+            expect(etas.get(userId)).toEqual({
+                target: 'PICKUP',
+                eta_seconds: 100,
+                distance_meters: 1000,
+                arrives_at: new Date(NOW + 100_000).toISOString()
+            });
+        }
+    });
+
+    test('on the ride, each drop-off adds up the legs before it, in drop order', async () => {
+        const provider = legProvider();
+        const trip: EtaTrip = {
+            status: 'ACTIVE',
+            rideRequests: [
+                { user_id: 'far', destination_h3: FAR, drop_order: 2 },
+                { user_id: 'near', destination_h3: NEAR, drop_order: 1 }
+            ]
+        };
+
+        const etas = await etasFor(trip, cab, pickup, provider, NOW);
+
+        expect(etas.get('near')).toMatchObject({ target: 'DROP_OFF', eta_seconds: 100, distance_meters: 1000 });
+        expect(etas.get('far')).toMatchObject({ target: 'DROP_OFF', eta_seconds: 200, distance_meters: 2000 });
+        expect(etas.get('far')?.arrives_at).toBe(new Date(NOW + 200_000).toISOString());
+        // cab → near → far
+        expect(provider.legs).toHaveLength(2);
+        expect(provider.legs[0]![0]).toEqual(cab);
+        expect(provider.legs[1]![0]).toEqual(provider.legs[0]![1]);
+    });
+
+    test('riders going to the same cell share the stop', async () => {
+        const provider = legProvider();
+        const trip: EtaTrip = {
+            status: 'ACTIVE',
+            rideRequests: [
+                { user_id: 'leader', destination_h3: NEAR, drop_order: 1 },
+                { user_id: 'member', destination_h3: NEAR, drop_order: 1 },
+                { user_id: 'other', destination_h3: FAR, drop_order: 2 }
+            ]
+        };
+
+        const etas = await etasFor(trip, cab, pickup, provider, NOW);
+
+        expect(provider.legs).toHaveLength(2);
+        expect(etas.get('leader')?.eta_seconds).toBe(100);
+        expect(etas.get('member')?.eta_seconds).toBe(100);
+        expect(etas.get('other')?.eta_seconds).toBe(200);
+    });
+
+    test('riders without a drop order go last; without a destination get no ETA', async () => {
+        const provider = legProvider();
+        const trip: EtaTrip = {
+            status: 'ACTIVE',
+            rideRequests: [
+                { user_id: 'unplanned', destination_h3: FAR, drop_order: null },
+                { user_id: 'planned', destination_h3: NEAR, drop_order: 1 },
+                { user_id: 'unknown', destination_h3: null, drop_order: null }
+            ]
+        };
+
+        const etas = await etasFor(trip, cab, pickup, provider, NOW);
+
+        expect(etas.get('planned')?.eta_seconds).toBe(100);
+        expect(etas.get('unplanned')?.eta_seconds).toBe(200);
+        expect(etas.has('unknown')).toBe(false);
+    });
+});
@@ -0,0 +1,125 @@
+import { cellToLatLng } from 'h3-js';
+import { routeCache } from './routeCache';
+import type { LatLng, RoutingProvider } from '../rideMatching/routingProvider';
+
+/**
+ * cabStreaming.ts
+ *
+ * What a driver's GPS ping streams to the riders of the cab's trip (see
+ * cabLocation.ts, which stores the ping and publishes the messages):
+ *
+ *   CAB_LOCATION  at most every CAB_LOCATION_THROTTLE_SECONDS per cab
+ *   ETA_UPDATE    with a CAB_LOCATION, at most every CAB_ETA_INTERVAL_SECONDS
+ *                 — to the pickup bay until the ride starts, then to each
+ *                 rider's drop-off along the drop sequence
+ *
+ * The throttle windows are claimed through the caller's `claim` (a Redis
+ * SET NX EX, so they hold across app instances); routes come from the
+ * route cache unless another provider is passed.
+ */
+
+export const CAB_LOCATION_THROTTLE_SECONDS = Number(process.env.CAB_LOCATION_THROTTLE_SECONDS) || 5;
+export const CAB_ETA_INTERVAL_SECONDS = Number(process.env.CAB_ETA_INTERVAL_SECONDS) || 30;
+
+const LOCATION_SENT_PREFIX = 'cab:location:sent:';
+const ETA_SENT_PREFIX = 'cab:eta:sent:';
+
+/** True for the first caller for `key` within `seconds`. */
+export type ClaimWindow = (key: string, seconds: number) => Promise<boolean>;
+
+export interface StreamDue {
+    location: boolean;
+    eta: boolean;
+}
+
+export interface CabEta {
+    target: 'PICKUP' | 'DROP_OFF';
+    eta_seconds: number;
+    distance_meters: number;
+    arrives_at: string;
+}
+
+export interface EtaTrip {
+    status: string;
+    rideRequests: {
+        user_id: string;
+        destination_h3: string | null;
+        drop_order: number | null;
+    }[];
+}
+
+/**
+ * When a ping was taken: the device's `recorded_at`, but never later than
+ * `now` — a fast device clock would otherwise shadow every later ping and
+ * keep the position from ever going stale.
+ */
+export function pingTime(recordedAt: string | undefined, now: number = Date.now()): Date {
+    return new Date(recordedAt ? Math.min(new Date(recordedAt).getTime(), now) : now);
+}
+
+/** Pings are kept only in order: one recorded at or before the stored position is dropped. */
+export function isNewerPing(previousRecordedAt: string | null, recordedAt: Date): boolean {
+    return previousRecordedAt === null || recordedAt.getTime() > new Date(previousRecordedAt).getTime();
+}
+
+/**
+ * Which messages a fresh ping streams. The ETA window is only claimed when
+ * the location goes out, so a throttled ping never uses it up.
+ */
+export async function streamDue(cabId: string, claim: ClaimWindow): Promise<StreamDue> {
+    if (!await claim(LOCATION_SENT_PREFIX + cabId, CAB_LOCATION_THROTTLE_SECONDS)) {
+        return { location: false, eta: false };
+    }
+    return { location: true, eta: await claim(ETA_SENT_PREFIX + cabId, CAB_ETA_INTERVAL_SECONDS) };
+}
+
+/**
+ * Per rider: before the ride starts, the ETA to `pickup`; on the ride, the
+ * ETA to their drop-off, via every earlier stop of the drop sequence.
+ * Riders without a destination get none.
+ */
+export async function etasFor(
+    trip: EtaTrip,
+    from: LatLng,
+    pickup: LatLng,
+    provider: RoutingProvider = routeCache,
+    now: number = Date.now()
+): Promise<Map<string, CabEta>> {
+    const etas = new Map<string, CabEta>();
+    const etaOf = (target: CabEta['target'], seconds: number, meters: number): CabEta => ({
+        target,
+        eta_seconds: seconds,
+        distance_meters: meters,
+        arrives_at: new Date(now + seconds * 1000).toISOString()
+    });
+
+    if (trip.status === 'WAITING') {
+        const route = await provider.computeRoute(from, pickup);
+        for (const rr of trip.rideRequests) {
+            etas.set(rr.user_id, etaOf('PICKUP', route.durationSeconds, route.distanceMeters));
+        }
+        return etas;
+    }
+
+    const stops = trip.rideRequests
+        .filter((rr) => rr.destination_h3)
+        .sort((a, b) => (a.drop_order ?? Infinity) - (b.drop_order ?? Infinity));
+    let at = from;
+    let atCell: string | null = null;
+    let seconds = 0;
+    let meters = 0;
+    for (const rr of stops) {
+        // Riders going to the same cell (a party) share the stop
+        if (rr.destination_h3 !== atCell) {
+            const [lat, lng] = cellToLatLng(rr.destination_h3!);
+            const stop = { lat, lng };
+            const leg = await provider.computeRoute(at, stop);
+            seconds += leg.durationSeconds;
+            meters += leg.distanceMeters;
+            at = stop;
+            atCell = rr.destination_h3;
+        }
+        etas.set(rr.user_id, etaOf('DROP_OFF', seconds, meters));
+    }
+    return etas;
+}
@@ -0,0 +1,511 @@
+import { prisma } from '../../lib/prisma';
+import { pubSubService } from './pubsub';
+import { redisService } from './redisClient';
+import { fleetCapacity } from './fleet';
+import { boarding, type BoardingPoint } from './boarding';
+import { cabSelection } from './cabSelection';
+import { airportRegistry } from './airports';
+import { cabStatus, type CabStatusReason } from './cabStatus';
+
+/**
+ * driverDispatch.ts
+ *
+ * Offers newly formed trips to connected drivers one cab at a time.
+ *
+ *   1. A trip forms without a cab → `dispatchTrip()` claims the best online
+ *      cab that fits (AVAILABLE → OFFERED) and sends TRIP_OFFER. "Best" is
+ *      the airport's dispatch policy: nearest / longest idle / best fit, or
+ *      first in the taxi queue (see cabSelection.ts).
+ *   2. The driver answers ACCEPT_TRIP / DECLINE_TRIP within the offer window.
+ *   3. Accept → cab is attached to the trip (OFFERED → ASSIGNED), the trip
+ *      gets a pickup bay and boarding deadline (see boarding.ts) and every
+ *      rider receives CAB_ASSIGNED over Pub/Sub. A trip with a rider who
+ *      asked for no_join_after_start stops taking new riders here.
+ *      Decline / timeout / disconnect → cab goes back to AVAILABLE and the
+ *      next cab is tried. Cabs that already passed on a trip are skipped
+ *      until every eligible cab has; then the round starts over.
+ *
+ * Only cabs whose driver is connected *and* has gone online (status
+ * AVAILABLE, see cabStatus.ts) are offered trips; every status change
+ * goes through the cab status state machine and its audit trail.
+ *
+ * An admin may also put a cab on a trip by hand (`assignManually()`, see
+ * adminOps.ts): AVAILABLE → ASSIGNED with no offer, announced like an
+ * accepted one.
+ *
+ * Trips with no eligible online cab are parked and retried whenever a
+ * driver connects or a cab is released. Every change to the set of free
+ * cabs is published to matching as the free-fleet snapshot (see fleet.ts).
+ *
+ * Runs on the main thread only — offers and timers live next to the
+ * driver WebSocket connections.
+ */
+
+const OFFER_TIMEOUT_SECONDS = Number(process.env.DRIVER_OFFER_TIMEOUT_SECONDS) || 20;
+
+type OfferOutcome = 'DECLINED' | 'EXPIRED' | 'DISCONNECTED';
+
+const RELEASE_REASONS: Record<OfferOutcome, CabStatusReason> = {
+    DECLINED: 'OFFER_DECLINED',
+    EXPIRED: 'OFFER_EXPIRED',
+    DISCONNECTED: 'OFFER_DISCONNECTED'
+};
+
+interface PendingOffer {
+    tripId: string;
+    cabId: string;
+    driverId: string;
+    noOfSeats: number;          // what the cab is pooled up to — type-capped (see fleet.ts)
+    luggageCapacity: number;
+    expiresAt: Date;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+export interface AcceptResult {
+    trip?: unknown;
+    boarding?: BoardingPoint | null;
+    error?: string;
+}
+
+export class DriverDispatchService {
+    private static instance: DriverDispatchService;
+
+    // driverId → cabId for every connected driver
+    private onlineDrivers: Map<string, string> = new Map();
+    // tripId → offer currently waiting on a driver
+    private offers: Map<string, PendingOffer> = new Map();
+    // tripId → cabs that declined / timed out on it
+    private triedCabs: Map<string, Set<string>> = new Map();
+    // Trips with no eligible online cab right now
+    private unassignedTrips: Set<string> = new Set();
+    private dispatching: Set<string> = new Set();
+
+    private constructor() { }
+
+    static getInstance(): DriverDispatchService {
+        if (!DriverDispatchService.instance) {
+            DriverDispatchService.instance = new DriverDispatchService();
+        }
+        return DriverDispatchService.instance;
+    }
+
+    get offerTimeoutSeconds(): number {
+        return OFFER_TIMEOUT_SECONDS;
+    }
+
+    /**
+     * Recover state after a restart: offers held in memory are gone, so
+     * release cabs stuck in OFFERED and queue every WAITING trip without a cab.
+     */
+    async init(): Promise<void> {
+        const offered = await prisma.cabs.findMany({ where: { status: 'OFFERED' }, select: { id: true } });
+        for (const cab of offered) {
+            await cabStatus.transition(cab.id, 'OFFERED', 'AVAILABLE', { reason: 'DISPATCH_RESTART' });
+        }
+
+        const waitingTrips = await prisma.trips.findMany({
+            where: { status: 'WAITING', cab_id: null },
+            select: { id: true }
+        });
+        waitingTrips.forEach((trip) => this.unassignedTrips.add(trip.id));
+
+        // Nobody is connected yet — no cab is free
+        await fleetCapacity.refresh([]);
+
+        console.log(`Driver dispatch ready — ${offered.length} stale offer(s) released, ${waitingTrips.length} trip(s) awaiting a cab`);
+    }
+
+    // ── Driver presence ──
+
+    async driverOnline(driverId: string, cabId: string): Promise<void> {
+        this.onlineDrivers.set(driverId, cabId);
+        await this.retryUnassigned();
+    }
+
+    async driverOffline(driverId: string): Promise<void> {
+        const cabId = this.onlineDrivers.get(driverId);
+        this.onlineDrivers.delete(driverId);
+        this.publishFleet();
+        if (cabId) {
+            await cabSelection.leave(cabId)
+                .catch((err) => console.error(`[Dispatch] Failed to take cab ${cabId} out of the taxi queue:`, err));
+        }
+
+        const offer = this.findOfferForDriver(driverId);
+        if (offer) {
+            await this.rejectOffer(offer, 'DISCONNECTED');
+        }
+    }
+
+    /**
+     * The driver went online / came back from a break (`available`), or
+     * went offline / on a break — offer parked trips to the cab, or take it
+     * out of the free fleet and the taxi queue.
+     */
+    async availabilityChanged(cabId: string, available: boolean): Promise<void> {
+        if (available) {
+            await this.retryUnassigned();
+            return;
+        }
+        this.publishFleet();
+        await cabSelection.leave(cabId)
+            .catch((err) => console.error(`[Dispatch] Failed to take cab ${cabId} out of the taxi queue:`, err));
+    }
+
+    // ── Offers ──
+
+    /**
+     * Offer a trip to the next eligible cab. No-op if the trip already has
+     * a cab, is no longer WAITING, or an offer is already out.
+     */
+    async dispatchTrip(tripId: string): Promise<void> {
+        if (this.offers.has(tripId) || this.dispatching.has(tripId)) return;
+        this.dispatching.add(tripId);
+
+        try {
+            this.unassignedTrips.delete(tripId);
+
+            const trip = await prisma.trips.findUnique({
+                where: { id: tripId },
+                include: { rideRequests: { orderBy: { joined_at: 'asc' }, select: { issued_price: true, terminal_code: true } } }
+            });
+
+            if (!trip || trip.cab_id || trip.status !== 'WAITING') {
+                this.triedCabs.delete(tripId);
+                return;
+            }
+
+            const tried = this.triedCabs.get(tripId) ?? new Set<string>();
+            const busyDrivers = new Set([...this.offers.values()].map((o) => o.driverId));
+            const freeCabIds = [...this.onlineDrivers.entries()]
+                .filter(([driverId]) => !busyDrivers.has(driverId))
+                .map(([, cabId]) => cabId);
+
+            // Cabs that carry the trip within their type's limits, not just their seats
+            const eligible = async (cabIds: string[]) => cabIds.length === 0 ? [] : (await prisma.cabs.findMany({
+                where: { id: { in: cabIds }, status: 'AVAILABLE' }
+            })).filter((cab) => {
+                const capacity = fleetCapacity.capacityOf(cab);
+                return capacity.passengers >= trip.no_of_passengers && capacity.luggage >= trip.total_luggage;
+            });
+
+            let candidates = await eligible(freeCabIds.filter((cabId) => !tried.has(cabId)));
+            // Every eligible cab has passed on the trip: start another round
+            // rather than park the trip until one of them reconnects
+            if (candidates.length === 0 && tried.size > 0) {
+                this.triedCabs.delete(tripId);
+                candidates = await eligible(freeCabIds);
+            }
+
+            // Best cab first by the airport's dispatch policy
+            const { policy, cabs: ranked } = await cabSelection.rank({
+                airport_code: trip.airport_code,
+                pickup: airportRegistry.pickupFor(trip.airport_code, trip.rideRequests[0]?.terminal_code),
+                no_of_passengers: trip.no_of_passengers,
+                total_luggage: trip.total_luggage
+            }, candidates);
+
+            for (const { cab, distance_meters, queue_position } of ranked) {
+                // Conditional update so two trips can never claim the same cab
+                const claimed = await cabStatus.transition(cab.id, 'AVAILABLE', 'OFFERED', { reason: 'TRIP_OFFERED', trip_id: tripId });
+                if (!claimed) continue;
+                this.publishFleet();
+
+                const expiresAt = new Date(Date.now() + OFFER_TIMEOUT_SECONDS * 1000);
+                const capacity = fleetCapacity.capacityOf(cab);
+                const offer: PendingOffer = {
+                    tripId,
+                    cabId: cab.id,
+                    driverId: cab.driver_id,
+                    noOfSeats: capacity.passengers,
+                    luggageCapacity: capacity.luggage,
+                    expiresAt,
+                    timer: setTimeout(() => {
+                        if (this.offers.get(tripId) === offer) {
+                            this.rejectOffer(offer, 'EXPIRED')
+                                .catch((err) => console.error(`[Dispatch] Failed to expire offer for trip ${tripId}:`, err));
+                        }
+                    }, OFFER_TIMEOUT_SECONDS * 1000)
+                };
+                this.offers.set(tripId, offer);
+
+                await pubSubService.publishToDriver(cab.driver_id, {
+                    type: 'TRIP_OFFER',
+                    trip_id: tripId,
+                    cab_id: cab.id,
+                    no_of_passengers: trip.no_of_passengers,
+                    total_luggage: trip.total_luggage,
+                    riders: trip.rideRequests.length,
+                    total_fare: trip.rideRequests.reduce((sum, rr) => sum + rr.issued_price, 0),
+                    pickup_distance_meters: distance_meters,
+                    queue_position,
+                    expires_at: expiresAt.toISOString(),
+                    timeout_seconds: OFFER_TIMEOUT_SECONDS
+                });
+
+                console.log(`[Dispatch] Trip ${tripId} offered to cab ${cab.id} (driver ${cab.driver_id}, ${policy.toLowerCase()})`);
+                return;
+            }
+
+            this.unassignedTrips.add(tripId);
+            console.warn(`[Dispatch] No eligible online cab for trip ${tripId} — waiting for a driver`);
+        } finally {
+            this.dispatching.delete(tripId);
+        }
+    }
+
+    /**
+     * Driver accepted their pending offer. Attaches the cab to the trip and
+     * notifies every rider with CAB_ASSIGNED.
+     */
+    async acceptOffer(driverId: string, tripId: string): Promise<AcceptResult> {
+        const offer = this.offers.get(tripId);
+        if (!offer || offer.driverId !== driverId) {
+            return { error: 'No pending offer for this trip' };
+        }
+
+        // Take the offer out before any await so the timeout cannot fire on it
+        clearTimeout(offer.timer);
+        this.offers.delete(tripId);
+
+        const assigned = await prisma.$transaction(async (tx) => {
+            // Trip may have been cancelled or grown past this cab while the offer was out
+            const claimed = await tx.trips.updateMany({
+                where: {
+                    id: tripId,
+                    status: 'WAITING',
+                    cab_id: null,
+                    no_of_passengers: { lte: offer.noOfSeats },
+                    total_luggage: { lte: offer.luggageCapacity }
+                },
+                data: { cab_id: offer.cabId }
+            });
+            if (claimed.count === 0) return false;
+
+            await cabStatus.apply(tx, offer.cabId, 'OFFERED', 'ASSIGNED', { reason: 'OFFER_ACCEPTED', trip_id: tripId });
+            return true;
+        });
+
+        if (!assigned) {
+            await this.releaseCab(offer.cabId, tripId, 'OFFER_STALE');
+            this.markTried(tripId, offer.cabId);
+            await this.dispatchTrip(tripId);
+            await this.retryUnassigned();
+            return { error: 'Trip is no longer available' };
+        }
+
+        this.triedCabs.delete(tripId);
+        const result = await this.announceAssignment(tripId, offer.cabId);
+
+        console.log(`[Dispatch] Driver ${driverId} accepted trip ${tripId}`);
+        return result;
+    }
+
+    /**
+     * An admin put a cab on a trip by hand (the caller has checked both
+     * exist): any offer out for the trip is withdrawn, the cab goes
+     * AVAILABLE → ASSIGNED, riders get CAB_ASSIGNED and the driver
+     * TRIP_ASSIGNED. Errors when the trip or cab changed meanwhile.
+     */
+    async assignManually(tripId: string, cabId: string): Promise<AcceptResult> {
+        const offer = this.offers.get(tripId);
+        if (offer) {
+            await this.pullOffer(offer, 'The trip was assigned to another cab.');
+        }
+
+        const assigned = await prisma.$transaction(async (tx) => {
+            const cab = await tx.cabs.findUnique({ where: { id: cabId }, select: { status: true, cab_type: true, no_of_seats: true, luggage_capacity: true } });
+            if (cab?.status !== 'AVAILABLE') return false;
+            const capacity = fleetCapacity.capacityOf(cab);
+
+            const claimed = await tx.trips.updateMany({
+                where: {
+                    id: tripId,
+                    status: 'WAITING',
+                    cab_id: null,
+                    no_of_passengers: { lte: capacity.passengers },
+                    total_luggage: { lte: capacity.luggage }
+                },
+                data: { cab_id: cabId }
+            });
+            if (claimed.count === 0) return false;
+
+            await cabStatus.apply(tx, cabId, 'AVAILABLE', 'ASSIGNED', { reason: 'ADMIN_ASSIGNED', trip_id: tripId });
+            return true;
+        });
+
+        if (!assigned) {
+            // The withdrawn offer's trip still needs a cab
+            await this.dispatchTrip(tripId);
+            await this.retryUnassigned();
+            return { error: 'Trip or cab changed meanwhile — not assigned' };
+        }
+
+        this.triedCabs.delete(tripId);
+        this.unassignedTrips.delete(tripId);
+        this.publishFleet();
+        const result = await this.announceAssignment(tripId, cabId);
+
+        if (result.trip?.cab) {
+            await pubSubService.publishToDriver(result.trip.cab.driver_id, {
+                type: 'TRIP_ASSIGNED',
+                trip_id: tripId,
+                assigned_by: 'ADMIN',
+                boarding: result.boarding,
+                trip: result.trip
+            }).catch((err) => console.error(`[Dispatch] TRIP_ASSIGNED notification failed for cab ${cabId}:`, err));
+        }
+
+        console.log(`[Dispatch] Trip ${tripId} assigned to cab ${cabId} by an admin`);
+        // A withdrawn offer freed its cab for other parked trips
+        await this.retryUnassigned();
+        return result;
+    }
+
+    async declineOffer(driverId: string, tripId: string, reason?: string): Promise<boolean> {
+        const offer = this.offers.get(tripId);
+        if (!offer || offer.driverId !== driverId) return false;
+
+        if (reason) {
+            console.log(`[Dispatch] Driver ${driverId} declined trip ${tripId}: ${reason}`);
+        }
+        await this.rejectOffer(offer, 'DECLINED');
+        return true;
+    }
+
+    /**
+     * Trip was cancelled — pull back any outstanding offer and forget it.
+     */
+    async withdrawTrip(tripId: string): Promise<void> {
+        const offer = this.offers.get(tripId);
+        this.triedCabs.delete(tripId);
+        this.unassignedTrips.delete(tripId);
+
+        if (offer) {
+            await this.pullOffer(offer, 'The trip was cancelled before it was accepted.');
+        }
+
+        // A cab may have just been freed by the cancellation
+        await this.retryUnassigned();
+    }
+
+    /**
+     * Re-offer parked trips — call whenever a cab becomes AVAILABLE.
+     */
+    async retryUnassigned(): Promise<void> {
+        this.publishFleet();
+        for (const tripId of [...this.unassignedTrips]) {
+            await this.dispatchTrip(tripId);
+        }
+    }
+
+    /** Whether the cab's driver is connected, and the trip it is being offered (admin view). */
+    presence(cabId: string): { connected: boolean, offered_trip_id: string | null } {
+        return {
+            connected: [...this.onlineDrivers.values()].includes(cabId),
+            offered_trip_id: [...this.offers.values()].find((offer) => offer.cabId === cabId)?.tripId ?? null
+        };
+    }
+
+    // ── Internals ──
+
+    // The cab is on the trip: out of the taxi queue, trip closed to joiners
+    // if asked, pickup bay assigned and every rider sent CAB_ASSIGNED
+    private async announceAssignment(tripId: string, cabId: string) {
+        await cabSelection.leave(cabId)
+            .catch((err) => console.error(`[Dispatch] Failed to take cab ${cabId} out of the taxi queue:`, err));
+        await redisService.closeTripOnAssignment(tripId)
+            .catch((err) => console.error(`[Dispatch] Failed to close trip ${tripId} to new riders:`, err));
+
+        const boardingPoint = await boarding.assign(tripId).catch((err) => {
+            console.error(`[Dispatch] Failed to assign a pickup bay for trip ${tripId}:`, err);
+            return null;
+        });
+
+        const trip = await prisma.trips.findUnique({
+            where: { id: tripId },
+            include: {
+                cab: { include: { driver: { select: { id: true, name: true, gender: true, age: true } } } },
+                rideRequests: {
+                    include: {
+                        user: {
+                            select: { name: true, age: true, gender: true }
+                        }
+                    }
+                }
+            }
+        });
+
+        const notificationPromises = (trip?.rideRequests ?? []).map((rr) =>
+            pubSubService.publish(rr.user_id, {
+                type: 'CAB_ASSIGNED',
+                trip_id: tripId,
+                cab: trip!.cab,
+                boarding: boardingPoint,
+                trip
+            }).catch((err) =>
+                console.error(`[Dispatch] CAB_ASSIGNED notification failed for user ${rr.user_id}:`, err)
+            )
+        );
+        await Promise.allSettled(notificationPromises);
+
+        return { trip, boarding: boardingPoint };
+    }
+
+    // Take back an offer that is still out, freeing its cab
+    private async pullOffer(offer: PendingOffer, message: string): Promise<void> {
+        clearTimeout(offer.timer);
+        this.offers.delete(offer.tripId);
+        await this.releaseCab(offer.cabId, offer.tripId, 'OFFER_WITHDRAWN');
+
+        await pubSubService.publishToDriver(offer.driverId, {
+            type: 'TRIP_OFFER_WITHDRAWN',
+            trip_id: offer.tripId,
+            message
+        }).catch((err) => console.error(`[Dispatch] Withdraw notification failed for driver ${offer.driverId}:`, err));
+    }
+
+    private async rejectOffer(offer: PendingOffer, outcome: OfferOutcome): Promise<void> {
+        clearTimeout(offer.timer);
+        this.offers.delete(offer.tripId);
+        this.markTried(offer.tripId, offer.cabId);
+        await this.releaseCab(offer.cabId, offer.tripId, RELEASE_REASONS[outcome]);
+
+        if (outcome === 'EXPIRED') {
+            await pubSubService.publishToDriver(offer.driverId, {
+                type: 'TRIP_OFFER_EXPIRED',
+                trip_id: offer.tripId,
+                message: `Offer was not answered within ${OFFER_TIMEOUT_SECONDS}s`
+            }).catch((err) => console.error(`[Dispatch] Expiry notification failed for driver ${offer.driverId}:`, err));
+        }
+
+        console.log(`[Dispatch] Offer for trip ${offer.tripId} ${outcome.toLowerCase()} by cab ${offer.cabId} — trying next cab`);
+
+        await this.dispatchTrip(offer.tripId);
+        // This driver is free again for other parked trips
+        await this.retryUnassigned();
+    }
+
+    // The free cabs changed (online / offline / offered / released) —
+    // update the snapshot matching plans against
+    private publishFleet(): void {
+        fleetCapacity.refresh([...this.onlineDrivers.values()])
+            .catch((err) => console.error('[Dispatch] Failed to refresh fleet capacity:', err));
+    }
+
+    private async releaseCab(cabId: string, tripId: string, reason: CabStatusReason): Promise<void> {
+        await cabStatus.transition(cabId, 'OFFERED', 'AVAILABLE', { reason, trip_id: tripId });
+    }
+
+    private markTried(tripId: string, cabId: string): void {
+        const tried = this.triedCabs.get(tripId) ?? new Set<string>();
+        tried.add(cabId);
+        this.triedCabs.set(tripId, tried);
+    }
+
+    private findOfferForDriver(driverId: string): PendingOffer | undefined {
+        return [...this.offers.values()].find((offer) => offer.driverId === driverId);
+    }
+}
+
+export const driverDispatch = DriverDispatchService.getInstance();
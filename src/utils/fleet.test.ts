@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { capacitiesFor, fleetCapacity, smallestFit, type CabCapacity, type FleetSnapshot } from './fleet';
+import type { AirportConfig } from './airports';
+
+// Only the pool limits matter to capacitiesFor
+const airport = { code: 'DEL', max_pool_passengers: 4, max_pool_luggage: 4 } as AirportConfig;
+
+const capacity = (cab_type: string, passengers: number, luggage: number, cabs: number = 1): CabCapacity =>
+    ({ cab_type, passengers, luggage, cabs });
+
+describe('capacityOf', () => {
+    // No CabTypes loaded: the built-in types apply
+    test('caps a cab at its type limits', () => {
+        expect(fleetCapacity.capacityOf({ cab_type: 'Sedan', no_of_seats: 6, luggage_capacity: 6 }))
+            .toEqual({ passengers: 3, luggage: 3 });
+    });
+
+    test('keeps a cab that is smaller than its type', () => {
+        expect(fleetCapacity.capacityOf({ cab_type: 'SUV', no_of_seats: 4, luggage_capacity: 2 }))
+            .toEqual({ passengers: 4, luggage: 2 });
+    });
+
+    test('normalises the cab type', () => {
+        expect(fleetCapacity.capacityOf({ cab_type: ' mini van ', no_of_seats: 7, luggage_capacity: 10 }))
+            .toEqual({ passengers: 6, luggage: 8 });
+    });
+
+    test('uses the cab as is for an unknown type', () => {
+        expect(fleetCapacity.capacityOf({ cab_type: 'Tuk Tuk', no_of_seats: 3, luggage_capacity: 1 }))
+            .toEqual({ passengers: 3, luggage: 1 });
+    });
+});
+
+describe('capacitiesFor', () => {
+    test('plans for the free fleet', () => {
+        const snapshot: FleetSnapshot = { updated_at: '2026-02-17T08:00:00.000Z', capacities: [capacity('SUV', 5, 5, 2)] };
+        expect(capacitiesFor(snapshot, airport)).toEqual([capacity('SUV', 5, 5, 2)]);
+    });
+
+    test('falls back to the airport pool limits with no snapshot', () => {
+        expect(capacitiesFor(null, airport)).toEqual([capacity('AIRPORT_LIMIT', 4, 4, 0)]);
+    });
+
+    test('falls back to the airport pool limits when no cab is free', () => {
+        expect(capacitiesFor({ updated_at: '2026-02-17T08:00:00.000Z', capacities: [] }, airport))
+            .toEqual([capacity('AIRPORT_LIMIT', 4, 4, 0)]);
+    });
+});
+
+describe('smallestFit', () => {
+    const fleet = [capacity('MINI_VAN', 6, 8), capacity('SEDAN', 3, 3), capacity('SUV', 5, 5)];
+
+    test('picks the smallest cab that carries the load', () => {
+        expect(smallestFit(fleet, 3, 2)?.cab_type).toBe('SEDAN');
+        expect(smallestFit(fleet, 4, 2)?.cab_type).toBe('SUV');
+    });
+
+    test('needs room for the luggage too', () => {
+        expect(smallestFit(fleet, 2, 6)?.cab_type).toBe('MINI_VAN');
+    });
+
+    test('accepts an exact fit', () => {
+        expect(smallestFit(fleet, 6, 8)?.cab_type).toBe('MINI_VAN');
+    });
+
+    test('returns null when nothing fits', () => {
+        expect(smallestFit(fleet, 7, 1)).toBeNull();
+        expect(smallestFit([], 1, 0)).toBeNull();
+    });
+
+    test('prefers fewer seats, then less luggage room', () => {
+        expect(smallestFit([capacity('A', 4, 6), capacity('B', 4, 4)], 4, 4)?.cab_type).toBe('B');
+    });
+});
@@ -0,0 +1,202 @@
+import { createClient, type RedisClientType } from 'redis';
+import { prisma } from '../../lib/prisma';
+import type { AirportConfig } from './airports';
+
+/**
+ * fleet.ts
+ *
+ * What the cabs that are free right now can carry, so matching plans
+ * against the real fleet instead of one fixed pool size.
+ *
+ *   - A cab is pooled up to the smaller of its own seats / luggage and
+ *     its type's limits (CabTypes, keyed by the normalised `cab_type`).
+ *   - The main thread keeps a snapshot of the free cabs (online driver,
+ *     status AVAILABLE) in Redis under `fleet:free_capacity`, refreshed by
+ *     driver dispatch whenever a cab goes online, offline, is offered or is
+ *     released.
+ *   - Matching workers read the snapshot: a merge is allowed only if some
+ *     free cab can carry the merged trip, so a free 6-seater lets larger
+ *     groups form. With no free cab at all the airport's pool limits apply
+ *     and the trip waits for a cab, as before.
+ *
+ * If the CabTypes table is empty the built-in types below are used.
+ */
+
+export const FLEET_CAPACITY_KEY = 'fleet:free_capacity';
+
+export interface CabTypeConfig {
+    code: string;
+    name: string;
+    max_passengers: number;
+    max_luggage: number;
+}
+
+/** What one kind of free cab can carry, and how many such cabs are free. */
+export interface CabCapacity {
+    cab_type: string;
+    passengers: number;
+    luggage: number;
+    cabs: number;
+}
+
+export interface FleetSnapshot {
+    updated_at: string;
+    capacities: CabCapacity[];
+}
+
+// Used only when no cab type is configured in the database
+const FALLBACK_CAB_TYPES: CabTypeConfig[] = [
+    { code: 'HATCHBACK', name: 'Hatchback', max_passengers: 2, max_luggage: 2 },
+    { code: 'SEDAN', name: 'Sedan', max_passengers: 3, max_luggage: 3 },
+    { code: 'SUV', name: 'SUV', max_passengers: 5, max_luggage: 5 },
+    { code: 'MINI_VAN', name: 'Mini Van', max_passengers: 6, max_luggage: 8 }
+];
+
+/** `Cabs.cab_type` as a CabTypes code: "Mini Van" → MINI_VAN. */
+export function cabTypeCode(cabType: string): string {
+    return cabType.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+export function parseFleetSnapshot(raw: unknown): FleetSnapshot | null {
+    return typeof raw === 'string' && raw ? JSON.parse(raw) as FleetSnapshot : null;
+}
+
+/**
+ * The cab sizes matching may plan for at an airport: the free fleet, or
+ * the airport's pool limits when no cab is free.
+ */
+export function capacitiesFor(snapshot: FleetSnapshot | null, airport: AirportConfig): CabCapacity[] {
+    if (snapshot && snapshot.capacities.length > 0) return snapshot.capacities;
+    return [{ cab_type: 'AIRPORT_LIMIT', passengers: airport.max_pool_passengers, luggage: airport.max_pool_luggage, cabs: 0 }];
+}
+
+/** The smallest capacity that carries this load, or `null` if none does. */
+export function smallestFit(capacities: CabCapacity[], passengers: number, luggage: number): CabCapacity | null {
+    return capacities
+        .filter((capacity) => capacity.passengers >= passengers && capacity.luggage >= luggage)
+        .sort((a, b) => a.passengers - b.passengers || a.luggage - b.luggage)[0] ?? null;
+}
+
+export class FleetCapacityService {
+    private static instance: FleetCapacityService;
+
+    private client: RedisClientType;
+    private isConnected: boolean = false;
+
+    private cabTypes: Map<string, CabTypeConfig> = new Map(FALLBACK_CAB_TYPES.map((type) => [type.code, type]));
+
+    // Refreshes are serialised; the latest request wins
+    private refreshing: boolean = false;
+    private pendingCabIds: string[] | null = null;
+
+    private constructor() {
+        this.client = createClient({ url: process.env.REDIS_URL || 'redis://localhost:6379' });
+        this.client.on('error', (err) => console.error('Redis Fleet Error:', err));
+    }
+
+    static getInstance(): FleetCapacityService {
+        if (!FleetCapacityService.instance) {
+            FleetCapacityService.instance = new FleetCapacityService();
+        }
+        return FleetCapacityService.instance;
+    }
+
+    async connect(): Promise<void> {
+        if (this.isConnected) return;
+
+        await this.client.connect();
+        this.isConnected = true;
+        console.log('Redis fleet capacity connected');
+    }
+
+    async disconnect(): Promise<void> {
+        if (!this.isConnected) return;
+
+        await this.client.quit();
+        this.isConnected = false;
+        console.log('Redis fleet capacity disconnected');
+    }
+
+    /**
+     * (Re)load cab types from the database.
+     */
+    async load(): Promise<void> {
+        const rows = await prisma.cabTypes.findMany({ orderBy: { max_passengers: 'asc' } });
+        if (rows.length === 0) {
+            console.warn('No cab types configured — using the built-in types. Run the seed to configure cab types.');
+            this.cabTypes = new Map(FALLBACK_CAB_TYPES.map((type) => [type.code, type]));
+            return;
+        }
+
+        this.cabTypes = new Map(rows.map((row) => [row.code, {
+            code: row.code,
+            name: row.name,
+            max_passengers: row.max_passengers,
+            max_luggage: row.max_luggage
+        }]));
+        console.log(`Loaded ${rows.length} cab type(s): ${rows.map((row) => row.code).join(', ')}`);
+    }
+
+    listCabTypes(): CabTypeConfig[] {
+        return [...this.cabTypes.values()];
+    }
+
+    getCabType(cabType: string): CabTypeConfig | undefined {
+        return this.cabTypes.get(cabTypeCode(cabType));
+    }
+
+    /** What a cab is pooled up to: its own capacity, capped by its type's limits. */
+    capacityOf(cab: { cab_type: string, no_of_seats: number, luggage_capacity: number }): { passengers: number, luggage: number } {
+        const type = this.getCabType(cab.cab_type);
+        return {
+            passengers: Math.min(cab.no_of_seats, type?.max_passengers ?? cab.no_of_seats),
+            luggage: Math.min(cab.luggage_capacity, type?.max_luggage ?? cab.luggage_capacity)
+        };
+    }
+
+    /**
+     * Rebuild the free-fleet snapshot from the cabs of connected drivers
+     * that are AVAILABLE. Called by driver dispatch on every change.
+     */
+    async refresh(onlineCabIds: string[]): Promise<void> {
+        this.pendingCabIds = onlineCabIds;
+        if (this.refreshing) return;
+
+        this.refreshing = true;
+        try {
+            while (this.pendingCabIds) {
+                const cabIds = this.pendingCabIds;
+                this.pendingCabIds = null;
+                await this.write(cabIds);
+            }
+        } finally {
+            this.refreshing = false;
+        }
+    }
+
+    async snapshot(): Promise<FleetSnapshot | null> {
+        return parseFleetSnapshot(await this.client.get(FLEET_CAPACITY_KEY));
+    }
+
+    private async write(cabIds: string[]): Promise<void> {
+        const cabs = cabIds.length === 0 ? [] : await prisma.cabs.findMany({
+            where: { id: { in: cabIds }, status: 'AVAILABLE' },
+            select: { cab_type: true, no_of_seats: true, luggage_capacity: true }
+        });
+
+        const capacities = new Map<string, CabCapacity>();
+        for (const cab of cabs) {
+            const { passengers, luggage } = this.capacityOf(cab);
+            const cabType = this.getCabType(cab.cab_type)?.code ?? cabTypeCode(cab.cab_type);
+            const key = `${cabType}:${passengers}:${luggage}`;
+            const existing = capacities.get(key);
+            if (existing) existing.cabs++;
+            else capacities.set(key, { cab_type: cabType, passengers, luggage, cabs: 1 });
+        }
+
+        const snapshot: FleetSnapshot = { updated_at: new Date().toISOString(), capacities: [...capacities.values()] };
+        await this.client.set(FLEET_CAPACITY_KEY, JSON.stringify(snapshot));
+    }
+}
+
+export const fleetCapacity = FleetCapacityService.getInstance();
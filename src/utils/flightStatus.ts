@@ -0,0 +1,75 @@
+/**
+ * flightStatus.ts
+ *
+ * Flight arrival status for scheduled pickups (see scheduledRides.ts). The
+ * active provider is selected via the FLIGHT_STATUS_PROVIDER env variable:
+ *
+ *   mock — a local JSON feed (FLIGHT_FEED_FILE, default fixtures/flights.json),
+ *          re-read on every lookup so editing it simulates delays live
+ *
+ * Feed format:
+ *
+ *   { "flights": [ { "flight_number": "AI101", "status": "DELAYED", "delay_minutes": 40 } ] }
+ *
+ * Flights not in the feed are assumed on time.
+ */
+
+export type FlightState = 'SCHEDULED' | 'DELAYED' | 'LANDED' | 'CANCELLED';
+
+export interface FlightStatus {
+    flight_number: string;
+    status: FlightState;
+    estimated_arrival: Date;
+}
+
+export interface FlightStatusProvider {
+    readonly name: string;
+    lookup(flightNumber: string, scheduledArrival: Date): Promise<FlightStatus | null>;
+}
+
+interface MockFeedEntry {
+    flight_number: string;
+    status?: FlightState;
+    delay_minutes?: number;
+}
+
+/** Normalised flight number: "ai 101" → AI101. */
+export function flightCode(flightNumber: string): string {
+    return flightNumber.replace(/\s+/g, '').toUpperCase();
+}
+
+// ── Local mock feed ──
+export class MockFlightFeed implements FlightStatusProvider {
+    readonly name = 'mock';
+
+    constructor(private readonly path: string = process.env.FLIGHT_FEED_FILE || 'fixtures/flights.json') { }
+
+    async lookup(flightNumber: string, scheduledArrival: Date): Promise<FlightStatus | null> {
+        const file = Bun.file(this.path);
+        if (!await file.exists()) return null;
+
+        const feed = await file.json() as { flights?: MockFeedEntry[] };
+        const entry = feed.flights?.find((flight) => flightCode(flight.flight_number) === flightCode(flightNumber));
+        if (!entry) return null;
+
+        const delayMinutes = entry.delay_minutes ?? 0;
+        return {
+            flight_number: flightCode(entry.flight_number),
+            status: entry.status ?? (delayMinutes > 0 ? 'DELAYED' : 'SCHEDULED'),
+            estimated_arrival: new Date(scheduledArrival.getTime() + delayMinutes * 60_000)
+        };
+    }
+}
+
+export function createFlightStatusProvider(name: string | undefined = process.env.FLIGHT_STATUS_PROVIDER): FlightStatusProvider {
+    const selected = (name || 'mock').toLowerCase();
+
+    switch (selected) {
+        case 'mock':
+            return new MockFlightFeed();
+        default:
+            throw new Error(`Unknown FLIGHT_STATUS_PROVIDER: ${selected} (expected mock)`);
+    }
+}
+
+export const flightStatusProvider = createFlightStatusProvider();
@@ -0,0 +1,319 @@
+import { cellToBoundary, cellToLatLng, cellToParent, cellsToMultiPolygon, getResolution } from 'h3-js';
+import { prisma } from '../../lib/prisma';
+import { redisService } from './redisClient';
+import { routeCache } from './routeCache';
+import { boarding } from './boarding';
+import { airportRegistry } from './airports';
+import { partyRecipients } from './parties';
+import { TRIP_KEY_PREFIX, routeIndexesOfMember, type PassengerMetaData, type TripMetaData } from './redisCaching';
+import { generateH3IndexesForRoute } from '../rideMatching/demo';
+import { findSplitPoint } from '../rideMatching/relaxation';
+import { planDropOff, tripOrigin } from '../rideMatching/dropSequence';
+import type { LatLng } from '../rideMatching/routingProvider';
+
+/**
+ * geoExport.ts
+ *
+ * What the matcher sees, as GeoJSON FeatureCollections (RFC 7946,
+ * [lng, lat]) for any map renderer:
+ *
+ *   Rider route  — the rider's route hexagons (`cellsToMultiPolygon`), the
+ *                  cell-by-cell path, pickup and destination cell. Taken
+ *                  from the pool member while the rider waits, otherwise
+ *                  recomputed for their latest ride request.
+ *   Trip         — every rider's route, the trip's route (the longest one,
+ *                  as in the pool — see tripRouteMember), where each rider
+ *                  splits from it (`split_point_h3`), and the driving path
+ *                  pickup → drop-offs in drop order.
+ *   Pool heatmap — an airport's pools aggregated by cell: how many waiting
+ *                  riders / trips pass through each cell and end in it.
+ *
+ * Routes recomputed after the match come from the route cache, so they are
+ * the routes the matcher compared. Split points are compared at full
+ * resolution — a match made after relaxation may have split a few cells
+ * later (see relaxation.ts).
+ */
+
+const HEATMAP_MIN_RESOLUTION = 4;
+
+export type Position = [number, number];   // [lng, lat]
+
+export type Geometry =
+    | { type: 'Point', coordinates: Position }
+    | { type: 'LineString', coordinates: Position[] }
+    | { type: 'Polygon', coordinates: Position[][] }
+    | { type: 'MultiPolygon', coordinates: Position[][][] };
+
+export interface Feature {
+    type: 'Feature';
+    geometry: Geometry;
+    properties: Record<string, unknown>;
+}
+
+export interface FeatureCollection {
+    type: 'FeatureCollection';
+    features: Feature[];
+}
+
+export class GeoExportError extends Error {
+    constructor(message: string, readonly status: number = 404) {
+        super(message);
+        this.name = 'GeoExportError';
+    }
+}
+
+interface RiderRoute {
+    source: 'POOL' | 'RIDE_REQUEST';
+    trip_id: string | null;
+    pickup: LatLng;
+    destination_h3: string;
+    cells: string[];
+}
+
+interface HeatCell {
+    riders: number;
+    trips: number;
+    passengers: number;
+    destinations: number;
+}
+
+const position = (point: LatLng): Position => [point.lng, point.lat];
+
+const cellCentre = (cell: string): Position => {
+    const [lat, lng] = cellToLatLng(cell);
+    return [lng, lat];
+};
+
+const feature = (geometry: Geometry, properties: Record<string, unknown>): Feature => ({ type: 'Feature', geometry, properties });
+
+export class GeoExportService {
+    private static instance: GeoExportService;
+
+    private constructor() { }
+
+    static getInstance(): GeoExportService {
+        if (!GeoExportService.instance) {
+            GeoExportService.instance = new GeoExportService();
+        }
+        return GeoExportService.instance;
+    }
+
+    // ── Rider route ──
+
+    async riderRoute(userId: string): Promise<FeatureCollection> {
+        const route = await this.pooledRoute(userId) ?? await this.requestedRoute(userId);
+        if (!route) throw new GeoExportError('Rider is not in the matching pool and has no ride with a destination');
+
+        const properties = { user_id: userId, source: route.source, trip_id: route.trip_id };
+        return this.collection([
+            feature(
+                { type: 'MultiPolygon', coordinates: this.hexagons(route.cells) },
+                { kind: 'ROUTE', ...properties, resolution: getResolution(route.cells[0]!), cells: route.cells }
+            ),
+            feature({ type: 'LineString', coordinates: this.path(route.pickup, route.cells) }, { kind: 'ROUTE_PATH', ...properties }),
+            feature({ type: 'Point', coordinates: position(route.pickup) }, { kind: 'PICKUP', ...properties }),
+            feature(
+                { type: 'Polygon', coordinates: [cellToBoundary(route.destination_h3, true) as Position[]] },
+                { kind: 'DESTINATION', ...properties, h3_cell: route.destination_h3 }
+            )
+        ]);
+    }
+
+    // The rider's pool member — under their party leader's id for a party
+    private async pooledRoute(userId: string): Promise<RiderRoute | null> {
+        const entry = (await redisService.listPoolEntries())
+            .filter((candidate) => candidate.raw && !candidate.key.startsWith(TRIP_KEY_PREFIX))
+            .find((candidate) => partyRecipients(candidate.key, JSON.parse(candidate.raw!)).includes(userId));
+        if (!entry) return null;
+
+        const meta: PassengerMetaData = JSON.parse(entry.raw!);
+        return {
+            source: 'POOL',
+            trip_id: null,
+            pickup: airportRegistry.pickupFor(meta.airport_code, meta.terminal_code),
+            destination_h3: meta.destination_h3,
+            cells: routeIndexesOfMember(entry.member)
+        };
+    }
+
+    // Recomputed for the rider's latest ride request
+    private async requestedRoute(userId: string): Promise<RiderRoute | null> {
+        const rideRequest = await prisma.rideRequests.findFirst({
+            where: { user_id: userId, destination_h3: { not: null } },
+            orderBy: { joined_at: 'desc' },
+            select: { trip_id: true, airport_code: true, terminal_code: true, destination_h3: true }
+        });
+        if (!rideRequest) return null;
+
+        const pickup = airportRegistry.pickupFor(rideRequest.airport_code, rideRequest.terminal_code);
+        return {
+            source: 'RIDE_REQUEST',
+            trip_id: rideRequest.trip_id,
+            pickup,
+            destination_h3: rideRequest.destination_h3!,
+            cells: await this.routeCells(pickup, rideRequest.destination_h3!)
+        };
+    }
+
+    // ── Trip geometry ──
+
+    async trip(tripId: string): Promise<FeatureCollection> {
+        const trip = await prisma.trips.findUnique({
+            where: { id: tripId },
+            include: {
+                rideRequests: {
+                    orderBy: { joined_at: 'asc' },
+                    select: { user_id: true, status: true, destination_h3: true, drop_order: true, terminal_code: true }
+                }
+            }
+        });
+        if (!trip) throw new GeoExportError('Trip not found');
+
+        // Riders removed from a live trip are not part of its geometry
+        const riders = trip.status === 'CANCELLED'
+            ? trip.rideRequests
+            : trip.rideRequests.filter((rr) => rr.status !== 'CANCELLED');
+        const origin = tripOrigin(trip);
+        const meetingPoint = boarding.pointFor(trip)?.meeting_point ?? origin;
+
+        // ── Each destination's route (a party shares one) ──
+        const routes = new Map<string, { user_ids: string[], cells: string[] }>();
+        for (const rr of riders) {
+            if (!rr.destination_h3) continue;
+            const route = routes.get(rr.destination_h3);
+            if (route) {
+                route.user_ids.push(rr.user_id);
+            } else {
+                routes.set(rr.destination_h3, { user_ids: [rr.user_id], cells: await this.routeCells(origin, rr.destination_h3) });
+            }
+        }
+        if (routes.size === 0) throw new GeoExportError('No rider on this trip has a destination');
+
+        const tripRoute = [...routes.values()].reduce((longest, route) => route.cells.length > longest.cells.length ? route : longest);
+        const allCells = [...new Set([...routes.values()].flatMap((route) => route.cells))];
+
+        const features: Feature[] = [
+            feature(
+                { type: 'MultiPolygon', coordinates: this.hexagons(allCells) },
+                { kind: 'TRIP_ROUTE', trip_id: trip.id, status: trip.status, cells: allCells.length }
+            ),
+            feature(
+                { type: 'Point', coordinates: position(meetingPoint) },
+                { kind: 'PICKUP', trip_id: trip.id, pickup_bay: trip.pickup_bay }
+            )
+        ];
+
+        for (const [destination, route] of routes) {
+            features.push(feature(
+                { type: 'MultiPolygon', coordinates: this.hexagons(route.cells) },
+                { kind: 'RIDER_ROUTE', user_ids: route.user_ids, destination_h3: destination, longest: route === tripRoute }
+            ));
+            if (route === tripRoute) continue;
+
+            const split = findSplitPoint(tripRoute.cells, route.cells, 0);
+            if (split) {
+                features.push(feature(
+                    { type: 'Point', coordinates: cellCentre(split) },
+                    { kind: 'SPLIT_POINT', user_ids: route.user_ids, split_point_h3: split }
+                ));
+            }
+        }
+
+        // ── Driving path: pickup → drop-offs in drop order ──
+        const plan = await planDropOff(riders, { origin, respectFixedOrder: true });
+        const path: Position[] = [position(meetingPoint)];
+        let at = meetingPoint;
+        let atCell: string | null = null;
+        for (const stop of plan.stops) {
+            if (stop.destination_h3 === atCell) continue;
+            const [lat, lng] = cellToLatLng(stop.destination_h3);
+            const leg = await routeCache.computeRoute(at, { lat, lng });
+            path.push(...leg.routePoints.map(position));
+            at = { lat, lng };
+            atCell = stop.destination_h3;
+        }
+        features.push(feature(
+            { type: 'LineString', coordinates: path },
+            {
+                kind: 'DRIVE_PATH',
+                trip_id: trip.id,
+                drop_sequence: plan.stops.map((stop) => stop.user_id),
+                total_distance_meters: plan.total_distance_meters,
+                total_duration_seconds: plan.total_duration_seconds
+            }
+        ));
+        plan.stops.forEach((stop) => features.push(feature(
+            { type: 'Point', coordinates: cellCentre(stop.destination_h3) },
+            { kind: 'DROP_OFF', user_id: stop.user_id, drop_order: stop.drop_order, destination_h3: stop.destination_h3, eta_seconds: stop.eta_seconds }
+        )));
+
+        return this.collection(features);
+    }
+
+    // ── Pool heatmap ──
+
+    /**
+     * An airport's pools by cell, at `resolution` (the route cells' own by
+     * default; coarser merges them into parent cells).
+     */
+    async poolHeatmap(airportCode: string, resolution?: number): Promise<FeatureCollection> {
+        const poolKeys = new Set(airportRegistry.poolKeysFor(airportCode));
+        const entries = (await redisService.listPoolEntries()).filter((entry) => poolKeys.has(entry.pool_key));
+
+        const cells = new Map<string, HeatCell>();
+        const heat = (cell: string): HeatCell => {
+            let counts = cells.get(cell);
+            if (!counts) cells.set(cell, counts = { riders: 0, trips: 0, passengers: 0, destinations: 0 });
+            return counts;
+        };
+
+        for (const entry of entries) {
+            const route = this.coarsen(routeIndexesOfMember(entry.member), resolution);
+            if (route.length === 0) continue;
+
+            const isTrip = entry.key.startsWith(TRIP_KEY_PREFIX);
+            const meta = entry.raw ? JSON.parse(entry.raw) as PassengerMetaData | TripMetaData : null;
+            for (const cell of route) {
+                const counts = heat(cell);
+                if (isTrip) counts.trips++; else counts.riders++;
+                counts.passengers += meta?.no_of_passengers ?? 0;
+            }
+            heat(route[route.length - 1]!).destinations++;
+        }
+
+        const busiest = Math.max(1, ...[...cells.values()].map((counts) => counts.riders + counts.trips));
+        return this.collection([...cells].map(([cell, counts]) => feature(
+            { type: 'Polygon', coordinates: [cellToBoundary(cell, true) as Position[]] },
+            { h3_cell: cell, ...counts, intensity: Number(((counts.riders + counts.trips) / busiest).toFixed(3)) }
+        )));
+    }
+
+    // Parent cells at `resolution`, each once, in route order
+    private coarsen(route: string[], resolution: number | undefined): string[] {
+        if (resolution === undefined || route.length === 0) return route;
+        const target = Math.max(HEATMAP_MIN_RESOLUTION, Math.min(resolution, getResolution(route[0]!)));
+        return [...new Set(route.map((cell) => cellToParent(cell, target)))];
+    }
+
+    // ── Internals ──
+
+    private async routeCells(origin: LatLng, destinationH3: string): Promise<string[]> {
+        const [latitude, longitude] = cellToLatLng(destinationH3);
+        const route = await generateH3IndexesForRoute({ latitude, longitude }, { origin });
+        return route.pathH3Indexes;
+    }
+
+    private hexagons(cells: string[]): Position[][][] {
+        return cellsToMultiPolygon(cells, true) as Position[][][];
+    }
+
+    private path(pickup: LatLng, cells: string[]): Position[] {
+        return [position(pickup), ...cells.map(cellCentre)];
+    }
+
+    private collection(features: Feature[]): FeatureCollection {
+        return { type: 'FeatureCollection', features };
+    }
+}
+
+export const geoExport = GeoExportService.getInstance();
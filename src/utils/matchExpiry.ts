@@ -0,0 +1,269 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../../lib/prisma';
+import { redisService } from './redisClient';
+import { pubSubService } from './pubsub';
+import { driverDispatch } from './driverDispatch';
+import { tripOutbox } from './tripOutbox';
+import { soloOffers, type SoloOffer } from './soloOffers';
+import { partyRecipients } from './parties';
+import {
+    TRIP_KEY_PREFIX,
+    routeIndexesOfMember,
+    type MatchTimeoutFallback,
+    type PassengerMetaData,
+    type PoolEntry,
+    type TripMetaData
+} from './redisCaching';
+import { relaxationRound } from '../rideMatching/relaxation';
+import { rideMatchingPool } from '../../index';
+
+/**
+ * matchExpiry.ts
+ *
+ * Every REGISTER_RIDE carries a max wait (`max_wait_seconds`, default
+ * MATCH_MAX_WAIT_SECONDS). Every EXPIRY_SWEEP_INTERVAL_SECONDS the main
+ * thread sweeps the pools:
+ *
+ *   1. Rider past their deadline → MATCH_TIMEOUT, then their `on_timeout`
+ *      fallback (default MATCH_TIMEOUT_FALLBACK):
+ *        SOLO_OFFER    leaves the pool and gets a SOLO_OFFER at the solo
+ *                      fare (see soloOffers.ts); ACCEPT_SOLO_OFFER books it.
+ *        WIDEN_DETOUR  stays in the pool for another max wait, matched with
+ *                      up to WIDENED_DETOUR_METERS of detour, and is
+ *                      re-matched right away. A second timeout offers solo.
+ *   2. Trip past its earliest rider's deadline → closed to new riders (its
+ *      pool entry is removed; the trip itself goes ahead).
+ *   3. Pool entry whose metadata has expired (its TTL is the deadline plus
+ *      a grace period) → removed.
+ *   4. Rider still waiting → re-matched once per relaxation step, each
+ *      time a little more loosely (see relaxation.ts).
+ *
+ * Riders are expired with EXPIRE_RIDER_SCRIPT, so a rider matched while
+ * the sweep runs is left alone.
+ */
+
+export const MATCH_MAX_WAIT_SECONDS = Number(process.env.MATCH_MAX_WAIT_SECONDS) || 600;
+const MATCH_TIMEOUT_FALLBACK: MatchTimeoutFallback = process.env.MATCH_TIMEOUT_FALLBACK === 'WIDEN_DETOUR' ? 'WIDEN_DETOUR' : 'SOLO_OFFER';
+const WIDENED_DETOUR_METERS = Number(process.env.WIDENED_DETOUR_METERS) || 6000;
+const EXPIRY_SWEEP_INTERVAL_SECONDS = Number(process.env.EXPIRY_SWEEP_INTERVAL_SECONDS) || 15;
+
+export interface ExpiryReport {
+    solo_offers: number;
+    widened: number;
+    trips_closed: number;
+    orphans_removed: number;
+    rematched: number;
+}
+
+/**
+ * Pool metadata fields for a new registration: how long the rider waits
+ * and what happens then.
+ */
+export function waitTerms(maxWaitSeconds?: number, onTimeout?: MatchTimeoutFallback): Pick<PassengerMetaData, 'registered_at' | 'max_wait_seconds' | 'expires_at' | 'on_timeout'> {
+    const wait = maxWaitSeconds ?? MATCH_MAX_WAIT_SECONDS;
+    return {
+        registered_at: new Date().toISOString(),
+        max_wait_seconds: wait,
+        expires_at: new Date(Date.now() + wait * 1000).toISOString(),
+        on_timeout: onTimeout ?? MATCH_TIMEOUT_FALLBACK
+    };
+}
+
+export class MatchExpiryScheduler {
+    private static instance: MatchExpiryScheduler;
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running: boolean = false;
+
+    // Relaxation round each pool entry was last re-matched at (by pool member,
+    // so re-registering starts over). Lost on restart — costs one extra re-match.
+    private rematchedRounds = new Map<string, number>();
+
+    private constructor() { }
+
+    static getInstance(): MatchExpiryScheduler {
+        if (!MatchExpiryScheduler.instance) {
+            MatchExpiryScheduler.instance = new MatchExpiryScheduler();
+        }
+        return MatchExpiryScheduler.instance;
+    }
+
+    start(): void {
+        this.timer = setInterval(() => this.runOnce(), EXPIRY_SWEEP_INTERVAL_SECONDS * 1000);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    private async runOnce(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        try {
+            const report = await this.sweep();
+            if (Object.values(report).some((count) => count > 0)) {
+                console.log('[Expiry] Swept:', report);
+            }
+        } catch (error) {
+            console.error('[Expiry] Sweep failed:', error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    async sweep(): Promise<ExpiryReport> {
+        const report: ExpiryReport = { solo_offers: 0, widened: 0, trips_closed: 0, orphans_removed: 0, rematched: 0 };
+        const now = Date.now();
+        const entries = await redisService.listPoolEntries();
+
+        const members = new Set(entries.map((entry) => entry.member));
+        for (const member of this.rematchedRounds.keys()) {
+            if (!members.has(member)) this.rematchedRounds.delete(member);
+        }
+
+        for (const entry of entries) {
+            if (!entry.raw) {
+                if (await redisService.removePoolMember(entry.pool_key, entry.member)) report.orphans_removed++;
+                continue;
+            }
+
+            if (entry.key.startsWith(TRIP_KEY_PREFIX)) {
+                const trip: TripMetaData = JSON.parse(entry.raw);
+                const deadlines = trip.users
+                    .map((rider) => Object.values(rider)[0]!.expires_at)
+                    .filter((expiresAt): expiresAt is string => !!expiresAt)
+                    .map((expiresAt) => new Date(expiresAt).getTime());
+                if (deadlines.length > 0 && Math.min(...deadlines) <= now
+                    && await redisService.removePoolMember(entry.pool_key, entry.member)) {
+                    console.log(`[Expiry] Trip ${entry.key} closed to new riders`);
+                    report.trips_closed++;
+                }
+                continue;
+            }
+
+            const rider: PassengerMetaData = JSON.parse(entry.raw);
+            if (!rider.expires_at || new Date(rider.expires_at).getTime() > now) {
+                // Still waiting — try again, more loosely, once per relaxation step
+                const round = relaxationRound(rider.registered_at, now);
+                if (round > (this.rematchedRounds.get(entry.member) ?? 0)) {
+                    this.rematchedRounds.set(entry.member, round);
+                    this.rematch(entry.key, routeIndexesOfMember(entry.member), rider);
+                    report.rematched++;
+                }
+                continue;
+            }
+
+            if (rider.on_timeout === 'WIDEN_DETOUR') {
+                if (await this.widen(entry, rider)) report.widened++;
+            } else if (await this.offerSolo(entry, rider)) {
+                report.solo_offers++;
+            }
+        }
+
+        return report;
+    }
+
+    // Take the rider out of the pool and offer them a cab of their own
+    private async offerSolo(entry: PoolEntry, rider: PassengerMetaData): Promise<boolean> {
+        if (!await redisService.expireRider(entry, null)) return false;
+
+        const offer = await soloOffers.create(entry.key, rider);
+        // The whole party hears about it; only its leader can accept the offer
+        for (const userId of partyRecipients(entry.key, rider)) {
+            await pubSubService.publish(userId, {
+                type: 'MATCH_TIMEOUT',
+                waited_seconds: rider.max_wait_seconds ?? MATCH_MAX_WAIT_SECONDS,
+                fallback: 'SOLO_OFFER',
+                message: 'No co-rider found in time — you have been removed from the matching pool.'
+            });
+        }
+        await pubSubService.publish(entry.key, {
+            type: 'SOLO_OFFER',
+            offer_id: offer.offer_id,
+            fare: offer.fare,
+            fare_breakdown: rider.fare,
+            expires_at: offer.expires_at,
+            message: 'Send ACCEPT_SOLO_OFFER to book a cab of your own at the solo fare, or REGISTER_RIDE to wait again.'
+        });
+        console.log(`[Expiry] ${entry.key} timed out — solo offer ${offer.offer_id} at ₹${offer.fare}`);
+        return true;
+    }
+
+    // Keep the rider waiting with a wider detour limit, and match again now
+    private async widen(entry: PoolEntry, rider: PassengerMetaData): Promise<boolean> {
+        const wait = rider.max_wait_seconds ?? MATCH_MAX_WAIT_SECONDS;
+        const widened: PassengerMetaData = {
+            ...rider,
+            max_detour_meters: WIDENED_DETOUR_METERS,
+            expires_at: new Date(Date.now() + wait * 1000).toISOString(),
+            on_timeout: 'SOLO_OFFER'
+        };
+        if (!await redisService.expireRider(entry, widened)) return false;
+
+        for (const userId of partyRecipients(entry.key, rider)) {
+            await pubSubService.publish(userId, {
+                type: 'MATCH_TIMEOUT',
+                waited_seconds: wait,
+                fallback: 'WIDEN_DETOUR',
+                max_detour_meters: WIDENED_DETOUR_METERS,
+                expires_at: widened.expires_at,
+                message: 'No co-rider found in time — still matching, now with a longer detour.'
+            });
+        }
+        console.log(`[Expiry] ${entry.key} timed out — detour widened to ${WIDENED_DETOUR_METERS}m`);
+
+        this.rematch(entry.key, routeIndexesOfMember(entry.member), widened);
+        return true;
+    }
+
+    private rematch(userId: string, routeIndexes: string[], rider: PassengerMetaData): void {
+        rideMatchingPool.execute<{ match_type: string, trip?: any }>({
+            type: 'REMATCH_RIDE',
+            payload: { userId, routeIndexes, userMetaData: rider }
+        }).then(async (matches) => {
+            if (matches.match_type === 'NONE') return;
+            // The rider's socket is not waiting on this task — reach it via PubSub
+            await pubSubService.publish(userId, { type: 'RIDE_MATCHED', ...matches });
+            if (matches.trip?.id) await driverDispatch.dispatchTrip(matches.trip.id);
+        }).catch((err) => console.error(`[Expiry] Re-match failed for ${userId}:`, err));
+    }
+
+    /**
+     * Book an accepted solo offer: a one-rider trip at the solo fare, kept
+     * out of the pool. Written to Redis first, like a match, so the
+     * reconciler persists it if the database write fails. Returns the trip id.
+     */
+    async bookSolo(offer: SoloOffer): Promise<string> {
+        const rider = offer.rider;
+        const tripMetaData: TripMetaData = {
+            trip_id: randomUUID(),
+            users: [{ [offer.user_id]: rider }],
+            no_of_passengers: rider.no_of_passengers,
+            luggage: rider.luggage,
+            status: 'WAITING',
+            issued_price: offer.fare,
+            airport_code: rider.airport_code,
+            pool_key: rider.pool_key,
+            updated_at: new Date().toISOString()
+        };
+
+        await redisService.restoreTrip(tripMetaData, null);
+        const eventId = await redisService.persistTrip(tripMetaData, 'TRIP_CREATED', {
+            notify: [offer.user_id],
+            fare_changes: []
+        });
+        if (eventId && await tripOutbox.deliver(eventId)) {
+            driverDispatch.dispatchTrip(tripMetaData.trip_id)
+                .catch((err) => console.error(`[Expiry] Failed to dispatch solo trip ${tripMetaData.trip_id}:`, err));
+        }
+        return tripMetaData.trip_id;
+    }
+
+    /** True if the rider is already on a trip that has not started. */
+    async hasWaitingTrip(userId: string): Promise<boolean> {
+        return await prisma.rideRequests.count({ where: { user_id: userId, status: 'WAITING' } }) > 0;
+    }
+}
+
+export const matchExpiry = MatchExpiryScheduler.getInstance();
@@ -0,0 +1,115 @@
+/**
+ * matchScripts.ts
+ *
+ * Lua scripts that make the Redis side of matching atomic. Several worker
+ * threads run MATCH_RIDE at once; everything they decide (pricing, drop-off
+ * planning) happens in TypeScript on a snapshot, and these scripts commit
+ * the result only if that snapshot is still what Redis holds.
+ *
+ * Scripts return a status string — see ClaimStatus / TripUpdateStatus.
+ */
+
+/**
+ * Claim a candidate (waiting rider or trip with spare seats) for the
+ * requesting rider and write the merged trip in one step.
+ *
+ *   KEYS[1]  pool sorted set
+ *   KEYS[2]  candidate metadata (user id or TRIP key)
+ *   KEYS[3]  requesting rider metadata (user id)
+ *   KEYS[4]  new trip metadata (TRIP key)
+ *
+ *   ARGV[1]  candidate pool member      ARGV[2]  requesting pool member
+ *   ARGV[3]  candidate metadata as read (compare-and-swap snapshot)
+ *   ARGV[4]  new trip metadata          ARGV[5]  trip pool member ('' = trip is full)
+ *   ARGV[6]  max passengers             ARGV[7]  max luggage
+ */
+export const CLAIM_MATCH_SCRIPT = `
+local candidate = redis.call('GET', KEYS[2])
+if not candidate or not redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+    return 'GONE'
+end
+local requesting = redis.call('GET', KEYS[3])
+if not requesting or not redis.call('ZSCORE', KEYS[1], ARGV[2]) then
+    return 'CLAIMED'
+end
+if candidate ~= ARGV[3] then
+    return 'STALE'
+end
+
+local a = cjson.decode(candidate)
+local b = cjson.decode(requesting)
+if a.no_of_passengers + b.no_of_passengers > tonumber(ARGV[6])
+    or a.luggage + b.luggage > tonumber(ARGV[7]) then
+    return 'FULL'
+end
+
+redis.call('ZREM', KEYS[1], ARGV[1], ARGV[2])
+redis.call('DEL', KEYS[2], KEYS[3])
+redis.call('SET', KEYS[4], ARGV[4])
+if ARGV[5] ~= '' then
+    redis.call('ZADD', KEYS[1], 0, ARGV[5])
+end
+return 'OK'
+`;
+
+/**
+ * - OK       trip written, both pool entries consumed
+ * - STALE    candidate changed since it was read (e.g. someone joined the trip) — re-read and retry
+ * - GONE     candidate left the pool (matched elsewhere, cancelled) — try the next one
+ * - CLAIMED  the requesting rider was matched by another worker meanwhile — stop matching
+ * - FULL     merged trip would exceed the airport's capacity
+ */
+export type ClaimStatus = 'OK' | 'STALE' | 'GONE' | 'CLAIMED' | 'FULL';
+
+/**
+ * Compare-and-set a trip's metadata (rider leaving a waiting trip).
+ *
+ *   KEYS[1]  trip metadata (TRIP key)    KEYS[2]  pool sorted set
+ *   ARGV[1]  metadata as read            ARGV[2]  new metadata ('' = delete the trip)
+ *   ARGV[3]  trip pool member
+ */
+export const UPDATE_TRIP_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+    return 'STALE'
+end
+if ARGV[2] == '' then
+    redis.call('DEL', KEYS[1])
+    redis.call('ZREM', KEYS[2], ARGV[3])
+else
+    redis.call('SET', KEYS[1], ARGV[2])
+end
+return 'OK'
+`;
+
+export type TripUpdateStatus = 'OK' | 'STALE';
+
+/**
+ * Act on a rider whose wait ran out: take them out of the pool, or
+ * replace their metadata in place (widened detour, new deadline).
+ *
+ *   KEYS[1]  pool sorted set             KEYS[2]  rider metadata (user id)
+ *   ARGV[1]  rider pool member           ARGV[2]  metadata as read
+ *   ARGV[3]  new metadata ('' = remove from the pool)
+ *   ARGV[4]  TTL of the new metadata, in seconds
+ */
+export const EXPIRE_RIDER_SCRIPT = `
+if redis.call('GET', KEYS[2]) ~= ARGV[2] or not redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+    return 'GONE'
+end
+if ARGV[3] == '' then
+    redis.call('ZREM', KEYS[1], ARGV[1])
+    redis.call('DEL', KEYS[2])
+else
+    redis.call('SET', KEYS[2], ARGV[3], 'EX', tonumber(ARGV[4]))
+end
+return 'OK'
+`;
+
+/**
+ * - OK    rider expired (or their metadata replaced)
+ * - GONE  matched, re-registered or disconnected since it was read — leave them alone
+ */
+export type ExpiryStatus = 'OK' | 'GONE';
+
+/** Attempts per claim / trip update before giving up on a contended key */
+export const MATCH_CLAIM_RETRIES = Number(process.env.MATCH_CLAIM_RETRIES) || 3;
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { splitFare, type FareSplit, type PartyMemberShare } from './parties';
+
+const member = (user_id: string, no_of_passengers: number): PartyMemberShare => ({ user_id, no_of_passengers, luggage: 0 });
+
+// Leader first, as stored
+const party = (fare_split: FareSplit, ...members: PartyMemberShare[]) => ({ leader_id: members[0]!.user_id, fare_split, members });
+
+const sum = (shares: Map<string, number>) => [...shares.values()].reduce((total, share) => total + share, 0);
+
+describe('splitFare', () => {
+    test('splits equally between members', () => {
+        const shares = splitFare(900, party('EQUAL', member('lead', 1), member('b', 2), member('c', 1)));
+        expect(Object.fromEntries(shares)).toEqual({ lead: 300, b: 300, c: 300 });
+    });
+
+    test('gives the equal split remainder to the leader', () => {
+        const shares = splitFare(1000, party('EQUAL', member('lead', 1), member('b', 1), member('c', 1)));
+        expect(Object.fromEntries(shares)).toEqual({ lead: 334, b: 333, c: 333 });
+        expect(sum(shares)).toBe(1000);
+    });
+
+    test('splits by passengers', () => {
+        const shares = splitFare(1000, party('PER_PASSENGER', member('lead', 1), member('b', 3)));
+        expect(Object.fromEntries(shares)).toEqual({ lead: 250, b: 750 });
+    });
+
+    test('gives the per-passenger remainder to the leader', () => {
+        const shares = splitFare(1001, party('PER_PASSENGER', member('lead', 1), member('b', 2), member('c', 3)));
+        // 166.83 / 333.67 / 500.5 rounded down leaves 2 rupees for the leader
+        expect(Object.fromEntries(shares)).toEqual({ lead: 168, b: 333, c: 500 });
+        expect(sum(shares)).toBe(1001);
+    });
+
+    test('charges the leader alone when the leader pays', () => {
+        const shares = splitFare(777, party('LEADER_PAYS', member('lead', 1), member('b', 2)));
+        expect(Object.fromEntries(shares)).toEqual({ lead: 777, b: 0 });
+    });
+
+    test('finds the leader wherever they are listed', () => {
+        const shares = splitFare(100, { leader_id: 'lead', fare_split: 'EQUAL', members: [member('b', 1), member('c', 1), member('lead', 1)] });
+        expect(shares.get('lead')).toBe(34);
+        expect(shares.get('b')).toBe(33);
+    });
+});
@@ -0,0 +1,325 @@
+import { randomInt } from 'crypto';
+import { prisma } from '../../lib/prisma';
+import type { Prisma } from '../../generated/prisma/client';
+import type { PassengerMetaData } from './redisCaching';
+import type { FareChange } from '../pricing/fareEngine';
+import type { RiderProfile } from '../rideMatching/preferences';
+
+/**
+ * parties.ts
+ *
+ * Several accounts travelling together as one party (a family, colleagues).
+ *
+ *   1. A rider creates a party (`POST /party`) and shares its join code;
+ *      the others join with it (`POST /party/join`), each declaring the
+ *      passengers and luggage travelling on their account.
+ *   2. The leader sends REGISTER_RIDE with `party_id`. The party enters the
+ *      pool as one unit under the leader's id, with everyone's passengers
+ *      and luggage combined, and membership is frozen (OPEN → RIDING).
+ *   3. The party is priced as one rider. When its trip is persisted every
+ *      member gets their own RideRequest (so their own RIDE_MATCHED, OTP and
+ *      drop-off) with a share of the party's fare, split per `fare_split`:
+ *        EQUAL          the same for every member
+ *        PER_PASSENGER  in proportion to each member's passengers
+ *        LEADER_PAYS    the leader pays it all
+ *   4. Any member cancelling cancels for the whole party (RIDING → OPEN, so
+ *      it can register again); completing the trip closes it.
+ */
+
+export type FareSplit = 'EQUAL' | 'PER_PASSENGER' | 'LEADER_PAYS';
+export type PartyStatus = 'OPEN' | 'RIDING' | 'CLOSED';
+
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O, 1/I
+const JOIN_CODE_LENGTH = 6;
+
+export class PartyError extends Error {
+    constructor(message: string, readonly status: number = 400) {
+        super(message);
+        this.name = 'PartyError';
+    }
+}
+
+export interface PartyMemberShare {
+    user_id: string;
+    no_of_passengers: number;
+    luggage: number;
+    gender?: string;
+    age?: number;
+}
+
+/** A registered party as carried in the leader's pool metadata. */
+export interface PartyMetaData {
+    party_id: string;
+    leader_id: string;
+    fare_split: FareSplit;
+    members: PartyMemberShare[];  // leader included
+}
+
+// ── Helpers shared by matching (workers) and the main thread ──
+
+/** The other members of a pool entry's party — they are notified alongside its leader. */
+export function partyCompanions(userId: string, meta: PassengerMetaData): string[] {
+    return (meta.party?.members ?? []).map((member) => member.user_id).filter((id) => id !== userId);
+}
+
+/** Everyone a pool entry stands for: the rider, or every member of their party. */
+export function partyRecipients(userId: string, meta: PassengerMetaData): string[] {
+    return [userId, ...partyCompanions(userId, meta)];
+}
+
+/** Riders for the preference check — a party counts member by member. */
+export function riderProfiles(userId: string, meta: PassengerMetaData): RiderProfile[] {
+    if (!meta.party) return [{ user_id: userId, ...meta }];
+    return meta.party.members.map((member) => ({
+        ...member,
+        preferences: meta.preferences,
+        party_id: meta.party!.party_id
+    }));
+}
+
+/**
+ * Split a party's fare between its members. Shares are whole rupees;
+ * the rounding remainder goes to the leader.
+ */
+export function splitFare(total: number, party: Pick<PartyMetaData, 'leader_id' | 'fare_split' | 'members'>): Map<string, number> {
+    const shares = new Map<string, number>();
+    const passengers = party.members.reduce((sum, member) => sum + member.no_of_passengers, 0);
+
+    for (const member of party.members) {
+        const share = party.fare_split === 'LEADER_PAYS' ? 0
+            : party.fare_split === 'PER_PASSENGER' ? Math.floor(total * member.no_of_passengers / passengers)
+                : Math.floor(total / party.members.length);
+        shares.set(member.user_id, share);
+    }
+
+    const assigned = [...shares.values()].reduce((sum, share) => sum + share, 0);
+    shares.set(party.leader_id, (shares.get(party.leader_id) ?? 0) + total - assigned);
+    return shares;
+}
+
+/** A party's fare change as one change per member. */
+export function splitFareChange(change: FareChange, party: PartyMetaData): FareChange[] {
+    const fares = splitFare(change.fare, party);
+    const previous = splitFare(change.previous_fare, party);
+    return party.members.map((member) => ({
+        ...change,
+        user_id: member.user_id,
+        fare: fares.get(member.user_id)!,
+        previous_fare: previous.get(member.user_id)!
+    }));
+}
+
+// ── Party lifecycle (main thread) ──
+
+export class PartyService {
+    private static instance: PartyService;
+
+    private constructor() { }
+
+    static getInstance(): PartyService {
+        if (!PartyService.instance) {
+            PartyService.instance = new PartyService();
+        }
+        return PartyService.instance;
+    }
+
+    /** The rider's current (OPEN or RIDING) party with its members, or `null`. */
+    async current(userId: string) {
+        const membership = await prisma.partyMembers.findFirst({
+            where: { user_id: userId, party: { status: { not: 'CLOSED' } } },
+            include: { party: { include: { members: { include: { user: { select: { name: true } } }, orderBy: { joined_at: 'asc' } } } } }
+        });
+        return membership?.party ?? null;
+    }
+
+    async create(leaderId: string, options: { fare_split?: FareSplit, no_of_passengers?: number, luggage?: number }) {
+        await this.assertFree(leaderId);
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const code = Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join('');
+            if (await prisma.parties.findUnique({ where: { code } })) continue;
+
+            return prisma.parties.create({
+                data: {
+                    code,
+                    leader_id: leaderId,
+                    fare_split: options.fare_split ?? 'EQUAL',
+                    members: {
+                        create: {
+                            user_id: leaderId,
+                            no_of_passengers: options.no_of_passengers ?? 1,
+                            luggage: options.luggage ?? 0
+                        }
+                    }
+                },
+                include: { members: true }
+            });
+        }
+        throw new Error('Could not allocate a party join code');
+    }
+
+    async join(userId: string, code: string, share: { no_of_passengers?: number, luggage?: number }) {
+        await this.assertFree(userId);
+
+        // The OPEN check and the insert under one row lock, so the leader
+        // cannot register the ride in between (see lock())
+        await prisma.$transaction(async (tx) => {
+            const party = await this.lockRow(tx, { code: code.toUpperCase() });
+            if (!party || party.status === 'CLOSED') throw new PartyError('Party not found', 404);
+            if (party.status !== 'OPEN') throw new PartyError('This party has already registered its ride', 409);
+
+            await tx.partyMembers.create({
+                data: {
+                    party_id: party.id,
+                    user_id: userId,
+                    no_of_passengers: share.no_of_passengers ?? 1,
+                    luggage: share.luggage ?? 0
+                }
+            });
+        });
+        return this.current(userId);
+    }
+
+    /**
+     * Leave the current party. A member can leave only while it is OPEN;
+     * the leader leaving disbands it (only when it is not on a trip — the
+     * caller takes it out of the pool). Returns the party left.
+     */
+    async leave(userId: string) {
+        const party = await this.current(userId);
+        if (!party) throw new PartyError('You are not in a party', 404);
+
+        if (party.leader_id !== userId) {
+            await prisma.$transaction(async (tx) => {
+                const locked = await this.lockRow(tx, { id: party.id });
+                if (locked?.status !== 'OPEN') throw new PartyError('The party has registered its ride — cancel it first', 409);
+                await tx.partyMembers.delete({ where: { party_id_user_id: { party_id: party.id, user_id: userId } } });
+            });
+            return party;
+        }
+
+        const onTrip = await prisma.rideRequests.count({
+            where: { party_id: party.id, status: { in: ['WAITING', 'ACTIVE'] } }
+        });
+        if (onTrip > 0) throw new PartyError('The party is on a trip — cancel it first', 409);
+
+        await prisma.parties.update({ where: { id: party.id }, data: { status: 'CLOSED' } });
+        return party;
+    }
+
+    /**
+     * Resolve REGISTER_RIDE's party. With `partyId` the sender must lead
+     * that party and no member may be on another trip; the leader's share
+     * is the message's own passengers / luggage. Without it, a member of a
+     * party may not register on their own.
+     */
+    async forRegistration(userId: string, partyId: string | undefined, leaderShare: PartyMemberShare): Promise<PartyMetaData | undefined> {
+        const party = await this.current(userId);
+
+        if (!partyId) {
+            if (party && party.leader_id !== userId) {
+                throw new PartyError(`You are travelling with party ${party.code} — its leader registers the ride`);
+            }
+            return undefined;
+        }
+
+        if (!party || party.id !== partyId) throw new PartyError('Party not found');
+        if (party.leader_id !== userId) throw new PartyError('Only the party leader can register the ride');
+
+        const others = party.members.filter((member) => member.user_id !== userId);
+        const busy = await prisma.rideRequests.count({
+            where: { user_id: { in: others.map((member) => member.user_id) }, status: { in: ['WAITING', 'ACTIVE'] } }
+        });
+        if (busy > 0) throw new PartyError('A party member is already on another trip');
+
+        const profiles = await prisma.users.findMany({
+            where: { id: { in: others.map((member) => member.user_id) } },
+            select: { id: true, gender: true, age: true }
+        });
+
+        return {
+            party_id: party.id,
+            leader_id: userId,
+            fare_split: party.fare_split as FareSplit,
+            members: [
+                leaderShare,
+                ...others.map((member) => {
+                    const profile = profiles.find((user) => user.id === member.user_id);
+                    return {
+                        user_id: member.user_id,
+                        no_of_passengers: member.no_of_passengers,
+                        luggage: member.luggage,
+                        gender: profile?.gender,
+                        age: profile?.age
+                    };
+                })
+            ]
+        };
+    }
+
+    /** Rebuild a party's metadata from its ride requests (reconciler, re-pricing). */
+    async fromRideRequests(partyId: string, rideRequests: { user_id: string, no_of_passengers: number, luggage_capacity: number }[]): Promise<PartyMetaData | null> {
+        const party = await prisma.parties.findUnique({ where: { id: partyId } });
+        if (!party) return null;
+        return {
+            party_id: party.id,
+            leader_id: party.leader_id,
+            fare_split: party.fare_split as FareSplit,
+            members: rideRequests.map((rr) => ({
+                user_id: rr.user_id,
+                no_of_passengers: rr.no_of_passengers,
+                luggage: rr.luggage_capacity
+            }))
+        };
+    }
+
+    /**
+     * The party has entered the pool — membership is frozen. Refused if it is
+     * no longer OPEN or its members changed since `party` was read (a join or
+     * leave that committed first).
+     */
+    async lock(party: PartyMetaData): Promise<void> {
+        await prisma.$transaction(async (tx) => {
+            const locked = await this.lockRow(tx, { id: party.party_id });
+            if (locked?.status !== 'OPEN') throw new PartyError('The party has already registered its ride', 409);
+
+            const members = await tx.partyMembers.findMany({ where: { party_id: party.party_id }, select: { user_id: true } });
+            const registered = new Set(party.members.map((member) => member.user_id));
+            if (members.length !== registered.size || members.some((member) => !registered.has(member.user_id))) {
+                throw new PartyError('The party changed while registering — register the ride again', 409);
+            }
+
+            await tx.parties.update({ where: { id: party.party_id }, data: { status: 'RIDING' } });
+        });
+    }
+
+    /** The party's ride was cancelled — it may register again. */
+    async reopen(partyId: string): Promise<void> {
+        await prisma.parties.updateMany({ where: { id: partyId, status: 'RIDING' }, data: { status: 'OPEN' } });
+    }
+
+    /** The parties travelling on a completed trip are done. */
+    async closeForTrip(tripId: string): Promise<void> {
+        await prisma.parties.updateMany({
+            where: { rideRequests: { some: { trip_id: tripId } }, status: { not: 'CLOSED' } },
+            data: { status: 'CLOSED' }
+        });
+    }
+
+    // SELECT … FOR UPDATE: joins, member leaves and lock() on one party run one at a time
+    private async lockRow(tx: Prisma.TransactionClient, where: { id: string } | { code: string }): Promise<{ id: string, status: string } | null> {
+        const [party] = 'id' in where
+            ? await tx.$queryRaw<{ id: string, status: string }[]>`SELECT "id", "status" FROM "Parties" WHERE "id" = ${where.id} FOR UPDATE`
+            : await tx.$queryRaw<{ id: string, status: string }[]>`SELECT "id", "status" FROM "Parties" WHERE "code" = ${where.code} FOR UPDATE`;
+        return party ?? null;
+    }
+
+    // One party at a time, and not while on a trip of one's own
+    private async assertFree(userId: string): Promise<void> {
+        if (await this.current(userId)) throw new PartyError('You are already in a party — leave it first', 409);
+        const onTrip = await prisma.rideRequests.count({ where: { user_id: userId, status: { in: ['WAITING', 'ACTIVE'] } } });
+        if (onTrip > 0) throw new PartyError('You are already on a trip', 409);
+    }
+}
+
+export const parties = PartyService.getInstance();
@@ -12,6 +12,7 @@ export class RedisPubSubService {
     private isConnected: boolean = false;
 
     private readonly CHANNEL_PREFIX = 'ride:match:';
+    private readonly DRIVER_CHANNEL_PREFIX = 'driver:offer:';
 
     private constructor() {
         this.publisher = createClient({ url: process.env.REDIS_URL || 'redis://localhost:6379' });
@@ -44,7 +45,7 @@ export class RedisPubSubService {
 
         // Unsubscribe from all active channels before disconnecting
         const unsubPromises = Array.from(this.callbacks.keys()).map(
-            (userId) => this.unsubscribe(userId)
+            (channel) => this.unsubscribeChannel(channel)
         );
         await Promise.all(unsubPromises);
 
@@ -62,17 +63,62 @@ export class RedisPubSubService {
      * Each user can have one active subscription at a time.
      */
     async subscribe(userId: string, callback: MatchCallback): Promise<void> {
-        const channel = `${this.CHANNEL_PREFIX}${userId}`;
+        await this.subscribeChannel(`${this.CHANNEL_PREFIX}${userId}`, callback);
+    }
+
+    /**
+     * Unsubscribe a user from ride match notifications.
+     */
+    async unsubscribe(userId: string): Promise<void> {
+        await this.unsubscribeChannel(`${this.CHANNEL_PREFIX}${userId}`);
+    }
+
+    /**
+     * Publish trip match data to a specific user's channel.
+     * Returns the number of subscribers that received the message.
+     */
+    async publish(userId: string, data: unknown): Promise<number> {
+        return this.publishChannel(`${this.CHANNEL_PREFIX}${userId}`, data);
+    }
+
+    /**
+     * Check if a user currently has an active subscription.
+     */
+    hasSubscription(userId: string): boolean {
+        return this.callbacks.has(`${this.CHANNEL_PREFIX}${userId}`);
+    }
+
+    /**
+     * Subscribe a connected driver to trip offers / assignment updates.
+     */
+    async subscribeDriver(driverId: string, callback: MatchCallback): Promise<void> {
+        await this.subscribeChannel(`${this.DRIVER_CHANNEL_PREFIX}${driverId}`, callback);
+    }
 
+    async unsubscribeDriver(driverId: string): Promise<void> {
+        await this.unsubscribeChannel(`${this.DRIVER_CHANNEL_PREFIX}${driverId}`);
+    }
+
+    /**
+     * Publish to a driver's channel. Returns the number of receivers
+     * (0 means the driver is not connected).
+     */
+    async publishToDriver(driverId: string, data: unknown): Promise<number> {
+        return this.publishChannel(`${this.DRIVER_CHANNEL_PREFIX}${driverId}`, data);
+    }
+
+    // ── Channel helpers ──
+
+    private async subscribeChannel(channel: string, callback: MatchCallback): Promise<void> {
         // If already subscribed, unsubscribe first to avoid duplicates
-        if (this.callbacks.has(userId)) {
-            await this.unsubscribe(userId);
+        if (this.callbacks.has(channel)) {
+            await this.unsubscribeChannel(channel);
         }
 
-        this.callbacks.set(userId, callback);
+        this.callbacks.set(channel, callback);
 
         await this.subscriber.subscribe(channel, (message) => {
-            const cb = this.callbacks.get(userId);
+            const cb = this.callbacks.get(channel);
             if (cb) {
                 cb(message);
             }
@@ -81,12 +127,7 @@ export class RedisPubSubService {
         console.log(`Subscribed to channel: ${channel}`);
     }
 
-    /**
-     * Unsubscribe a user from ride match notifications.
-     */
-    async unsubscribe(userId: string): Promise<void> {
-        const channel = `${this.CHANNEL_PREFIX}${userId}`;
-
+    private async unsubscribeChannel(channel: string): Promise<void> {
         try {
             await this.subscriber.unsubscribe(channel);
         } catch (err) {
@@ -94,29 +135,17 @@ export class RedisPubSubService {
             console.warn(`Warning unsubscribing from ${channel}:`, err);
         }
 
-        this.callbacks.delete(userId);
+        this.callbacks.delete(channel);
         console.log(`Unsubscribed from channel: ${channel}`);
     }
 
-    /**
-     * Publish trip match data to a specific user's channel.
-     * Returns the number of subscribers that received the message.
-     */
-    async publish(userId: string, data: unknown): Promise<number> {
-        const channel = `${this.CHANNEL_PREFIX}${userId}`;
+    private async publishChannel(channel: string, data: unknown): Promise<number> {
         const message = JSON.stringify(data);
 
         const receiverCount = await this.publisher.publish(channel, message);
         console.log(`Published to ${channel} — ${receiverCount} receiver(s)`);
         return receiverCount;
     }
-
-    /**
-     * Check if a user currently has an active subscription.
-     */
-    hasSubscription(userId: string): boolean {
-        return this.callbacks.has(userId);
-    }
 }
 
 export const pubSubService = RedisPubSubService.getInstance();
@@ -1,10 +1,44 @@
 import { createClient, type RedisClientType } from 'redis';
 import * as h3 from 'h3-js'; // You need this to convert Split Point H3 to Lat/Lng
 import { randomUUID } from 'crypto';
-import { pubSubService } from './pubsub';
+import { type LatLng } from '../rideMatching/routingProvider';
+import { routeCache } from './routeCache';
+import { airportRegistry } from './airports';
+import { fareEngine, type FareBreakdown, type FareChange } from '../pricing/fareEngine';
+import { CLAIM_MATCH_SCRIPT, UPDATE_TRIP_SCRIPT, EXPIRE_RIDER_SCRIPT, MATCH_CLAIM_RETRIES, type ClaimStatus, type TripUpdateStatus, type ExpiryStatus } from './matchScripts';
+import { tripOutbox, type TripEventType, type TripEventPayload } from './tripOutbox';
+import { MAX_DETOUR_METERS, relaxationFor, findSplitPoint } from '../rideMatching/relaxation';
+import { preferenceConflict, type RidePreferences } from '../rideMatching/preferences';
+import { FLEET_CAPACITY_KEY, capacitiesFor, fleetCapacity, parseFleetSnapshot, smallestFit, type CabCapacity } from './fleet';
+import { partyCompanions, partyRecipients, riderProfiles, splitFare, splitFareChange, type PartyMetaData } from './parties';
+import { isDeprioritised } from './reliability';
 
 import { prisma } from '../../lib/prisma'
 
+// Trips live under `TRIP<id>` (metadata key and pool member suffix), where
+// <id> is the Postgres Trips.id — one canonical id on both sides
+export const TRIP_KEY_PREFIX = 'TRIP'
+export const tripKeyFor = (tripId: string): string => `${TRIP_KEY_PREFIX}${tripId}`
+
+// Pool metadata outlives the rider's deadline by this much, so the expiry
+// sweep still finds it — and it disappears on its own if the sweep never runs
+const POOL_ENTRY_GRACE_SECONDS = 300
+
+// H3 cells of a pool member's route (`<route>::<id>`, 15 chars per cell)
+export const routeIndexesOfMember = (member: string): string[] => member.split('::')[0]!.match(/.{15}/g) ?? []
+
+// Why candidates were passed over, kept per rider / trip for debugging
+// matches: newest first, capped, gone an hour after the last entry
+const REJECTION_LOG_SIZE = 50
+const REJECTION_LOG_TTL_SECONDS = 3600
+export const rejectionLogKey = (id: string): string => `match:rejections:${id}`
+
+export interface MatchRejection {
+    at: string,
+    candidate: string,            // the other rider / TRIP key
+    reason: string
+}
+
 
 interface RouteMatch {
     match_type: 'DIRECT' | 'BEST_DETOUR' | 'NONE' | 'NEIGHBOUR';
@@ -13,44 +47,66 @@ interface RouteMatch {
     split_point_h3?: string;
     trip_id?: string;
     trip?: any;
+    matched_elsewhere?: boolean;  // NONE because another worker put this rider in a trip meanwhile
 }
 
-interface PassengerMetaData {
+// What happens when a rider's max wait runs out (see matchExpiry.ts)
+export type MatchTimeoutFallback = 'SOLO_OFFER' | 'WIDEN_DETOUR'
+
+// Thrown out of checkMatchConstraints when the requesting rider was claimed
+// by another worker — there is nothing left to match
+class RequesterClaimedError extends Error { }
+
+export interface PassengerMetaData {
     no_of_passengers: number,
     destination_h3: string,
     luggage: number,
     status: 'WAITING' | 'ACTIVE',
-    issued_price: number
+    issued_price: number,
+    fare: FareBreakdown,          // solo fare breakdown (surge / night fixed at registration)
+    airport_code: string,
+    terminal_code: string,
+    pool_key: string,             // h3:airport_pool:<airport>:<pool_group>
+    registered_at?: string,       // ISO — wait time drives match relaxation (see relaxation.ts)
+    max_wait_seconds?: number,
+    expires_at?: string,          // ISO deadline for a match — then on_timeout applies
+    on_timeout?: MatchTimeoutFallback,
+    max_detour_meters?: number,   // widened after a WIDEN_DETOUR timeout (default: relaxation level's limit)
+    gender?: string,              // from Users — matched against co-riders' preferences
+    age?: number,
+    preferences?: RidePreferences, // saved preferences with this ride's overrides applied
+    party?: PartyMetaData,        // a party registered by its leader — counts above are the party's totals
+    reliability?: number          // score at registration — low scorers are tried last (see reliability.ts)
+}
+
+export interface PoolEntry {
+    pool_key: string,
+    member: string,               // <route>::<user id | TRIP key>
+    key: string,                  // user id or TRIP key
+    raw: string | null            // metadata as stored; null once it has expired
 }
 
-interface LatLng {
-    lat: number;
-    lng: number;
+function metadataTtlSeconds(metadata: PassengerMetaData): number | null {
+    if (!metadata.expires_at) return null
+    const remaining = Math.ceil((new Date(metadata.expires_at).getTime() - Date.now()) / 1000)
+    return Math.max(remaining, 0) + POOL_ENTRY_GRACE_SECONDS
 }
 
-interface TripMetaData {
-    trip_id: string,
+export interface TripMetaData {
+    trip_id: string,              // = Trips.id (Redis key is TRIP<trip_id>)
     users: Record<string, PassengerMetaData>[],
     no_of_passengers: number,
     luggage: number,
     status: 'WAITING' | 'ACTIVE',
     issued_price: number,
+    airport_code: string,
+    pool_key: string,
+    updated_at: string,           // ISO time of the last claim — the reconciler leaves fresh trips alone
     trip?: any
 }
 
-interface GoogleRoutesResponse {
-    routes?: Array<{
-        distanceMeters: number;
-        // add other fields if you need them later (duration, polyline, etc.)
-    }>;
-}
-
 export class RedisPoolingService {
-    private LUGGAGE_CAPACITY: number = 4
-    private MAX_PASSENGERS: number = 3
     private client: RedisClientType;
-    private readonly POOL_KEY = 'h3:airport_pool';
-    private readonly GOOGLE_API_KEY = process.env.GOOGLE_ROUTES_API_KEY; // Replace with actual key
 
     constructor() {
         this.client = createClient({
@@ -73,40 +129,23 @@ export class RedisPoolingService {
         return routeIndexes.join('');
     }
 
-    // --- GOOGLE ROUTES API HELPER ---
+    // --- ROUTING PROVIDER HELPER ---
+    // Split point and candidate destination are H3 cell centres, so repeat
+    // pairs are served from the route cache without hitting the network.
     private async fetchRouteDistance(origin: LatLng, destination: LatLng): Promise<number> {
-        const url = 'https://routes.googleapis.com/directions/v2:computeRoutes';
         try {
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-Goog-Api-Key': this.GOOGLE_API_KEY,
-                    'X-Goog-FieldMask': 'routes.distanceMeters' // We only need distance
-                },
-                body: JSON.stringify({
-                    origin: { location: { latLng: { latitude: origin.lat, longitude: origin.lng } } },
-                    destination: { location: { latLng: { latitude: destination.lat, longitude: destination.lng } } },
-                    travelMode: 'DRIVE'
-                })
-            });
-
-            if (!response.ok) throw new Error(`Google API Error: ${response.status}`);
-
-            const data = await response.json() as GoogleRoutesResponse;
-            if (!data.routes || data.routes.length === 0) throw new Error('No route found');
-
-            return data.routes[0].distanceMeters;
-
+            const route = await routeCache.computeRoute(origin, destination);
+            return route.distanceMeters;
         } catch (error) {
-            console.error('Google Routes API error:', error);
+            console.error(`Routing provider (${routeCache.name}) error:`, error);
             return 9999999; // Return huge distance on error so this candidate is ignored
         }
     }
 
     async storePassengerMetaData(user_id: string, metadata: PassengerMetaData): Promise<boolean> {
         try {
-            await this.client.set(user_id, JSON.stringify(metadata))
+            const ttl = metadataTtlSeconds(metadata)
+            await this.client.set(user_id, JSON.stringify(metadata), ttl ? { EX: ttl } : undefined)
             return true
         } catch (e) {
             console.log(e)
@@ -114,11 +153,35 @@ export class RedisPoolingService {
         }
     }
 
-    async storeRouteH3Index(user_id: string, routeIndexes: string[]): Promise<boolean> {
+    /**
+     * Riders waiting in the given pools (trip entries with spare seats are
+     * not counted). Used as the demand side of surge pricing.
+     */
+    async countWaitingRiders(poolKeys: string[]): Promise<number> {
+        let waiting = 0
+        for (const poolKey of poolKeys) {
+            const members = await this.client.zRange(poolKey, 0, -1)
+            waiting += members.filter(member => !member.split('::')[1]?.startsWith(TRIP_KEY_PREFIX)).length
+        }
+        return waiting
+    }
+
+    /**
+     * Pool entries (riders and trips with spare seats) whose route starts
+     * with the same first `prefixCells` H3 cells — i.e. heading the same
+     * way out of the airport. Used to estimate the wait for a quote.
+     */
+    async countRidersOnRoute(poolKey: string, routeIndexes: string[], prefixCells: number): Promise<number> {
+        const prefix = this.getRouteString(routeIndexes.slice(0, prefixCells))
+        if (!prefix) return 0
+        return this.client.zLexCount(poolKey, `[${prefix}`, `[${prefix}\xff`)
+    }
+
+    async storeRouteH3Index(user_id: string, routeIndexes: string[], poolKey: string): Promise<boolean> {
         try {
             const routeString = this.getRouteString(routeIndexes);
             const memberValue = `${routeString}::${user_id}`;
-            await this.client.zAdd(this.POOL_KEY, [{ score: 0, value: memberValue }]);
+            await this.client.zAdd(poolKey, [{ score: 0, value: memberValue }]);
             console.log(`Stored route for ${user_id}`);
             return true;
         } catch (e) {
@@ -133,14 +196,18 @@ export class RedisPoolingService {
             const myRouteString = this.getRouteString(routeIndexes);
             const myMemberValue = `${myRouteString}::${user_id}`;
             const myDestinationH3 = routeIndexes[routeIndexes.length - 1];
+            // Only riders in the same airport / terminal pool group are candidates
+            const poolKey = userMetaData.pool_key;
+            // Riders who have waited longer look further (see relaxation.ts)
+            const relaxation = relaxationFor(userMetaData.registered_at);
 
             // --- STEP 1 Check A: Am I a SUBSET? ---
             const supersetCandidates = await this.client.zRange(
-                this.POOL_KEY, `[${myRouteString}`, `[${myRouteString}\xff`,
-                { BY: 'LEX', LIMIT: { offset: 0, count: 5 } }
+                poolKey, `[${myRouteString}`, `[${myRouteString}\xff`,
+                { BY: 'LEX', LIMIT: { offset: 0, count: relaxation.neighbours } }
             );
 
-            const perfectLongMatch = supersetCandidates.find(c => !c.includes(user_id));
+            const perfectLongMatch = (await this.byReliability(supersetCandidates)).find(c => !c.includes(user_id));
             if (perfectLongMatch) {
                 const matchedUser = perfectLongMatch.split('::')[1];
                 const isTripEligible: boolean | TripMetaData = await this.checkMatchConstraints(matchedUser, userMetaData, user_id, myMemberValue, perfectLongMatch)
@@ -158,17 +225,17 @@ export class RedisPoolingService {
 
             // --- STEP 2: Fetch Neighbors ---
             const predecessors = await this.client.zRange(
-                this.POOL_KEY, `[${myRouteString}`, '-',
-                { BY: 'LEX', REV: true, LIMIT: { offset: 0, count: 5 } } // Reduced count for performance
+                poolKey, `[${myRouteString}`, '-',
+                { BY: 'LEX', REV: true, LIMIT: { offset: 0, count: relaxation.neighbours } } // Small at first for performance
             );
             const successors = await this.client.zRange(
-                this.POOL_KEY, `[${myRouteString}`, '+',
-                { BY: 'LEX', LIMIT: { offset: 0, count: 5 } }
+                poolKey, `[${myRouteString}`, '+',
+                { BY: 'LEX', LIMIT: { offset: 0, count: relaxation.neighbours } }
             );
 
-            const allNeighbors = [...predecessors, ...successors].filter(c => {
-                return !c.includes(user_id) && !c.includes('TRIP')
-            });
+            const allNeighbors = await this.byReliability([...predecessors, ...successors].filter(c => {
+                return !c.includes(user_id) && !c.includes(TRIP_KEY_PREFIX)
+            }));
 
             // --- STEP 1 Check B: Am I a SUPERSET? ---
             for (const neighbor of allNeighbors) {
@@ -190,7 +257,7 @@ export class RedisPoolingService {
             }
 
             // --- STEP 2 (REAL): Calculate Detour for Candidates ---
-            console.log(`STEP 2: Analyzing ${allNeighbors.length} neighbors for best detour...`);
+            console.log(`STEP 2: Analyzing ${allNeighbors.length} neighbors for best detour (relaxation level ${relaxation.level})...`);
 
             let bestMatch: RouteMatch = { match_type: 'NONE' };
             let minDetourMeters = Infinity;
@@ -199,25 +266,12 @@ export class RedisPoolingService {
             for (const candidate of allNeighbors) {
                 const [candidateRouteString, candidateUserId] = candidate.split('::');
 
-                // 1. Find Longest Common Prefix (Split Point)
-                // Since H3 indexes are fixed length (15 chars), we step by 15
-                let splitIndex = 0;
-                const minLen = Math.min(myRouteString.length, candidateRouteString.length);
+                // 1-2. Find Longest Common Prefix — its last H3 cell is the Split Point
+                // (compared at a coarser resolution once the rider has waited a while)
+                const splitPointH3 = findSplitPoint(routeIndexes, routeIndexesOfMember(candidate), relaxation.coarse_steps);
 
-                // Jump 15 chars at a time to find which H3 index diverges
-                for (let i = 0; i < minLen; i += 15) {
-                    if (myRouteString.substring(i, i + 15) !== candidateRouteString.substring(i, i + 15)) {
-                        break;
-                    }
-                    splitIndex = i + 15; // They match up to here
-                }
-
-                // If splitIndex is 0, they diverge immediately (at airport exit). Ignore.
-                if (splitIndex === 0) continue;
-
-                // 2. Extract the H3 Index at the split point
-                // (splitIndex is the END of the matching string, so look back 15 chars)
-                const splitPointH3 = myRouteString.substring(splitIndex - 15, splitIndex);
+                // No common prefix: they diverge immediately (at airport exit). Ignore.
+                if (!splitPointH3) continue;
 
                 // 3. Extract Candidate's Destination H3 (Last 15 chars of their string)
                 const candidateDestH3 = candidateRouteString.slice(-15);
@@ -235,9 +289,15 @@ export class RedisPoolingService {
 
                 console.log(`Candidate ${candidateUserId}: Splits at ${splitPointH3}, Detour: ${detourMeters}m`);
 
-                // 6. Check Threshold (e.g., Detour must be < 3km)
-                // You can add logic here: e.g. "If detour > 3000m, ignore"
-                if (detourMeters < 3000 && detourMeters < minDetourMeters) {
+                // 6. Check Threshold (Detour must be < MAX_DETOUR_METERS, or the
+                //    relaxed / widened limit of either rider)
+                const ownLimit = Math.max(relaxation.detour_meters, userMetaData.max_detour_meters ?? 0)
+                const detourLimit = detourMeters < ownLimit
+                    ? ownLimit
+                    : Math.max(ownLimit, await this.detourLimitOf(candidateUserId))
+                if (detourMeters >= detourLimit) {
+                    await this.recordRejection(user_id, candidateUserId, `detour ${Math.round(detourMeters)}m over the ${detourLimit}m limit`)
+                } else if (detourMeters < minDetourMeters) {
                     minDetourMeters = detourMeters;
 
                     const isTripEligible: boolean | TripMetaData = await this.checkMatchConstraints(candidateUserId, userMetaData, user_id, myMemberValue, candidate)
@@ -258,392 +318,510 @@ export class RedisPoolingService {
             return bestMatch;
 
         } catch (e) {
+            if (e instanceof RequesterClaimedError) {
+                console.log(`${user_id} was matched by another worker — stopping`);
+                return { match_type: 'NONE', matched_elsewhere: true };
+            }
             console.log(e);
             return { match_type: 'NONE' };
         }
     }
 
+    // Pool members with riders who cancel or no-show often moved to the back,
+    // otherwise in pool order (trips carry no score and keep their place)
+    private async byReliability(members: string[]): Promise<string[]> {
+        if (members.length === 0) return members
+        const raws = await this.client.mGet(members.map(member => member.split('::')[1]!))
+        const lowScore = new Set(members.filter((_, i) => {
+            const raw = raws[i]
+            return typeof raw === 'string' && isDeprioritised((JSON.parse(raw) as PassengerMetaData).reliability)
+        }))
+        if (lowScore.size === 0) return members
+        return [...members.filter(member => !lowScore.has(member)), ...lowScore]
+    }
+
+    // A waiting rider's detour limit — relaxed as they wait, widened once their wait has timed out
+    private async detourLimitOf(userId: string): Promise<number> {
+        const raw = await this.client.get(userId)
+        if (typeof raw !== 'string') return MAX_DETOUR_METERS
+        const meta = JSON.parse(raw) as PassengerMetaData
+        return Math.max(relaxationFor(meta.registered_at).detour_meters, meta.max_detour_meters ?? 0)
+    }
+
+    /**
+     * Try to merge the requesting rider with a candidate (rider or trip).
+     *
+     * Pricing and the trip metadata are computed from a snapshot of the
+     * candidate; CLAIM_MATCH_SCRIPT then commits the merge atomically only
+     * if the candidate and the requester are both still in the pool and the
+     * candidate is unchanged. A changed candidate is re-read and retried up
+     * to MATCH_CLAIM_RETRIES times, so two workers can never claim the same
+     * rider or overfill a trip.
+     */
     private async checkMatchConstraints(matchedUserId: string, requestingUserMetaData: PassengerMetaData, requestingUserId: string, requestingUserRouteSignature: string, matchedUserSignature: string): Promise<boolean | TripMetaData> {
         try {
+            for (let attempt = 1; attempt <= MATCH_CLAIM_RETRIES; attempt++) {
 
-            const matchedUserData: string | {} | null = await this.client.get(matchedUserId)
-            console.log(matchedUserId)
-            if (typeof matchedUserData === 'string' && matchedUserData) {
-
-                const data: PassengerMetaData | TripMetaData = JSON.parse(matchedUserData)
-                if (data.luggage + requestingUserMetaData.luggage > this.LUGGAGE_CAPACITY || data.no_of_passengers + requestingUserMetaData.no_of_passengers > this.MAX_PASSENGERS) {
+                const matchedUserData: string | {} | null = await this.client.get(matchedUserId)
+                console.log(matchedUserId)
+                if (typeof matchedUserData !== 'string' || !matchedUserData) {
                     return false
                 }
-                const status = data.luggage + requestingUserMetaData.luggage === this.LUGGAGE_CAPACITY || data.no_of_passengers + requestingUserMetaData.no_of_passengers === this.MAX_PASSENGERS
-
-                // Remove both route signatures from the pool sorted set
-                await this.client.zRem(this.POOL_KEY, [requestingUserRouteSignature, matchedUserSignature])
-
-                // Delete metadata sets for both users
-                await this.client.del([matchedUserId, requestingUserId])
-
-                const tripKey = `TRIP${randomUUID()}`
 
-
-                // Store the combined trip route back in Redis
-                if (!status) {
-                    await this.storeTripRoute(requestingUserRouteSignature, matchedUserSignature, tripKey)
+                const data: PassengerMetaData | TripMetaData = JSON.parse(matchedUserData)
+                const poolKey = requestingUserMetaData.pool_key
+                if (data.pool_key !== poolKey) {
+                    return false
                 }
 
                 const isExistingTrip = 'users' in data
 
-                // ── Apply 70% discount to each user's individual price ──
-                const MATCH_DISCOUNT = 0.7
-
-                // Discount the requesting user's price
-                const discountedRequestingPrice = Math.ceil(requestingUserMetaData.issued_price * MATCH_DISCOUNT)
-                const discountedRequestingMeta: PassengerMetaData = {
-                    ...requestingUserMetaData,
-                    issued_price: discountedRequestingPrice
+                // Some free cab must carry the merged trip (see fleet.ts) — the
+                // airport's pool limits when none is free; a trip that already
+                // has a cab is limited to that cab. Re-checked inside the claim script
+                const airport = airportRegistry.getAirport(requestingUserMetaData.airport_code)
+                const passengers = data.no_of_passengers + requestingUserMetaData.no_of_passengers
+                const luggage = data.luggage + requestingUserMetaData.luggage
+                const assignedCab = isExistingTrip ? await this.assignedCabOf(matchedUserId.slice(TRIP_KEY_PREFIX.length)) : null
+                const capacities = assignedCab
+                    ? [assignedCab]
+                    : capacitiesFor(parseFleetSnapshot(await this.client.get(FLEET_CAPACITY_KEY)), airport)
+                const carrier = smallestFit(capacities, passengers, luggage)
+                if (!carrier) {
+                    await this.recordRejection(requestingUserId, matchedUserId, assignedCab
+                        ? `assigned ${assignedCab.cab_type} carries at most ${assignedCab.passengers} passengers / ${assignedCab.luggage} luggage`
+                        : `no free cab carries ${passengers} passengers / ${luggage} luggage`)
+                    return false
+                }
+                // Full once no free cab could take one more passenger
+                const status = !smallestFit(capacities, passengers + 1, luggage)
+
+                // Every rider on the merged trip must accept every other one
+                // (see preferences.ts) — party members count one by one
+                const candidateRiders = isExistingTrip
+                    ? (data as TripMetaData).users.map(entry => Object.entries(entry)[0]!)
+                    : [[matchedUserId, data as PassengerMetaData] as const]
+                const conflict = preferenceConflict(
+                    [...candidateRiders, [requestingUserId, requestingUserMetaData] as const]
+                        .flatMap(([userId, meta]) => riderProfiles(userId, meta))
+                )
+                if (conflict) {
+                    await this.recordRejection(requestingUserId, matchedUserId, conflict)
+                    return false
                 }
 
-                let tripMetaData: TripMetaData
-
-                if (isExistingTrip) {
-                    // ── Case: New user joins an existing trip ──
-                    // Only the new user gets the 70% discount; existing users' prices are already set
-                    const existingTrip = data as TripMetaData
-                    tripMetaData = {
-                        trip_id: tripKey,
-                        users: [...existingTrip.users, { [requestingUserId]: discountedRequestingMeta }],
-                        luggage: data.luggage + requestingUserMetaData.luggage,
-                        no_of_passengers: data.no_of_passengers + requestingUserMetaData.no_of_passengers,
-                        status: 'WAITING',
-                        issued_price: existingTrip.issued_price + discountedRequestingPrice
-                    }
-                } else {
-                    // ── Case: Two individual users matched — both get discount ──
-                    const matchedPassengerData = data as PassengerMetaData
-                    const discountedMatchedPrice = Math.ceil(matchedPassengerData.issued_price * MATCH_DISCOUNT)
-                    const discountedMatchedMeta: PassengerMetaData = {
-                        ...matchedPassengerData,
-                        issued_price: discountedMatchedPrice
-                    }
+                // Joining keeps the trip's id; a new pair gets the id its Trips row will have
+                const tripId = isExistingTrip ? matchedUserId.slice(TRIP_KEY_PREFIX.length) : randomUUID()
+                const tripKey = tripKeyFor(tripId)
+
+                const users: Record<string, PassengerMetaData>[] = isExistingTrip
+                    ? [...(data as TripMetaData).users, { [requestingUserId]: requestingUserMetaData }]
+                    : [{ [matchedUserId]: data as PassengerMetaData }, { [requestingUserId]: requestingUserMetaData }]
+
+                // ── Re-price every rider for the new composition (co-riders + detour) ──
+                const riders = users.map(entry => Object.entries(entry)[0]!)
+                const priced = await fareEngine.priceSharedRiders(
+                    riders.map(([userId, meta]) => ({
+                        user_id: userId,
+                        destination_h3: meta.destination_h3,
+                        fare: meta.fare ?? null,
+                        issued_price: meta.issued_price
+                    })),
+                    airportRegistry.pickupFor(airport.code, riders[0]![1].terminal_code)
+                )
 
-                    tripMetaData = {
-                        trip_id: tripKey,
-                        users: [{ [matchedUserId]: discountedMatchedMeta }, { [requestingUserId]: discountedRequestingMeta }],
-                        luggage: data.luggage + requestingUserMetaData.luggage,
-                        no_of_passengers: data.no_of_passengers + requestingUserMetaData.no_of_passengers,
-                        status: 'WAITING',
-                        issued_price: discountedMatchedPrice + discountedRequestingPrice
+                const fareChanges: FareChange[] = []
+                const pricedUsers = riders.map(([userId, meta]) => {
+                    const price = priced.find(p => p.user_id === userId)!
+                    if (isExistingTrip && userId !== requestingUserId && price.fare !== meta.issued_price) {
+                        fareChanges.push({ ...price, previous_fare: meta.issued_price })
                     }
-                }
+                    return { [userId]: { ...meta, issued_price: price.fare, fare: price.breakdown ?? meta.fare } }
+                })
 
-                // Store the trip metadata in Redis under the same trip key
-                await this.storeTripMetaData(tripKey, tripMetaData)
+                const tripMetaData: TripMetaData = {
+                    trip_id: tripId,
+                    users: pricedUsers,
+                    luggage,
+                    no_of_passengers: passengers,
+                    status: 'WAITING',
+                    issued_price: priced.reduce((sum, p) => sum + p.fare, 0),
+                    airport_code: airport.code,
+                    pool_key: poolKey,
+                    updated_at: new Date().toISOString()
+                }
 
-                // ── Persist to Database ──
-                const dbTripId = await this.persistMatchToDatabase(
+                // ── Atomically consume both pool entries and write the trip ──
+                // A full trip is not put back into the pool
+                const claim = await this.claimMatch({
+                    poolKey,
+                    matchedKey: matchedUserId,
+                    requestingKey: requestingUserId,
+                    tripKey,
+                    matchedMember: matchedUserSignature,
+                    requestingMember: requestingUserRouteSignature,
+                    matchedSnapshot: matchedUserData,
                     tripMetaData,
-                    requestingUserId,
-                    requestingUserMetaData,
-                    matchedUserId,
-                    isExistingTrip ? (data as TripMetaData) : (data as PassengerMetaData),
-                    isExistingTrip
-                )
+                    tripMember: status ? '' : this.tripRouteMember(requestingUserRouteSignature, matchedUserSignature, tripKey),
+                    maxPassengers: carrier.passengers,
+                    maxLuggage: carrier.luggage
+                })
 
-                // ── Query the full trip from DB with all related data ──
-                let fullTrip = null
-                if (dbTripId) {
-                    fullTrip = await prisma.trips.findUnique({
-                        where: { id: dbTripId },
-                        include: {
-                            cab: { include: { driver: true } },
-                            rideRequests: {
-                                include: {
-                                    user: {
-                                        select: { name: true, age: true, gender: true }
-                                    }
-                                }
-                            }
-                        }
-                    })
+                if (claim === 'STALE') {
+                    console.log(`[Match] ${matchedUserId} changed while matching ${requestingUserId} — retrying (${attempt}/${MATCH_CLAIM_RETRIES})`)
+                    continue
                 }
+                if (claim === 'CLAIMED') {
+                    throw new RequesterClaimedError(requestingUserId)
+                }
+                if (claim !== 'OK') {
+                    console.log(`[Match] Could not claim ${matchedUserId} for ${requestingUserId}: ${claim}`)
+                    if (claim === 'FULL') await this.recordRejection(requestingUserId, matchedUserId, 'trip filled up while matching')
+                    return false
+                }
+                console.log(`Stored trip metadata under key: ${tripKey}`)
+
+                // ── Persist to Database under the same id, with the outbox event ──
+                // (the requester gets the trip back directly; their party companions via PubSub)
+                const eventId = await this.persistTrip(tripMetaData, isExistingTrip ? 'RIDER_JOINED' : 'TRIP_CREATED', {
+                    notify: [...(isExistingTrip ? [] : [matchedUserId]), ...partyCompanions(requestingUserId, requestingUserMetaData)],
+                    fare_changes: fareChanges,
+                    joined: isExistingTrip ? partyRecipients(requestingUserId, requestingUserMetaData) : undefined
+                })
 
-                // Attach full trip to metadata for the requesting user
-                tripMetaData.trip = fullTrip
-
-                // Notify the matched user via Redis PubSub (WebSocket will receive this)
-                await pubSubService.publish(matchedUserId, {
-                    type: 'RIDE_MATCHED',
-                    trip: fullTrip
-                }).catch((err) => console.error('PubSub publish error:', err));
+                // ── Deliver RIDE_MATCHED / FARE_UPDATED (re-delivered by the
+                //    reconciler if this fails) and hand the full trip to the requester ──
+                const delivered = eventId ? await tripOutbox.deliver(eventId) : null
+                tripMetaData.trip = delivered?.trip ?? null
 
                 return tripMetaData
             }
+
+            console.log(`[Match] Gave up on ${matchedUserId} for ${requestingUserId} after ${MATCH_CLAIM_RETRIES} conflicting attempts`)
             return false
 
         } catch (e) {
+            if (e instanceof RequesterClaimedError) throw e
             console.log(e)
             return false
         }
     }
 
+    // What the trip's cab carries (type-capped), or null while it has none
+    private async assignedCabOf(tripId: string): Promise<CabCapacity | null> {
+        const trip = await prisma.trips.findUnique({
+            where: { id: tripId },
+            select: { cab: { select: { cab_type: true, no_of_seats: true, luggage_capacity: true } } }
+        })
+        if (!trip?.cab) return null
+        return { cab_type: trip.cab.cab_type, ...fleetCapacity.capacityOf(trip.cab), cabs: 1 }
+    }
+
+    // Log a passed-over candidate on both riders' rejection lists (best effort)
+    private async recordRejection(requestingId: string, candidateId: string, reason: string): Promise<void> {
+        console.log(`[Match] ${candidateId} rejected for ${requestingId}: ${reason}`)
+        const at = new Date().toISOString()
+        try {
+            for (const [owner, candidate] of [[requestingId, candidateId], [candidateId, requestingId]] as const) {
+                const key = rejectionLogKey(owner)
+                const entry: MatchRejection = { at, candidate, reason }
+                await this.client.multi()
+                    .lPush(key, JSON.stringify(entry))
+                    .lTrim(key, 0, REJECTION_LOG_SIZE - 1)
+                    .expire(key, REJECTION_LOG_TTL_SECONDS)
+                    .exec()
+            }
+        } catch (e) {
+            console.error('[Match] Failed to record rejection:', e)
+        }
+    }
+
+    private async claimMatch(claim: {
+        poolKey: string,
+        matchedKey: string,
+        requestingKey: string,
+        tripKey: string,
+        matchedMember: string,
+        requestingMember: string,
+        matchedSnapshot: string,
+        tripMetaData: TripMetaData,
+        tripMember: string,
+        maxPassengers: number,
+        maxLuggage: number
+    }): Promise<ClaimStatus> {
+        return await this.client.eval(CLAIM_MATCH_SCRIPT, {
+            keys: [claim.poolKey, claim.matchedKey, claim.requestingKey, claim.tripKey],
+            arguments: [
+                claim.matchedMember,
+                claim.requestingMember,
+                claim.matchedSnapshot,
+                JSON.stringify(claim.tripMetaData),
+                claim.tripMember,
+                String(claim.maxPassengers),
+                String(claim.maxLuggage)
+            ]
+        }) as ClaimStatus
+    }
+
     /**
-     * Persists a successful ride match to the database.
-     *
-     * Case 1 — Two individual users matched:
-     *   → Creates a new Trip and two RideRequests.
-     *
-     * Case 2 — A new user joins an existing Trip:
-     *   → Finds (or creates) the Trip row, creates a RideRequest for the new user.
+     * Persists a Redis trip to the database under the same id
+     * (Trips.id === TripMetaData.trip_id):
+     *   → Creates the Trip if it does not exist yet.
+     *   → Creates a RideRequest for every rider not on it yet — one per
+     *     member for a party, each with their share of its fare.
+     *   → Updates the fares of riders re-priced for the trip's composition.
+     *   → Records the outbox event (see tripOutbox.ts). A party leader in
+     *     `notify` / `fare_changes` stands for every member.
      *
      * Co-riders are derived from Trip → RideRequests (no separate RideShare table).
      * All writes are wrapped in a Prisma interactive transaction for atomicity.
-     * DB failures are logged but do NOT block the Redis / PubSub flow.
+     * Idempotent, so the reconciler can replay it from Redis when the
+     * original write failed. Returns the outbox event id, or null if
+     * nothing was written.
      */
-    private async persistMatchToDatabase(
-        tripMetaData: TripMetaData,
-        requestingUserId: string,
-        requestingUserMetaData: PassengerMetaData,
-        matchedUserId: string,
-        matchedData: PassengerMetaData | TripMetaData,
-        isExistingTrip: boolean
-    ): Promise<string | null> {
+    async persistTrip(tripMetaData: TripMetaData, eventType: TripEventType, event: Omit<TripEventPayload, 'riders'>): Promise<string | null> {
         try {
-            const dbTripId = await prisma.$transaction(async (tx) => {
-
-                // ── Validate that the requesting user exists ──
-                const requestingUser = await tx.users.findUnique({ where: { id: requestingUserId } })
-                if (!requestingUser) {
-                    console.error(`[DB Persist] Requesting user not found: ${requestingUserId}`)
-                    return null
-                }
-
-                // ── Try to find an available cab (optional — trip can exist without one) ──
-                const availableCab = await tx.cabs.findFirst({
-                    where: {
-                        status: 'AVAILABLE',
-                        no_of_seats: { gte: tripMetaData.no_of_passengers },
-                        luggage_capacity: { gte: tripMetaData.luggage }
+            return await prisma.$transaction(async (tx) => {
+                const units = tripMetaData.users.map(entry => Object.entries(entry)[0]!)
+
+                // A party is one unit in Redis but one RideRequest per member,
+                // each paying their share of the party's fare (see parties.ts)
+                const riders = units.flatMap(([userId, meta]) => {
+                    if (!meta.party) return [[userId, meta] as const]
+                    const shares = splitFare(meta.issued_price, meta.party)
+                    return meta.party.members.map(member => [member.user_id, {
+                        ...meta,
+                        no_of_passengers: member.no_of_passengers,
+                        luggage: member.luggage,
+                        issued_price: shares.get(member.user_id)!
+                    }] as const)
+                })
+                const partiesByLeader = new Map(units.flatMap(([userId, meta]) => meta.party ? [[userId, meta.party] as const] : []))
+
+                // Trips are created without a cab — the main thread offers them
+                // to connected drivers (see driverDispatch.ts) once persisted.
+                const trip = await tx.trips.upsert({
+                    where: { id: tripMetaData.trip_id },
+                    create: {
+                        id: tripMetaData.trip_id,
+                        status: tripMetaData.status,
+                        fare_each: 0, // Per-user pricing — individual prices on RideRequests
+                        no_of_passengers: tripMetaData.no_of_passengers,
+                        total_luggage: tripMetaData.luggage,
+                        airport_code: tripMetaData.airport_code,
+                        cab_id: null
                     },
-                    orderBy: { no_of_seats: 'asc' } // Prefer smallest sufficient cab
+                    update: {},
+                    include: { rideRequests: true }
                 })
 
-                if (!availableCab) {
-                    console.warn('[DB Persist] No available cab with sufficient capacity. Trip will be created without a cab assignment.')
+                // Started / cancelled meanwhile — the reconciler drops the Redis trip
+                if (trip.status !== 'WAITING') {
+                    console.error(`[DB Persist] Trip ${trip.id} is ${trip.status}; not adding riders`)
+                    return null
                 }
 
-                // Per-user prices are already calculated with the 70% discount
-                // Each user's RideRequest will have their own individual price
-
-                if (isExistingTrip) {
-                    // ─────────────────────────────────────────────────────
-                    // CASE 2: New user joins an existing Trip
-                    // ─────────────────────────────────────────────────────
-                    const existingTripData = matchedData as TripMetaData
+                const knownUsers = new Set((await tx.users.findMany({
+                    where: { id: { in: riders.map(([userId]) => userId) } },
+                    select: { id: true }
+                })).map(user => user.id))
 
-                    // Find the existing Trip row by its Redis trip_id
-                    let existingTrip = await tx.trips.findFirst({
-                        where: { id: existingTripData.trip_id },
-                        include: { rideRequests: true }
-                    })
+                for (const [userId, meta] of riders) {
+                    if (!knownUsers.has(userId)) {
+                        console.warn(`[DB Persist] Skipping non-existent user: ${userId}`)
+                        continue
+                    }
 
-                    // Edge case: Trip might not exist in DB yet (e.g., was created without cab earlier)
-                    if (!existingTrip) {
-                        console.warn(`[DB Persist] Existing trip ${existingTripData.trip_id} not found in DB. Creating fresh trip.`)
+                    // Each user's RideRequest has their own individual (shared) price
+                    const fareData = {
+                        issued_price: meta.issued_price,
+                        pricing_version: meta.fare?.pricing_version ?? null,
+                        fare_breakdown: meta.fare ?? undefined
+                    }
 
-                        existingTrip = await tx.trips.create({
+                    const existing = trip.rideRequests.find(rr => rr.user_id === userId)
+                    if (!existing) {
+                        await tx.rideRequests.create({
                             data: {
                                 status: tripMetaData.status,
-                                fare_each: 0,
-                                no_of_passengers: tripMetaData.no_of_passengers,
-                                total_luggage: tripMetaData.luggage,
-                                cab_id: availableCab?.id ?? null
-                            },
-                            include: { rideRequests: true }
-                        })
-
-                        // Create RideRequests for all pre-existing users in the trip
-                        for (const userEntry of existingTripData.users) {
-                            const [existingUserId, existingMeta] = Object.entries(userEntry)[0]
-
-                            const userExists = await tx.users.findUnique({ where: { id: existingUserId } })
-                            if (!userExists) {
-                                console.warn(`[DB Persist] Skipping non-existent user: ${existingUserId}`)
-                                continue
+                                no_of_passengers: meta.no_of_passengers,
+                                luggage_capacity: meta.luggage,
+                                ...fareData,
+                                destination_h3: meta.destination_h3,
+                                airport_code: meta.airport_code,
+                                terminal_code: meta.terminal_code,
+                                party_id: meta.party?.party_id ?? null,
+                                user_id: userId,
+                                trip_id: trip.id
                             }
-
-                            await tx.rideRequests.create({
-                                data: {
-                                    status: tripMetaData.status,
-                                    no_of_passengers: (existingMeta as PassengerMetaData).no_of_passengers,
-                                    luggage_capacity: (existingMeta as PassengerMetaData).luggage,
-                                    issued_price: (existingMeta as PassengerMetaData).issued_price,
-                                    user_id: existingUserId,
-                                    trip_id: existingTrip.id
-                                }
-                            })
-                        }
-
-                        // Refetch to get all ride requests
-                        existingTrip = await tx.trips.findUniqueOrThrow({
-                            where: { id: existingTrip.id },
-                            include: { rideRequests: true }
                         })
+                    } else if (meta.fare && existing.issued_price !== meta.issued_price) {
+                        // Existing riders were re-priced for the larger trip
+                        await tx.rideRequests.update({ where: { id: existing.id }, data: fareData })
                     }
+                }
 
-                    // Check for duplicate ride request
-                    const duplicateRequest = existingTrip.rideRequests.find(
-                        (rr) => rr.user_id === requestingUserId
-                    )
-                    if (duplicateRequest) {
-                        console.warn(`[DB Persist] Duplicate ride request for user ${requestingUserId} on trip ${existingTrip.id}. Skipping.`)
-                        return existingTrip.id
-                    }
-
-                    // Get the requesting user's discounted price from tripMetaData
-                    const requestingUserEntry = tripMetaData.users.find(u => requestingUserId in u)
-                    const requestingDiscountedPrice = requestingUserEntry
-                        ? (requestingUserEntry[requestingUserId] as PassengerMetaData).issued_price
-                        : Math.ceil(requestingUserMetaData.issued_price * 0.7)
-
-                    // Create RideRequest for the new joining user
-                    await tx.rideRequests.create({
-                        data: {
-                            status: tripMetaData.status,
-                            no_of_passengers: requestingUserMetaData.no_of_passengers,
-                            luggage_capacity: requestingUserMetaData.luggage,
-                            issued_price: requestingDiscountedPrice,
-                            user_id: requestingUserId,
-                            trip_id: existingTrip.id
-                        }
-                    })
-
-                    // Update trip status (per-user prices are already set individually)
-                    await tx.trips.update({
-                        where: { id: existingTrip.id },
-                        data: {
-                            status: tripMetaData.status,
-                            fare_each: 0, // Per-user pricing — individual prices on RideRequests
-                            no_of_passengers: tripMetaData.no_of_passengers,
-                            total_luggage: tripMetaData.luggage,
-                            cab_id: availableCab?.id ?? existingTrip.cab_id // Assign cab if available and not already assigned
-                        }
-                    })
-
-                    // Sync status on all existing RideRequests to match the Trip
-                    // Note: issued_price is NOT updated here — existing users keep their individual prices
-                    await tx.rideRequests.updateMany({
-                        where: { trip_id: existingTrip.id },
-                        data: {
-                            status: tripMetaData.status
-                        }
-                    })
-
-
-                    console.log(`[DB Persist] User ${requestingUserId} joined existing trip ${existingTrip.id}`)
-                    return existingTrip.id
-
-                } else {
-                    // ─────────────────────────────────────────────────────
-                    // CASE 1: Two individual users matched — fresh Trip
-                    // ─────────────────────────────────────────────────────
-                    const matchedPassengerData = matchedData as PassengerMetaData
-
-                    // Validate the matched user exists
-                    const matchedUser = await tx.users.findUnique({ where: { id: matchedUserId } })
-                    if (!matchedUser) {
-                        console.error(`[DB Persist] Matched user not found: ${matchedUserId}`)
-                        return null
+                await tx.trips.update({
+                    where: { id: trip.id },
+                    data: {
+                        no_of_passengers: tripMetaData.no_of_passengers,
+                        total_luggage: tripMetaData.luggage
                     }
+                })
 
-                    // Create the Trip (cab_id is optional)
-                    const trip = await tx.trips.create({
-                        data: {
-                            status: tripMetaData.status,
-                            fare_each: 0, // Per-user pricing — individual prices on RideRequests
-                            no_of_passengers: tripMetaData.no_of_passengers,
-                            total_luggage: tripMetaData.luggage,
-                            cab_id: availableCab?.id ?? null
-                        }
-                    })
-
-                    // Get each user's discounted price from tripMetaData
-                    const matchedUserEntry = tripMetaData.users.find(u => matchedUserId in u)
-                    const matchedDiscountedPrice = matchedUserEntry
-                        ? (matchedUserEntry[matchedUserId] as PassengerMetaData).issued_price
-                        : Math.ceil((matchedData as PassengerMetaData).issued_price * 0.7)
-
-                    const requestingUserEntry = tripMetaData.users.find(u => requestingUserId in u)
-                    const requestingDiscountedPrice = requestingUserEntry
-                        ? (requestingUserEntry[requestingUserId] as PassengerMetaData).issued_price
-                        : Math.ceil(requestingUserMetaData.issued_price * 0.7)
-
-                    // Create RideRequests for both users with their individual discounted prices
-                    await Promise.all([
-                        tx.rideRequests.create({
-                            data: {
-                                status: tripMetaData.status,
-                                no_of_passengers: (matchedData as PassengerMetaData).no_of_passengers,
-                                luggage_capacity: (matchedData as PassengerMetaData).luggage,
-                                issued_price: matchedDiscountedPrice,
-                                user_id: matchedUserId,
-                                trip_id: trip.id
-                            }
-                        }),
-                        tx.rideRequests.create({
-                            data: {
-                                status: tripMetaData.status,
-                                no_of_passengers: requestingUserMetaData.no_of_passengers,
-                                luggage_capacity: requestingUserMetaData.luggage,
-                                issued_price: requestingDiscountedPrice,
-                                user_id: requestingUserId,
-                                trip_id: trip.id
-                            }
-                        })
-                    ])
+                // Sync status on all RideRequests to match the Trip
+                await tx.rideRequests.updateMany({
+                    where: { trip_id: trip.id },
+                    data: { status: tripMetaData.status }
+                })
 
+                const eventId = await tripOutbox.record(tx, trip.id, eventType, {
+                    ...event,
+                    notify: event.notify.flatMap(userId => partiesByLeader.get(userId)?.members.map(member => member.user_id) ?? [userId]),
+                    fare_changes: event.fare_changes.flatMap(change => {
+                        const party = partiesByLeader.get(change.user_id)
+                        return party ? splitFareChange(change, party) : [change]
+                    }),
+                    riders: riders.length
+                })
 
-                    console.log(`[DB Persist] Created new trip ${trip.id} for users ${matchedUserId} & ${requestingUserId}`)
-                    return trip.id
-                }
+                console.log(`[DB Persist] Trip ${trip.id} persisted with ${riders.length} rider(s) (${eventType})`)
+                return eventId
             })
-            return dbTripId ?? null
         } catch (error) {
             // DB failure should NOT break the Redis matching flow.
-            // The trip exists in Redis and can be retried / reconciled later.
-            console.error('[DB Persist] Failed to persist match to database:', error)
+            // The trip exists in Redis under its final id; the reconciler persists it later.
+            console.error(`[DB Persist] Failed to persist trip ${tripMetaData.trip_id} to database:`, error)
             return null
         }
     }
 
-    private async storeTripRoute(requestingUserRouteSignature: string, matchedUserSignature: string, tripKey: string): Promise<void> {
-        try {
-            const requestingUserRoute = requestingUserRouteSignature.split('::')[0]
-            const matchedUserRoute = matchedUserSignature.split('::')[0]
-            let tripRoute = ""
-            if (requestingUserRoute.length >= matchedUserRoute.length) {
-                tripRoute = requestingUserRoute + "::" + tripKey
+    // The trip stays in the pool under the longer of the two routes, so
+    // riders heading along either one can still find it
+    private tripRouteMember(requestingUserRouteSignature: string, matchedUserSignature: string, tripKey: string): string {
+        const requestingUserRoute = requestingUserRouteSignature.split('::')[0]!
+        const matchedUserRoute = matchedUserSignature.split('::')[0]!
+        const tripRoute = requestingUserRoute.length >= matchedUserRoute.length ? requestingUserRoute : matchedUserRoute
+        return tripRoute + "::" + tripKey
+    }
+
+    // ── Reconciler helpers (see tripReconciler.ts) ──
+
+    /** Every trip held in Redis, with its metadata key. */
+    async listTrips(): Promise<{ key: string, meta: TripMetaData }[]> {
+        const trips: { key: string, meta: TripMetaData }[] = []
+        for await (const keys of this.client.scanIterator({ MATCH: `${TRIP_KEY_PREFIX}*`, COUNT: 500 })) {
+            for (const key of keys) {
+                const raw = await this.client.get(key)
+                if (typeof raw === 'string') trips.push({ key, meta: JSON.parse(raw) })
             }
-            tripRoute = matchedUserRoute + "::" + tripKey
+        }
+        return trips
+    }
 
-            await this.client.zAdd(this.POOL_KEY, [{ score: 0, value: tripRoute }]);
+    /** Drop a trip from Redis: its metadata and its pool entry. */
+    async removeTrip(tripId: string): Promise<void> {
+        const tripKey = tripKeyFor(tripId)
+        await this.removeTripFromPools(tripKey)
+        await this.client.del(tripKey)
+        console.log(`[Cleanup] Removed trip ${tripKey} from Redis`)
+    }
 
-            console.log(`Stored trip route under key: ${tripKey}`)
-        } catch (e) {
-            console.log('Error storing trip route:', e)
+    /**
+     * A cab has accepted the trip: if any rider on it asked for
+     * no_join_after_start, take the trip out of the pool so nobody else
+     * joins. True if it was closed.
+     */
+    async closeTripOnAssignment(tripId: string): Promise<boolean> {
+        const tripKey = tripKeyFor(tripId)
+        const raw = await this.client.get(tripKey)
+        if (typeof raw !== 'string') return false
+
+        const trip: TripMetaData = JSON.parse(raw)
+        const requester = trip.users
+            .map(entry => Object.entries(entry)[0]!)
+            .find(([, meta]) => meta.preferences?.no_join_after_start)
+        if (!requester) return false
+
+        await this.removeTripFromPools(tripKey)
+        console.log(`[Trips] ${tripKey} closed to new riders — ${requester[0]} asked for no joins after start`)
+        return true
+    }
+
+    private async removeTripFromPools(tripKey: string): Promise<void> {
+        for (const poolKey of airportRegistry.allPoolKeys()) {
+            const members = (await this.client.zRange(poolKey, 0, -1)).filter(member => member.split('::')[1] === tripKey)
+            if (members.length > 0) await this.client.zRem(poolKey, members)
         }
     }
 
-    private async storeTripMetaData(tripKey: string, tripMetaData: TripMetaData): Promise<void> {
-        try {
-            await this.client.set(tripKey, JSON.stringify(tripMetaData))
-            console.log(`Stored trip metadata under key: ${tripKey}`)
-        } catch (e) {
-            console.log('Error storing trip metadata:', e)
+    /**
+     * Write a trip that is not matched through the pool: one that exists in
+     * the database but not in Redis (reconciler), or a solo booking.
+     * With `routeIndexes` it goes back into the pool (it has seats left).
+     * No-op if the trip key already exists.
+     */
+    async restoreTrip(tripMetaData: TripMetaData, routeIndexes: string[] | null): Promise<boolean> {
+        const tripKey = tripKeyFor(tripMetaData.trip_id)
+
+        // Riders on a trip no longer wait on their own
+        for (const entry of tripMetaData.users) {
+            await this.removeUserFromPool(Object.keys(entry)[0]!)
+        }
+
+        const created = await this.client.set(tripKey, JSON.stringify(tripMetaData), { NX: true })
+        if (!created) return false
+
+        if (routeIndexes) {
+            await this.client.zAdd(tripMetaData.pool_key, [{ score: 0, value: `${this.getRouteString(routeIndexes)}::${tripKey}` }])
         }
+        console.log(`[Trips] Stored trip ${tripKey} in Redis`)
+        return true
+    }
+
+    // ── Pool expiry helpers (see matchExpiry.ts) ──
+
+    /** Every pool entry (riders and trips with spare seats) with its metadata. */
+    async listPoolEntries(): Promise<PoolEntry[]> {
+        const entries: PoolEntry[] = []
+        for (const poolKey of airportRegistry.allPoolKeys()) {
+            for (const member of await this.client.zRange(poolKey, 0, -1)) {
+                const key = member.split('::')[1]
+                if (!key) continue
+                const raw = await this.client.get(key)
+                entries.push({ pool_key: poolKey, member, key, raw: typeof raw === 'string' ? raw : null })
+            }
+        }
+        return entries
     }
 
     /**
-     * Removes a user's entries from the Redis pool entirely:
-     * 1. Scans the sorted set for any member whose `::userId` suffix matches.
+     * Act on a rider whose wait ran out: take them out of the pool
+     * (`update` = null) or replace their metadata in place. False if the
+     * entry changed since it was listed (matched, re-registered, gone).
+     */
+    async expireRider(entry: PoolEntry, update: PassengerMetaData | null): Promise<boolean> {
+        if (!entry.raw) return false
+        const result = await this.client.eval(EXPIRE_RIDER_SCRIPT, {
+            keys: [entry.pool_key, entry.key],
+            arguments: [
+                entry.member,
+                entry.raw,
+                update ? JSON.stringify(update) : '',
+                String(update ? metadataTtlSeconds(update) ?? POOL_ENTRY_GRACE_SECONDS : 0)
+            ]
+        }) as ExpiryStatus
+        return result === 'OK'
+    }
+
+    /** Drop one pool member — a trip closed to joiners, or a rider whose metadata expired. */
+    async removePoolMember(poolKey: string, member: string): Promise<boolean> {
+        return await this.client.zRem(poolKey, member) > 0
+    }
+
+    /**
+     * Removes a user's entries from the Redis pools entirely:
+     * 1. Scans every airport pool for any member whose `::userId` suffix matches.
      * 2. Removes the matching member(s) from the sorted set via ZREM.
      * 3. Deletes the user's metadata key.
      *
@@ -651,18 +829,20 @@ export class RedisPoolingService {
      */
     async removeUserFromPool(userId: string): Promise<void> {
         try {
-            // Scan the entire sorted set for members containing this userId
+            // Scan every pool sorted set for members containing this userId
             // Members are stored as `<routeString>::<userId>`
-            const allMembers = await this.client.zRange(this.POOL_KEY, 0, -1)
+            for (const poolKey of airportRegistry.allPoolKeys()) {
+                const allMembers = await this.client.zRange(poolKey, 0, -1)
 
-            const userMembers = allMembers.filter(member => {
-                const suffix = member.split('::')[1]
-                return suffix === userId
-            })
+                const userMembers = allMembers.filter(member => {
+                    const suffix = member.split('::')[1]
+                    return suffix === userId
+                })
 
-            if (userMembers.length > 0) {
-                await this.client.zRem(this.POOL_KEY, userMembers)
-                console.log(`[Cleanup] Removed ${userMembers.length} sorted-set entry(ies) for user: ${userId}`)
+                if (userMembers.length > 0) {
+                    await this.client.zRem(poolKey, userMembers)
+                    console.log(`[Cleanup] Removed ${userMembers.length} sorted-set entry(ies) for user: ${userId} from ${poolKey}`)
+                }
             }
 
             // Delete the user's metadata key
@@ -676,75 +856,85 @@ export class RedisPoolingService {
     /**
      * Removes a user from their trip's metadata stored in Redis.
      *
-     * 1. Scans the sorted set for TRIP members.
-     * 2. For each trip key, reads TripMetaData and checks if the user is
-     *    in the `users` array.
-     * 3. If found, removes the user entry, decrements totals, recalculates
-     *    the aggregate issued price, and writes the updated metadata back.
-     * 4. Calls `removeUserFromPool(userId)` for full route/metadata cleanup.
+     * 1. Reads the trip's TripMetaData (`TRIP<tripId>` — full trips are not
+     *    in any pool, so the trip is addressed by its id, not found by
+     *    scanning the pools) and checks the user is in the `users` array.
+     * 2. If found, removes the user entry, decrements totals, recalculates
+     *    the aggregate issued price, and writes the updated metadata back
+     *    with UPDATE_TRIP_SCRIPT (compare-and-set — re-read and retried if
+     *    a worker changed the trip in between). An emptied trip is deleted,
+     *    with its pool entry if it has one.
+     * 3. Calls `removeUserFromPool(userId)` for full route/metadata cleanup.
      *
-     * Safe to call even if the user has no trip entries (no-op).
+     * Returns true if the user was on the trip. Safe to call even if they
+     * are not (no-op).
      */
-    async removeUserFromTripMetadata(userId: string): Promise<void> {
+    async removeUserFromTripMetadata(userId: string, tripId: string): Promise<boolean> {
         try {
             // First, clean up the user's individual pool entries
             await this.removeUserFromPool(userId)
-
-            // Scan sorted set for TRIP members
-            const allMembers = await this.client.zRange(this.POOL_KEY, 0, -1)
-            const tripMembers = allMembers.filter(member => {
-                const suffix = member.split('::')[1]
-                return suffix?.startsWith('TRIP')
-            })
-
-            for (const tripMember of tripMembers) {
-                const tripKey = tripMember.split('::')[1]
-                if (!tripKey) continue
-
-                const tripDataRaw = await this.client.get(tripKey)
-                if (!tripDataRaw || typeof tripDataRaw !== 'string') continue
-
-                const tripData: TripMetaData = JSON.parse(tripDataRaw)
-
-                // Check if this user is part of this trip
-                const userIndex = tripData.users.findIndex(
-                    userEntry => userId in userEntry
-                )
-
-                if (userIndex === -1) continue
-
-                // Found the user's trip — extract their metadata before removal
-                const userMeta = tripData.users[userIndex][userId] as PassengerMetaData
-
-                // Remove the user from the trip's users array
-                tripData.users.splice(userIndex, 1)
-
-                // Recalculate trip aggregates
-                tripData.no_of_passengers = Math.max(0, tripData.no_of_passengers - userMeta.no_of_passengers)
-                tripData.luggage = Math.max(0, tripData.luggage - userMeta.luggage)
-
-                // Recalculate total issued price from remaining users
-                tripData.issued_price = tripData.users.reduce((sum, entry) => {
-                    const [, meta] = Object.entries(entry)[0]
-                    return sum + (meta as PassengerMetaData).issued_price
-                }, 0)
-
-                // If no users remain, clean up the trip from Redis entirely
-                if (tripData.users.length === 0) {
-                    await this.client.del(tripKey)
-                    await this.client.zRem(this.POOL_KEY, [tripMember])
-                    console.log(`[Cleanup] Removed empty trip ${tripKey} from Redis`)
-                } else {
-                    // Write updated trip metadata back to Redis
-                    await this.client.set(tripKey, JSON.stringify(tripData))
-                    console.log(`[Cleanup] Updated trip ${tripKey} — removed user ${userId}`)
-                }
-
-                // A user can only be in one trip, so we can stop scanning
-                break
-            }
+            return await this.removeUserFromTrip(userId, tripKeyFor(tripId))
         } catch (e) {
             console.error(`[Cleanup] Error removing user ${userId} from trip metadata:`, e)
+            return false
+        }
+    }
+
+    // Returns true if the user was on this trip (and has been removed)
+    private async removeUserFromTrip(userId: string, tripKey: string): Promise<boolean> {
+        for (let attempt = 1; attempt <= MATCH_CLAIM_RETRIES; attempt++) {
+            const tripDataRaw = await this.client.get(tripKey)
+            if (!tripDataRaw || typeof tripDataRaw !== 'string') return false
+
+            const tripData: TripMetaData = JSON.parse(tripDataRaw)
+
+            // Check if this user is part of this trip
+            const userIndex = tripData.users.findIndex(
+                userEntry => userId in userEntry
+            )
+
+            if (userIndex === -1) return false
+
+            // Found the user's trip — extract their metadata before removal
+            const userMeta = tripData.users[userIndex]![userId] as PassengerMetaData
+
+            // Remove the user from the trip's users array
+            tripData.users.splice(userIndex, 1)
+
+            // Recalculate trip aggregates
+            tripData.no_of_passengers = Math.max(0, tripData.no_of_passengers - userMeta.no_of_passengers)
+            tripData.luggage = Math.max(0, tripData.luggage - userMeta.luggage)
+
+            // Recalculate total issued price from remaining users
+            tripData.issued_price = tripData.users.reduce((sum, entry) => {
+                const [, meta] = Object.entries(entry)[0]!
+                return sum + (meta as PassengerMetaData).issued_price
+            }, 0)
+
+            // If no users remain, clean up the trip from Redis entirely
+            // (with its pool entry, if it still has seats listed);
+            // otherwise write the updated trip metadata back
+            const isEmpty = tripData.users.length === 0
+            const tripMember = isEmpty
+                ? (await this.client.zRange(tripData.pool_key, 0, -1)).find(member => member.split('::')[1] === tripKey) ?? ''
+                : ''
+            const result = await this.client.eval(UPDATE_TRIP_SCRIPT, {
+                keys: [tripKey, tripData.pool_key],
+                arguments: [tripDataRaw, isEmpty ? '' : JSON.stringify(tripData), tripMember]
+            }) as TripUpdateStatus
+
+            if (result === 'STALE') {
+                console.log(`[Cleanup] Trip ${tripKey} changed while removing ${userId} — retrying (${attempt}/${MATCH_CLAIM_RETRIES})`)
+                continue
+            }
+
+            console.log(isEmpty
+                ? `[Cleanup] Removed empty trip ${tripKey} from Redis`
+                : `[Cleanup] Updated trip ${tripKey} — removed user ${userId}`)
+            return true
         }
+
+        console.error(`[Cleanup] Gave up removing ${userId} from trip ${tripKey} after ${MATCH_CLAIM_RETRIES} conflicting attempts`)
+        return false
     }
 }
\ No newline at end of file
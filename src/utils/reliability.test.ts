@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { cancellationPolicy, isDeprioritised, reliabilityScore } from './reliability';
+
+const NOW = Date.parse('2026-04-05T10:00:00.000Z');
+const ago = (seconds: number) => new Date(NOW - seconds * 1000);
+
+describe('cancellationPolicy', () => {
+    test('is free shortly after the match', () => {
+        expect(cancellationPolicy('CANCELLED', ago(30), null, NOW)).toEqual({ policy: 'FREE_WINDOW', fee: 0 });
+    });
+
+    test('charges a late cancellation after the free window', () => {
+        const decision = cancellationPolicy('CANCELLED', ago(3600), null, NOW);
+        expect(decision.policy).toBe('LATE_CANCELLATION');
+        expect(decision.fee).toBeGreaterThan(0);
+    });
+
+    test('charges once a cab was assigned to a trip the rider was on', () => {
+        const decision = cancellationPolicy('CANCELLED', ago(30), ago(10), NOW);
+        expect(decision.policy).toBe('AFTER_CAB_ASSIGNED');
+        expect(decision.fee).toBeGreaterThan(cancellationPolicy('CANCELLED', ago(3600), null, NOW).fee);
+    });
+
+    test('does not charge for a cab assigned before the rider joined', () => {
+        expect(cancellationPolicy('CANCELLED', ago(30), ago(60), NOW).policy).toBe('FREE_WINDOW');
+        expect(cancellationPolicy('CANCELLED', ago(3600), ago(7200), NOW).policy).toBe('LATE_CANCELLATION');
+    });
+
+    test('charges a no-show whatever the timing', () => {
+        const decision = cancellationPolicy('NO_SHOW', ago(30), null, NOW);
+        expect(decision.policy).toBe('NO_SHOW');
+        expect(decision.fee).toBeGreaterThan(0);
+        expect(cancellationPolicy('NO_SHOW', ago(30), ago(60), NOW).policy).toBe('NO_SHOW');
+    });
+
+    test('never charges an admin removal', () => {
+        expect(cancellationPolicy('ADMIN', ago(3600), ago(10), NOW)).toEqual({ policy: 'ADMIN_REMOVED', fee: 0 });
+    });
+});
+
+describe('reliabilityScore', () => {
+    test('starts a new rider at 100', () => {
+        expect(reliabilityScore(0, {})).toBe(100);
+    });
+
+    test('weighs penalties against completed rides', () => {
+        // (5 rides + 5 prior) / (10 + 1 late cancellation)
+        expect(reliabilityScore(5, { LATE_CANCELLATION: 1 })).toBe(91);
+        // (0 + 5 prior) / (5 + 3 no-shows × 2)
+        expect(reliabilityScore(0, { NO_SHOW: 3 })).toBe(45);
+    });
+
+    test('holds no-shows against a rider more than cancellations', () => {
+        expect(reliabilityScore(2, { NO_SHOW: 1 })).toBeLessThan(reliabilityScore(2, { AFTER_CAB_ASSIGNED: 1 }));
+        expect(reliabilityScore(2, { AFTER_CAB_ASSIGNED: 1 })).toBeLessThan(reliabilityScore(2, { LATE_CANCELLATION: 1 }));
+        expect(reliabilityScore(2, { LATE_CANCELLATION: 1 })).toBeLessThan(reliabilityScore(2, { FREE_WINDOW: 1 }));
+    });
+
+    test('ignores admin removals', () => {
+        expect(reliabilityScore(0, { ADMIN_REMOVED: 10 })).toBe(100);
+    });
+
+    test('recovers with completed rides', () => {
+        expect(reliabilityScore(20, { NO_SHOW: 3 })).toBeGreaterThan(reliabilityScore(0, { NO_SHOW: 3 }));
+    });
+});
+
+describe('isDeprioritised', () => {
+    test('tries chronic cancellers last', () => {
+        expect(isDeprioritised(reliabilityScore(0, { NO_SHOW: 3 }))).toBe(true);
+        expect(isDeprioritised(100)).toBe(false);
+    });
+
+    test('does not hold an unknown score against anyone', () => {
+        expect(isDeprioritised(undefined)).toBe(false);
+    });
+});
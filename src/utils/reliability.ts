@@ -0,0 +1,154 @@
+import { prisma } from '../../lib/prisma';
+import type { Penalties } from '../../generated/prisma/client';
+import type { RemovalCause } from './tripCancellation';
+
+/**
+ * reliability.ts
+ *
+ * Cancellation policies, the penalty ledger and the rider reliability score.
+ *
+ * Every removal from a trip (see tripCancellation.ts) is recorded in the
+ * Penalties ledger under the policy that applied:
+ *
+ *   FREE_WINDOW         cancelled within CANCEL_FREE_WINDOW_SECONDS of the
+ *                       match, before a cab was assigned — no fee
+ *   LATE_CANCELLATION   cancelled after the free window, no cab yet
+ *                       — LATE_CANCELLATION_FEE
+ *   AFTER_CAB_ASSIGNED  cancelled once a driver accepted the trip the rider
+ *                       was already on — ASSIGNED_CANCELLATION_FEE (a rider
+ *                       who joined after the cab falls under the two above)
+ *   NO_SHOW             missed the boarding deadline (see boarding.ts)
+ *                       — NO_SHOW_FEE
+ *   ADMIN_REMOVED       taken off the trip by an admin (see adminOps.ts)
+ *                       — no fee, not held against the score
+ *
+ * The reliability score (0–100) weighs the penalties of the last
+ * RELIABILITY_WINDOW_DAYS against the rides completed in that time; a new
+ * rider starts at 100. It travels with the rider's pool metadata, and the
+ * matcher tries riders scoring below RELIABILITY_DEPRIORITISE_BELOW after
+ * everyone else (see redisCaching.ts).
+ */
+
+const CANCEL_FREE_WINDOW_SECONDS = Number(process.env.CANCEL_FREE_WINDOW_SECONDS) || 120;
+const LATE_CANCELLATION_FEE = Number(process.env.LATE_CANCELLATION_FEE) || 30;
+const ASSIGNED_CANCELLATION_FEE = Number(process.env.ASSIGNED_CANCELLATION_FEE) || 60;
+const NO_SHOW_FEE = Number(process.env.NO_SHOW_FEE) || 100;
+const RELIABILITY_WINDOW_DAYS = Number(process.env.RELIABILITY_WINDOW_DAYS) || 90;
+const RELIABILITY_DEPRIORITISE_BELOW = Number(process.env.RELIABILITY_DEPRIORITISE_BELOW) || 60;
+
+export type PenaltyPolicy = 'FREE_WINDOW' | 'LATE_CANCELLATION' | 'AFTER_CAB_ASSIGNED' | 'NO_SHOW' | 'ADMIN_REMOVED';
+
+export interface PenaltyDecision {
+    policy: PenaltyPolicy;
+    fee: number;
+}
+
+export interface ReliabilityScore {
+    score: number;
+    deprioritised: boolean;
+    completed_rides: number;
+    cancellations: number;
+    no_shows: number;
+    window_days: number;
+}
+
+// How much each policy counts against the score; completed rides count 1
+// each, and PRIOR_RIDES keeps one early cancellation from sinking a new rider
+const POLICY_WEIGHTS: Record<PenaltyPolicy, number> = {
+    FREE_WINDOW: 0.25,
+    LATE_CANCELLATION: 1,
+    AFTER_CAB_ASSIGNED: 1.5,
+    NO_SHOW: 2,
+    ADMIN_REMOVED: 0
+};
+const PRIOR_RIDES = 5;
+
+/**
+ * The policy (and fee) for leaving a trip matched at `matchedAt`, whose cab
+ * (if any) was assigned at `cabAssignedAt`.
+ */
+export function cancellationPolicy(cause: RemovalCause, matchedAt: Date, cabAssignedAt: Date | null, now: number = Date.now()): PenaltyDecision {
+    if (cause === 'NO_SHOW') return { policy: 'NO_SHOW', fee: NO_SHOW_FEE };
+    if (cause === 'ADMIN') return { policy: 'ADMIN_REMOVED', fee: 0 };
+    if (cabAssignedAt && cabAssignedAt.getTime() >= matchedAt.getTime()) {
+        return { policy: 'AFTER_CAB_ASSIGNED', fee: ASSIGNED_CANCELLATION_FEE };
+    }
+    if (now - matchedAt.getTime() <= CANCEL_FREE_WINDOW_SECONDS * 1000) {
+        return { policy: 'FREE_WINDOW', fee: 0 };
+    }
+    return { policy: 'LATE_CANCELLATION', fee: LATE_CANCELLATION_FEE };
+}
+
+/** The score (0–100) for the rides completed and the penalties (by policy) in the same window. */
+export function reliabilityScore(completedRides: number, penalties: Partial<Record<PenaltyPolicy, number>>): number {
+    const weighted = (Object.keys(POLICY_WEIGHTS) as PenaltyPolicy[])
+        .reduce((sum, policy) => sum + (penalties[policy] ?? 0) * POLICY_WEIGHTS[policy], 0);
+    return Math.round(100 * (completedRides + PRIOR_RIDES) / (completedRides + PRIOR_RIDES + weighted));
+}
+
+/** Whether the matcher should try this rider last. Unknown scores are not held against anyone. */
+export function isDeprioritised(score: number | undefined): boolean {
+    return score !== undefined && score < RELIABILITY_DEPRIORITISE_BELOW;
+}
+
+export class ReliabilityService {
+    private static instance: ReliabilityService;
+
+    private constructor() { }
+
+    static getInstance(): ReliabilityService {
+        if (!ReliabilityService.instance) {
+            ReliabilityService.instance = new ReliabilityService();
+        }
+        return ReliabilityService.instance;
+    }
+
+    /** Ledger entry for a removal — an operation for the caller's transaction. */
+    charge(userId: string, tripId: string, decision: PenaltyDecision) {
+        return prisma.penalties.create({
+            data: { user_id: userId, trip_id: tripId, policy: decision.policy, fee: decision.fee }
+        });
+    }
+
+    async score(userId: string): Promise<ReliabilityScore> {
+        const since = this.windowStart();
+        const [completed, penalties] = await Promise.all([
+            prisma.rideRequests.count({
+                where: { user_id: userId, status: 'COMPLETED', joined_at: { gte: since } }
+            }),
+            prisma.penalties.groupBy({
+                by: ['policy'],
+                where: { user_id: userId, created_at: { gte: since } },
+                _count: { _all: true }
+            })
+        ]);
+
+        const countOf = (policy: PenaltyPolicy) => penalties.find((row) => row.policy === policy)?._count._all ?? 0;
+        const score = reliabilityScore(completed, Object.fromEntries(
+            (Object.keys(POLICY_WEIGHTS) as PenaltyPolicy[]).map((policy) => [policy, countOf(policy)])
+        ));
+
+        return {
+            score,
+            deprioritised: isDeprioritised(score),
+            completed_rides: completed,
+            cancellations: countOf('FREE_WINDOW') + countOf('LATE_CANCELLATION') + countOf('AFTER_CAB_ASSIGNED'),
+            no_shows: countOf('NO_SHOW'),
+            window_days: RELIABILITY_WINDOW_DAYS
+        };
+    }
+
+    /** The rider's penalties, newest first (all of them — the score only looks at the window). */
+    history(userId: string): Promise<Penalties[]> {
+        return prisma.penalties.findMany({
+            where: { user_id: userId },
+            orderBy: { created_at: 'desc' }
+        });
+    }
+
+    private windowStart(): Date {
+        return new Date(Date.now() - RELIABILITY_WINDOW_DAYS * 86_400_000);
+    }
+}
+
+export const reliability = ReliabilityService.getInstance();
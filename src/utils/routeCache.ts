@@ -0,0 +1,133 @@
+import { createClient, type RedisClientType } from 'redis';
+import { latLngToCell } from 'h3-js';
+import {
+    routingProvider,
+    type LatLng,
+    type RouteResult,
+    type RoutingProvider
+} from '../rideMatching/routingProvider';
+
+export interface RouteCacheStats {
+    hits: number;
+    misses: number;
+    hitRate: number;
+}
+
+/**
+ * RouteCacheService — Redis-backed cache in front of the routing provider.
+ *
+ * Routes are keyed by the origin and destination H3 cells at the matching
+ * resolution, so repeat destinations (REGISTER_RIDE from the airport) and
+ * repeat split-point → destination pairs (detour checks) are served from
+ * Redis instead of the network. Hit/miss counters live in a Redis hash so
+ * they aggregate across the main thread and every worker thread.
+ *
+ * Implements RoutingProvider, so callers can use it as a drop-in replacement.
+ * If Redis is unavailable, requests fall through to the provider uncached.
+ */
+export class RouteCacheService implements RoutingProvider {
+    private static instance: RouteCacheService;
+
+    private client: RedisClientType;
+    private isConnected: boolean = false;
+
+    private readonly KEY_PREFIX = 'route:cache:';
+    private readonly STATS_KEY = 'route:cache:stats';
+    private readonly TTL_SECONDS = Number(process.env.ROUTE_CACHE_TTL_SECONDS) || 7 * 24 * 60 * 60;
+    private readonly RESOLUTION = Number(process.env.ROUTE_CACHE_RESOLUTION) || 8; // Same as H3_RESOLUTION used for matching
+
+    private constructor(private readonly provider: RoutingProvider) {
+        this.client = createClient({ url: process.env.REDIS_URL || 'redis://localhost:6379' });
+        this.client.on('error', (err) => console.error('Redis Route Cache Error:', err));
+    }
+
+    static getInstance(): RouteCacheService {
+        if (!RouteCacheService.instance) {
+            RouteCacheService.instance = new RouteCacheService(routingProvider);
+        }
+        return RouteCacheService.instance;
+    }
+
+    get name(): string {
+        return `cached:${this.provider.name}`;
+    }
+
+    async connect(): Promise<void> {
+        if (this.isConnected) return;
+
+        await this.client.connect();
+        this.isConnected = true;
+        console.log('Redis route cache connected');
+    }
+
+    async disconnect(): Promise<void> {
+        if (!this.isConnected) return;
+
+        await this.client.quit();
+        this.isConnected = false;
+        console.log('Redis route cache disconnected');
+    }
+
+    /**
+     * Cache key: provider + origin cell + destination cell.
+     * The provider name is part of the key so switching ROUTING_PROVIDER
+     * never serves routes computed by a different backend.
+     */
+    private getCacheKey(origin: LatLng, destination: LatLng): string {
+        const originCell = latLngToCell(origin.lat, origin.lng, this.RESOLUTION);
+        const destinationCell = latLngToCell(destination.lat, destination.lng, this.RESOLUTION);
+        return `${this.KEY_PREFIX}${this.provider.name}:${originCell}:${destinationCell}`;
+    }
+
+    async computeRoute(origin: LatLng, destination: LatLng): Promise<RouteResult> {
+        if (!this.isConnected) {
+            return this.provider.computeRoute(origin, destination);
+        }
+
+        const key = this.getCacheKey(origin, destination);
+
+        try {
+            const cached = await this.client.get(key);
+            if (typeof cached === 'string' && cached) {
+                await this.client.hIncrBy(this.STATS_KEY, 'hits', 1);
+                return JSON.parse(cached) as RouteResult;
+            }
+        } catch (err) {
+            // A broken cache must never break routing — fall through to the provider
+            console.error(`[RouteCache] Read failed for ${key}:`, err);
+        }
+
+        const route = await this.provider.computeRoute(origin, destination);
+
+        try {
+            await this.client.set(key, JSON.stringify(route), { EX: this.TTL_SECONDS });
+            await this.client.hIncrBy(this.STATS_KEY, 'misses', 1);
+        } catch (err) {
+            console.error(`[RouteCache] Write failed for ${key}:`, err);
+        }
+
+        return route;
+    }
+
+    /**
+     * Aggregate hit/miss counters across all threads.
+     */
+    async getStats(): Promise<RouteCacheStats> {
+        if (!this.isConnected) {
+            return { hits: 0, misses: 0, hitRate: 0 };
+        }
+
+        const stats = await this.client.hGetAll(this.STATS_KEY);
+        const hits = Number(stats.hits ?? 0);
+        const misses = Number(stats.misses ?? 0);
+        const total = hits + misses;
+
+        return {
+            hits,
+            misses,
+            hitRate: total === 0 ? 0 : Number((hits / total).toFixed(4))
+        };
+    }
+}
+
+export const routeCache = RouteCacheService.getInstance();
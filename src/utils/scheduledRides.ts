@@ -0,0 +1,492 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../../lib/prisma';
+import type { ScheduledRides } from '../../generated/prisma/client';
+import { pubSubService } from './pubsub';
+import { driverDispatch } from './driverDispatch';
+import { airportRegistry, AirportError } from './airports';
+import { fleetCapacity, smallestFit, type CabCapacity } from './fleet';
+import { matchExpiry, waitTerms, MATCH_MAX_WAIT_SECONDS } from './matchExpiry';
+import { flightStatusProvider, flightCode } from './flightStatus';
+import { redisService } from './redisClient';
+import { TRIP_KEY_PREFIX, type PassengerMetaData } from './redisCaching';
+import { fareEngine, type FareBreakdown } from '../pricing/fareEngine';
+import { fromStored } from '../rideMatching/preferences';
+import { reliability } from './reliability';
+import { generateH3IndexesForRoute } from '../rideMatching/demo';
+import type { ScheduleRideRequest } from '../validation/requests';
+import { rideMatchingPool } from '../../index';
+
+/**
+ * scheduledRides.ts
+ *
+ * Pre-booked pickups for a future flight arrival (`POST /scheduled-rides`).
+ * The solo fare is locked at booking, priced for the arrival time. Every
+ * SCHEDULE_SWEEP_INTERVAL_SECONDS the main thread looks at bookings
+ * landing within PREMATCH_HORIZON_MINUTES:
+ *
+ *   1. Flight status (see flightStatus.ts) → a delay shifts the booking's
+ *      estimated arrival, and with it its release (FLIGHT_UPDATED); a
+ *      cancelled flight cancels the booking.
+ *   2. Pre-matching → bookings in the same pool whose arrivals fall within
+ *      ARRIVAL_WINDOW_MINUTES of each other, whose routes start the same
+ *      way (first SCHEDULE_ROUTE_PREFIX_CELLS H3 cells) and who fit one cab
+ *      type together share a `prematch_group` (SCHEDULED_RIDE_PREMATCHED).
+ *   3. Release → SCHEDULED_RELEASE_MINUTES before the estimated arrival the
+ *      booking enters the matching pool like a REGISTER_RIDE, waiting until
+ *      MATCH_MAX_WAIT_SECONDS after landing. A pre-matched group is released
+ *      together, at its earliest member's time, so its riders find each
+ *      other in the pool. A released booking waits there without a socket
+ *      (the rider is reached over PubSub; a socket closing leaves it in).
+ *   4. Settle → a released booking whose rider got a ride request since the
+ *      release is MATCHED; one whose rider left the pool without one is
+ *      EXPIRED once its wait (plus RELEASED_GRACE_MINUTES, time to accept a
+ *      solo offer) is over (SCHEDULED_RIDE_EXPIRED).
+ */
+
+const SCHEDULE_SWEEP_INTERVAL_SECONDS = Number(process.env.SCHEDULE_SWEEP_INTERVAL_SECONDS) || 60;
+const SCHEDULED_RELEASE_MINUTES = Number(process.env.SCHEDULED_RELEASE_MINUTES) || 30;
+const ARRIVAL_WINDOW_MINUTES = Number(process.env.ARRIVAL_WINDOW_MINUTES) || 20;
+const PREMATCH_HORIZON_MINUTES = Number(process.env.PREMATCH_HORIZON_MINUTES) || 180;
+const RELEASED_GRACE_MINUTES = Number(process.env.RELEASED_GRACE_MINUTES) || 5;
+const SCHEDULE_ROUTE_PREFIX_CELLS = 10; // as the quote's "on route" estimate
+const MAX_BOOKING_DAYS_AHEAD = 30;
+
+export class ScheduleError extends Error {
+    constructor(message: string, readonly status: number = 400) {
+        super(message);
+        this.name = 'ScheduleError';
+    }
+}
+
+export interface ScheduleReport {
+    flights_updated: number;
+    cancelled: number;
+    prematched: number;
+    released: number;
+    matched: number;
+    expired: number;
+}
+
+/** When a booking enters the matching pool. */
+export function releaseAt(estimatedArrival: Date): Date {
+    return new Date(estimatedArrival.getTime() - SCHEDULED_RELEASE_MINUTES * 60_000);
+}
+
+export class ScheduledRideService {
+    private static instance: ScheduledRideService;
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running: boolean = false;
+
+    private constructor() { }
+
+    static getInstance(): ScheduledRideService {
+        if (!ScheduledRideService.instance) {
+            ScheduledRideService.instance = new ScheduledRideService();
+        }
+        return ScheduledRideService.instance;
+    }
+
+    start(): void {
+        this.timer = setInterval(() => this.runOnce(), SCHEDULE_SWEEP_INTERVAL_SECONDS * 1000);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // ── Bookings ──
+
+    /**
+     * Book a pickup for a flight arrival. Throws AirportError for an
+     * unknown airport / terminal and ScheduleError for an unusable flight.
+     */
+    async book(userId: string, input: ScheduleRideRequest): Promise<ScheduledRides> {
+        const pickup = airportRegistry.resolve(input.airport_code, input.terminal_code);
+        const scheduledArrival = new Date(input.scheduled_arrival);
+
+        if (scheduledArrival.getTime() <= Date.now()) {
+            throw new ScheduleError('scheduled_arrival must be in the future');
+        }
+        if (scheduledArrival.getTime() > Date.now() + MAX_BOOKING_DAYS_AHEAD * 86_400_000) {
+            throw new ScheduleError(`Pickups can be booked at most ${MAX_BOOKING_DAYS_AHEAD} days ahead`);
+        }
+
+        const flight = await flightStatusProvider.lookup(input.flight_number, scheduledArrival);
+        if (flight?.status === 'CANCELLED') {
+            throw new ScheduleError(`Flight ${flightCode(input.flight_number)} is cancelled`);
+        }
+        const estimatedArrival = flight?.estimated_arrival ?? scheduledArrival;
+
+        const route = await generateH3IndexesForRoute({
+            latitude: input.latitude,
+            longitude: input.longitude
+        }, { origin: pickup.terminal.pickup });
+
+        const fare = fareEngine.soloFare({
+            airport_code: pickup.airport.code,
+            distance_km: route.totalDistanceKm,
+            duration_seconds: route.durationSeconds,
+            luggage: input.luggage,
+            at: estimatedArrival
+        });
+
+        return prisma.scheduledRides.create({
+            data: {
+                user_id: userId,
+                flight_number: flightCode(input.flight_number),
+                scheduled_arrival: scheduledArrival,
+                estimated_arrival: estimatedArrival,
+                flight_status: flight?.status ?? 'SCHEDULED',
+                airport_code: pickup.airport.code,
+                terminal_code: pickup.terminal.code,
+                no_of_passengers: input.no_of_passengers,
+                luggage: input.luggage,
+                latitude: input.latitude,
+                longitude: input.longitude,
+                route_prefix: route.pathH3Indexes.slice(0, SCHEDULE_ROUTE_PREFIX_CELLS).join(''),
+                fare_breakdown: fare
+            }
+        });
+    }
+
+    /** The rider's upcoming (not yet released) and released bookings, soonest first. */
+    async list(userId: string): Promise<ScheduledRides[]> {
+        return prisma.scheduledRides.findMany({
+            where: { user_id: userId, status: { in: ['SCHEDULED', 'RELEASED'] } },
+            orderBy: { estimated_arrival: 'asc' }
+        });
+    }
+
+    /** True if the rider has a booking waiting in the matching pool — it outlives their socket. */
+    async hasReleased(userId: string): Promise<boolean> {
+        return await prisma.scheduledRides.count({ where: { user_id: userId, status: 'RELEASED' } }) > 0;
+    }
+
+    /**
+     * Cancel a booking. A released one is taken out of the matching pool —
+     * unless it has been matched already (cancel the trip instead).
+     */
+    async cancel(userId: string, bookingId: string): Promise<ScheduledRides> {
+        const ride = await prisma.scheduledRides.findUnique({ where: { id: bookingId } });
+        if (!ride || ride.user_id !== userId) throw new ScheduleError('Scheduled ride not found', 404);
+        if (ride.status === 'CANCELLED') throw new ScheduleError('Scheduled ride is already cancelled', 409);
+        if (ride.status === 'MATCHED') {
+            throw new ScheduleError('Already matched — cancel the trip with POST /cancel-ride/cancel', 409);
+        }
+        if (ride.status === 'EXPIRED') throw new ScheduleError('Scheduled ride has expired', 409);
+
+        if (ride.status === 'RELEASED') {
+            if (await matchExpiry.hasWaitingTrip(userId)) {
+                throw new ScheduleError('Already matched — cancel the trip with POST /cancel-ride/cancel', 409);
+            }
+            await rideMatchingPool.execute({ type: 'REMOVE_USER', payload: { userId } });
+        }
+
+        return prisma.scheduledRides.update({
+            where: { id: ride.id },
+            data: { status: 'CANCELLED', prematch_group: null }
+        });
+    }
+
+    // ── Scheduler ──
+
+    private async runOnce(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        try {
+            const report = await this.sweep();
+            if (Object.values(report).some((count) => count > 0)) {
+                console.log('[Schedule] Swept:', report);
+            }
+        } catch (error) {
+            console.error('[Schedule] Sweep failed:', error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    async sweep(): Promise<ScheduleReport> {
+        const report: ScheduleReport = { flights_updated: 0, cancelled: 0, prematched: 0, released: 0, matched: 0, expired: 0 };
+        const now = Date.now();
+
+        await this.settle(now, report);
+
+        const upcoming = await prisma.scheduledRides.findMany({
+            where: { status: 'SCHEDULED', estimated_arrival: { lt: new Date(now + PREMATCH_HORIZON_MINUTES * 60_000) } },
+            orderBy: { estimated_arrival: 'asc' }
+        });
+
+        // ── Flight status: delays move the arrival window ──
+        const active: ScheduledRides[] = [];
+        for (const ride of upcoming) {
+            const flight = await flightStatusProvider.lookup(ride.flight_number, ride.scheduled_arrival)
+                .catch((err) => {
+                    console.error(`[Schedule] Flight status lookup failed for ${ride.flight_number}:`, err);
+                    return null;
+                });
+
+            if (flight?.status === 'CANCELLED') {
+                await this.cancelBooking(ride, `Flight ${ride.flight_number} was cancelled`);
+                report.cancelled++;
+                continue;
+            }
+
+            if (flight && (flight.status !== ride.flight_status || flight.estimated_arrival.getTime() !== ride.estimated_arrival.getTime())) {
+                const updated = await prisma.scheduledRides.update({
+                    where: { id: ride.id },
+                    data: { flight_status: flight.status, estimated_arrival: flight.estimated_arrival }
+                });
+                this.notify(ride.user_id, {
+                    type: 'FLIGHT_UPDATED',
+                    booking_id: ride.id,
+                    flight_number: ride.flight_number,
+                    flight_status: flight.status,
+                    scheduled_arrival: ride.scheduled_arrival.toISOString(),
+                    estimated_arrival: flight.estimated_arrival.toISOString(),
+                    release_at: releaseAt(flight.estimated_arrival).toISOString()
+                });
+                report.flights_updated++;
+                active.push(updated);
+                continue;
+            }
+            active.push(ride);
+        }
+
+        // ── Pre-match, then release whatever is due ──
+        const groups = await this.prematch(active, report);
+        for (const group of groups) {
+            const due = Math.min(...group.map((ride) => releaseAt(ride.estimated_arrival).getTime()));
+            if (due > now) continue;
+
+            for (const ride of group) {
+                if (await this.release(ride)) report.released++;
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Close out released bookings: MATCHED once the rider has a ride request
+     * from after the release (a match, or an accepted solo offer), EXPIRED
+     * once they are out of the pool without one and the wait is over.
+     */
+    private async settle(now: number, report: ScheduleReport): Promise<void> {
+        const released = await prisma.scheduledRides.findMany({ where: { status: 'RELEASED' } });
+        if (released.length === 0) return;
+
+        const waiting = new Set((await redisService.listPoolEntries())
+            .filter((entry) => !entry.key.startsWith(TRIP_KEY_PREFIX))
+            .map((entry) => entry.key));
+
+        for (const ride of released) {
+            const matched = await prisma.rideRequests.count({
+                where: { user_id: ride.user_id, joined_at: { gte: ride.released_at ?? ride.created_at } }
+            }) > 0;
+            if (matched) {
+                await prisma.scheduledRides.updateMany({ where: { id: ride.id, status: 'RELEASED' }, data: { status: 'MATCHED' } });
+                report.matched++;
+                continue;
+            }
+
+            const waitOver = ride.estimated_arrival.getTime() + (MATCH_MAX_WAIT_SECONDS + RELEASED_GRACE_MINUTES * 60) * 1000;
+            if (waiting.has(ride.user_id) || waitOver > now) continue;
+
+            const expired = await prisma.scheduledRides.updateMany({ where: { id: ride.id, status: 'RELEASED' }, data: { status: 'EXPIRED' } });
+            if (expired.count === 0) continue;
+            this.notify(ride.user_id, {
+                type: 'SCHEDULED_RIDE_EXPIRED',
+                booking_id: ride.id,
+                flight_number: ride.flight_number,
+                message: 'No ride was found for your pre-booked pickup — send REGISTER_RIDE to look again.'
+            });
+            report.expired++;
+        }
+    }
+
+    /**
+     * Group the bookings that should travel together. Recomputed every
+     * sweep (so a delay can move a rider out of their group); riders whose
+     * group changed are told. Returns every booking, grouped — singletons
+     * included.
+     */
+    private async prematch(rides: ScheduledRides[], report: ScheduleReport): Promise<ScheduledRides[][]> {
+        const cabTypes: CabCapacity[] = fleetCapacity.listCabTypes().map((type) => ({
+            cab_type: type.code,
+            passengers: type.max_passengers,
+            luggage: type.max_luggage,
+            cabs: 0
+        }));
+
+        // Only riders in the same pool, heading out the same way, can be grouped
+        const buckets = new Map<string, ScheduledRides[]>();
+        const groups: ScheduledRides[][] = [];
+        for (const ride of rides) {
+            let poolKey: string;
+            try {
+                poolKey = airportRegistry.resolve(ride.airport_code, ride.terminal_code).poolKey;
+            } catch (err) {
+                if (!(err instanceof AirportError)) throw err;
+                groups.push([ride]);
+                continue;
+            }
+            const key = `${poolKey}|${ride.route_prefix}`;
+            buckets.set(key, [...(buckets.get(key) ?? []), ride]);
+        }
+
+        // Earliest arrival first: a group takes everyone landing within the
+        // window of its first rider, while they fit one cab type
+        for (const bucket of buckets.values()) {
+            let group: ScheduledRides[] = [];
+            for (const ride of bucket) {
+                const first = group[0];
+                const fits = first
+                    && ride.estimated_arrival.getTime() - first.estimated_arrival.getTime() <= ARRIVAL_WINDOW_MINUTES * 60_000
+                    && smallestFit(
+                        cabTypes,
+                        group.reduce((sum, r) => sum + r.no_of_passengers, ride.no_of_passengers),
+                        group.reduce((sum, r) => sum + r.luggage, ride.luggage)
+                    );
+                if (fits) {
+                    group.push(ride);
+                } else {
+                    if (group.length > 0) groups.push(group);
+                    group = [ride];
+                }
+            }
+            if (group.length > 0) groups.push(group);
+        }
+
+        for (const group of groups) {
+            // Keep an existing group id when the group carries on
+            const groupId = group.length < 2 ? null
+                : group.find((ride) => ride.prematch_group)?.prematch_group ?? randomUUID();
+            for (const ride of group) {
+                if (ride.prematch_group === groupId) continue;
+
+                await prisma.scheduledRides.update({ where: { id: ride.id }, data: { prematch_group: groupId } });
+                ride.prematch_group = groupId;
+                if (groupId) report.prematched++;
+
+                this.notify(ride.user_id, {
+                    type: 'SCHEDULED_RIDE_PREMATCHED',
+                    booking_id: ride.id,
+                    prematch_group: groupId,
+                    co_riders: group.length - 1,
+                    release_at: releaseAt(new Date(Math.min(...group.map((r) => r.estimated_arrival.getTime())))).toISOString(),
+                    message: groupId
+                        ? `${group.length - 1} other rider(s) land around the same time heading your way — you enter the matching pool together.`
+                        : 'Your pre-match no longer fits your arrival time — you will be matched on landing.'
+                });
+            }
+        }
+
+        return groups;
+    }
+
+    // Put a booking into the matching pool, as REGISTER_RIDE would
+    private async release(ride: ScheduledRides): Promise<boolean> {
+        // Claimed first, so a slow release is never repeated by the next sweep
+        const claimed = await prisma.scheduledRides.updateMany({
+            where: { id: ride.id, status: 'SCHEDULED' },
+            data: { status: 'RELEASED', released_at: new Date() }
+        });
+        if (claimed.count === 0) return false;
+
+        // Once MATCH_RIDE is queued the rider may be in the pool whatever the outcome
+        let queued = false;
+        try {
+            if (await matchExpiry.hasWaitingTrip(ride.user_id)) {
+                await this.cancelBooking(ride, 'You are already on a trip — the scheduled pickup was cancelled');
+                return false;
+            }
+
+            const user = await prisma.users.findUnique({ where: { id: ride.user_id } });
+            if (!user) {
+                await this.cancelBooking(ride, 'User not found');
+                return false;
+            }
+
+            const { airport, terminal, poolKey } = airportRegistry.resolve(ride.airport_code, ride.terminal_code);
+            const route = await generateH3IndexesForRoute({
+                latitude: ride.latitude,
+                longitude: ride.longitude
+            }, { origin: terminal.pickup });
+
+            // Waits for a co-rider until the usual max wait after landing
+            const untilLanding = Math.max(0, Math.round((ride.estimated_arrival.getTime() - Date.now()) / 1000));
+            const fare = ride.fare_breakdown as unknown as FareBreakdown;
+            const userMetaData: PassengerMetaData = {
+                no_of_passengers: ride.no_of_passengers,
+                destination_h3: route.destinationH3,
+                luggage: ride.luggage,
+                status: 'WAITING',
+                issued_price: fare.total,
+                fare,
+                airport_code: airport.code,
+                terminal_code: terminal.code,
+                pool_key: poolKey,
+                ...waitTerms(MATCH_MAX_WAIT_SECONDS + untilLanding),
+                gender: user.gender,
+                age: user.age,
+                preferences: fromStored(user),
+                reliability: (await reliability.score(user.id)).score
+            };
+
+            queued = true;
+            const matches = await rideMatchingPool.execute<{ match_type: string, trip?: any }>({
+                type: 'MATCH_RIDE',
+                payload: { userId: ride.user_id, routeIndexes: route.pathH3Indexes, userMetaData }
+            });
+
+            this.notify(ride.user_id, {
+                type: 'SCHEDULED_RIDE_RELEASED',
+                booking_id: ride.id,
+                flight_number: ride.flight_number,
+                estimated_arrival: ride.estimated_arrival.toISOString(),
+                airport_code: airport.code,
+                terminal_code: terminal.code,
+                fare,
+                expires_at: userMetaData.expires_at,
+                message: 'Your pre-booked pickup is now in the matching pool.'
+            });
+
+            if (matches.match_type !== 'NONE') {
+                // Nobody's socket is waiting on this task — reach the rider via PubSub
+                this.notify(ride.user_id, { type: 'RIDE_MATCHED', ...matches });
+                if (matches.trip?.id) {
+                    driverDispatch.dispatchTrip(matches.trip.id)
+                        .catch((err) => console.error(`[Schedule] Failed to dispatch trip ${matches.trip.id}:`, err));
+                }
+            }
+            return true;
+        } catch (error) {
+            console.error(`[Schedule] Release of booking ${ride.id} failed:`, error);
+            // Try again on the next sweep — only if the pool was never touched;
+            // otherwise it stays RELEASED and is settled like any other
+            if (!queued) {
+                await prisma.scheduledRides.update({ where: { id: ride.id }, data: { status: 'SCHEDULED', released_at: null } });
+            }
+            return queued;
+        }
+    }
+
+    private async cancelBooking(ride: ScheduledRides, reason: string): Promise<void> {
+        await prisma.scheduledRides.update({ where: { id: ride.id }, data: { status: 'CANCELLED', prematch_group: null } });
+        this.notify(ride.user_id, {
+            type: 'SCHEDULED_RIDE_CANCELLED',
+            booking_id: ride.id,
+            flight_number: ride.flight_number,
+            message: reason
+        });
+    }
+
+    private notify(userId: string, message: object): void {
+        pubSubService.publish(userId, message)
+            .catch((err) => console.error(`[Schedule] ${(message as { type: string }).type} notification failed for ${userId}:`, err));
+    }
+}
+
+export const scheduledRides = ScheduledRideService.getInstance();
@@ -0,0 +1,97 @@
+import { createClient, type RedisClientType } from 'redis';
+import { randomUUID } from 'crypto';
+import type { PassengerMetaData } from './redisCaching';
+
+/**
+ * soloOffers.ts
+ *
+ * Solo cab offers made to riders whose wait for a co-rider timed out
+ * (SOLO_OFFER, see matchExpiry.ts). The offer keeps the rider's pool
+ * metadata — their solo fare breakdown included — for SOLO_OFFER_TTL_SECONDS;
+ * ACCEPT_SOLO_OFFER books a one-rider trip at that fare.
+ *
+ * Offers live in Redis with a TTL (`solo_offer:<id>`) and are single-use:
+ * they are deleted when accepted or declined.
+ */
+
+const SOLO_OFFER_TTL_SECONDS = Number(process.env.SOLO_OFFER_TTL_SECONDS) || 120;
+
+export interface SoloOffer {
+    offer_id: string;
+    user_id: string;
+    rider: PassengerMetaData;
+    fare: number;
+    expires_at: string;
+}
+
+export class SoloOfferService {
+    private static instance: SoloOfferService;
+
+    private client: RedisClientType;
+    private isConnected: boolean = false;
+
+    private readonly KEY_PREFIX = 'solo_offer:';
+
+    private constructor() {
+        this.client = createClient({ url: process.env.REDIS_URL || 'redis://localhost:6379' });
+        this.client.on('error', (err) => console.error('Redis Solo Offer Error:', err));
+    }
+
+    static getInstance(): SoloOfferService {
+        if (!SoloOfferService.instance) {
+            SoloOfferService.instance = new SoloOfferService();
+        }
+        return SoloOfferService.instance;
+    }
+
+    async connect(): Promise<void> {
+        if (this.isConnected) return;
+
+        await this.client.connect();
+        this.isConnected = true;
+        console.log('Redis solo offers connected');
+    }
+
+    async disconnect(): Promise<void> {
+        if (!this.isConnected) return;
+
+        await this.client.quit();
+        this.isConnected = false;
+        console.log('Redis solo offers disconnected');
+    }
+
+    /**
+     * Offer a rider a solo cab at their solo fare; it expires
+     * SOLO_OFFER_TTL_SECONDS from now.
+     */
+    async create(userId: string, rider: PassengerMetaData): Promise<SoloOffer> {
+        const offer: SoloOffer = {
+            offer_id: randomUUID(),
+            user_id: userId,
+            rider,
+            fare: rider.fare.total,
+            expires_at: new Date(Date.now() + SOLO_OFFER_TTL_SECONDS * 1000).toISOString()
+        };
+        await this.client.set(this.KEY_PREFIX + offer.offer_id, JSON.stringify(offer), { EX: SOLO_OFFER_TTL_SECONDS });
+        return offer;
+    }
+
+    /** A live offer made to this rider, or `null` if it never existed or has expired. */
+    async get(offerId: string, userId: string): Promise<SoloOffer | null> {
+        const raw = await this.client.get(this.KEY_PREFIX + offerId);
+        if (typeof raw !== 'string') return null;
+        const offer = JSON.parse(raw) as SoloOffer;
+        return offer.user_id === userId ? offer : null;
+    }
+
+    /**
+     * Take an offer (accept or decline): returns it and deletes it atomically.
+     * `null` if it never existed, has expired or was already answered.
+     */
+    async take(offerId: string): Promise<SoloOffer | null> {
+        const raw = await this.client.getDel(this.KEY_PREFIX + offerId);
+        return typeof raw === 'string' ? JSON.parse(raw) as SoloOffer : null;
+    }
+}
+
+export const soloOffers = SoloOfferService.getInstance();
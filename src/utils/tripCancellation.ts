@@ -0,0 +1,461 @@
+import { prisma } from '../../lib/prisma';
+import { pubSubService } from './pubsub';
+import { driverDispatch } from './driverDispatch';
+import { tripOutbox } from './tripOutbox';
+import { parties } from './parties';
+import { fareEngine } from '../pricing/fareEngine';
+import { reliability, cancellationPolicy, type PenaltyDecision } from './reliability';
+import { cabStatus } from './cabStatus';
+import { rideMatchingPool } from '../../index';
+
+/**
+ * tripCancellation.ts
+ *
+ * Takes a rider off a trip that has not started — because they cancelled
+ * (`POST /cancel-ride/cancel`), missed the boarding deadline (NO_SHOW,
+ * see boarding.ts) or an admin removed them (ADMIN, see adminOps.ts). A party (see parties.ts) travels as one unit: removing
+ * any member removes the whole party, whose other members are told and
+ * which may register again. Three scenarios, counted in units (riders /
+ * parties):
+ *
+ * 1. Solo unit
+ *    → Delete its RideRequests, mark Trip as CANCELLED, release the cab.
+ *
+ * 2. Exactly 2 units (CANCELLED only)
+ *    → Delete the cancelling unit's RideRequests, mark Trip CANCELLED,
+ *      cancel the remaining unit's RideRequests, notify them via PubSub.
+ *
+ * 3. 3+ units — or 2 units with a no-show, since the other unit is at the
+ *    bay with the cab, or with an admin removal
+ *    → Delete the unit's RideRequests, update Trip totals, re-price the
+ *      remaining riders, notify them via PubSub.
+ *
+ * Each removal is charged under a cancellation policy (see reliability.ts):
+ * the cancelling rider, or for a no-show the unit's leader, gets a Penalties
+ * ledger entry in the same transaction as the removal. An admin removal is
+ * recorded free of charge.
+ *
+ * `dissolveTrip()` cancels a trip for every rider on it at once (admin
+ * only) — nobody is charged.
+ *
+ * The assigned driver (if any) is told who left. All DB writes are wrapped
+ * in a Prisma transaction. Redis / PubSub failures are logged but do NOT
+ * roll back the DB.
+ */
+
+export type RemovalCause = 'CANCELLED' | 'NO_SHOW' | 'ADMIN';
+
+export type RemovalScenario = 'SOLO_CANCELLATION' | 'TRIP_CANCELLED' | 'RIDER_REMOVED';
+
+export interface RemovalOutcome {
+    trip_id: string;
+    scenario: RemovalScenario;
+    removed_user_ids: string[];
+    remaining_user_ids: string[];
+    penalty: PenaltyDecision;
+}
+
+export class CancellationError extends Error {
+    constructor(message: string, readonly status: number = 400) {
+        super(message);
+        this.name = 'CancellationError';
+    }
+}
+
+const NOTICES: Record<RemovalCause, { party: string; tripCancelled: string; riderLeft: string }> = {
+    CANCELLED: {
+        party: 'A member of your party has cancelled the ride.',
+        tripCancelled: 'Your co-rider has cancelled. The trip has been cancelled.',
+        riderLeft: 'A co-rider has left the trip.'
+    },
+    NO_SHOW: {
+        party: 'You missed the boarding deadline and were removed from the trip. A no-show fee applies.',
+        tripCancelled: 'Your co-rider did not board. The trip has been cancelled.',
+        riderLeft: 'A co-rider did not reach the pickup bay in time and was removed from the trip.'
+    },
+    ADMIN: {
+        party: 'You were removed from the trip by support. No cancellation fee applies.',
+        tripCancelled: 'Your trip was cancelled by support. No cancellation fee applies — you can register again.',
+        riderLeft: 'A co-rider was removed from the trip by support.'
+    }
+};
+
+function assertNotStarted(status: string): void {
+    if (status === 'ACTIVE') {
+        throw new CancellationError('Cannot cancel an active ride. The ride is already in progress.', 409);
+    }
+
+    if (status === 'COMPLETED') {
+        throw new CancellationError('Trip is already completed', 409);
+    }
+
+    if (status === 'CANCELLED') {
+        throw new CancellationError('Trip is already cancelled', 409);
+    }
+}
+
+/**
+ * Remove `userId`'s unit from a trip that has not started. Throws
+ * CancellationError (404 / 409) when the trip or rider cannot be removed.
+ */
+export async function removeFromTrip(tripId: string, userId: string, cause: RemovalCause = 'CANCELLED'): Promise<RemovalOutcome> {
+    // ── Fetch trip with all ride requests and user details ──
+    const trip = await prisma.trips.findUnique({
+        where: { id: tripId },
+
+        include: {
+            cab: { select: { driver_id: true, status: true } },
+            rideRequests: {
+                include: {
+                    user: {
+                        select: { id: true, name: true, age: true, gender: true }
+                    },
+                    party: { select: { leader_id: true } }
+                }
+            }
+        }
+    });
+
+    if (!trip) {
+        throw new CancellationError('Trip not found', 404);
+    }
+
+    // ── Guard: Trip status ──
+    assertNotStarted(trip.status);
+
+    // ── Guard: User must be part of this trip ──
+    const cancellingRideRequest = trip.rideRequests.find(rr => rr.user_id === userId);
+
+    if (!cancellingRideRequest) {
+        throw new CancellationError('User is not part of this trip', 404);
+    }
+
+    // The cancelling unit: the rider, or their whole party — which is
+    // held in Redis under its leader's id
+    const unitOf = (rr: typeof cancellingRideRequest) => rr.party_id ?? rr.user_id;
+    const redisIdOf = (rr: typeof cancellingRideRequest) => rr.party?.leader_id ?? rr.user_id;
+    const cancellingRideRequests = trip.rideRequests.filter(rr => unitOf(rr) === unitOf(cancellingRideRequest));
+    const companions = cancellingRideRequests.filter(rr => rr.user_id !== userId);
+    const cancellingUnitId = redisIdOf(cancellingRideRequest);
+
+    const totalUnits = new Set(trip.rideRequests.map(unitOf)).size;
+    const remainingRideRequests = trip.rideRequests.filter(rr => unitOf(rr) !== unitOf(cancellingRideRequest));
+    const notices = NOTICES[cause];
+
+    // ── Cancellation policy: free shortly after the match, a fee once late
+    //    or a cab is on its way for them; a no-show is charged to the unit.
+    //    Riders who joined after the cab are not charged for it (without an
+    //    audit row the cab counts as assigned after everyone joined) ──
+    const cabAssignedAt = trip.cab_id ? await cabStatus.assignedAt(trip.cab_id, tripId) ?? new Date() : null;
+    const penalty = cancellationPolicy(cause, cancellingRideRequest.joined_at, cabAssignedAt);
+    const chargePenalty = () => reliability.charge(cause === 'NO_SHOW' ? cancellingUnitId : userId, tripId, penalty);
+
+    const outcome = (scenario: RemovalScenario): RemovalOutcome => ({
+        trip_id: tripId,
+        scenario,
+        removed_user_ids: cancellingRideRequests.map(rr => rr.user_id),
+        remaining_user_ids: scenario === 'RIDER_REMOVED' ? remainingRideRequests.map(rr => rr.user_id) : [],
+        penalty
+    });
+
+    // ── Tell the rest of the cancelling party (or the whole party, for a
+    //    no-show or an admin removal), and let it register again ──
+    const cancelParty = async () => {
+        if (cancellingRideRequest.party_id) await parties.reopen(cancellingRideRequest.party_id);
+        const told = cause === 'CANCELLED' ? companions : cancellingRideRequests;
+        const notice = cause === 'NO_SHOW'
+            ? { type: 'NO_SHOW', message: notices.party, trip_id: tripId, fee: penalty.fee }
+            : cause === 'ADMIN'
+                ? { type: 'REMOVED_BY_ADMIN', message: notices.party, trip_id: tripId }
+                : { type: 'RIDE_CANCELLED', message: notices.party, trip_id: tripId, cancelled_by: userId };
+        await Promise.allSettled(told.map(rr => pubSubService.publish(rr.user_id, notice)));
+    };
+
+    // ── An assigned cab is free again once the trip is cancelled ──
+    const releaseCab = () => trip.cab_id && trip.cab
+        ? cabStatus.writes(trip.cab_id, trip.cab.status, 'AVAILABLE', { reason: 'TRIP_CANCELLED', trip_id: tripId })
+        : [];
+
+    // ── Tell the assigned driver who is no longer coming ──
+    const notifyDriver = (scenario: RemovalScenario) => {
+        if (!trip.cab) return;
+        pubSubService.publishToDriver(trip.cab.driver_id, {
+            type: 'RIDER_REMOVED',
+            trip_id: tripId,
+            reason: cause,
+            user_ids: cancellingRideRequests.map(rr => rr.user_id),
+            trip_cancelled: scenario !== 'RIDER_REMOVED'
+        }).catch(err =>
+            console.error(`[Cancel] Driver notification failed for trip ${tripId}:`, err)
+        );
+    };
+
+    // ────────────────────────────────────────────────────────
+    // SCENARIO 1: Solo unit — simple cancellation
+    // ────────────────────────────────────────────────────────
+    if (totalUnits === 1) {
+        await prisma.$transaction([
+            prisma.rideRequests.deleteMany({
+                where: { id: { in: cancellingRideRequests.map(rr => rr.id) } }
+            }),
+            prisma.trips.update({
+                where: { id: tripId },
+                data: { status: 'CANCELLED' }
+            }),
+            // Release the cab back to AVAILABLE if one was assigned
+            ...releaseCab(),
+            // Penalty ledger
+            chargePenalty()
+        ]);
+
+        // Clean up Redis via worker thread (non-blocking)
+        Promise.all([
+            rideMatchingPool.execute({ type: 'REMOVE_USER', payload: { userId: cancellingUnitId } }),
+            rideMatchingPool.execute({ type: 'REMOVE_TRIP', payload: { tripId } })
+        ]).catch(err =>
+            console.error(`[Cancel] Redis cleanup failed for user ${userId}:`, err)
+        );
+
+        // Pull back any outstanding driver offer for this trip
+        driverDispatch.withdrawTrip(tripId).catch(err =>
+            console.error(`[Cancel] Failed to withdraw driver offer for trip ${tripId}:`, err)
+        );
+
+        notifyDriver('SOLO_CANCELLATION');
+        await cancelParty();
+        return outcome('SOLO_CANCELLATION');
+    }
+
+    // ────────────────────────────────────────────────────────
+    // SCENARIO 2: Exactly 2 units — trip becomes non-viable
+    // Delete the cancelling unit's RideRequests, cancel the trip
+    // and the remaining unit's RideRequests entirely.
+    // ────────────────────────────────────────────────────────
+    if (totalUnits === 2 && cause === 'CANCELLED') {
+        const remainingUser = remainingRideRequests[0]!;
+
+        await prisma.$transaction([
+            // Delete the cancelling unit's RideRequests
+            prisma.rideRequests.deleteMany({
+                where: { id: { in: cancellingRideRequests.map(rr => rr.id) } }
+            }),
+            // Cancel the remaining unit's RideRequests
+            prisma.rideRequests.updateMany({
+                where: { id: { in: remainingRideRequests.map(rr => rr.id) } },
+                data: { status: 'CANCELLED' }
+            }),
+            // Cancel the Trip
+            prisma.trips.update({
+                where: { id: tripId },
+                data: { status: 'CANCELLED' }
+            }),
+            // Release the cab back to AVAILABLE if one was assigned
+            ...releaseCab(),
+            // Penalty ledger
+            chargePenalty()
+        ]);
+
+        // ── Redis cleanup via worker threads (non-blocking) ──
+        Promise.all([
+            rideMatchingPool.execute({ type: 'REMOVE_USER', payload: { userId: cancellingUnitId } }),
+            rideMatchingPool.execute({ type: 'REMOVE_USER', payload: { userId: redisIdOf(remainingUser) } }),
+            rideMatchingPool.execute({ type: 'REMOVE_TRIP', payload: { tripId } })
+        ]).catch(err =>
+            console.error(`[Cancel] Redis cleanup failed for 2-rider scenario:`, err)
+        );
+
+        // ── Withdraw any pending driver offer (also re-dispatches parked
+        //    trips now that the cab may be free) ──
+        driverDispatch.withdrawTrip(tripId).catch(err =>
+            console.error(`[Cancel] Failed to withdraw driver offer for trip ${tripId}:`, err)
+        );
+        notifyDriver('TRIP_CANCELLED');
+
+        // ── Notify the remaining unit via PubSub (a remaining party may register again) ──
+        if (remainingUser.party_id) await parties.reopen(remainingUser.party_id);
+        for (const rr of remainingRideRequests) {
+            pubSubService.publish(rr.user_id, {
+                type: 'RIDE_CANCELLED',
+                message: notices.tripCancelled,
+                trip_id: tripId,
+                cancelled_by: userId
+            }).catch(err =>
+                console.error(`[Cancel] PubSub notification failed for user ${rr.user_id}:`, err)
+            );
+        }
+        await cancelParty();
+
+        // ── Unsubscribe both units from PubSub channels ──
+        Promise.all(
+            trip.rideRequests.map(rr => pubSubService.unsubscribe(rr.user_id))
+        ).catch(err =>
+            console.error(`[Cancel] PubSub unsubscribe failed:`, err)
+        );
+
+        return { ...outcome('TRIP_CANCELLED'), remaining_user_ids: [remainingUser.user_id] };
+    }
+
+    // ────────────────────────────────────────────────────────
+    // SCENARIO 3: 3+ units (or a no-show / admin removal) — remove the unit, trip
+    // continues. Update Trip totals and notify remaining riders.
+    // ────────────────────────────────────────────────────────
+    const updatedPassengerCount = trip.no_of_passengers - cancellingRideRequests.reduce((sum, rr) => sum + rr.no_of_passengers, 0);
+    const updatedLuggage = trip.total_luggage - cancellingRideRequests.reduce((sum, rr) => sum + rr.luggage_capacity, 0);
+
+    await prisma.$transaction([
+        // Delete the cancelling unit's RideRequests
+        prisma.rideRequests.deleteMany({
+            where: { id: { in: cancellingRideRequests.map(rr => rr.id) } }
+        }),
+        // Record the departure so the reconciler never re-adds the unit
+        ...cancellingRideRequests.map(rr => tripOutbox.riderLeft(tripId, rr.user_id)),
+        // Penalty ledger
+        chargePenalty(),
+        // Update Trip aggregate totals
+        prisma.trips.update({
+            where: { id: tripId },
+            data: {
+                no_of_passengers: Math.max(0, updatedPassengerCount),
+                total_luggage: Math.max(0, updatedLuggage)
+            }
+        })
+    ]);
+
+    // ── Redis cleanup: remove user from pool and trip metadata via worker thread ──
+    rideMatchingPool.execute({
+        type: 'REMOVE_USER_FROM_TRIP',
+        payload: { userId: cancellingUnitId, tripId }
+    }).catch(err =>
+        console.error(`[Cancel] Redis trip metadata cleanup failed for user ${userId}:`, err)
+    );
+    notifyDriver('RIDER_REMOVED');
+
+    // ── Re-price the remaining riders (fewer co-riders → smaller discount);
+    //    riders whose fare changed receive FARE_UPDATED ──
+    await fareEngine.repriceTrip(tripId).catch(err =>
+        console.error(`[Cancel] Failed to re-price trip ${tripId}:`, err)
+    );
+
+    // ── Fetch the updated trip to send in notifications ──
+    const updatedTrip = await prisma.trips.findUnique({
+        where: { id: tripId },
+        include: {
+            cab: { include: { driver: true } },
+            rideRequests: {
+                include: {
+                    user: {
+                        select: { name: true, age: true, gender: true }
+                    }
+                }
+            }
+        }
+    });
+
+    // ── Notify all remaining riders via PubSub ──
+    const notificationPromises = remainingRideRequests.map(rr =>
+        pubSubService.publish(rr.user_id, {
+            type: 'RIDER_LEFT',
+            message: notices.riderLeft,
+            reason: cause,
+            trip_id: tripId,
+            cancelled_user_id: userId,
+            updated_trip: updatedTrip
+        }).catch(err =>
+            console.error(`[Cancel] PubSub notification failed for user ${rr.user_id}:`, err)
+        )
+    );
+    await Promise.allSettled(notificationPromises);
+    await cancelParty();
+
+    // ── Unsubscribe the cancelled unit from PubSub ──
+    for (const rr of cancellingRideRequests) {
+        pubSubService.unsubscribe(rr.user_id).catch(err =>
+            console.error(`[Cancel] PubSub unsubscribe failed for user ${rr.user_id}:`, err)
+        );
+    }
+
+    return outcome('RIDER_REMOVED');
+}
+
+/**
+ * Cancel a trip that has not started for every rider on it — an admin
+ * dissolving a stuck or wrong match (see adminOps.ts). Nobody is charged:
+ * riders get REMOVED_BY_ADMIN and may register again, the cab is released
+ * and its driver told. Returns the riders taken off. Throws
+ * CancellationError (404 / 409) when the trip cannot be dissolved.
+ */
+export async function dissolveTrip(tripId: string): Promise<string[]> {
+    const trip = await prisma.trips.findUnique({
+        where: { id: tripId },
+        include: {
+            cab: { select: { driver_id: true, status: true } },
+            rideRequests: { include: { party: { select: { leader_id: true } } } }
+        }
+    });
+
+    if (!trip) {
+        throw new CancellationError('Trip not found', 404);
+    }
+    assertNotStarted(trip.status);
+
+    const userIds = trip.rideRequests.map(rr => rr.user_id);
+
+    await prisma.$transaction([
+        prisma.rideRequests.updateMany({
+            where: { trip_id: tripId },
+            data: { status: 'CANCELLED' }
+        }),
+        prisma.trips.update({
+            where: { id: tripId },
+            data: { status: 'CANCELLED' }
+        }),
+        // Release the cab back to AVAILABLE if one was assigned
+        ...(trip.cab_id && trip.cab
+            ? cabStatus.writes(trip.cab_id, trip.cab.status, 'AVAILABLE', { reason: 'TRIP_CANCELLED', trip_id: tripId })
+            : [])
+    ]);
+
+    // ── Redis cleanup via worker threads (non-blocking); parties are held
+    //    under their leader's id ──
+    const redisIds = new Set(trip.rideRequests.map(rr => rr.party?.leader_id ?? rr.user_id));
+    Promise.all([
+        ...[...redisIds].map(id => rideMatchingPool.execute({ type: 'REMOVE_USER', payload: { userId: id } })),
+        rideMatchingPool.execute({ type: 'REMOVE_TRIP', payload: { tripId } })
+    ]).catch(err =>
+        console.error(`[Cancel] Redis cleanup failed for dissolved trip ${tripId}:`, err)
+    );
+
+    driverDispatch.withdrawTrip(tripId).catch(err =>
+        console.error(`[Cancel] Failed to withdraw driver offer for trip ${tripId}:`, err)
+    );
+
+    if (trip.cab) {
+        pubSubService.publishToDriver(trip.cab.driver_id, {
+            type: 'RIDER_REMOVED',
+            trip_id: tripId,
+            reason: 'ADMIN',
+            user_ids: userIds,
+            trip_cancelled: true
+        }).catch(err =>
+            console.error(`[Cancel] Driver notification failed for trip ${tripId}:`, err)
+        );
+    }
+
+    // ── Every party on the trip may register again; every rider is told ──
+    for (const partyId of new Set(trip.rideRequests.map(rr => rr.party_id).filter((id): id is string => id !== null))) {
+        await parties.reopen(partyId);
+    }
+    await Promise.allSettled(userIds.map(userId =>
+        pubSubService.publish(userId, {
+            type: 'REMOVED_BY_ADMIN',
+            message: NOTICES.ADMIN.tripCancelled,
+            trip_id: tripId
+        })
+    ));
+
+    Promise.all(userIds.map(userId => pubSubService.unsubscribe(userId))).catch(err =>
+        console.error(`[Cancel] PubSub unsubscribe failed:`, err)
+    );
+
+    return userIds;
+}
@@ -0,0 +1,192 @@
+import { prisma } from '../../lib/prisma';
+import type { Prisma } from '../../generated/prisma/client';
+import { pubSubService } from './pubsub';
+import { withDropPlan } from '../rideMatching/dropSequence';
+import { fareEngine, type FareChange } from '../pricing/fareEngine';
+import { boardingPointFor } from './boardingPoint';
+
+/**
+ * tripOutbox.ts
+ *
+ * Transactional outbox for match side effects. The event is inserted in
+ * the same Prisma transaction as the Trips / RideRequests rows, so a
+ * committed trip always has its notifications recorded, and a rolled-back
+ * one never notifies anyone.
+ *
+ * The worker delivers the event right after commit; anything still
+ * unprocessed after OUTBOX_RETRY_AFTER_SECONDS (worker died, Redis PubSub
+ * down) is re-delivered by the reconciler on the main thread. Delivery is
+ * at-least-once.
+ */
+
+export type TripEventType = 'TRIP_CREATED' | 'RIDER_JOINED' | 'TRIP_RECOVERED' | 'RIDER_LEFT';
+
+export interface TripEventPayload {
+    /** Riders to send RIDE_MATCHED to */
+    notify: string[];
+    /** Riders already on the trip whose fare changed (FARE_UPDATED) */
+    fare_changes: FareChange[];
+    riders: number;
+    /** Rider who left the trip (RIDER_LEFT only) */
+    user_id?: string;
+    /** Riders who joined with this event (RIDER_JOINED only) */
+    joined?: string[];
+}
+
+export interface DeliveredEvent {
+    event_id: string;
+    trip_id: string;
+    trip: any;
+}
+
+const OUTBOX_RETRY_AFTER_SECONDS = Number(process.env.OUTBOX_RETRY_AFTER_SECONDS) || 30;
+const OUTBOX_MAX_ATTEMPTS = 10;
+
+export class TripOutboxService {
+    private static instance: TripOutboxService;
+
+    private constructor() { }
+
+    static getInstance(): TripOutboxService {
+        if (!TripOutboxService.instance) {
+            TripOutboxService.instance = new TripOutboxService();
+        }
+        return TripOutboxService.instance;
+    }
+
+    /**
+     * Record an event inside the caller's transaction. Returns its id.
+     */
+    async record(tx: Prisma.TransactionClient, tripId: string, type: TripEventType, payload: TripEventPayload): Promise<string> {
+        const event = await tx.tripOutbox.create({
+            data: { trip_id: tripId, event_type: type, payload: payload as unknown as Prisma.InputJsonValue }
+        });
+        return event.id;
+    }
+
+    /**
+     * RIDER_LEFT marker for an array `$transaction` (cancellation). Nothing
+     * to deliver — it tells the reconciler that the rider's missing DB row
+     * is intended, so a stale Redis trip loses the rider instead of
+     * re-adding them.
+     */
+    riderLeft(tripId: string, userId: string) {
+        const payload: TripEventPayload = { notify: [], fare_changes: [], riders: 0, user_id: userId };
+        return prisma.tripOutbox.create({
+            data: { trip_id: tripId, event_type: 'RIDER_LEFT', payload: payload as unknown as Prisma.InputJsonValue, processed_at: new Date() }
+        });
+    }
+
+    /** Riders recorded as having left a trip after `since`. */
+    async ridersLeft(tripId: string, since: Date): Promise<Set<string>> {
+        const events = await prisma.tripOutbox.findMany({
+            where: { trip_id: tripId, event_type: 'RIDER_LEFT', created_at: { gt: since } }
+        });
+        return new Set(events.map((event) => (event.payload as unknown as TripEventPayload).user_id!));
+    }
+
+    /**
+     * Deliver one event: load the trip (with its drop-off plan), publish
+     * RIDE_MATCHED / FARE_UPDATED (plus CAB_ASSIGNED and the driver's
+     * RIDER_JOINED for riders joining a trip that has its cab) and mark the
+     * event processed.
+     * Returns the trip, or `null` if the event is gone or already delivered.
+     */
+    async deliver(eventId: string): Promise<DeliveredEvent | null> {
+        const event = await prisma.tripOutbox.findUnique({ where: { id: eventId } });
+        if (!event || event.processed_at) return null;
+
+        try {
+            const payload = event.payload as unknown as TripEventPayload;
+
+            const persistedTrip = await prisma.trips.findUnique({
+                where: { id: event.trip_id },
+                include: {
+                    cab: { include: { driver: true } },
+                    rideRequests: {
+                        include: {
+                            user: {
+                                select: { name: true, age: true, gender: true }
+                            }
+                        }
+                    }
+                }
+            });
+            // Drop-off order, per-rider ETA and detour for the RIDE_MATCHED payload
+            const trip = persistedTrip && await withDropPlan(persistedTrip);
+
+            // Riders already on the trip pay less now — tell them
+            if (payload.fare_changes.length > 0) {
+                await fareEngine.notifyFareChanges(event.trip_id, payload.fare_changes, payload.riders);
+            }
+
+            // Notify matched riders via Redis PubSub (their WebSocket receives this)
+            for (const userId of payload.notify) {
+                await pubSubService.publish(userId, {
+                    type: 'RIDE_MATCHED',
+                    trip_id: event.trip_id,
+                    trip
+                });
+            }
+
+            // Joined after the cab was assigned: the bay and their own deadline
+            const joined = payload.joined ?? [];
+            if (event.event_type === 'RIDER_JOINED' && trip?.cab && joined.length > 0) {
+                for (const userId of joined) {
+                    const rideRequest = trip.rideRequests.find((rr) => rr.user_id === userId);
+                    await pubSubService.publish(userId, {
+                        type: 'CAB_ASSIGNED',
+                        trip_id: event.trip_id,
+                        cab: trip.cab,
+                        boarding: boardingPointFor(trip, rideRequest?.joined_at ?? null),
+                        trip
+                    });
+                }
+                await pubSubService.publishToDriver(trip.cab.driver_id, {
+                    type: 'RIDER_JOINED',
+                    trip_id: event.trip_id,
+                    user_ids: joined,
+                    trip
+                });
+            }
+
+            await prisma.tripOutbox.update({
+                where: { id: event.id },
+                data: { processed_at: new Date(), attempts: { increment: 1 } }
+            });
+            return { event_id: event.id, trip_id: event.trip_id, trip };
+        } catch (error) {
+            console.error(`[Outbox] Delivery of ${event.event_type} ${event.id} (trip ${event.trip_id}) failed:`, error);
+            await prisma.tripOutbox.update({
+                where: { id: event.id },
+                data: { attempts: { increment: 1 } }
+            }).catch(() => { });
+            return null;
+        }
+    }
+
+    /**
+     * Re-deliver events left unprocessed for OUTBOX_RETRY_AFTER_SECONDS.
+     * Events that keep failing are given up on after OUTBOX_MAX_ATTEMPTS.
+     */
+    async deliverPending(): Promise<DeliveredEvent[]> {
+        const pending = await prisma.tripOutbox.findMany({
+            where: {
+                processed_at: null,
+                attempts: { lt: OUTBOX_MAX_ATTEMPTS },
+                created_at: { lt: new Date(Date.now() - OUTBOX_RETRY_AFTER_SECONDS * 1000) }
+            },
+            orderBy: { created_at: 'asc' },
+            take: 100
+        });
+
+        const delivered: DeliveredEvent[] = [];
+        for (const event of pending) {
+            const result = await this.deliver(event.id);
+            if (result) delivered.push(result);
+        }
+        return delivered;
+    }
+}
+
+export const tripOutbox = TripOutboxService.getInstance();
@@ -0,0 +1,260 @@
+import { cellToLatLng } from 'h3-js';
+import { prisma } from '../../lib/prisma';
+import { redisService } from './redisClient';
+import { TRIP_KEY_PREFIX, type PassengerMetaData, type TripMetaData } from './redisCaching';
+import { tripOutbox } from './tripOutbox';
+import { driverDispatch } from './driverDispatch';
+import { airportRegistry, AirportError, type ResolvedPickup } from './airports';
+import { fleetCapacity, capacitiesFor, smallestFit } from './fleet';
+import { parties, partyRecipients, type PartyMetaData } from './parties';
+import { generateH3IndexesForRoute } from '../rideMatching/demo';
+import type { FareBreakdown } from '../pricing/fareEngine';
+import type { LatLng } from '../rideMatching/routingProvider';
+
+/**
+ * tripReconciler.ts
+ *
+ * Repairs divergence between the Redis matching state and Postgres, on
+ * startup and every RECONCILE_INTERVAL_SECONDS (main thread):
+ *
+ *   1. Redis trip without a DB row (or missing riders) → persisted from
+ *      the Redis metadata under the same id; its riders get RIDE_MATCHED.
+ *      Riders with a RIDER_LEFT event cancelled — they are dropped from
+ *      the Redis trip instead.
+ *   2. Redis trip whose DB trip is no longer WAITING (started, cancelled,
+ *      completed), or whose riders are all waiting on another DB trip
+ *      → removed from Redis, so nobody can join it.
+ *   3. DB WAITING trip without a Redis entry → rebuilt in Redis, and put
+ *      back into its pool if it has seats left.
+ *   4. Outbox events left undelivered → re-delivered (see tripOutbox.ts).
+ *
+ * Trips touched within the last RECONCILE_GRACE_SECONDS are skipped, so
+ * in-flight matches are never "repaired" under a worker's feet.
+ */
+
+const RECONCILE_INTERVAL_SECONDS = Number(process.env.RECONCILE_INTERVAL_SECONDS) || 60;
+const RECONCILE_GRACE_SECONDS = 30;
+
+export interface ReconcileReport {
+    persisted: number;
+    removed: number;
+    restored: number;
+    redelivered: number;
+}
+
+export class TripReconciler {
+    private static instance: TripReconciler;
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running: boolean = false;
+
+    private constructor() { }
+
+    static getInstance(): TripReconciler {
+        if (!TripReconciler.instance) {
+            TripReconciler.instance = new TripReconciler();
+        }
+        return TripReconciler.instance;
+    }
+
+    /**
+     * Reconcile once now, then periodically.
+     */
+    async start(): Promise<void> {
+        await this.runOnce();
+        this.timer = setInterval(() => this.runOnce(), RECONCILE_INTERVAL_SECONDS * 1000);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    private async runOnce(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        try {
+            const report = await this.reconcile();
+            if (Object.values(report).some((count) => count > 0)) {
+                console.log('[Reconcile] Repaired:', report);
+            }
+        } catch (error) {
+            console.error('[Reconcile] Run failed:', error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    async reconcile(): Promise<ReconcileReport> {
+        const report: ReconcileReport = { persisted: 0, removed: 0, restored: 0, redelivered: 0 };
+        const cutoff = new Date(Date.now() - RECONCILE_GRACE_SECONDS * 1000);
+
+        // ── Redis → Postgres ──
+        const redisTrips = await redisService.listTrips();
+        for (const { key, meta } of redisTrips) {
+            const tripId = key.slice(TRIP_KEY_PREFIX.length);
+            if (meta.updated_at && new Date(meta.updated_at) > cutoff) continue;
+
+            const dbTrip = await prisma.trips.findUnique({ where: { id: tripId }, include: { rideRequests: true } });
+            if (dbTrip && dbTrip.status !== 'WAITING') {
+                await redisService.removeTrip(tripId);
+                report.removed++;
+                continue;
+            }
+
+            // A party is missing if any of its members is (its leader stands for it)
+            const units = meta.users.map((entry) => Object.entries(entry)[0]!);
+            let missing = units
+                .filter(([userId, rider]) => partyRecipients(userId, rider).some((id) => !dbTrip?.rideRequests.some((rr) => rr.user_id === id)))
+                .map(([userId]) => userId);
+            if (missing.length === 0) continue;
+
+            // Cancelled riders whose Redis cleanup never happened (a rider
+            // who left and re-joined later is newer than the departure)
+            const left = await tripOutbox.ridersLeft(tripId, new Date(meta.updated_at ?? 0));
+            for (const userId of missing.filter((id) => left.has(id))) {
+                if (await redisService.removeUserFromTripMetadata(userId, tripId)) report.removed++;
+            }
+            missing = missing.filter((userId) => !left.has(userId));
+            if (missing.length === 0) continue;
+
+            // Riders already waiting on another trip — this Redis copy is stale
+            const elsewhere = await prisma.rideRequests.count({
+                where: { user_id: { in: missing }, status: 'WAITING', trip_id: { not: tripId } }
+            });
+            if (!dbTrip && elsewhere === missing.length) {
+                await redisService.removeTrip(tripId);
+                report.removed++;
+                continue;
+            }
+
+            // Re-read: dropping cancelled riders may have changed the trip
+            const current = (await redisService.listTrips()).find((trip) => trip.key === key)?.meta;
+            if (!current) continue;
+
+            const eventId = await redisService.persistTrip({ ...current, trip_id: tripId }, 'TRIP_RECOVERED', {
+                notify: missing,
+                fare_changes: []
+            });
+            if (!eventId) continue;
+            report.persisted++;
+
+            const delivered = await tripOutbox.deliver(eventId);
+            if (delivered) this.dispatch(delivered.trip_id);
+        }
+
+        // ── Postgres → Redis ──
+        const inRedis = new Set(redisTrips.map(({ key }) => key.slice(TRIP_KEY_PREFIX.length)));
+        const waitingTrips = await prisma.trips.findMany({
+            where: { status: 'WAITING', created_at: { lt: cutoff } },
+            include: { rideRequests: { orderBy: { joined_at: 'asc' } } }
+        });
+        for (const trip of waitingTrips) {
+            if (inRedis.has(trip.id) || trip.rideRequests.length === 0) continue;
+            if (await this.restore(trip)) report.restored++;
+        }
+
+        // ── Outbox relay ──
+        const delivered = await tripOutbox.deliverPending();
+        report.redelivered = delivered.length;
+        delivered.forEach((event) => this.dispatch(event.trip_id));
+
+        return report;
+    }
+
+    private async restore(trip: {
+        id: string;
+        airport_code: string | null;
+        rideRequests: {
+            user_id: string;
+            party_id: string | null;
+            no_of_passengers: number;
+            luggage_capacity: number;
+            issued_price: number;
+            destination_h3: string | null;
+            terminal_code: string | null;
+            fare_breakdown: unknown;
+        }[];
+    }): Promise<boolean> {
+        const airport = airportRegistry.getAirport(trip.airport_code);
+
+        let pickup: ResolvedPickup;
+        try {
+            pickup = airportRegistry.resolve(airport.code, trip.rideRequests[0]!.terminal_code ?? undefined);
+        } catch (err) {
+            if (!(err instanceof AirportError)) throw err;
+            console.warn(`[Reconcile] Cannot restore trip ${trip.id}: ${err.message}`);
+            return false;
+        }
+        const { terminal, poolKey } = pickup;
+
+        // A party's members become one entry under its leader, with the party's totals
+        const units = new Map<string, typeof trip.rideRequests>();
+        for (const rr of trip.rideRequests) {
+            const unitId = rr.party_id ?? rr.user_id;
+            units.set(unitId, [...(units.get(unitId) ?? []), rr]);
+        }
+
+        const users: Record<string, PassengerMetaData>[] = [];
+        for (const rideRequests of units.values()) {
+            const rr = rideRequests[0]!;
+            const party: PartyMetaData | null = rr.party_id ? await parties.fromRideRequests(rr.party_id, rideRequests) : null;
+            users.push({
+                [party?.leader_id ?? rr.user_id]: {
+                    no_of_passengers: rideRequests.reduce((sum, r) => sum + r.no_of_passengers, 0),
+                    destination_h3: rr.destination_h3 ?? '',
+                    luggage: rideRequests.reduce((sum, r) => sum + r.luggage_capacity, 0),
+                    status: 'WAITING',
+                    issued_price: rideRequests.reduce((sum, r) => sum + r.issued_price, 0),
+                    fare: rr.fare_breakdown as FareBreakdown,
+                    airport_code: airport.code,
+                    terminal_code: rr.terminal_code ?? terminal.code,
+                    pool_key: poolKey,
+                    ...(party && { party })
+                }
+            });
+        }
+
+        const passengers = trip.rideRequests.reduce((sum, rr) => sum + rr.no_of_passengers, 0);
+        const luggage = trip.rideRequests.reduce((sum, rr) => sum + rr.luggage_capacity, 0);
+
+        const tripMetaData: TripMetaData = {
+            trip_id: trip.id,
+            users,
+            no_of_passengers: passengers,
+            luggage,
+            status: 'WAITING',
+            issued_price: trip.rideRequests.reduce((sum, rr) => sum + rr.issued_price, 0),
+            airport_code: airport.code,
+            pool_key: poolKey,
+            updated_at: new Date().toISOString()
+        };
+
+        // A full trip stays out of the pool, as when it was matched; so does a
+        // lone rider or party — only a solo booking (SOLO_OFFER) has one unit
+        const isFull = !smallestFit(capacitiesFor(await fleetCapacity.snapshot(), airport), passengers + 1, luggage);
+        const isSolo = units.size === 1;
+        const route = isFull || isSolo ? null : await this.longestRoute(terminal.pickup, trip.rideRequests.map((rr) => rr.destination_h3));
+
+        return redisService.restoreTrip(tripMetaData, route);
+    }
+
+    // The trip's pool route is the longest of its riders' routes (see tripRouteMember)
+    private async longestRoute(origin: LatLng, destinations: (string | null)[]): Promise<string[] | null> {
+        let longest: string[] | null = null;
+        for (const cell of destinations) {
+            if (!cell) continue;
+            const [latitude, longitude] = cellToLatLng(cell);
+            const route = await generateH3IndexesForRoute({ latitude, longitude }, { origin });
+            if (!longest || route.pathH3Indexes.length > longest.length) longest = route.pathH3Indexes;
+        }
+        return longest;
+    }
+
+    private dispatch(tripId: string): void {
+        driverDispatch.dispatchTrip(tripId)
+            .catch((err) => console.error(`[Reconcile] Failed to dispatch trip ${tripId}:`, err));
+    }
+}
+
+export const tripReconciler = TripReconciler.getInstance();
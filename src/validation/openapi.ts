@@ -0,0 +1,113 @@
+/**
+ * openapi.ts
+ *
+ * Renders the request / WebSocket message schemas from `requests.ts` into
+ * the generated section of openapi.yaml, so the docs cannot drift from the
+ * validation the server actually performs.
+ *
+ *   bun run openapi:generate   → rewrite the generated section in place
+ *   bun run openapi:check      → exit 1 if openapi.yaml is out of date
+ *
+ * Only the block between the BEGIN / END markers is owned by this script;
+ * everything else in openapi.yaml is hand-written.
+ */
+
+import { openApiSchemas } from './requests';
+import type { JsonSchema, Schema, SchemaRefs } from './schema';
+
+const SPEC_PATH = new URL('../../openapi.yaml', import.meta.url);
+const BEGIN_MARKER = '    # BEGIN GENERATED — bun run openapi:generate (source: src/validation/requests.ts)';
+const END_MARKER = '    # END GENERATED';
+
+const RESERVED_SCALARS = new Set(['true', 'false', 'null', 'yes', 'no', 'on', 'off', '~']);
+
+function formatScalar(value: unknown): string {
+    if (typeof value === 'string') {
+        const isPlain = /^[A-Za-z_][A-Za-z0-9_\-]*$/.test(value) && !RESERVED_SCALARS.has(value.toLowerCase());
+        return isPlain ? value : JSON.stringify(value);
+    }
+    return JSON.stringify(value);
+}
+
+function isScalar(value: unknown): boolean {
+    return value === null || typeof value !== 'object';
+}
+
+/**
+ * Minimal YAML emitter for JSON Schema values (objects, scalar arrays as
+ * flow sequences, nested object arrays as block sequences).
+ */
+function toYaml(value: JsonSchema, indent: number): string[] {
+    const pad = ' '.repeat(indent);
+    const lines: string[] = [];
+
+    for (const [key, child] of Object.entries(value)) {
+        if (isScalar(child)) {
+            lines.push(`${pad}${key}: ${formatScalar(child)}`);
+        } else if (Array.isArray(child)) {
+            if (child.every(isScalar)) {
+                lines.push(`${pad}${key}: [${child.map(formatScalar).join(', ')}]`);
+            } else {
+                lines.push(`${pad}${key}:`);
+                for (const item of child) {
+                    const [first, ...rest] = toYaml(item as JsonSchema, indent + 4);
+                    lines.push(`${pad}  - ${first!.trimStart()}`, ...rest);
+                }
+            }
+        } else {
+            lines.push(`${pad}${key}:`, ...toYaml(child as JsonSchema, indent + 2));
+        }
+    }
+
+    return lines;
+}
+
+export function renderGeneratedSection(): string {
+    const entries = Object.entries(openApiSchemas) as [string, Schema<unknown>][];
+    const allRefs: SchemaRefs = new Map(entries.map(([name, schema]) => [schema, name]));
+
+    const blocks = entries.map(([name, schema]) => {
+        // Reference every *other* registered schema instead of inlining it
+        const refs: SchemaRefs = new Map([...allRefs].filter(([other]) => other !== schema));
+        return [`    ${name}:`, ...toYaml(schema.toJsonSchema(refs), 6)].join('\n');
+    });
+
+    return [BEGIN_MARKER, '', blocks.join('\n\n'), '', END_MARKER].join('\n');
+}
+
+function splitSpec(spec: string): { before: string; current: string; after: string } {
+    const start = spec.indexOf(BEGIN_MARKER);
+    const end = spec.indexOf(END_MARKER);
+    if (start === -1 || end === -1 || end < start) {
+        throw new Error(`openapi.yaml is missing the generated-section markers:\n${BEGIN_MARKER}\n${END_MARKER}`);
+    }
+    return {
+        before: spec.slice(0, start),
+        current: spec.slice(start, end + END_MARKER.length),
+        after: spec.slice(end + END_MARKER.length)
+    };
+}
+
+if (import.meta.main) {
+    const mode = process.argv[2];
+    const spec = await Bun.file(SPEC_PATH).text();
+    const { before, current, after } = splitSpec(spec);
+    const generated = renderGeneratedSection();
+
+    if (mode === '--write') {
+        await Bun.write(SPEC_PATH, before + generated + after);
+        console.log(`openapi.yaml updated (${Object.keys(openApiSchemas).length} generated schemas)`);
+    } else if (mode === '--check') {
+        // Also make sure the whole document is still valid YAML
+        Bun.YAML.parse(spec);
+
+        if (current !== generated) {
+            console.error('openapi.yaml is out of date with src/validation/requests.ts — run `bun run openapi:generate`');
+            process.exit(1);
+        }
+        console.log('openapi.yaml is up to date');
+    } else {
+        console.error('Usage: bun src/validation/openapi.ts --write | --check');
+        process.exit(2);
+    }
+}
@@ -0,0 +1,292 @@
+import { s, type Infer } from './schema';
+
+/**
+ * requests.ts
+ *
+ * Single source of truth for every HTTP request body and every
+ * client → server WebSocket message. Route handlers validate against
+ * these schemas, and `bun run openapi:generate` renders them into the
+ * generated section of openapi.yaml (`openapi:check` fails on drift).
+ */
+
+// ── Shared fields ──
+const id = (description: string) => s.string({ minLength: 1 }).describe(description);
+const latitude = () => s.number({ min: -90, max: 90 }).describe('Latitude (WGS 84).');
+const longitude = () => s.number({ min: -180, max: 180 }).describe('Longitude (WGS 84).');
+
+// ── Auth ──
+
+export const LoginRequest = s.object({
+    email: s.string({ format: 'email' }).example('aarav.sharma@gmail.com'),
+    password: s.string({ format: 'password', minLength: 1 }),
+    role: s.enum(['user', 'driver', 'admin']).describe('Which account table to authenticate against (default `user`).').optional()
+});
+
+export const RefreshTokenRequest = s.object({
+    refresh_token: s.string({ minLength: 1 }).describe('Refresh token from `POST /auth/login`.')
+});
+
+// ── Signup ──
+
+const accountFields = {
+    name: s.string({ minLength: 1, maxLength: 100 }).describe('Full name.').example('Aarav Sharma'),
+    email: s.string({ format: 'email' }).describe('Email address (must be unique).').example('aarav@example.com'),
+    password: s.string({ format: 'password', minLength: 8 }).describe('Account password (hashed before storage).'),
+    gender: s.string({ minLength: 1 }).example('Male'),
+    age: s.integer({ min: 1, max: 120 }).example(28)
+};
+
+export const UserSignupRequest = s.object(accountFields);
+
+export const DriverSignupRequest = s.object(accountFields);
+
+export const CabSignupRequest = s.object({
+    cab_number: s.string({ minLength: 1 }).describe('Unique registration number of the cab.').example('DL01AB1234'),
+    cab_type: s.string({ minLength: 1 }).describe('Type/category of the vehicle — a configured cab type (Hatchback, Sedan, SUV, Mini Van by default); it caps how many riders / bags the cab is pooled with.').example('Sedan'),
+    no_of_seats: s.integer({ min: 1 }).describe('Total passenger seating capacity.').example(4),
+    luggage_capacity: s.integer({ min: 0 }).describe('Maximum number of luggage items the cab can hold.').example(3)
+});
+
+// ── Ride lifecycle ──
+
+export const GenerateOtpRequest = s.object({
+    trip_id: id('ID of the trip.')
+});
+
+export const OtpVerificationEntry = s.object({
+    user_id: id('ID of the user whose OTP is being verified.'),
+    otp: s.integer({ min: 100_000, max: 999_999 }).describe('The 6-digit OTP to verify.').example(482913)
+});
+
+export const StartRideRequest = s.object({
+    trip_id: id('ID of the trip to start.'),
+    verifications: s.array(OtpVerificationEntry, { minItems: 1 }).describe('OTP verification for each user in the trip.')
+});
+
+export const DropOffRequest = s.object({
+    trip_id: id('ID of the active trip.'),
+    user_id: id('Rider being dropped off — must be next in the drop sequence.')
+});
+
+export const CompleteRideRequest = s.object({
+    trip_id: id('ID of the active trip to complete.')
+});
+
+export const CancelRideRequest = s.object({
+    trip_id: id('ID of the trip to cancel from.')
+});
+
+export const CabLocationRequest = s.object({
+    trip_id: id('Trip whose cab to locate — the rider must be on it, or the driver assigned to it.')
+});
+
+export const EnRouteRequest = s.object({
+    trip_id: id('Trip assigned to the driver\'s cab, whose pickup bay the driver is heading to.')
+});
+
+// ── Ride details (shared by quotes and REGISTER_RIDE) ──
+
+const rideDetails = {
+    no_of_passengers: s.integer({ min: 1 }).describe('Number of passengers (including sender).'),
+    luggage: s.integer({ min: 0 }).describe('Number of luggage items.'),
+    latitude: latitude().describe('Destination latitude (WGS 84).'),
+    longitude: longitude().describe('Destination longitude (WGS 84).'),
+    airport_code: s.string({ minLength: 1, maxLength: 8 }).describe('Pickup airport (see `GET /airports`). Defaults to the configured default airport.').example('DEL').optional(),
+    terminal_code: s.string({ minLength: 1, maxLength: 8 }).describe('Pickup terminal at that airport. Defaults to the airport\'s first terminal.').example('T3').optional()
+};
+
+export const FareQuoteRequest = s.object(rideDetails);
+
+// ── Rider preferences (see src/rideMatching/preferences.ts) ──
+
+const coRiderAge = (description: string) => s.integer({ min: 1, max: 120 }).describe(description);
+
+export const RidePreferencesRequest = s.object({
+    women_only: s.boolean().describe('Pool only with women. Available to female riders only.').optional(),
+    max_co_riders: s.integer({ min: 0, max: 10 }).describe('At most this many other passengers in the cab.').example(1).optional(),
+    no_join_after_start: s.boolean().describe('No new riders join once a driver has accepted the trip.').optional(),
+    quiet_ride: s.boolean().describe('Pool only with riders who also asked for a quiet ride.').optional(),
+    min_co_rider_age: coRiderAge('Every co-rider at least this old.').optional(),
+    max_co_rider_age: coRiderAge('Every co-rider at most this old.').optional()
+});
+
+// ── Parties (see src/utils/parties.ts) ──
+
+const partyShare = {
+    no_of_passengers: s.integer({ min: 1 }).describe('Passengers travelling on this member\'s account (default 1).').example(2).optional(),
+    luggage: s.integer({ min: 0 }).describe('Luggage items travelling on this member\'s account (default 0).').example(1).optional()
+};
+
+export const CreatePartyRequest = s.object({
+    fare_split: s.enum(['EQUAL', 'PER_PASSENGER', 'LEADER_PAYS']).describe('How the party\'s fare is split between members: the same for each, in proportion to their passengers, or all on the leader (default `EQUAL`).').optional(),
+    ...partyShare
+});
+
+export const JoinPartyRequest = s.object({
+    code: s.string({ minLength: 6, maxLength: 6 }).describe('Join code shared by the party leader.').example('K7QM2X'),
+    ...partyShare
+});
+
+// ── Scheduled pickups (see src/utils/scheduledRides.ts) ──
+
+export const ScheduleRideRequest = s.object({
+    flight_number: s.string({ minLength: 3, maxLength: 10 }).describe('Arriving flight.').example('6E2134'),
+    scheduled_arrival: s.string({ format: 'date-time' }).describe('Scheduled arrival (ISO 8601), in the future and at most 30 days ahead.').example('2026-10-20T18:30:00+05:30'),
+    ...rideDetails
+});
+
+export const CancelScheduledRideRequest = s.object({
+    booking_id: id('ID of the scheduled ride to cancel.')
+});
+
+// ── Admin (see src/utils/adminOps.ts) ──
+
+const adminReason = () => s.string({ maxLength: 500 }).describe('Why the action was taken — kept in the admin action log.').optional();
+
+export const TripsByStatusRequest = s.object({
+    status: s.enum(['WAITING', 'ACTIVE', 'COMPLETED', 'CANCELLED']).describe('Trip status to list.'),
+    limit: s.integer({ min: 1, max: 500 }).describe('At most this many trips, newest first (default 100).').example(50).optional()
+});
+
+export const RemoveRiderRequest = s.object({
+    user_id: id('Rider to remove — from the trip they are waiting on, or from the pool while unmatched. Their party goes with them.'),
+    reason: adminReason()
+});
+
+export const DissolveTripRequest = s.object({
+    trip_id: id('Trip to cancel for every rider on it. Must not have started.'),
+    reason: adminReason()
+});
+
+export const AssignCabRequest = s.object({
+    trip_id: id('WAITING trip without a cab.'),
+    cab_id: id('AVAILABLE cab that fits the trip.'),
+    reason: adminReason()
+});
+
+// ── GeoJSON exports (see src/utils/geoExport.ts) ──
+
+export const RiderRouteRequest = s.object({
+    user_id: id('Rider whose route to export — admin tokens only; a rider always gets their own.').optional()
+});
+
+export const TripGeometryRequest = s.object({
+    trip_id: id('Trip to export — the rider must be on it, or the driver assigned to it (admins: any trip).')
+});
+
+export const PoolHeatmapRequest = s.object({
+    airport_code: s.string({ minLength: 1, maxLength: 8 }).describe('Airport whose pools to aggregate (see `GET /airports`).').example('DEL'),
+    resolution: s.integer({ min: 4, max: 8 }).describe('H3 resolution of the heatmap cells. Defaults to the route cells\' own (8); lower merges them into parent cells.').example(7).optional()
+});
+
+// ── WebSocket (client → server) ──
+
+export const RegisterRideMessage = s.object({
+    type: s.literal('REGISTER_RIDE'),
+    ...rideDetails,
+    quote_id: id('Quote from `POST /find-ride/quote` — locks its solo fare. Ride details must match the quote.').optional(),
+    max_wait_seconds: s.integer({ min: 60, max: 3600 }).describe('How long to wait for a co-rider before `on_timeout` applies. Defaults to `MATCH_MAX_WAIT_SECONDS`.').example(600).optional(),
+    on_timeout: s.enum(['SOLO_OFFER', 'WIDEN_DETOUR']).describe('After the max wait: `SOLO_OFFER` leaves the pool with an offer of a solo cab at the solo fare; `WIDEN_DETOUR` keeps matching with a longer detour for another max wait, then offers solo. Defaults to `MATCH_TIMEOUT_FALLBACK`.').optional(),
+    // Overrides for this ride only — omitted fields keep the saved preferences
+    preferences: RidePreferencesRequest.optional(),
+    party_id: id('Register for your whole party (`POST /party`) — leader only. `no_of_passengers` / `luggage` are then the leader\'s own share; the members\' are added.').optional()
+});
+
+export const AcceptSoloOfferMessage = s.object({
+    type: s.literal('ACCEPT_SOLO_OFFER'),
+    offer_id: id('Offer from the `SOLO_OFFER` message.')
+});
+
+export const DeclineSoloOfferMessage = s.object({
+    type: s.literal('DECLINE_SOLO_OFFER'),
+    offer_id: id('Offer from the `SOLO_OFFER` message.')
+});
+
+export const CheckInMessage = s.object({
+    type: s.literal('CHECK_IN'),
+    trip_id: id('Trip from `CAB_ASSIGNED` — the rider is at its pickup bay.')
+});
+
+export const PingMessage = s.object({
+    type: s.literal('PING')
+});
+
+export const ClientMessage = s.discriminatedUnion('type', [RegisterRideMessage, AcceptSoloOfferMessage, DeclineSoloOfferMessage, CheckInMessage, PingMessage]);
+
+// ── WebSocket (driver → server) ──
+
+export const AcceptTripMessage = s.object({
+    type: s.literal('ACCEPT_TRIP'),
+    trip_id: id('Trip from the pending `TRIP_OFFER`.')
+});
+
+export const DeclineTripMessage = s.object({
+    type: s.literal('DECLINE_TRIP'),
+    trip_id: id('Trip from the pending `TRIP_OFFER`.'),
+    reason: s.string({ maxLength: 200 }).describe('Optional free-text reason, logged only.').optional()
+});
+
+export const LocationUpdateMessage = s.object({
+    type: s.literal('LOCATION_UPDATE'),
+    latitude: latitude().example(28.5562),
+    longitude: longitude().example(77.1),
+    heading: s.number({ min: 0, max: 360 }).describe('Direction of travel, degrees clockwise from north.').optional(),
+    speed_kmph: s.number({ min: 0, max: 300 }).describe('Ground speed reported by the device.').optional(),
+    recorded_at: s.string({ format: 'date-time' }).describe('When the fix was taken (default: when received; a time in the future counts as when received). Pings older than the last stored one are dropped.').optional()
+});
+
+export const DriverClientMessage = s.discriminatedUnion('type', [AcceptTripMessage, DeclineTripMessage, LocationUpdateMessage, PingMessage]);
+
+export type LoginRequest = Infer<typeof LoginRequest>;
+export type StartRideRequest = Infer<typeof StartRideRequest>;
+export type FareQuoteRequest = Infer<typeof FareQuoteRequest>;
+export type RidePreferencesRequest = Infer<typeof RidePreferencesRequest>;
+export type CreatePartyRequest = Infer<typeof CreatePartyRequest>;
+export type JoinPartyRequest = Infer<typeof JoinPartyRequest>;
+export type ScheduleRideRequest = Infer<typeof ScheduleRideRequest>;
+export type TripsByStatusRequest = Infer<typeof TripsByStatusRequest>;
+export type PoolHeatmapRequest = Infer<typeof PoolHeatmapRequest>;
+export type LocationUpdateMessage = Infer<typeof LocationUpdateMessage>;
+export type RegisterRideMessage = Infer<typeof RegisterRideMessage>;
+export type ClientMessage = Infer<typeof ClientMessage>;
+export type DriverClientMessage = Infer<typeof DriverClientMessage>;
+
+/**
+ * Schemas rendered into openapi.yaml → components.schemas, by name.
+ */
+export const openApiSchemas = {
+    LoginRequest,
+    RefreshTokenRequest,
+    UserSignupRequest,
+    DriverSignupRequest,
+    CabSignupRequest,
+    GenerateOtpRequest,
+    StartRideRequest,
+    OtpVerificationEntry,
+    DropOffRequest,
+    CompleteRideRequest,
+    CancelRideRequest,
+    CabLocationRequest,
+    EnRouteRequest,
+    FareQuoteRequest,
+    RidePreferencesRequest,
+    CreatePartyRequest,
+    JoinPartyRequest,
+    ScheduleRideRequest,
+    CancelScheduledRideRequest,
+    TripsByStatusRequest,
+    RemoveRiderRequest,
+    DissolveTripRequest,
+    AssignCabRequest,
+    RiderRouteRequest,
+    TripGeometryRequest,
+    PoolHeatmapRequest,
+    RegisterRideMessage,
+    AcceptSoloOfferMessage,
+    DeclineSoloOfferMessage,
+    CheckInMessage,
+    PingMessage,
+    AcceptTripMessage,
+    DeclineTripMessage,
+    LocationUpdateMessage
+};
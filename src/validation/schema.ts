@@ -0,0 +1,366 @@
+/**
+ * schema.ts
+ *
+ * A tiny typed schema builder used to validate HTTP bodies and WebSocket
+ * messages. Each schema can:
+ *
+ *   - validate an unknown value and return a typed result or a list of
+ *     issues with field paths (e.g. `body.verifications[0].otp`)
+ *   - describe itself as JSON Schema, which is what `openapi.ts` uses to
+ *     generate the request / message schemas in openapi.yaml
+ *
+ * Usage:
+ *   const Body = s.object({ trip_id: s.string({ minLength: 1 }) })
+ *   const result = Body.safeParse(req.body, 'body')
+ *   type Body = Infer<typeof Body>
+ */
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type ParseResult<T> =
+    | { success: true; data: T; issues?: undefined }
+    | { success: false; data?: undefined; issues: ValidationIssue[] };
+
+export type JsonSchema = { [key: string]: unknown };
+
+/** Schemas that should be emitted as `$ref` instead of inline, by component name. */
+export type SchemaRefs = Map<Schema<any>, string>;
+
+function joinPath(base: string, key: string | number): string {
+    if (typeof key === 'number') return `${base}[${key}]`;
+    return base ? `${base}.${key}` : key;
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+export abstract class Schema<T> {
+    readonly isOptional: boolean = false;
+    protected description?: string;
+    protected exampleValue?: unknown;
+
+    /** Validate `value`, pushing issues; return the (possibly normalised) value. */
+    abstract check(value: unknown, path: string, issues: ValidationIssue[]): T;
+
+    /** JSON Schema for this node, without description / example. */
+    protected abstract jsonSchema(refs?: SchemaRefs): JsonSchema;
+
+    describe(description: string): this {
+        this.description = description;
+        return this;
+    }
+
+    example(value: T): this {
+        this.exampleValue = value;
+        return this;
+    }
+
+    optional(): OptionalSchema<T> {
+        return new OptionalSchema(this);
+    }
+
+    safeParse(value: unknown, path: string = ''): ParseResult<T> {
+        const issues: ValidationIssue[] = [];
+        const data = this.check(value, path, issues);
+        return issues.length === 0 ? { success: true, data } : { success: false, issues };
+    }
+
+    toJsonSchema(refs?: SchemaRefs): JsonSchema {
+        const ref = refs?.get(this);
+        if (ref) return { $ref: `#/components/schemas/${ref}` };
+
+        const { type, ...rest } = this.jsonSchema(refs);
+        return {
+            ...(type !== undefined ? { type } : {}),
+            ...(this.description ? { description: this.description } : {}),
+            ...rest,
+            ...(this.exampleValue !== undefined ? { example: this.exampleValue } : {})
+        };
+    }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// ── Primitives ──
+
+interface StringOptions {
+    minLength?: number;
+    maxLength?: number;
+    format?: 'email' | 'password' | 'date-time';
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class StringSchema extends Schema<string> {
+    constructor(private readonly options: StringOptions = {}) {
+        super();
+    }
+
+    check(value: unknown, path: string, issues: ValidationIssue[]): string {
+        if (typeof value !== 'string') {
+            issues.push({ path, message: `Expected string, received ${describeValue(value)}` });
+            return value as string;
+        }
+        const { minLength, maxLength, format } = this.options;
+        if (minLength !== undefined && value.length < minLength) {
+            issues.push({ path, message: minLength === 1 ? 'Must not be empty' : `Must be at least ${minLength} characters` });
+        }
+        if (maxLength !== undefined && value.length > maxLength) {
+            issues.push({ path, message: `Must be at most ${maxLength} characters` });
+        }
+        if (format === 'email' && !EMAIL_PATTERN.test(value)) {
+            issues.push({ path, message: 'Must be a valid email address' });
+        }
+        if (format === 'date-time' && Number.isNaN(Date.parse(value))) {
+            issues.push({ path, message: 'Must be an ISO 8601 date-time' });
+        }
+        return value;
+    }
+
+    protected jsonSchema(): JsonSchema {
+        const { minLength, maxLength, format } = this.options;
+        return {
+            type: 'string',
+            ...(format ? { format } : {}),
+            ...(minLength !== undefined ? { minLength } : {}),
+            ...(maxLength !== undefined ? { maxLength } : {})
+        };
+    }
+}
+
+interface NumberOptions {
+    integer?: boolean;
+    min?: number;
+    max?: number;
+}
+
+export class NumberSchema extends Schema<number> {
+    constructor(private readonly options: NumberOptions = {}) {
+        super();
+    }
+
+    check(value: unknown, path: string, issues: ValidationIssue[]): number {
+        const { integer, min, max } = this.options;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            issues.push({ path, message: `Expected ${integer ? 'integer' : 'number'}, received ${describeValue(value)}` });
+            return value as number;
+        }
+        if (integer && !Number.isInteger(value)) {
+            issues.push({ path, message: 'Expected integer' });
+        }
+        if (min !== undefined && value < min) {
+            issues.push({ path, message: `Must be >= ${min}` });
+        }
+        if (max !== undefined && value > max) {
+            issues.push({ path, message: `Must be <= ${max}` });
+        }
+        return value;
+    }
+
+    protected jsonSchema(): JsonSchema {
+        const { integer, min, max } = this.options;
+        return {
+            type: integer ? 'integer' : 'number',
+            ...(min !== undefined ? { minimum: min } : {}),
+            ...(max !== undefined ? { maximum: max } : {})
+        };
+    }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+    check(value: unknown, path: string, issues: ValidationIssue[]): boolean {
+        if (typeof value !== 'boolean') {
+            issues.push({ path, message: `Expected boolean, received ${describeValue(value)}` });
+        }
+        return value as boolean;
+    }
+
+    protected jsonSchema(): JsonSchema {
+        return { type: 'boolean' };
+    }
+}
+
+export class EnumSchema<const V extends string> extends Schema<V> {
+    constructor(readonly values: readonly V[]) {
+        super();
+    }
+
+    check(value: unknown, path: string, issues: ValidationIssue[]): V {
+        if (typeof value !== 'string' || !this.values.includes(value as V)) {
+            issues.push({ path, message: `Expected one of: ${this.values.join(', ')}` });
+        }
+        return value as V;
+    }
+
+    protected jsonSchema(): JsonSchema {
+        return { type: 'string', enum: [...this.values] };
+    }
+}
+
+// ── Composites ──
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+    override readonly isOptional = true as const;
+
+    constructor(readonly inner: Schema<T>) {
+        super();
+    }
+
+    check(value: unknown, path: string, issues: ValidationIssue[]): T | undefined {
+        if (value === undefined || value === null) return undefined;
+        return this.inner.check(value, path, issues);
+    }
+
+    protected jsonSchema(refs?: SchemaRefs): JsonSchema {
+        return this.inner.toJsonSchema(refs);
+    }
+}
+
+interface ArrayOptions {
+    minItems?: number;
+    maxItems?: number;
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+    constructor(readonly item: Schema<T>, private readonly options: ArrayOptions = {}) {
+        super();
+    }
+
+    check(value: unknown, path: string, issues: ValidationIssue[]): T[] {
+        if (!Array.isArray(value)) {
+            issues.push({ path, message: `Expected array, received ${describeValue(value)}` });
+            return value as T[];
+        }
+        const { minItems, maxItems } = this.options;
+        if (minItems !== undefined && value.length < minItems) {
+            issues.push({ path, message: `Must contain at least ${minItems} item(s)` });
+        }
+        if (maxItems !== undefined && value.length > maxItems) {
+            issues.push({ path, message: `Must contain at most ${maxItems} item(s)` });
+        }
+        return value.map((entry, i) => this.item.check(entry, joinPath(path, i), issues));
+    }
+
+    protected jsonSchema(refs?: SchemaRefs): JsonSchema {
+        const { minItems, maxItems } = this.options;
+        return {
+            type: 'array',
+            ...(minItems !== undefined ? { minItems } : {}),
+            ...(maxItems !== undefined ? { maxItems } : {}),
+            items: this.item.toJsonSchema(refs)
+        };
+    }
+}
+
+type Shape = Record<string, Schema<any>>;
+
+type InferShape<S extends Shape> =
+    { [K in keyof S as S[K] extends { isOptional: true } ? never : K]: Infer<S[K]> } &
+    { [K in keyof S as S[K] extends { isOptional: true } ? K : never]?: Infer<S[K]> };
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Object schema. Unknown keys are dropped from the parsed result so
+ * handlers only ever see declared fields.
+ */
+export class ObjectSchema<S extends Shape> extends Schema<Simplify<InferShape<S>>> {
+    constructor(readonly shape: S) {
+        super();
+    }
+
+    check(value: unknown, path: string, issues: ValidationIssue[]): Simplify<InferShape<S>> {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            issues.push({ path: path || '(root)', message: `Expected object, received ${describeValue(value)}` });
+            return value as Simplify<InferShape<S>>;
+        }
+
+        const input = value as Record<string, unknown>;
+        const output: Record<string, unknown> = {};
+
+        for (const [key, schema] of Object.entries(this.shape)) {
+            const fieldPath = joinPath(path, key);
+            if (input[key] === undefined && !schema.isOptional) {
+                issues.push({ path: fieldPath, message: 'Required' });
+                continue;
+            }
+            const parsed = schema.check(input[key], fieldPath, issues);
+            if (parsed !== undefined) output[key] = parsed;
+        }
+
+        return output as Simplify<InferShape<S>>;
+    }
+
+    protected jsonSchema(refs?: SchemaRefs): JsonSchema {
+        const required = Object.entries(this.shape)
+            .filter(([, schema]) => !schema.isOptional)
+            .map(([key]) => key);
+
+        return {
+            type: 'object',
+            ...(required.length > 0 ? { required } : {}),
+            properties: Object.fromEntries(
+                Object.entries(this.shape).map(([key, schema]) => [key, schema.toJsonSchema(refs)])
+            )
+        };
+    }
+}
+
+/**
+ * Union of object schemas told apart by a string literal field
+ * (WebSocket messages are discriminated by `type`).
+ */
+export class DiscriminatedUnionSchema<K extends string, O extends ObjectSchema<any>> extends Schema<Infer<O>> {
+    constructor(readonly discriminator: K, readonly options: Record<string, O>) {
+        super();
+    }
+
+    check(value: unknown, path: string, issues: ValidationIssue[]): Infer<O> {
+        const tag = typeof value === 'object' && value !== null
+            ? (value as Record<string, unknown>)[this.discriminator]
+            : undefined;
+        const option = typeof tag === 'string' ? this.options[tag] : undefined;
+
+        if (!option) {
+            issues.push({
+                path: joinPath(path, this.discriminator),
+                message: `Expected one of: ${Object.keys(this.options).join(', ')}`
+            });
+            return value as Infer<O>;
+        }
+        return option.check(value, path, issues) as Infer<O>;
+    }
+
+    protected jsonSchema(refs?: SchemaRefs): JsonSchema {
+        return { oneOf: Object.values(this.options).map((option) => option.toJsonSchema(refs)) };
+    }
+}
+
+// ── Builders ──
+
+export const s = {
+    string: (options?: StringOptions) => new StringSchema(options),
+    number: (options?: Omit<NumberOptions, 'integer'>) => new NumberSchema(options),
+    integer: (options?: Omit<NumberOptions, 'integer'>) => new NumberSchema({ ...options, integer: true }),
+    boolean: () => new BooleanSchema(),
+    enum: <const V extends string>(values: readonly V[]) => new EnumSchema<V>(values),
+    literal: <const V extends string>(value: V) => new EnumSchema<V>([value]),
+    array: <T>(item: Schema<T>, options?: ArrayOptions) => new ArraySchema(item, options),
+    object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+    discriminatedUnion: <K extends string, O extends ObjectSchema<any>>(discriminator: K, options: O[]) => {
+        const byTag: Record<string, O> = {};
+        for (const option of options) {
+            const tagSchema = option.shape[discriminator] as EnumSchema<string> | undefined;
+            const tag = tagSchema?.values[0];
+            if (!tag) throw new Error(`Union member is missing literal "${discriminator}"`);
+            byTag[tag] = option;
+        }
+        return new DiscriminatedUnionSchema(discriminator, byTag);
+    }
+};
@@ -10,6 +10,10 @@
 
 import { RedisPoolingService } from '../utils/redisCaching'
 import { pubSubService } from '../utils/pubsub'
+import { routeCache } from '../utils/routeCache'
+import { airportRegistry } from '../utils/airports'
+import { fareEngine } from '../pricing/fareEngine'
+import { fleetCapacity } from '../utils/fleet'
 
 // ── Per-worker Redis connection ──
 const workerRedisService = new RedisPoolingService()
@@ -23,8 +27,15 @@ async function initialize(): Promise<void> {
     // Each worker thread has its own PubSub singleton — must connect it
     // so that publish() calls inside redisCaching.ts have a live connection
     await pubSubService.connect()
+    // Route cache is a per-thread singleton too (detour distance lookups)
+    await routeCache.connect()
+    // Airport pools / capacity and fare rules (per-thread copies)
+    await airportRegistry.load()
+    await fareEngine.load()
+    // Cab types cap an assigned cab's capacity (fleet.ts capacityOf)
+    await fleetCapacity.load()
     isInitialized = true
-    console.log(`[Worker ${process.pid}] Initialized — Redis + PubSub connected`)
+    console.log(`[Worker ${process.pid}] Initialized — Redis + PubSub + route cache connected, airports + fare rules + cab types loaded`)
 }
 
 // ── Worker message handler ──
@@ -46,8 +57,8 @@ self.onmessage = async (event: MessageEvent) => {
                 // Store metadata in Redis
                 await workerRedisService.storePassengerMetaData(userId, userMetaData)
 
-                // Store route index in Redis sorted set
-                await workerRedisService.storeRouteH3Index(userId, routeIndexes)
+                // Store route index in the airport / terminal pool sorted set
+                await workerRedisService.storeRouteH3Index(userId, routeIndexes, userMetaData.pool_key)
 
                 // Perform the CPU-intensive matching
                 const result = await workerRedisService.matchUserWithAvaialbleTrip(
@@ -60,6 +71,19 @@ self.onmessage = async (event: MessageEvent) => {
                 break
             }
 
+            case 'REMATCH_RIDE': {
+                // Rider already in the pool (wait timed out, detour widened) —
+                // match again without re-inserting them
+                const { userId, routeIndexes, userMetaData } = payload
+                const result = await workerRedisService.matchUserWithAvaialbleTrip(
+                    userId,
+                    routeIndexes,
+                    userMetaData
+                )
+                postMessage({ taskId, result })
+                break
+            }
+
             case 'REMOVE_USER': {
                 const { userId } = payload
                 await workerRedisService.removeUserFromPool(userId)
@@ -68,8 +92,15 @@ self.onmessage = async (event: MessageEvent) => {
             }
 
             case 'REMOVE_USER_FROM_TRIP': {
-                const { userId } = payload
-                await workerRedisService.removeUserFromTripMetadata(userId)
+                const { userId, tripId } = payload
+                await workerRedisService.removeUserFromTripMetadata(userId, tripId)
+                postMessage({ taskId, result: { success: true } })
+                break
+            }
+
+            case 'REMOVE_TRIP': {
+                const { tripId } = payload
+                await workerRedisService.removeTrip(tripId)
                 postMessage({ taskId, result: { success: true } })
                 break
             }
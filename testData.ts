@@ -8,13 +8,17 @@
  *
  *  USAGE:
  *
- *  1. WebSocket (connect + send REGISTER_RIDE):
- *     → Connect:  ws://localhost:3001/ws?userId=user-001
- *     → Send:     { "type": "REGISTER_RIDE", "no_of_passengers": 1, "luggage": 1, "latitude": 28.6562, "longitude": 77.2410 }
+ *  1. Log in (POST /auth/login) and keep the access_token:
+ *     → POST http://localhost:3000/auth/login
+ *     → Body: { "email": "aarav.sharma@gmail.com", "password": "rider_password_1", "role": "user" }
  *
- *  2. HTTP (POST /find-ride/trips):
+ *  2. WebSocket (connect + send REGISTER_RIDE):
+ *     → Connect:  ws://localhost:3001/ws?token=<access_token>
+ *     → Send:     { "type": "REGISTER_RIDE", "no_of_passengers": 1, "luggage": 1, "latitude": 28.6562, "longitude": 77.2410, "airport_code": "DEL", "terminal_code": "T3" }
+ *
+ *  3. HTTP (POST /find-ride/trips):
  *     → POST http://localhost:3000/find-ride/trips
- *     → Body: { "user_id": "user-001" }
+ *     → Header: Authorization: Bearer <access_token>
  * ─────────────────────────────────────────────────────────────
  */
 
@@ -51,129 +55,364 @@ export const CABS = {
 } as const
 
 
+// ─────────────────────────────────────────────────────────────
+//  Login Payloads — POST /auth/login
+//
+//  Passwords match the plaintext credentials in prisma/seed.ts.
+// ─────────────────────────────────────────────────────────────
+
+export const LOGIN_PAYLOADS = {
+    AARAV: { email: 'aarav.sharma@gmail.com', password: 'rider_password_1', role: 'user' },
+    PRIYA: { email: 'priya.patel@gmail.com', password: 'rider_password_2', role: 'user' },
+    ROHAN: { email: 'rohan.gupta@gmail.com', password: 'rider_password_3', role: 'user' },
+    ANANYA: { email: 'ananya.singh@gmail.com', password: 'rider_password_4', role: 'user' },
+    VIKRAM: { email: 'vikram.reddy@gmail.com', password: 'rider_password_5', role: 'user' },
+    SNEHA: { email: 'sneha.iyer@gmail.com', password: 'rider_password_6', role: 'user' },
+    ARJUN: { email: 'arjun.mehta@gmail.com', password: 'rider_password_7', role: 'user' },
+    KAVYA: { email: 'kavya.nair@gmail.com', password: 'rider_password_8', role: 'user' },
+    RAHUL: { email: 'rahul.verma@gmail.com', password: 'rider_password_9', role: 'user' },
+    DIYA: { email: 'diya.choudhury@gmail.com', password: 'rider_password_10', role: 'user' },
+    DRIVER_RAJESH: { email: 'rajesh.driver@gmail.com', password: 'driver_password_1', role: 'driver' },
+    DRIVER_SURESH: { email: 'suresh.driver@gmail.com', password: 'driver_password_2', role: 'driver' },
+    ADMIN: { email: 'ops.admin@gmail.com', password: 'admin_password_1', role: 'admin' },
+} as const
+
+
 // ─────────────────────────────────────────────────────────────
 //  WebSocket Test Payloads — REGISTER_RIDE messages
 //
-//  Step 1: Connect → ws://localhost:3001/ws?userId=<user_id>
-//  Step 2: Send the JSON payload below as a message
+//  Step 1: Log in with LOGIN_PAYLOADS to obtain an access_token
+//  Step 2: Connect → ws://localhost:3001/ws?token=<access_token>
+//  Step 3: Send the JSON payload below as a message
 // ─────────────────────────────────────────────────────────────
 
 export const WS_TEST_PAYLOADS = [
     {
         _label: 'Aarav → Red Fort (Central Delhi)',
-        _connect: 'ws://localhost:3001/ws?userId=user-001',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-001>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 1,
             latitude: 28.6562,
             longitude: 77.2410,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
         },
     },
     {
         _label: 'Priya → India Gate (Central Delhi — similar route to Red Fort)',
-        _connect: 'ws://localhost:3001/ws?userId=user-002',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-002>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 1,
             latitude: 28.6129,
             longitude: 77.2295,
+            airport_code: 'DEL',
+            terminal_code: 'T2',   // T2 + T3 share a pool → can match Aarav
         },
     },
     {
         _label: 'Rohan → Connaught Place (Central Delhi)',
-        _connect: 'ws://localhost:3001/ws?userId=user-003',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-003>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 2,
             latitude: 28.6328,
             longitude: 77.2197,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
         },
     },
     {
         _label: 'Ananya → Qutub Minar (South Delhi)',
-        _connect: 'ws://localhost:3001/ws?userId=user-004',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-004>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 1,
             latitude: 28.5244,
             longitude: 77.1855,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
+            preferences: { women_only: true },  // only pooled with Diya, not Vikram
         },
     },
     {
         _label: 'Vikram → Lotus Temple (South Delhi — similar route to Qutub Minar)',
-        _connect: 'ws://localhost:3001/ws?userId=user-005',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-005>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 1,
             latitude: 28.5535,
             longitude: 77.2588,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
         },
     },
     {
         _label: 'Sneha → Akshardham Temple (East Delhi)',
-        _connect: 'ws://localhost:3001/ws?userId=user-006',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-006>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 2,
             luggage: 2,
             latitude: 28.6127,
             longitude: 77.2773,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
         },
     },
     {
         _label: 'Arjun → Jama Masjid (Old Delhi — similar route to Red Fort)',
-        _connect: 'ws://localhost:3001/ws?userId=user-007',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-007>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 1,
             latitude: 28.6507,
             longitude: 77.2334,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
         },
     },
     {
         _label: 'Kavya → Bangla Sahib Gurudwara (Central Delhi)',
-        _connect: 'ws://localhost:3001/ws?userId=user-008',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-008>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 1,
             latitude: 28.6296,
             longitude: 77.2114,
+            airport_code: 'DEL',
+            terminal_code: 'T1',   // T1 has its own pool → never matched with T2/T3
+            max_wait_seconds: 60,  // alone in T1's pool → MATCH_TIMEOUT + SOLO_OFFER after a minute
+            on_timeout: 'SOLO_OFFER',
         },
     },
     {
         _label: 'Rahul → Safdarjung Tomb (South-Central Delhi)',
-        _connect: 'ws://localhost:3001/ws?userId=user-009',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-009>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 2,
             latitude: 28.5893,
             longitude: 77.2106,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
         },
     },
     {
         _label: 'Diya → Chattarpur Mandir (Far South Delhi)',
-        _connect: 'ws://localhost:3001/ws?userId=user-010',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-010>',
         payload: {
             type: 'REGISTER_RIDE',
             no_of_passengers: 1,
             luggage: 1,
             latitude: 28.5083,
             longitude: 77.1724,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
+        },
+    },
+]
+
+
+// ─────────────────────────────────────────────────────────────
+//  Driver WebSocket Payloads — answering a TRIP_OFFER
+//
+//  Connect with a driver token before the riders match; replace
+//  <trip_id> with the id from the TRIP_OFFER message.
+// ─────────────────────────────────────────────────────────────
+
+export const DRIVER_WS_TEST_PAYLOADS = [
+    {
+        _label: 'Rajesh accepts the offer',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of driver-001>',
+        payload: { type: 'ACCEPT_TRIP', trip_id: '<trip_id>' },
+    },
+    {
+        _label: 'Suresh declines the offer (next cab is tried)',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of driver-002>',
+        payload: { type: 'DECLINE_TRIP', trip_id: '<trip_id>', reason: 'Going off shift' },
+    },
+]
+
+
+// ─────────────────────────────────────────────────────────────
+//  Boarding Payloads — checking in at the pickup bay
+//
+//  Sent from the riders' sockets after CAB_ASSIGNED, before its
+//  boarding_deadline. Riders who never check in are removed as
+//  no-shows.
+// ─────────────────────────────────────────────────────────────
+
+export const CHECK_IN_PAYLOADS = [
+    { _label: 'Aarav is at the bay', user_id: 'user-001', payload: { type: 'CHECK_IN', trip_id: '<trip_id>' } },
+    { _label: 'Priya is at the bay', user_id: 'user-002', payload: { type: 'CHECK_IN', trip_id: '<trip_id>' } },
+]
+
+
+// ─────────────────────────────────────────────────────────────
+//  Driver Location Payloads — GPS fixes over the driver socket
+//
+//  Sent from the driver's socket; the riders of the cab's trip get
+//  CAB_LOCATION / ETA_UPDATE. fixtures/gps/ has whole traces to
+//  replay with `bun run replay:gps`.
+// ─────────────────────────────────────────────────────────────
+
+export const LOCATION_UPDATE_PAYLOADS = [
+    { _label: 'Leaving the T3 forecourt', driver_id: 'driver-001', payload: { type: 'LOCATION_UPDATE', latitude: 28.5562, longitude: 77.1, heading: 107, speed_kmph: 20 } },
+    { _label: 'On NH48 past Aerocity', driver_id: 'driver-001', payload: { type: 'LOCATION_UPDATE', latitude: 28.559, longitude: 77.133, heading: 35, speed_kmph: 55 } },
+    { _label: 'Nearing Connaught Place', driver_id: 'driver-001', payload: { type: 'LOCATION_UPDATE', latitude: 28.6315, longitude: 77.2167, heading: 44, speed_kmph: 0 } },
+]
+
+
+// ─────────────────────────────────────────────────────────────
+//  HTTP Test Payloads — /driver (driver token)
+//
+//  A driver's shift in order. Seeded cabs start OFFLINE, so go
+//  online before expecting TRIP_OFFERs. GET /driver/status shows
+//  the resulting shift and status history.
+// ─────────────────────────────────────────────────────────────
+
+export const DRIVER_AVAILABILITY_STEPS = [
+    { _label: 'Start the shift (OFFLINE → AVAILABLE)', driver_id: 'driver-001', path: '/driver/online' },
+    { _label: 'Take a break (AVAILABLE → BREAK)', driver_id: 'driver-001', path: '/driver/break' },
+    { _label: 'Back from the break (BREAK → AVAILABLE)', driver_id: 'driver-001', path: '/driver/online' },
+    { _label: 'Heading to the bay after ACCEPT_TRIP (ASSIGNED → EN_ROUTE)', driver_id: 'driver-001', path: '/driver/en-route', body: { trip_id: '<trip_id from TRIP_ASSIGNED>' } },
+    { _label: 'End the shift once the trip is completed (AVAILABLE → OFFLINE)', driver_id: 'driver-001', path: '/driver/offline' },
+]
+
+
+// ─────────────────────────────────────────────────────────────
+//  HTTP Test Payloads — /admin (admin token)
+//
+//  Log in with LOGIN_PAYLOADS.ADMIN. Inspect first, then act on
+//  the ids it shows; every action lands in GET /admin/actions.
+// ─────────────────────────────────────────────────────────────
+
+export const ADMIN_STEPS = [
+    { _label: 'Pool members with decoded routes', method: 'GET', path: '/admin/pool' },
+    { _label: 'Open TRIP keys and their riders', method: 'GET', path: '/admin/redis-trips' },
+    { _label: 'Waiting trips in Postgres', method: 'POST', path: '/admin/trips', body: { status: 'WAITING' } },
+    { _label: 'Every cab with its status and position', method: 'GET', path: '/admin/cabs' },
+    { _label: 'Take a stuck rider out of the pool or their trip', method: 'POST', path: '/admin/remove-rider', body: { user_id: 'user-001', reason: 'Rider called support — flight diverted' } },
+    { _label: 'Hand a waiting trip to a free cab', method: 'POST', path: '/admin/assign-cab', body: { trip_id: '<trip_id from /admin/trips>', cab_id: '<AVAILABLE cab_id from /admin/cabs>', reason: 'Offers keep expiring' } },
+    { _label: 'Dissolve a trip', method: 'POST', path: '/admin/dissolve-trip', body: { trip_id: '<trip_id from /admin/trips>', reason: 'Duplicate booking' } },
+    { _label: 'What was done, by whom', method: 'GET', path: '/admin/actions' },
+]
+
+
+// ─────────────────────────────────────────────────────────────
+//  HTTP Test Payloads — /geo (GeoJSON, paste into geojson.io)
+//
+//  Riders get their own route and trips; the pool heatmap and
+//  other riders' routes need LOGIN_PAYLOADS.ADMIN.
+// ─────────────────────────────────────────────────────────────
+
+export const GEO_EXPORT_PAYLOADS = [
+    { _label: 'Aarav\'s route hexagons (after REGISTER_RIDE)', user_id: 'user-001', path: '/geo/rider-route', body: {} },
+    { _label: 'Any rider\'s route (admin token)', path: '/geo/rider-route', body: { user_id: 'user-002' } },
+    { _label: 'Routes, split point and drive path of a matched trip', user_id: 'user-001', path: '/geo/trip', body: { trip_id: '<trip_id from RIDE_MATCHED>' } },
+    { _label: 'DEL pool heatmap at the route resolution (admin token)', path: '/geo/pool-heatmap', body: { airport_code: 'DEL' } },
+    { _label: 'DEL pool heatmap, coarser cells (admin token)', path: '/geo/pool-heatmap', body: { airport_code: 'DEL', resolution: 7 } },
+]
+
+
+// ─────────────────────────────────────────────────────────────
+//  HTTP Test Payloads — POST /find-ride/quote
+//
+//  Same ride details as REGISTER_RIDE (no `type`). Add the returned
+//  quote_id to the REGISTER_RIDE payload to lock the quoted fare.
+// ─────────────────────────────────────────────────────────────
+
+export const HTTP_QUOTE_PAYLOADS = [
+    {
+        _label: 'Quote for Aarav → Red Fort',
+        user_id: 'user-001',
+        body: { no_of_passengers: 1, luggage: 1, latitude: 28.6562, longitude: 77.2410, airport_code: 'DEL', terminal_code: 'T3' },
+        register: { type: 'REGISTER_RIDE', no_of_passengers: 1, luggage: 1, latitude: 28.6562, longitude: 77.2410, airport_code: 'DEL', terminal_code: 'T3', quote_id: '<quote_id>' },
+    },
+    {
+        _label: 'Quote for a party of 3 (fills DEL pooling limit — no shared range)',
+        user_id: 'user-005',
+        body: { no_of_passengers: 3, luggage: 3, latitude: 28.5245, longitude: 77.1855, airport_code: 'DEL', terminal_code: 'T3' },
+    },
+]
+
+
+// ─────────────────────────────────────────────────────────────
+//  Party Payloads — travelling as a group
+//
+//  The leader creates the party, the others join with its code,
+//  then the leader's REGISTER_RIDE carries the party id (from the
+//  create response). Every member's socket receives the match.
+// ─────────────────────────────────────────────────────────────
+
+export const PARTY_PAYLOADS = {
+    create: {
+        _label: 'Kavya creates a party of 2, fares split per passenger',
+        user_id: 'user-008',
+        body: { fare_split: 'PER_PASSENGER', no_of_passengers: 2, luggage: 2 },
+    },
+    join: [
+        { _label: 'Rahul joins with one bag', user_id: 'user-009', body: { code: '<code>', no_of_passengers: 1, luggage: 1 } },
+    ],
+    register: {
+        _label: 'Kavya registers the party (3 passengers / 3 bags) → India Gate',
+        _connect: 'ws://localhost:3001/ws?token=<access_token of user-008>',
+        payload: {
+            type: 'REGISTER_RIDE',
+            no_of_passengers: 2,
+            luggage: 2,
+            latitude: 28.6129,
+            longitude: 77.2295,
+            airport_code: 'DEL',
+            terminal_code: 'T3',
+            party_id: '<party_id>',
         },
     },
+}
+
+
+// ─────────────────────────────────────────────────────────────
+//  Scheduled Pickup Payloads — POST /scheduled-rides
+//
+//  Flights and delays come from fixtures/flights.json. Vikram and
+//  Sneha land within the arrival window heading the same way, so
+//  they are pre-matched and released together; SG8169 is cancelled.
+// ─────────────────────────────────────────────────────────────
+
+export const SCHEDULED_RIDE_PAYLOADS = [
+    {
+        _label: 'Vikram on AI101 (on time) → Connaught Place',
+        user_id: 'user-005',
+        body: { flight_number: 'AI101', scheduled_arrival: '<now + 2h, ISO 8601>', no_of_passengers: 1, luggage: 1, latitude: 28.6315, longitude: 77.2167, airport_code: 'DEL', terminal_code: 'T3' },
+    },
+    {
+        _label: 'Sneha on UK955 (20 min late) → Connaught Place',
+        user_id: 'user-006',
+        body: { flight_number: 'UK955', scheduled_arrival: '<now + 2h, ISO 8601>', no_of_passengers: 1, luggage: 2, latitude: 28.6304, longitude: 77.2177, airport_code: 'DEL', terminal_code: 'T3' },
+    },
+    {
+        _label: 'Arjun on SG8169 — rejected, the flight is cancelled',
+        user_id: 'user-007',
+        body: { flight_number: 'SG8169', scheduled_arrival: '<now + 2h, ISO 8601>', no_of_passengers: 1, luggage: 0, latitude: 28.5355, longitude: 77.3910 },
+    },
 ]
 
 
 // ─────────────────────────────────────────────────────────────
 //  HTTP Test Payloads — POST /find-ride/trips
+//
+//  The user is taken from the Bearer token; `user_id` here only
+//  tells you whose token to send.
 // ─────────────────────────────────────────────────────────────
 
 export const HTTP_TRIPS_PAYLOADS = [
@@ -211,4 +450,9 @@ export const LIKELY_MATCH_PAIRS = {
         users: ['user-004', 'user-010'],
         note: 'Both south of airport — similar initial route',
     },
+    separate_pools: {
+        description: 'DEL T1 vs T3 — Bangla Sahib (T1) / Connaught Place (T3)',
+        users: ['user-008', 'user-003'],
+        note: 'Terminals in different pool groups — never matched, even with close destinations',
+    },
 }